@@ -1,16 +1,49 @@
-import { Anime } from './models/Anime';
+import { Anime, AnimeCompany, AnimeQuery, AnimeQueryResult, RelationType } from './models/Anime';
 import { Episode, AnimeSeason } from './models/Episode';
-import { DataSource } from './types/common';
+import { Character, StaffCredit, StaffMember, Studio, StudioRole } from './models/People';
+import { ExternalId, SourceId } from './types/common';
 import { MyAnimeListProvider, AniListProvider, KitsuProvider } from './providers';
 import { JikanProvider } from './providers/JikanProvider';
+import {
+  IAnimeProvider,
+  ProviderCapabilities,
+  ProviderRegistration,
+  ProviderRegistrationOptions,
+} from './providers/BaseProvider';
 import { AnimeUnificationService, UnificationOptions } from './services/AnimeUnificationService';
-import { InMemoryAnimeRepository } from './repositories/AnimeRepository';
+import { IdMappingDatabase } from './services/IdMappingDatabase';
+import { RelationGraph, FranchiseOptions, RelatedAnime } from './services/RelationGraph';
+import { SeasonDetector, SeasonDetectorOptions } from './services/SeasonDetector';
+import { PeopleUnifier } from './services/PeopleUnifier';
+import { StudioUnifier } from './services/StudioUnifier';
+import { IAnimeRepository } from './repositories/AnimeRepository';
 import { Logger } from './utils/logger';
 import { NyaaService, NyaaServiceOptions } from './services/NyaaService';
-import { InMemoryTorrentRepository } from './repositories/TorrentRepository';
-import { InMemoryEpisodeRepository, InMemorySeasonRepository } from './repositories/EpisodeRepository';
-import { Torrent, TorrentSearchFilter, TorrentStats } from './models/Torrent';
-import { v4 as uuidv4 } from 'uuid';
+import { ReleaseGroupPreferences } from './services/ReleaseGroupRegistry';
+import { ITorrentRepository } from './repositories/TorrentRepository';
+import { IEpisodeRepository, ISeasonRepository } from './repositories/EpisodeRepository';
+import { ICharacterRepository, IStaffRepository } from './repositories/PeopleRepository';
+import { IStudioRepository } from './repositories/StudioRepository';
+import {
+  RepositoryConfig,
+  Repositories,
+  createRepositories,
+} from './repositories/RepositoryFactory';
+import {
+  ReleaseGroup,
+  ReleaseGroupPreference,
+  Torrent,
+  TorrentQuality,
+  TorrentSearchFilter,
+  TorrentStats,
+} from './models/Torrent';
+import { sortByAggregateScore } from './utils/ratings';
+import { queryAnime } from './utils/animeQuery';
+import { matchReleaseEpisodes } from './utils/episodeNumbering';
+import { TitleMatch, TitleSearchOptions, rankByTitle } from './utils/titleSearch';
+import { ScoredTorrent, TorrentScoringProfile } from './utils/torrentScoring';
+import { NotFoundError } from './utils/errors';
+import { generateId } from './utils/helpers';
 
 /**
  * Configuration options for MiauIndex
@@ -47,6 +80,50 @@ export interface MiauIndexConfig {
    */
   enableLogging?: boolean;
 
+  /**
+   * Storage backend for anime, episodes, seasons, torrents, characters, staff and studios
+   * Default: in-memory (data is lost on restart)
+   */
+  repository?: RepositoryConfig;
+
+  /**
+   * Custom repository implementations, used instead of the ones built from `repository`
+   *
+   * @example
+   * ```typescript
+   * new MiauIndex({ repositories: { anime: new PostgresAnimeRepository(pool) } });
+   * ```
+   */
+  repositories?: Partial<Repositories>;
+
+  /**
+   * Additional providers, registered after the built-in ones
+   * A provider replaces the built-in provider for the same source
+   *
+   * @example
+   * ```typescript
+   * providers: [new MyProvider(), { provider: new InHouseProvider(), priority: 50 }]
+   * ```
+   */
+  providers?: Array<IAnimeProvider | ProviderRegistration>;
+
+  /**
+   * Offline ID cross-reference table used by `fetchAnime` with a single external ID
+   *
+   * @example
+   * ```typescript
+   * const idMappings = new IdMappingDatabase();
+   * idMappings.loadFile('./data/anime-offline-database.json');
+   * new MiauIndex({ idMappings });
+   * ```
+   */
+  idMappings?: IdMappingDatabase;
+
+  /**
+   * OPTIONAL: Broadcast gap and minimum size used to split episodes into seasons
+   */
+  seasonDetection?: SeasonDetectorOptions;
+
   /**
    * OPTIONAL: Enable Nyaa torrent indexing extension
    * Requires @kitsuneislife/nyaa package to be installed
@@ -59,30 +136,103 @@ export interface MiauIndexConfig {
   nyaaOptions?: NyaaServiceOptions;
 }
 
+/**
+ * Options for listing anime from the local repository
+ */
+export interface LocalQueryOptions {
+  /**
+   * Sort results by vote-weighted aggregate score (highest first)
+   */
+  sortBy?: 'aggregateScore';
+}
+
+/**
+ * Options for studio queries
+ */
+export interface StudioQueryOptions {
+  /**
+   * Only count credits with these roles (default: all roles)
+   */
+  roles?: StudioRole[];
+}
+
+/**
+ * An anime in a studio's filmography, with the studio's roles on it
+ */
+export interface StudioFilmographyEntry {
+  anime: Anime;
+  roles: StudioRole[];
+}
+
+/**
+ * A studio credited on the same anime as another studio
+ */
+export interface CoProduction {
+  studio: Studio;
+  animeIds: string[]; // Shared anime, in the order they were credited
+}
+
+/**
+ * A registered provider with its resolved options
+ */
+interface RegisteredProvider {
+  provider: IAnimeProvider;
+  priority: number;
+  capabilities: ProviderCapabilities;
+}
+
 /**
  * Main class for the Miau-Index anime indexer
  * Provides a unified interface to fetch and search anime from multiple sources
  */
 export class MiauIndex {
   private unificationService: AnimeUnificationService;
-  private repository: InMemoryAnimeRepository;
-  private episodeRepository: InMemoryEpisodeRepository;
-  private seasonRepository: InMemorySeasonRepository;
-  private providers: Map<DataSource, any> = new Map();
+  private repository: IAnimeRepository;
+  private episodeRepository: IEpisodeRepository;
+  private seasonRepository: ISeasonRepository;
+  private characterRepository: ICharacterRepository;
+  private staffRepository: IStaffRepository;
+  private studioRepository: IStudioRepository;
+  private providers: Map<SourceId, RegisteredProvider> = new Map();
+  private hasExplicitPreferredSources: boolean;
   private logger: Logger;
   private config: MiauIndexConfig;
 
   // OPTIONAL: Nyaa torrent indexing extension
   private nyaaService?: NyaaService;
-  private torrentRepository?: InMemoryTorrentRepository;
+  private torrentRepository?: ITorrentRepository;
+  private storage: Repositories;
+  private idMappings: IdMappingDatabase;
+  private relationGraph: RelationGraph;
+  private seasonDetector: SeasonDetector;
+  private peopleUnifier: PeopleUnifier;
+  private studioUnifier: StudioUnifier;
 
   constructor(config: MiauIndexConfig = {}) {
     this.config = config;
+    this.hasExplicitPreferredSources = !!config.unificationOptions?.preferredSources;
     this.logger = new Logger('MiauIndex');
-    this.repository = new InMemoryAnimeRepository();
-    this.episodeRepository = new InMemoryEpisodeRepository();
-    this.seasonRepository = new InMemorySeasonRepository();
+    this.storage = { ...createRepositories(config.repository), ...config.repositories };
+    this.repository = this.storage.anime;
+    this.episodeRepository = this.storage.episodes;
+    this.seasonRepository = this.storage.seasons;
+    this.characterRepository = this.storage.characters;
+    this.staffRepository = this.storage.staff;
+    this.studioRepository = this.storage.studios;
     this.unificationService = new AnimeUnificationService(this.repository);
+    this.idMappings = config.idMappings ?? new IdMappingDatabase();
+    this.seasonDetector = new SeasonDetector(config.seasonDetection);
+    this.peopleUnifier = new PeopleUnifier();
+    this.studioUnifier = new StudioUnifier();
+    this.relationGraph = new RelationGraph(this.repository, (externalId) =>
+      this.fetchAnime(externalId).catch((error) => {
+        this.logger.warn(
+          `Failed to fetch related anime ${externalId.source}:${externalId.id}:`,
+          error
+        );
+        return null;
+      })
+    );
 
     // Initialize providers based on configuration
     this.initializeProviders();
@@ -102,83 +252,151 @@ export class MiauIndex {
 
   /**
    * Initialize data providers based on configuration
-   * Open sources (AniList, Kitsu) are prioritized and initialized first
+   * Open sources (AniList, Kitsu) are prioritized unless `preferOpenSources` is false
    */
   private initializeProviders(): void {
     const { enabledProviders = {}, malApiKey, preferOpenSources = true } = this.config;
-    const preferredSources: DataSource[] = [];
+    const priorities = preferOpenSources
+      ? { aniList: 30, kitsu: 20, myAnimeList: 10 }
+      : { myAnimeList: 30, aniList: 20, kitsu: 10 };
 
-    // PRIORITY 1: AniList provider (no API key required - OPEN SOURCE)
+    // AniList provider (no API key required - OPEN SOURCE)
     if (enabledProviders.aniList !== false) {
-      const aniListProvider = new AniListProvider();
-      this.providers.set(DataSource.ANILIST, aniListProvider);
-      this.unificationService.registerProvider(aniListProvider);
-      if (preferOpenSources) {
-        preferredSources.push(DataSource.ANILIST);
-      }
+      this.registerProvider(new AniListProvider(), { priority: priorities.aniList });
       if (this.config.enableLogging) {
         this.logger.info('✓ AniList provider initialized (open source, no API key required)');
       }
     }
 
-    // PRIORITY 2: Kitsu provider (no API key required - OPEN SOURCE)
+    // Kitsu provider (no API key required - OPEN SOURCE)
     if (enabledProviders.kitsu !== false) {
-      const kitsuProvider = new KitsuProvider();
-      this.providers.set(DataSource.KITSU, kitsuProvider);
-      this.unificationService.registerProvider(kitsuProvider);
-      if (preferOpenSources) {
-        preferredSources.push(DataSource.KITSU);
-      }
+      this.registerProvider(new KitsuProvider(), { priority: priorities.kitsu });
       if (this.config.enableLogging) {
         this.logger.info('✓ Kitsu provider initialized (open source, no API key required)');
       }
     }
 
-    // PRIORITY 2.5: Jikan provider (no API key required - unofficial MAL scraper)
-    const jikanProvider = new JikanProvider();
-    this.providers.set(DataSource.MYANIMELIST, jikanProvider);
-    this.unificationService.registerProvider(jikanProvider);
-    if (preferOpenSources) {
-      preferredSources.push(DataSource.MYANIMELIST);
-    }
-    if (this.config.enableLogging) {
-      this.logger.info('✓ Jikan provider initialized (unofficial MAL, no API key required)');
-    }
-
-    // PRIORITY 3: MyAnimeList provider (requires API key - OPTIONAL, overrides Jikan)
+    // MyAnimeList: official provider (requires API key - OPTIONAL), otherwise Jikan (unofficial scraper)
     if (enabledProviders.myAnimeList !== false && malApiKey) {
-      const malProvider = new MyAnimeListProvider(malApiKey);
-      this.providers.set(DataSource.MYANIMELIST, malProvider); // Overrides Jikan
-      this.unificationService.registerProvider(malProvider);
-      if (!preferOpenSources) {
-        // Replace Jikan with official MAL if user wants closed sources
-        const jikanIndex = preferredSources.indexOf(DataSource.MYANIMELIST);
-        if (jikanIndex === -1) {
-          preferredSources.push(DataSource.MYANIMELIST);
-        }
-      }
+      this.registerProvider(new MyAnimeListProvider(malApiKey), {
+        priority: priorities.myAnimeList,
+      });
       if (this.config.enableLogging) {
         this.logger.info('✓ MyAnimeList provider initialized (official, replaces Jikan)');
       }
-    } else if (enabledProviders.myAnimeList !== false && !malApiKey) {
+    } else {
+      this.registerProvider(new JikanProvider(), { priority: priorities.myAnimeList });
       if (this.config.enableLogging) {
-        this.logger.info(
-          'ℹ MyAnimeList API key not provided - using Jikan (unofficial MAL scraper) instead'
-        );
+        this.logger.info('✓ Jikan provider initialized (unofficial MAL, no API key required)');
+        if (enabledProviders.myAnimeList !== false) {
+          this.logger.info(
+            'ℹ MyAnimeList API key not provided - using Jikan (unofficial MAL scraper) instead'
+          );
+        }
       }
     }
 
-    // Set preferred sources for unification
-    if (preferredSources.length > 0) {
-      this.config.unificationOptions = {
-        ...this.config.unificationOptions,
-        preferredSources,
-      };
+    // Custom providers (replace built-in providers for the same source)
+    for (const entry of this.config.providers || []) {
+      const { provider, ...options } = 'provider' in entry ? entry : { provider: entry };
+      this.registerProvider(provider, options);
+      if (this.config.enableLogging) {
+        this.logger.info(`✓ Custom ${provider.getSource()} provider registered`);
+      }
+    }
+  }
+
+  /**
+   * Register a provider for search, seasonal listings, episodes and unification
+   * A provider replaces any provider registered for the same source
+   *
+   * @example
+   * ```typescript
+   * miauIndex.registerProvider(new InHouseProvider(), {
+   *   priority: 50,
+   *   capabilities: { seasonal: false },
+   * });
+   * ```
+   */
+  registerProvider(provider: IAnimeProvider, options: ProviderRegistrationOptions = {}): void {
+    this.providers.set(provider.getSource(), {
+      provider,
+      priority: options.priority ?? 0,
+      capabilities: {
+        search: true,
+        seasonal: true,
+        episodes: typeof provider.fetchEpisodes === 'function',
+        people:
+          typeof provider.fetchCharacters === 'function' ||
+          typeof provider.fetchStaff === 'function',
+        ...options.capabilities,
+      },
+    });
+    this.unificationService.registerProvider(provider);
+    this.updatePreferredSources();
+  }
+
+  /**
+   * Remove the provider registered for a source
+   */
+  unregisterProvider(source: SourceId): boolean {
+    const removed = this.providers.delete(source);
+    if (removed) {
+      this.unificationService.unregisterProvider(source);
+      this.updatePreferredSources();
     }
+    return removed;
+  }
+
+  /**
+   * Registered providers, highest priority first
+   */
+  getProviders(): Array<{
+    source: SourceId;
+    priority: number;
+    capabilities: ProviderCapabilities;
+  }> {
+    return this.getRegisteredProviders().map(({ provider, priority, capabilities }) => ({
+      source: provider.getSource(),
+      priority,
+      capabilities: { ...capabilities },
+    }));
+  }
+
+  /**
+   * Offline ID cross-reference table used to resolve single external IDs
+   */
+  getIdMappings(): IdMappingDatabase {
+    return this.idMappings;
+  }
+
+  /**
+   * Registered providers sorted by priority, optionally limited to a capability
+   */
+  private getRegisteredProviders(capability?: keyof ProviderCapabilities): RegisteredProvider[] {
+    return Array.from(this.providers.values())
+      .filter((entry) => !capability || entry.capabilities[capability])
+      .sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Derive unification preferred sources from provider priorities
+   * (explicit user configuration wins)
+   */
+  private updatePreferredSources(): void {
+    if (this.hasExplicitPreferredSources) return;
+
+    this.config.unificationOptions = {
+      ...this.config.unificationOptions,
+      preferredSources: this.getRegisteredProviders().map((entry) => entry.provider.getSource()),
+    };
   }
 
   /**
    * Fetch and unify anime data from multiple sources
+   * A single external ID is resolved to the IDs of the other sources through the ID mappings;
+   * mapped show-wide IDs (TMDB TV shows, TVDB, IMDb) are stored but not fetched, since they
+   * cover every season of the show
    *
    * @example
    * ```typescript
@@ -186,16 +404,40 @@ export class MiauIndex {
    *   { source: DataSource.MYANIMELIST, id: '5114' },
    *   { source: DataSource.ANILIST, id: '5114' }
    * ]);
+   *
+   * const sameAnime = await miauIndex.fetchAnime({ source: DataSource.MYANIMELIST, id: '5114' });
    * ```
    */
   async fetchAnime(
-    externalIds: Array<{ source: DataSource; id: string }>,
+    externalIds: ExternalId | Array<{ source: SourceId; id: string }>,
     options?: UnificationOptions
   ): Promise<Anime> {
-    this.logger.info(`Fetching anime from ${externalIds.length} sources...`);
+    const resolvedIds = Array.isArray(externalIds)
+      ? externalIds
+      : this.idMappings.resolve(externalIds);
+    const fetchIds = Array.isArray(externalIds)
+      ? externalIds
+      : resolvedIds.filter((id, index) => index === 0 || !this.idMappings.isShowWide(id));
+
+    this.logger.info(`Fetching anime from ${fetchIds.length} sources...`);
 
     const mergedOptions = { ...this.config.unificationOptions, ...options };
-    const anime = await this.unificationService.fetchAndUnify(externalIds, mergedOptions);
+    let anime = await this.unificationService.fetchAndUnify(fetchIds, mergedOptions);
+
+    // Keep mapped IDs that were not fetched (show-wide IDs, sources without a provider)
+    if (!Array.isArray(externalIds)) {
+      const missingIds = resolvedIds.filter(
+        (mapped) => !anime.externalIds.some((known) => known.source === mapped.source)
+      );
+      if (missingIds.length > 0) {
+        anime = await this.repository.save({
+          ...anime,
+          externalIds: [...anime.externalIds, ...missingIds],
+        });
+      }
+    }
+
+    anime = await this.indexStudios(anime);
 
     this.logger.info(
       `Successfully fetched and unified anime: ${anime.title.romaji || anime.title.english}`
@@ -215,7 +457,7 @@ export class MiauIndex {
   async searchAnime(query: string, limit: number = 10): Promise<Anime[]> {
     this.logger.info(`Searching for anime: "${query}" (limit: ${limit})`);
 
-    const searchPromises = Array.from(this.providers.values()).map(async (provider) => {
+    const searchPromises = this.getRegisteredProviders('search').map(async ({ provider }) => {
       try {
         return await provider.searchAnime(query, limit);
       } catch (error) {
@@ -246,7 +488,7 @@ export class MiauIndex {
   async getSeasonalAnime(year: number, season: string): Promise<Anime[]> {
     this.logger.info(`Fetching seasonal anime: ${season} ${year}`);
 
-    const seasonPromises = Array.from(this.providers.values()).map(async (provider) => {
+    const seasonPromises = this.getRegisteredProviders('seasonal').map(async ({ provider }) => {
       try {
         return await provider.getSeasonalAnime(year, season);
       } catch (error) {
@@ -267,42 +509,564 @@ export class MiauIndex {
   }
 
   /**
-   * Search in the local repository
+   * Search in the local repository by title, or with a structured query
+   * Titles match fuzzily, best match first (see `searchLocalRanked`); structured queries filter, sort and return one page with the total count and a cursor
    *
    * @example
    * ```typescript
    * const localResults = await miauIndex.searchLocal('Naruto', 5);
+   * const bestRated = await miauIndex.searchLocal('Naruto', 5, { sortBy: 'aggregateScore' });
+   *
+   * const query: AnimeQuery = { genres: ['Action'], year: { min: 2010 }, sortBy: 'aggregateScore' };
+   * const page = await miauIndex.searchLocal(query);
+   * const next = await miauIndex.searchLocal({ ...query, cursor: page.nextCursor });
    * ```
    */
-  async searchLocal(query: string, limit: number = 10): Promise<Anime[]> {
+  searchLocal(query: string, limit?: number, options?: LocalQueryOptions): Promise<Anime[]>;
+  searchLocal(query: AnimeQuery): Promise<AnimeQueryResult>;
+  async searchLocal(
+    query: string | AnimeQuery,
+    limit: number = 10,
+    options: LocalQueryOptions = {}
+  ): Promise<Anime[] | AnimeQueryResult> {
+    if (typeof query !== 'string') {
+      const result = this.repository.findByQuery
+        ? await this.repository.findByQuery(query)
+        : queryAnime(await this.findAllAnime(), query);
+      this.logger.info(`Found ${result.total} local results`);
+      return result;
+    }
+
     this.logger.info(`Searching local repository: "${query}"`);
 
-    const results = await this.repository.searchByTitle(query, limit);
+    // Sorting needs every match, not just the first `limit`
+    const matches = await this.fuzzySearchLocal(query, {
+      limit: options.sortBy ? await this.repository.count() : limit,
+    });
+    const results = options.sortBy
+      ? sortByAggregateScore(matches.map((match) => match.anime)).slice(0, limit)
+      : matches.map((match) => match.anime);
 
     this.logger.info(`Found ${results.length} local results`);
 
     return results;
   }
 
+  /**
+   * Search the local repository by title with relevance scores
+   * Case, accents, long vowel spellings (ō, ou), katakana/hiragana, skipped words and small
+   * typos are tolerated
+   *
+   * @example
+   * ```typescript
+   * const matches = await miauIndex.searchLocalRanked('kimetsu yaiba');
+   * console.log(matches[0].anime.title.romaji, matches[0].score); // 'Kimetsu no Yaiba' 0.81
+   * ```
+   */
+  async searchLocalRanked(query: string, options: TitleSearchOptions = {}): Promise<TitleMatch[]> {
+    this.logger.info(`Searching local repository: "${query}"`);
+    const matches = await this.fuzzySearchLocal(query, options);
+    this.logger.info(`Found ${matches.length} local results`);
+    return matches;
+  }
+
   /**
    * Get anime by ID from local repository
+   * Unified anime carry a `provenance` map telling which source each field came from
+   *
+   * @example
+   * ```typescript
+   * const anime = await miauIndex.getById(id);
+   * console.log(anime?.provenance?.['title.english']?.source); // DataSource.ANILIST
+   * ```
    */
   async getById(id: string): Promise<Anime | null> {
     return await this.repository.findById(id);
   }
 
   /**
-   * Save anime to local repository
+   * Get the anime directly related to a local anime, optionally limited to some relation types
+   *
+   * @example
+   * ```typescript
+   * const sequels = await miauIndex.getRelatedAnime(id, [RelationType.SEQUEL]);
+   * ```
+   */
+  async getRelatedAnime(id: string, types?: RelationType[]): Promise<RelatedAnime[]> {
+    return this.relationGraph.getRelated(await this.requireAnime(id), types);
+  }
+
+  /**
+   * Get every anime of the franchise of a local anime, starting with that anime
+   * Related anime missing locally are fetched when `fetchMissing` is set
+   */
+  async getFranchise(id: string, options: FranchiseOptions = {}): Promise<Anime[]> {
+    return this.relationGraph.getFranchise(await this.requireAnime(id), options);
+  }
+
+  /**
+   * Get the franchise of a local anime in watch order:
+   * prequels to sequels, with side stories and movies after the entries they follow
+   *
+   * @example
+   * ```typescript
+   * const order = await miauIndex.getWatchOrder(id, { fetchMissing: true });
+   * console.log(order.map((anime) => anime.title.romaji));
+   * ```
+   */
+  async getWatchOrder(id: string, options: FranchiseOptions = {}): Promise<Anime[]> {
+    return this.relationGraph.getWatchOrder(await this.requireAnime(id), options);
+  }
+
+  /**
+   * Get the characters of a local anime, with their role and voice actors in that anime
+   * Characters and staff are fetched from every provider supporting them on first use
+   *
+   * @example
+   * ```typescript
+   * const characters = await miauIndex.getCharacters(id);
+   * console.log(characters[0].name.full, characters[0].voiceActors?.[0]?.name.full);
+   * ```
+   */
+  async getCharacters(animeId: string): Promise<Character[]> {
+    const anime = await this.requireAnime(animeId);
+    await this.ensurePeople(anime);
+
+    return (await this.characterRepository.findByAnimeId(anime.id)).map((character) => {
+      const appearance = character.appearances?.find((a) => a.animeId === anime.id);
+      return {
+        ...character,
+        role: appearance?.role,
+        voiceActors: character.voiceActors?.filter(
+          (actor) => !appearance?.voiceActorIds || appearance.voiceActorIds.includes(actor.id)
+        ),
+      };
+    });
+  }
+
+  /**
+   * Get the staff of a local anime (voice actors are listed on the characters)
+   * `role` lists the roles of each person on that anime
+   */
+  async getStaff(animeId: string): Promise<StaffMember[]> {
+    const anime = await this.requireAnime(animeId);
+    await this.ensurePeople(anime);
+
+    return (await this.staffRepository.findByAnimeId(anime.id)).flatMap((member) => {
+      const roles = (member.credits || [])
+        .filter((credit) => credit.animeId === anime.id && !credit.characterId)
+        .map((credit) => credit.role);
+      return roles.length > 0 ? [{ ...member, role: roles.join(', ') }] : [];
+    });
+  }
+
+  /**
+   * Get the staff and voice roles of a stored person across all stored anime
+   *
+   * @example
+   * ```typescript
+   * const credits = await miauIndex.getStaffCredits(character.voiceActors[0].id);
+   * // [{ animeId, role: 'Voice Actor', characterId, language: 'Japanese' }, ...]
+   * ```
+   */
+  async getStaffCredits(personId: string): Promise<StaffCredit[]> {
+    const member = await this.staffRepository.findById(personId);
+    if (!member) {
+      throw new NotFoundError('Staff member', personId);
+    }
+    return member.credits || [];
+  }
+
+  /**
+   * Fetch the characters and staff of an anime unless some are stored already
+   */
+  private async ensurePeople(anime: Anime): Promise<void> {
+    if (
+      (await this.characterRepository.count(anime.id)) > 0 ||
+      (await this.staffRepository.count(anime.id)) > 0
+    ) {
+      return;
+    }
+
+    const fetched = await Promise.all(
+      this.getRegisteredProviders('people').map(async ({ provider }) => {
+        const source = provider.getSource();
+        const externalId = anime.externalIds.find((e) => e.source === source)?.id;
+        if (!externalId) return { characters: [], staff: [] };
+
+        const failed = (error: unknown): [] => {
+          this.logger.warn(`Failed to fetch characters or staff from ${source}:`, error);
+          return [];
+        };
+        const [characters, staff] = await Promise.all([
+          provider.fetchCharacters?.(externalId).catch(failed) ?? [],
+          provider.fetchStaff?.(externalId).catch(failed) ?? [],
+        ]);
+        return { characters, staff };
+      })
+    );
+
+    await this.savePeople(
+      anime.id,
+      this.peopleUnifier.unifyCharacters(fetched.flatMap((f) => f.characters)),
+      fetched.flatMap((f) => f.staff)
+    );
+  }
+
+  /**
+   * Merge fetched characters and staff into the stored records of the same people
+   * Staff roles and voice roles become credits; voice actors are stored as staff members
+   */
+  private async savePeople(
+    animeId: string,
+    characters: Character[],
+    staff: StaffMember[]
+  ): Promise<void> {
+    const storedCharacters = await Promise.all(
+      characters.map((character) =>
+        this.findByExternalIds(this.characterRepository, character.externalIds)
+      )
+    );
+    const characterIds = characters.map(
+      (character, index) => storedCharacters[index]?.id ?? character.id
+    );
+
+    const members = this.peopleUnifier.unifyStaff([
+      ...staff.map((member) => ({
+        ...member,
+        credits: member.role ? [{ animeId, role: member.role }] : [],
+      })),
+      ...characters.flatMap((character, index) =>
+        (character.voiceActors || []).map((actor) => ({
+          id: actor.id,
+          name: actor.name,
+          image: actor.image,
+          credits: [
+            {
+              animeId,
+              role: 'Voice Actor',
+              characterId: characterIds[index],
+              language: actor.language,
+            },
+          ],
+          externalIds: actor.externalIds,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }))
+      ),
+    ]);
+
+    const savedStaff: StaffMember[] = [];
+    for (const member of members) {
+      const stored = await this.findByExternalIds(this.staffRepository, member.externalIds);
+      // Credits on other anime are kept in the order they were stored
+      const credits = [
+        ...(stored?.credits || []).filter((credit) => credit.animeId !== animeId),
+        ...(member.credits || []),
+      ];
+      const merged = stored
+        ? this.peopleUnifier.mergeStaff(
+            { ...member, id: stored.id, createdAt: stored.createdAt },
+            stored
+          )
+        : member;
+      savedStaff.push(await this.staffRepository.save({ ...merged, role: undefined, credits }));
+    }
+
+    for (const [index, character] of characters.entries()) {
+      // Voice actors take the ID of the staff member they were stored as
+      const voiceActors = (character.voiceActors || []).map((actor) => ({
+        ...actor,
+        id: savedStaff.find((member) => this.peopleUnifier.isSame(member, actor))?.id ?? actor.id,
+      }));
+      const fresh: Character = {
+        ...character,
+        id: characterIds[index],
+        role: undefined,
+        voiceActors,
+        appearances: [
+          { animeId, role: character.role, voiceActorIds: voiceActors.map((actor) => actor.id) },
+        ],
+      };
+      const stored = storedCharacters[index];
+
+      await this.characterRepository.save(
+        stored
+          ? this.peopleUnifier.mergeCharacters({ ...fresh, createdAt: stored.createdAt }, stored)
+          : fresh
+      );
+    }
+
+    if (this.config.enableLogging) {
+      this.logger.info(
+        `Stored ${characters.length} characters and ${members.length} people for anime ${animeId}`
+      );
+    }
+  }
+
+  /**
+   * Find the stored record of a character, person or studio by any of its external IDs
+   */
+  private async findByExternalIds<T>(
+    repository: { findByExternalId(source: string, externalId: string): Promise<T | null> },
+    externalIds: ExternalId[]
+  ): Promise<T | null> {
+    for (const { source, id } of externalIds) {
+      const stored = await repository.findByExternalId(source, id);
+      if (stored) return stored;
+    }
+    return null;
+  }
+
+  /**
+   * Get the studios, producers and licensors credited on a local anime
+   *
+   * @example
+   * ```typescript
+   * const studios = await miauIndex.getStudios(id);
+   * console.log(studios.map((studio) => studio.name)); // ['Sunrise', 'Bandai Visual']
+   * ```
+   */
+  async getStudios(animeId: string): Promise<Studio[]> {
+    const anime = await this.requireAnime(animeId);
+    return await this.studioRepository.findByAnimeId(anime.id);
+  }
+
+  /**
+   * Find stored studios by name or alternative name, ignoring case
+   */
+  async findStudios(name: string): Promise<Studio[]> {
+    return await this.studioRepository.findByName(name);
+  }
+
+  /**
+   * Get the local anime a studio is credited on, in the order they were stored
+   */
+  async getStudioAnime(studioId: string, options: StudioQueryOptions = {}): Promise<Anime[]> {
+    const studio = await this.requireStudio(studioId);
+    const anime = await Promise.all(
+      this.creditedAnimeIds(studio, options.roles).map((id) => this.repository.findById(id))
+    );
+    return anime.filter((entry): entry is Anime => entry !== null);
+  }
+
+  /**
+   * Get the filmography of a studio sorted by year, with its roles on each anime
+   * Anime without a known year come last
+   *
+   * @example
+   * ```typescript
+   * const [studio] = await miauIndex.findStudios('Madhouse');
+   * const filmography = await miauIndex.getStudioFilmography(studio.id, {
+   *   roles: [StudioRole.STUDIO],
+   * });
+   * ```
+   */
+  async getStudioFilmography(
+    studioId: string,
+    options: StudioQueryOptions = {}
+  ): Promise<StudioFilmographyEntry[]> {
+    const studio = await this.requireStudio(studioId);
+    const credits = (studio.credits || []).filter(
+      (credit) => !options.roles || options.roles.includes(credit.role)
+    );
+    const yearOf = (anime: Anime): number =>
+      anime.year ?? anime.aired.start?.getFullYear() ?? Number.POSITIVE_INFINITY;
+
+    return (await this.getStudioAnime(studio.id, options))
+      .map((anime) => ({
+        anime,
+        roles: credits.filter((credit) => credit.animeId === anime.id).map((c) => c.role),
+      }))
+      .sort(
+        (a, b) =>
+          yearOf(a.anime) - yearOf(b.anime) ||
+          (a.anime.aired.start?.getTime() ?? 0) - (b.anime.aired.start?.getTime() ?? 0)
+      );
+  }
+
+  /**
+   * Get the studios credited on the same anime as a studio, most shared anime first
+   * `roles` applies to the credits of both studios
+   */
+  async getCoProductions(
+    studioId: string,
+    options: StudioQueryOptions = {}
+  ): Promise<CoProduction[]> {
+    const studio = await this.requireStudio(studioId);
+    const coProductions = new Map<string, CoProduction>();
+
+    for (const animeId of this.creditedAnimeIds(studio, options.roles)) {
+      for (const partner of await this.studioRepository.findByAnimeId(animeId)) {
+        if (
+          partner.id === studio.id ||
+          !this.creditedAnimeIds(partner, options.roles).includes(animeId)
+        ) {
+          continue;
+        }
+        const entry = coProductions.get(partner.id) ?? { studio: partner, animeIds: [] };
+        entry.animeIds.push(animeId);
+        coProductions.set(partner.id, entry);
+      }
+    }
+
+    return Array.from(coProductions.values()).sort((a, b) => b.animeIds.length - a.animeIds.length);
+  }
+
+  /**
+   * Resolve the companies of an anime to stored studios, creating or merging studio records
+   * Anime without `companies` fall back to their studio, producer and licensor names
+   */
+  private async indexStudios(anime: Anime): Promise<Anime> {
+    const companies = anime.companies?.length ? anime.companies : this.companiesFromNames(anime);
+    const previous = await this.studioRepository.findByAnimeId(anime.id);
+    if (companies.length === 0 && previous.length === 0) {
+      return anime;
+    }
+
+    // Group the companies naming the same studio (e.g. reported by several sources)
+    const studios: Studio[] = [];
+    const groups: number[] = [];
+    for (const company of companies) {
+      const studio: Studio = {
+        id: generateId(),
+        name: company.name,
+        isAnimationStudio: company.isAnimationStudio,
+        credits: [{ animeId: anime.id, role: company.role }],
+        externalIds: company.externalId ? [company.externalId] : [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      const index = studios.findIndex((existing) => this.studioUnifier.isSame(existing, studio));
+      if (index === -1) {
+        groups.push(studios.push(studio) - 1);
+      } else {
+        groups.push(index);
+        studios[index] = this.studioUnifier.merge(studios[index], studio);
+      }
+    }
+
+    const studioIds: string[] = [];
+    for (const studio of studios) {
+      const stored = await this.findStoredStudio(studio);
+      // Credits on other anime are kept in the order they were stored
+      const credits = [
+        ...(stored?.credits || []).filter((credit) => credit.animeId !== anime.id),
+        ...(studio.credits || []),
+      ];
+      const merged = stored ? this.studioUnifier.merge(stored, studio) : studio;
+      studioIds.push((await this.studioRepository.save({ ...merged, credits })).id);
+    }
+
+    // Studios no longer credited on the anime
+    for (const studio of previous.filter((p) => !studioIds.includes(p.id))) {
+      await this.studioRepository.save({
+        ...studio,
+        credits: (studio.credits || []).filter((credit) => credit.animeId !== anime.id),
+      });
+    }
+
+    return await this.repository.save({
+      ...anime,
+      companies: companies.map((company, index) => ({
+        ...company,
+        studioId: studioIds[groups[index]],
+      })),
+    });
+  }
+
+  /**
+   * Find the stored record of a studio by external ID, then by name (with and without
+   * corporate suffixes)
+   */
+  private async findStoredStudio(studio: Studio): Promise<Studio | null> {
+    const byId = await this.findByExternalIds(this.studioRepository, studio.externalIds);
+    if (byId) return byId;
+
+    for (const name of this.studioUnifier.lookupNames(studio)) {
+      const candidates = await this.studioRepository.findByName(name);
+      const match = candidates.find((candidate) => this.studioUnifier.isSame(candidate, studio));
+      if (match) return match;
+    }
+    return null;
+  }
+
+  private companiesFromNames(anime: Anime): AnimeCompany[] {
+    return [
+      ...anime.studios.map((name) => ({ name, role: StudioRole.STUDIO })),
+      ...anime.producers.map((name) => ({ name, role: StudioRole.PRODUCER })),
+      ...anime.licensors.map((name) => ({ name, role: StudioRole.LICENSOR })),
+    ];
+  }
+
+  /**
+   * IDs of the anime a studio is credited on, optionally limited to some roles
+   */
+  private creditedAnimeIds(studio: Studio, roles?: StudioRole[]): string[] {
+    return Array.from(
+      new Set(
+        (studio.credits || [])
+          .filter((credit) => !roles || roles.includes(credit.role))
+          .map((credit) => credit.animeId)
+      )
+    );
+  }
+
+  /**
+   * Get a stored studio or throw NotFoundError
+   */
+  private async requireStudio(id: string): Promise<Studio> {
+    const studio = await this.studioRepository.findById(id);
+    if (!studio) {
+      throw new NotFoundError('Studio', id);
+    }
+    return studio;
+  }
+
+  /**
+   * Get a local anime or throw NotFoundError
+   */
+  private async requireAnime(id: string): Promise<Anime> {
+    const anime = await this.repository.findById(id);
+    if (!anime) {
+      throw new NotFoundError('Anime', id);
+    }
+    return anime;
+  }
+
+  /**
+   * Rank local anime by title, through the repository when it supports fuzzy search
+   */
+  private async fuzzySearchLocal(
+    query: string,
+    options: TitleSearchOptions
+  ): Promise<TitleMatch[]> {
+    if (this.repository.fuzzySearchByTitle) {
+      return this.repository.fuzzySearchByTitle(query, options);
+    }
+    return rankByTitle(await this.findAllAnime(), query, options);
+  }
+
+  /**
+   * Load every local anime, for repositories without query support
+   */
+  private async findAllAnime(): Promise<Anime[]> {
+    return this.repository.findAll(0, await this.repository.count());
+  }
+
+  /**
+   * Save anime to local repository, linking its companies to stored studios
    */
   async saveAnime(anime: Anime): Promise<Anime> {
-    return await this.repository.save(anime);
+    return await this.indexStudios(await this.repository.save(anime));
   }
 
   /**
    * Get all anime from local repository
    */
-  async getAllLocal(): Promise<Anime[]> {
-    return await this.repository.findAll(1, 1000);
+  async getAllLocal(options: LocalQueryOptions = {}): Promise<Anime[]> {
+    const results = await this.findAllAnime();
+    return options.sortBy ? sortByAggregateScore(results) : results;
   }
 
   /**
@@ -319,12 +1083,12 @@ export class MiauIndex {
   /**
    * Check health of all providers
    */
-  async checkProviders(): Promise<Record<DataSource, boolean>> {
+  async checkProviders(): Promise<Record<SourceId, boolean>> {
     this.logger.info('Checking provider health...');
 
-    const healthChecks: Record<DataSource, boolean> = {} as any;
+    const healthChecks = {} as Record<SourceId, boolean>;
 
-    for (const [source, provider] of this.providers.entries()) {
+    for (const [source, { provider }] of this.providers.entries()) {
       try {
         healthChecks[source] = await provider.isAvailable();
       } catch {
@@ -344,7 +1108,7 @@ export class MiauIndex {
     totalAnime: number;
     byType: Record<string, number>;
     byStatus: Record<string, number>;
-    sources: Record<DataSource, number>;
+    sources: Record<SourceId, number>;
   }> {
     const allAnime = await this.repository.findAll(1, 10000);
 
@@ -352,7 +1116,7 @@ export class MiauIndex {
       totalAnime: allAnime.length,
       byType: {} as Record<string, number>,
       byStatus: {} as Record<string, number>,
-      sources: {} as Record<DataSource, number>,
+      sources: {} as Record<SourceId, number>,
     };
 
     for (const anime of allAnime) {
@@ -377,7 +1141,7 @@ export class MiauIndex {
    */
   private initializeNyaaExtension(): void {
     try {
-      this.torrentRepository = new InMemoryTorrentRepository();
+      this.torrentRepository = this.storage.torrents;
       this.nyaaService = new NyaaService(
         this.torrentRepository,
         this.config.nyaaOptions,
@@ -433,15 +1197,89 @@ export class MiauIndex {
   }
 
   /**
-   * OPTIONAL: Get best torrent for episode
+   * OPTIONAL: Get best torrent for episode, ranked by a scoring profile or preferred quality
+   * Requires Nyaa extension to be enabled
+   */
+  async getBestTorrent(
+    anime: Anime,
+    episodeNumber: number,
+    preference?: TorrentQuality | TorrentScoringProfile
+  ): Promise<Torrent | null> {
+    if (!this.nyaaService) {
+      throw new Error('Nyaa extension is not enabled. Set enableNyaa: true in config.');
+    }
+
+    return this.nyaaService.getBestTorrentForEpisode(anime, episodeNumber, preference);
+  }
+
+  /**
+   * OPTIONAL: Score the torrents of an episode, with score breakdowns and rejection reasons
+   * Requires Nyaa extension to be enabled
+   */
+  async rankTorrents(
+    anime: Anime,
+    episodeNumber: number,
+    profile?: TorrentScoringProfile
+  ): Promise<ScoredTorrent[]> {
+    if (!this.nyaaService) {
+      throw new Error('Nyaa extension is not enabled. Set enableNyaa: true in config.');
+    }
+
+    return this.nyaaService.rankTorrentsForEpisode(anime, episodeNumber, profile);
+  }
+
+  /**
+   * OPTIONAL: Get the release groups of the indexed torrents, best reputation first
+   * Requires Nyaa extension to be enabled
+   *
+   * @example
+   * ```typescript
+   * const groups = await miauIndex.getReleaseGroups();
+   * console.log(groups[0]); // { name: 'SubsPlease', releaseCount: 120, reputation: 0.92, ... }
+   * ```
+   */
+  async getReleaseGroups(): Promise<ReleaseGroup[]> {
+    if (!this.nyaaService) {
+      throw new Error('Nyaa extension is not enabled. Set enableNyaa: true in config.');
+    }
+
+    return this.nyaaService.getReleaseGroups();
+  }
+
+  /**
+   * OPTIONAL: Get a release group by name
+   * Requires Nyaa extension to be enabled
+   */
+  async getReleaseGroup(name: string): Promise<ReleaseGroup | null> {
+    if (!this.nyaaService) {
+      throw new Error('Nyaa extension is not enabled. Set enableNyaa: true in config.');
+    }
+
+    return this.nyaaService.getReleaseGroup(name);
+  }
+
+  /**
+   * OPTIONAL: Allow, deny or prefer a release group (null clears its preference)
    * Requires Nyaa extension to be enabled
    */
-  async getBestTorrent(anime: Anime, episodeNumber: number): Promise<Torrent | null> {
+  setReleaseGroupPreference(name: string, preference: ReleaseGroupPreference | null): void {
     if (!this.nyaaService) {
       throw new Error('Nyaa extension is not enabled. Set enableNyaa: true in config.');
     }
 
-    return this.nyaaService.getBestTorrentForEpisode(anime, episodeNumber);
+    this.nyaaService.setReleaseGroupPreference(name, preference);
+  }
+
+  /**
+   * OPTIONAL: Get the allow, deny and prefer release group lists
+   * Requires Nyaa extension to be enabled
+   */
+  getReleaseGroupPreferences(): Required<ReleaseGroupPreferences> {
+    if (!this.nyaaService) {
+      throw new Error('Nyaa extension is not enabled. Set enableNyaa: true in config.');
+    }
+
+    return this.nyaaService.getReleaseGroupPreferences();
   }
 
   /**
@@ -475,6 +1313,18 @@ export class MiauIndex {
     return !!this.nyaaService;
   }
 
+  /**
+   * OPTIONAL: Get the ids of the torrent indexers searched (e.g. ['nyaa', 'animetosho'])
+   * Requires Nyaa extension to be enabled
+   */
+  getTorrentIndexers(): string[] {
+    if (!this.nyaaService) {
+      throw new Error('Nyaa extension is not enabled. Set enableNyaa: true in config.');
+    }
+
+    return this.nyaaService.getIndexers();
+  }
+
   /**
    * OPTIONAL: Get Nyaa service metrics
    * Requires Nyaa extension to be enabled
@@ -533,12 +1383,13 @@ export class MiauIndex {
   async getBestQualityForEpisode(
     animeId: string,
     episodeNumber: number,
-  ): Promise<any | null> {
+    profile?: TorrentScoringProfile
+  ): Promise<TorrentQuality | null> {
     if (!this.nyaaService) {
       throw new Error('Nyaa extension is not enabled. Set enableNyaa: true in config.');
     }
 
-    return this.nyaaService.getBestQualityForEpisode(animeId, episodeNumber);
+    return this.nyaaService.getBestQualityForEpisode(animeId, episodeNumber, profile);
   }
 
   /**
@@ -553,20 +1404,26 @@ export class MiauIndex {
     }
 
     // Try each provider until we get episodes
-    for (const [source, provider] of this.providers.entries()) {
+    for (const { provider } of this.getRegisteredProviders('episodes')) {
+      const source = provider.getSource();
       if (provider.fetchEpisodes) {
         try {
           const externalId = anime.externalIds.find((e) => e.source === source)?.id;
           if (!externalId) continue;
 
-          const episodes = await provider.fetchEpisodes(anime.id, externalId);
-          
-          if (episodes.length > 0) {
-            // Save to repository
+          const fetched = await provider.fetchEpisodes(anime.id, externalId);
+
+          if (fetched.length > 0) {
+            const providerSeasons = provider.fetchSeasons
+              ? await provider.fetchSeasons(anime.id, externalId).catch((error) => {
+                  this.logger.warn(`Failed to fetch seasons from ${source}:`, error);
+                  return [];
+                })
+              : [];
+
+            // Organize into seasons and save the episodes with their season numbering
+            const episodes = await this.organizeIntoSeasons(anime.id, fetched, providerSeasons);
             await this.episodeRepository.saveMany(episodes);
-            
-            // Auto-organize into seasons if multiple seasons detected
-            await this.organizeIntoSeasons(anime.id, episodes);
 
             if (this.config.enableLogging) {
               this.logger.info(
@@ -609,95 +1466,55 @@ export class MiauIndex {
   }
 
   /**
-   * Organize episodes into seasons based on episode numbers
-   * Creates seasons automatically for multi-season anime
+   * Organize episodes into seasons from the provider season structure, broadcast breaks
+   * and the prequels of the anime; returns the episodes annotated with their season numbering
    */
-  private async organizeIntoSeasons(animeId: string, episodes: Episode[]): Promise<void> {
-    if (episodes.length === 0) return;
-
-    // Simple heuristic: if there are more than 26 episodes, likely multi-season
-    // Could be enhanced with actual season metadata from providers
-    const episodesPerSeason = 13; // typical 1-cour season
-    const totalEpisodes = episodes.length;
-    
-    if (totalEpisodes > 26) {
-      const seasonCount = Math.ceil(totalEpisodes / episodesPerSeason);
-      
-      for (let s = 1; s <= seasonCount; s++) {
-        const startEp = (s - 1) * episodesPerSeason + 1;
-        const endEp = Math.min(s * episodesPerSeason, totalEpisodes);
-        
-        const seasonEpisodes = episodes.filter(
-          (ep) => ep.number >= startEp && ep.number <= endEp
-        );
+  private async organizeIntoSeasons(
+    animeId: string,
+    episodes: Episode[],
+    providerSeasons: AnimeSeason[] = []
+  ): Promise<Episode[]> {
+    const anime = await this.repository.findById(animeId);
+    const prequels = anime ? await this.relationGraph.getPrequels(anime) : [];
 
-        const season: AnimeSeason = {
-          id: uuidv4(),
-          animeId,
-          seasonNumber: s,
-          title: `Season ${s}`,
-          episodeCount: seasonEpisodes.length,
-          episodes: seasonEpisodes,
-          externalIds: [],
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
+    const detected = this.seasonDetector.detect({ animeId, episodes, providerSeasons, prequels });
+    await this.seasonRepository.saveMany(detected.seasons);
 
-        await this.seasonRepository.save(season);
-      }
-    } else {
-      // Single season anime
-      const season: AnimeSeason = {
-        id: uuidv4(),
-        animeId,
-        seasonNumber: 1,
-        episodeCount: episodes.length,
-        episodes,
-        externalIds: [],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      await this.seasonRepository.save(season);
-    }
+    return detected.episodes;
   }
 
   /**
-   * Associate existing torrents with episodes based on episode numbers
-   * Useful for syncing after fetching episodes
+   * Associate existing torrents with episodes
+   * Season-labelled ("S2 - 05") and absolute ("- 30") numbers are converted through the
+   * anime's season layout, so per-episode and batch torrents link to the right episodes
    */
   async associateTorrentsWithEpisodes(animeId: string): Promise<number> {
     if (!this.torrentRepository) return 0;
 
     const torrents = await this.torrentRepository.findByAnimeId(animeId);
     const episodes = await this.episodeRepository.findByAnimeId(animeId);
-    
+    const seasons = await this.seasonRepository.findByAnimeId(animeId);
+
     let associated = 0;
 
     for (const torrent of torrents) {
-      if (torrent.episodeNumber) {
-        const episode = episodes.find((ep) => ep.number === torrent.episodeNumber);
-        if (episode && !torrent.episodeIds?.includes(episode.id)) {
-          torrent.episodeIds = [episode.id];
-          await this.torrentRepository.save(torrent);
-          associated++;
-        }
+      const matched = matchReleaseEpisodes(torrent, episodes, seasons);
+      if (matched.length === 0) continue;
+
+      const episodeIds = matched.map((ep) => ep.id);
+      const seasonId =
+        seasons.find((season) => season.seasonNumber === matched[0].seasonNumber)?.id ??
+        torrent.seasonId;
+      if (
+        seasonId === torrent.seasonId &&
+        episodeIds.length === torrent.episodeIds?.length &&
+        episodeIds.every((id) => torrent.episodeIds!.includes(id))
+      ) {
+        continue;
       }
 
-      // Handle batch torrents
-      if (torrent.episodeRange) {
-        const rangeEpisodes = episodes.filter(
-          (ep) =>
-            ep.number >= torrent.episodeRange!.start &&
-            ep.number <= torrent.episodeRange!.end
-        );
-        
-        if (rangeEpisodes.length > 0) {
-          torrent.episodeIds = rangeEpisodes.map((ep) => ep.id);
-          await this.torrentRepository.save(torrent);
-          associated++;
-        }
-      }
+      await this.torrentRepository.save({ ...torrent, episodeIds, seasonId });
+      associated++;
     }
 
     if (this.config.enableLogging && associated > 0) {
@@ -24,7 +24,8 @@ export interface Config {
   // Repository Settings
   repository: {
     type: 'memory' | 'file' | 'database';
-    connectionString?: string;
+    connectionString?: string; // SQLite database file for the database repository
+    path?: string; // Data directory for the file repository
   };
 
   // Cache Settings
@@ -86,6 +87,7 @@ export function loadConfig(): Config {
         (process.env.REPOSITORY_TYPE as Config['repository']['type']) ||
         defaultConfig.repository.type,
       connectionString: process.env.DATABASE_URL,
+      path: process.env.REPOSITORY_PATH,
     },
     cache: {
       enabled: process.env.CACHE_ENABLED !== 'false',
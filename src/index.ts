@@ -1,5 +1,12 @@
 // Main MiauIndex class
-export { MiauIndex, MiauIndexConfig } from './MiauIndex';
+export {
+  MiauIndex,
+  MiauIndexConfig,
+  LocalQueryOptions,
+  StudioQueryOptions,
+  StudioFilmographyEntry,
+  CoProduction,
+} from './MiauIndex';
 
 // Models
 export * from './models/Anime';
@@ -11,23 +18,114 @@ export * from './models/Torrent'; // Export Torrent models
 export * from './types/common';
 
 // Providers
-export { BaseAnimeProvider, IAnimeProvider } from './providers/BaseProvider';
+export {
+  BaseAnimeProvider,
+  IAnimeProvider,
+  ProviderCapabilities,
+  ProviderRegistration,
+  ProviderRegistrationOptions,
+} from './providers/BaseProvider';
 export { MyAnimeListProvider, AniListProvider, KitsuProvider } from './providers';
 export { JikanProvider } from './providers/JikanProvider';
+export { AniDBProvider, AniDBProviderOptions, AniDBTitle } from './providers/AniDBProvider';
+export { TMDBProvider } from './providers/TMDBProvider';
+
+// Torrent indexers
+export {
+  ITorrentIndexer,
+  BaseTorrentIndexer,
+  IndexerRelease,
+  IndexerSearchOptions,
+  TorrentPeerStats,
+  extractInfoHash,
+  parseSizeToBytes,
+} from './indexers/TorrentIndexer';
+export { NyaaIndexer, NyaaIndexerOptions } from './indexers/NyaaIndexer';
+export { TorznabIndexer, TorznabIndexerOptions } from './indexers/TorznabIndexer';
 
 // Repositories
-export { IAnimeRepository, InMemoryAnimeRepository } from './repositories/AnimeRepository';
+export {
+  IAnimeRepository,
+  InMemoryAnimeRepository,
+  FileAnimeRepository,
+  SqliteAnimeRepository,
+} from './repositories/AnimeRepository';
 export {
   IEpisodeRepository,
   InMemoryEpisodeRepository,
+  FileEpisodeRepository,
+  SqliteEpisodeRepository,
   ISeasonRepository,
   InMemorySeasonRepository,
+  FileSeasonRepository,
+  SqliteSeasonRepository,
 } from './repositories/EpisodeRepository';
-export { ITorrentRepository, InMemoryTorrentRepository } from './repositories/TorrentRepository'; // Export Torrent repository
+export {
+  ITorrentRepository,
+  InMemoryTorrentRepository,
+  FileTorrentRepository,
+  SqliteTorrentRepository,
+} from './repositories/TorrentRepository'; // Export Torrent repository
+export {
+  ICharacterRepository,
+  InMemoryCharacterRepository,
+  FileCharacterRepository,
+  SqliteCharacterRepository,
+  IStaffRepository,
+  InMemoryStaffRepository,
+  FileStaffRepository,
+  SqliteStaffRepository,
+} from './repositories/PeopleRepository';
+export {
+  IStudioRepository,
+  InMemoryStudioRepository,
+  FileStudioRepository,
+  SqliteStudioRepository,
+} from './repositories/StudioRepository';
+export { FileStore, FileStoreOptions } from './repositories/FileStore';
+export { SqliteDatabase } from './repositories/SqliteDatabase';
+export {
+  RepositoryConfig,
+  Repositories,
+  createRepositories,
+} from './repositories/RepositoryFactory';
 
 // Services
-export { AnimeUnificationService, UnificationOptions } from './services/AnimeUnificationService';
+export {
+  AnimeUnificationService,
+  UnificationOptions,
+  UnifiedField,
+  SourcedValue,
+  FieldConflict,
+  ConflictReport,
+} from './services/AnimeUnificationService';
+export {
+  AnimeMatcher,
+  AnimeMatcherOptions,
+  AnimeMatch,
+  MatchWeights,
+} from './services/AnimeMatcher';
+export { IdMappingDatabase } from './services/IdMappingDatabase';
+export { PeopleUnifier, PersonIdentity } from './services/PeopleUnifier';
+export { StudioUnifier } from './services/StudioUnifier';
+export {
+  RelationGraph,
+  RelatedAnimeFetcher,
+  FranchiseOptions,
+  RelatedAnime,
+} from './services/RelationGraph';
+export {
+  SeasonDetector,
+  SeasonDetectorOptions,
+  SeasonDetectionInput,
+  SeasonDetectionResult,
+} from './services/SeasonDetector';
 export { NyaaService, NyaaServiceOptions } from './services/NyaaService'; // Export Nyaa service
+export {
+  ReleaseGroupRegistry,
+  ReleaseGroupPreferences,
+  PREFERRED_GROUP_SCORE,
+} from './services/ReleaseGroupRegistry';
 
 // Utilities
 export * from './utils/logger';
@@ -38,6 +136,15 @@ export * from './utils/cache';
 export * from './utils/rateLimiter';
 export * from './utils/helpers';
 export * from './utils/httpClient';
+export * from './utils/taxonomy';
+export * from './utils/ratings';
+export * from './utils/xml';
+export * from './utils/episodeNumbering';
+export * from './utils/animeQuery';
+export * from './utils/titleSearch';
+export * from './utils/identity';
+export * from './utils/releaseParser';
+export * from './utils/torrentScoring';
 
 // Config
 export { loadConfig } from './config';
@@ -0,0 +1,99 @@
+import { NyaaScraper } from '@kitsuneislife/nyaa';
+import type { NyaaTorrent, SearchOptions } from '@kitsuneislife/nyaa';
+import {
+  BaseTorrentIndexer,
+  IndexerRelease,
+  IndexerSearchOptions,
+  extractInfoHash,
+  parseSizeToBytes,
+} from './TorrentIndexer';
+import { retryWithBackoff } from '../utils/helpers';
+import { ProviderError } from '../utils/errors';
+
+export interface NyaaIndexerOptions {
+  /** Nyaa category (default: '1_2', Anime - English-translated) */
+  category?: string;
+  /** Request timeout in milliseconds (default: 30s) */
+  timeout?: number;
+  /** Maximum retry attempts on failure (default: 3) */
+  maxRetries?: number;
+}
+
+/**
+ * Torrent indexer for Nyaa.si
+ * Requires the optional @kitsuneislife/nyaa package
+ */
+export class NyaaIndexer extends BaseTorrentIndexer {
+  private nyaa: NyaaScraper;
+  private category: string;
+  private maxRetries: number;
+
+  constructor(options: NyaaIndexerOptions = {}) {
+    super();
+    this.category = options.category ?? '1_2';
+    this.maxRetries = options.maxRetries ?? 3;
+    this.nyaa = new NyaaScraper({
+      timeout: options.timeout ?? 30000,
+      retry: {
+        maxRetries: this.maxRetries,
+      },
+    });
+  }
+
+  getId(): string {
+    return 'nyaa';
+  }
+
+  async search(query: string, options: IndexerSearchOptions = {}): Promise<IndexerRelease[]> {
+    const searchOptions: SearchOptions = {
+      query,
+      category: this.category,
+      filter: options.trustedOnly ? 'trusted-only' : 'no-filter',
+      sortBy: 'seeders',
+      order: 'desc',
+    };
+
+    try {
+      const torrents = await retryWithBackoff<NyaaTorrent[]>(
+        async () => (await this.nyaa.search(searchOptions)).torrents,
+        {
+          maxRetries: this.maxRetries,
+          initialDelay: 1000,
+        }
+      );
+
+      const releases = torrents.map((torrent) => this.toRelease(torrent));
+      return options.limit ? releases.slice(0, options.limit) : releases;
+    } catch (error) {
+      throw new ProviderError('Nyaa', `Search failed: ${error}`);
+    }
+  }
+
+  /**
+   * Nyaa has no lookup by ID through the scraper, so the ID is searched and matched exactly
+   */
+  async fetchById(id: string): Promise<IndexerRelease | null> {
+    const releases = await this.search(id);
+    return releases.find((release) => release.id === id) ?? null;
+  }
+
+  private toRelease(torrent: NyaaTorrent): IndexerRelease {
+    return {
+      indexer: this.getId(),
+      id: torrent.id,
+      title: torrent.title,
+      category: torrent.category,
+      magnetLink: torrent.magnetLink,
+      torrentLink: torrent.torrentLink,
+      infoHash: extractInfoHash(torrent.magnetLink),
+      size: torrent.size,
+      sizeBytes: parseSizeToBytes(torrent.size),
+      seeders: torrent.seeders,
+      leechers: torrent.leechers,
+      downloads: torrent.downloads,
+      publishedAt: new Date(torrent.date),
+      trusted: torrent.isTrusted,
+      remake: torrent.isRemake,
+    };
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * A torrent as listed by an indexer, before it is parsed and linked to an anime
+ */
+export interface IndexerRelease {
+  indexer: string; // Id of the indexer that listed it
+  id: string; // ID at the indexer
+  title: string;
+  category: string;
+  magnetLink: string;
+  torrentLink?: string;
+  infoHash: string; // Lowercase hex, used to merge releases across indexers
+  size: string;
+  sizeBytes: number;
+  seeders: number;
+  leechers: number;
+  downloads: number;
+  publishedAt: Date;
+  trusted?: boolean;
+  remake?: boolean;
+}
+
+/**
+ * Swarm statistics of a torrent
+ */
+export interface TorrentPeerStats {
+  seeders: number;
+  leechers: number;
+  downloads: number;
+}
+
+export interface IndexerSearchOptions {
+  trustedOnly?: boolean; // Ignored by indexers without trusted uploaders
+  limit?: number;
+}
+
+/**
+ * Base interface for torrent indexers (Nyaa, Torznab endpoints such as AnimeTosho, ...)
+ */
+export interface ITorrentIndexer {
+  /**
+   * Get the id of this indexer (e.g. 'nyaa'), stored in `Torrent.sources`
+   */
+  getId(): string;
+
+  /**
+   * Search releases, best seeded first
+   */
+  search(query: string, options?: IndexerSearchOptions): Promise<IndexerRelease[]>;
+
+  /**
+   * Fetch a release by its ID at this indexer
+   */
+  fetchById(id: string): Promise<IndexerRelease | null>;
+
+  /**
+   * Fetch the current seeders, leechers and downloads of a release
+   */
+  refreshStats(id: string): Promise<TorrentPeerStats | null>;
+}
+
+/**
+ * Base abstract class for torrent indexers with common functionality
+ */
+export abstract class BaseTorrentIndexer implements ITorrentIndexer {
+  abstract getId(): string;
+  abstract search(query: string, options?: IndexerSearchOptions): Promise<IndexerRelease[]>;
+  abstract fetchById(id: string): Promise<IndexerRelease | null>;
+
+  async refreshStats(id: string): Promise<TorrentPeerStats | null> {
+    const release = await this.fetchById(id);
+    if (!release) return null;
+
+    const { seeders, leechers, downloads } = release;
+    return { seeders, leechers, downloads };
+  }
+}
+
+/**
+ * Extract the lowercase hex info hash from a magnet link ('' when there is none)
+ * Base32 info hashes (32 characters) are decoded to hex
+ */
+export function extractInfoHash(magnetLink: string): string {
+  const match = magnetLink.match(/btih:([a-f0-9]{40}|[a-z2-7]{32})(?![a-z0-9])/i);
+  if (!match) return '';
+
+  return match[1].length === 40 ? match[1].toLowerCase() : base32ToHex(match[1]);
+}
+
+/**
+ * Decode an RFC 4648 base32 string (without padding) to lowercase hex
+ */
+function base32ToHex(value: string): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  const bits = Array.from(value.toUpperCase(), (char) =>
+    alphabet.indexOf(char).toString(2).padStart(5, '0')
+  ).join('');
+
+  return Array.from({ length: Math.floor(bits.length / 4) }, (_, index) =>
+    parseInt(bits.slice(index * 4, index * 4 + 4), 2).toString(16)
+  ).join('');
+}
+
+/**
+ * Parse a size such as "1.2 GiB" or "700 MB" to bytes (0 when it cannot be read)
+ */
+export function parseSizeToBytes(size: string): number {
+  const units: Record<string, number> = {
+    B: 1,
+    KB: 1024,
+    MB: 1024 ** 2,
+    GB: 1024 ** 3,
+    TB: 1024 ** 4,
+    KiB: 1024,
+    MiB: 1024 ** 2,
+    GiB: 1024 ** 3,
+    TiB: 1024 ** 4,
+  };
+
+  const match = size.match(/^([\d.]+)\s*([A-Za-z]+)$/);
+  if (!match) return 0;
+
+  return Math.round(parseFloat(match[1]) * (units[match[2]] ?? 1));
+}
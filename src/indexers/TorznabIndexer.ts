@@ -0,0 +1,131 @@
+import {
+  BaseTorrentIndexer,
+  IndexerRelease,
+  IndexerSearchOptions,
+  extractInfoHash,
+} from './TorrentIndexer';
+import { HttpClient } from '../utils/httpClient';
+import { XmlElement, parseXml, xmlChild, xmlChildren, xmlText } from '../utils/xml';
+import { formatBytes } from '../utils/helpers';
+import { ProviderError } from '../utils/errors';
+
+export interface TorznabIndexerOptions {
+  /** Indexer id stored in `Torrent.sources` (e.g. 'animetosho') */
+  id: string;
+  /** API endpoint (e.g. 'https://feed.animetosho.org/api') */
+  url: string;
+  apiKey?: string;
+  /** Torznab categories to search (default: [5070], TV/Anime) */
+  categories?: number[];
+  /** Request timeout in milliseconds (default: 30s) */
+  timeout?: number;
+  /** Maximum retry attempts on failure (default: 3) */
+  maxRetries?: number;
+  /**
+   * Fetch the XML response for the given query parameters instead of calling the endpoint
+   * (e.g. to replay saved responses)
+   */
+  fetchXml?: (params: Record<string, string>) => Promise<string>;
+}
+
+/**
+ * Torrent indexer for Torznab endpoints (AnimeTosho, Jackett, Prowlarr, ...)
+ * Releases are identified by info hash; items without one are skipped
+ */
+export class TorznabIndexer extends BaseTorrentIndexer {
+  private httpClient: HttpClient;
+
+  constructor(private options: TorznabIndexerOptions) {
+    super();
+    this.httpClient = new HttpClient({
+      baseURL: options.url,
+      timeout: options.timeout ?? 30000,
+      maxRetries: options.maxRetries ?? 3,
+    });
+  }
+
+  getId(): string {
+    return this.options.id;
+  }
+
+  async search(query: string, options: IndexerSearchOptions = {}): Promise<IndexerRelease[]> {
+    const params: Record<string, string> = {
+      t: 'search',
+      q: query,
+      cat: (this.options.categories ?? [5070]).join(','),
+    };
+    if (this.options.apiKey) params.apikey = this.options.apiKey;
+    if (options.limit) params.limit = String(options.limit);
+
+    let root: XmlElement;
+    try {
+      root = parseXml(await this.requestXml(params));
+    } catch (error) {
+      throw new ProviderError(this.getId(), `Search failed: ${(error as Error).message}`);
+    }
+
+    if (root.name === 'error') {
+      throw new ProviderError(this.getId(), `Search failed: ${root.attributes.description}`);
+    }
+
+    return xmlChildren(xmlChild(root, 'channel'), 'item')
+      .map((item) => this.toRelease(item))
+      .filter((release): release is IndexerRelease => release !== null)
+      .sort((a, b) => b.seeders - a.seeders);
+  }
+
+  /**
+   * Torznab has no lookup by ID, so the info hash is searched and matched exactly
+   * Returns null on endpoints that do not match info hashes in searches
+   */
+  async fetchById(id: string): Promise<IndexerRelease | null> {
+    const releases = await this.search(id);
+    return releases.find((release) => release.id === id) ?? null;
+  }
+
+  private async requestXml(params: Record<string, string>): Promise<string> {
+    if (this.options.fetchXml) {
+      return this.options.fetchXml(params);
+    }
+
+    return this.httpClient.get<string>('', { params, responseType: 'text' });
+  }
+
+  private toRelease(item: XmlElement): IndexerRelease | null {
+    const attributes = new Map<string, string>();
+    for (const attribute of xmlChildren(item, 'torznab:attr')) {
+      if (!attributes.has(attribute.attributes.name)) {
+        attributes.set(attribute.attributes.name, attribute.attributes.value);
+      }
+    }
+
+    const title = xmlText(item, 'title') ?? '';
+    const magnetUrl = attributes.get('magneturl');
+    const infoHash = (
+      attributes.get('infohash') ?? (magnetUrl ? extractInfoHash(magnetUrl) : '')
+    ).toLowerCase();
+    if (!/^[a-f0-9]{40}$/.test(infoHash)) return null;
+
+    const enclosure = xmlChild(item, 'enclosure');
+    const sizeBytes = Number(xmlText(item, 'size') ?? enclosure?.attributes.length ?? 0) || 0;
+    const seeders = Number(attributes.get('seeders') ?? 0);
+    const peers = Number(attributes.get('peers') ?? seeders);
+    const published = new Date(xmlText(item, 'pubDate') ?? '');
+
+    return {
+      indexer: this.getId(),
+      id: infoHash,
+      title,
+      category: attributes.get('category') ?? xmlText(item, 'category') ?? '',
+      magnetLink: magnetUrl ?? `magnet:?xt=urn:btih:${infoHash}&dn=${encodeURIComponent(title)}`,
+      torrentLink: enclosure?.attributes.url ?? xmlText(item, 'link'),
+      infoHash,
+      size: formatBytes(sizeBytes),
+      sizeBytes,
+      seeders,
+      leechers: Math.max(0, peers - seeders),
+      downloads: Number(attributes.get('grabs') ?? 0),
+      publishedAt: isNaN(published.getTime()) ? new Date() : published,
+    };
+  }
+}
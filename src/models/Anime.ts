@@ -8,7 +8,9 @@ import {
   Image,
   Title,
   Rating,
+  SourceId,
 } from '../types/common';
+import { StudioRole } from './People';
 
 /**
  * Main Anime model representing unified anime data
@@ -48,7 +50,8 @@ export interface Anime {
   };
 
   // Ratings & Popularity
-  ratings: Rating[];
+  ratings: Rating[]; // Scores normalized to 0-10
+  aggregateScore?: number; // Vote-weighted average of ratings (0-10)
   ageRating?: AgeRating;
 
   // Categories
@@ -58,6 +61,7 @@ export interface Anime {
   studios: string[];
   producers: string[];
   licensors: string[];
+  companies?: AnimeCompany[]; // Studios, producers and licensors with their source IDs
 
   // Relations
   relations?: AnimeRelation[];
@@ -66,15 +70,41 @@ export interface Anime {
   // External References
   externalIds: ExternalId[];
 
+  // Provenance of unified fields, keyed by field path (e.g. 'title.english', 'genres')
+  provenance?: Record<string, FieldProvenance>;
+
   // Metadata
   createdAt: Date;
   updatedAt: Date;
   lastSyncedAt: Date;
 }
 
+/**
+ * Where the value of a unified field came from
+ */
+export interface FieldProvenance {
+  source: SourceId;
+  sources?: SourceId[]; // All contributing sources for merged fields
+  fetchedAt: Date;
+}
+
 export interface AnimeRelation {
-  animeId: string;
+  animeId?: string; // Internal ID of the related anime, when known
   relationType: RelationType;
+  externalId?: ExternalId; // Related anime at the source that reported the relation
+  title?: string;
+  type?: AnimeType;
+}
+
+/**
+ * Company credited on an anime, as reported by a source
+ */
+export interface AnimeCompany {
+  studioId?: string; // Internal ID of the stored studio, once resolved
+  name: string;
+  role: StudioRole;
+  externalId?: ExternalId; // Company at the source that reported it
+  isAnimationStudio?: boolean;
 }
 
 export enum RelationType {
@@ -104,3 +134,44 @@ export enum AdaptationType {
   GAME = 'GAME',
   OTHER = 'OTHER',
 }
+
+/**
+ * Filters, sorting and pagination for querying stored anime
+ * Array filters match any of the listed values, except genres and themes which must all match
+ */
+export interface AnimeQuery {
+  title?: string; // Substring of any title, ignoring case
+  genres?: string[];
+  themes?: string[];
+  types?: AnimeType[];
+  statuses?: AnimeStatus[];
+  season?: Season;
+  year?: number | NumberRange;
+  studio?: string; // Studio name (ignoring case) or stored studio ID
+  ageRatings?: AgeRating[];
+  score?: NumberRange; // Aggregate score (0-10)
+  episodes?: NumberRange;
+  sortBy?: AnimeSortField; // Default: 'createdAt'
+  sortOrder?: 'asc' | 'desc'; // Default: 'asc', except 'desc' for aggregateScore
+  limit?: number; // Default: 20
+  cursor?: string; // `nextCursor` of the previous page
+}
+
+export type AnimeSortField = 'title' | 'year' | 'aggregateScore' | 'episodes' | 'createdAt';
+
+/**
+ * Inclusive range; either bound may be omitted
+ */
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * A page of anime matching a query
+ */
+export interface AnimeQueryResult {
+  items: Anime[];
+  total: number; // Matches across all pages
+  nextCursor?: string; // Absent on the last page
+}
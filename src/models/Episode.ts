@@ -1,5 +1,26 @@
 import { ExternalId, Image } from '../types/common';
 
+/**
+ * Kind of episode, following AniDB's episode types
+ */
+export enum EpisodeType {
+  REGULAR = 'REGULAR',
+  SPECIAL = 'SPECIAL',
+  CREDIT = 'CREDIT', // Opening/ending sequences
+  TRAILER = 'TRAILER',
+  PARODY = 'PARODY',
+  OTHER = 'OTHER',
+}
+
+/**
+ * How a season layout was obtained
+ */
+export enum SeasonDetection {
+  PROVIDER = 'PROVIDER', // Season structure reported by a provider (e.g. TMDB)
+  AIR_DATES = 'AIR_DATES', // Split on broadcast breaks between episodes
+  SINGLE = 'SINGLE', // No break found, one season
+}
+
 /**
  * Episode model representing individual anime episodes
  */
@@ -12,6 +33,10 @@ export interface Episode {
 
   // Episode Information
   number: number;
+  type?: EpisodeType; // Regular when omitted
+  seasonNumber?: number; // Season in the provider's or detected layout, 0 for specials
+  seasonEpisodeNumber?: number; // Number within that season
+  absoluteNumber?: number; // Number across the franchise, counting episodes of prequel entries
   title?: string;
   titleJapanese?: string;
   titleRomaji?: string;
@@ -53,6 +78,9 @@ export interface AnimeSeason {
   // Episodes
   episodeCount?: number;
   episodes?: Episode[];
+  episodeOffset?: number; // Episode.number = episodeOffset + seasonEpisodeNumber
+  absoluteEpisodeOffset?: number; // Episode.absoluteNumber = absoluteEpisodeOffset + seasonEpisodeNumber
+  detection?: SeasonDetection;
 
   // Air Information
   aired?: {
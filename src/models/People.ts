@@ -1,4 +1,4 @@
-import { DataSource } from '../types/common';
+import { SourceId } from '../types/common';
 
 /**
  * Character model
@@ -12,13 +12,23 @@ export interface Character {
   };
   description?: string;
   image?: string;
-  role?: CharacterRole;
+  role?: CharacterRole; // Role in the anime the character was fetched or listed for
   voiceActors?: VoiceActor[];
-  externalIds: Array<{ source: DataSource; id: string }>;
+  appearances?: CharacterAppearance[]; // Anime the character appears in (stored characters)
+  externalIds: Array<{ source: SourceId; id: string }>;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Appearance of a character in an anime
+ */
+export interface CharacterAppearance {
+  animeId: string;
+  role?: CharacterRole;
+  voiceActorIds?: string[]; // Staff member IDs of the voice actors in this anime
+}
+
 export enum CharacterRole {
   MAIN = 'MAIN',
   SUPPORTING = 'SUPPORTING',
@@ -36,7 +46,7 @@ export interface VoiceActor {
   };
   language?: string;
   image?: string;
-  externalIds: Array<{ source: DataSource; id: string }>;
+  externalIds: Array<{ source: SourceId; id: string }>;
 }
 
 /**
@@ -48,21 +58,49 @@ export interface StaffMember {
     full?: string;
     native?: string;
   };
-  role?: string;
+  role?: string; // Role in the anime the member was fetched or listed for
   image?: string;
-  externalIds: Array<{ source: DataSource; id: string }>;
+  credits?: StaffCredit[]; // Staff and voice roles on every stored anime
+  externalIds: Array<{ source: SourceId; id: string }>;
   createdAt: Date;
   updatedAt: Date;
 }
 
 /**
- * Studio model
+ * Role of a person on an anime
+ */
+export interface StaffCredit {
+  animeId: string;
+  role: string; // e.g. 'Director', or 'Voice Actor' for voice roles
+  characterId?: string; // Character voiced
+  language?: string; // Voice role language
+}
+
+/**
+ * Studio model (animation studios, producers and licensors)
  */
 export interface Studio {
   id: string;
   name: string;
+  alternativeNames?: string[]; // Other spellings reported by sources
+  isAnimationStudio?: boolean;
   favorites?: number;
-  externalIds: Array<{ source: DataSource; id: string }>;
+  credits?: StudioCredit[]; // Roles on every stored anime
+  externalIds: Array<{ source: SourceId; id: string }>;
   createdAt: Date;
   updatedAt: Date;
 }
+
+/**
+ * Role of a studio on an anime
+ */
+export interface StudioCredit {
+  animeId: string;
+  role: StudioRole;
+}
+
+export enum StudioRole {
+  STUDIO = 'STUDIO', // Animation production
+  PRODUCER = 'PRODUCER',
+  LICENSOR = 'LICENSOR',
+}
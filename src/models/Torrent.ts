@@ -42,6 +42,45 @@ export enum TorrentCodec {
   UNKNOWN = 'UNKNOWN',
 }
 
+/**
+ * Video source of a release
+ */
+export enum ReleaseSource {
+  BLURAY = 'BluRay',
+  WEB_DL = 'WEB-DL',
+  WEBRIP = 'WEBRip',
+  WEB = 'WEB', // Web release without a DL / rip label
+  HDTV = 'HDTV',
+  DVD = 'DVD',
+  UNKNOWN = 'UNKNOWN',
+}
+
+/**
+ * Audio codec
+ */
+export enum AudioCodec {
+  AAC = 'AAC',
+  AC3 = 'AC3',
+  EAC3 = 'E-AC3',
+  FLAC = 'FLAC',
+  OPUS = 'Opus',
+  MP3 = 'MP3',
+  DTS = 'DTS',
+  TRUEHD = 'TrueHD',
+  VORBIS = 'Vorbis',
+}
+
+/**
+ * High dynamic range format
+ */
+export enum HdrFormat {
+  HDR = 'HDR', // HDR without a named format
+  HDR10 = 'HDR10',
+  HDR10_PLUS = 'HDR10+',
+  DOLBY_VISION = 'Dolby Vision',
+  HLG = 'HLG',
+}
+
 /**
  * Torrent release type
  */
@@ -69,6 +108,11 @@ export interface TorrentMetadata {
   isMultiSub?: boolean; // Multiple subtitles
   isBatch?: boolean;
   hasHardSubs?: boolean;
+  source?: ReleaseSource;
+  bitDepth?: number; // e.g. 10 for 10-bit video
+  hdrFormats?: HdrFormat[];
+  audioCodecs?: AudioCodec[];
+  version?: number; // Release revision (v2 replaces a faulty v1); unlabelled releases are v1
 }
 
 /**
@@ -79,6 +123,14 @@ export interface EpisodeRange {
   end: number;
 }
 
+/**
+ * A listing of a torrent at an indexer
+ */
+export interface TorrentIndexerSource {
+  indexer: string; // e.g. 'nyaa', 'animetosho'
+  id: string; // ID at the indexer
+}
+
 /**
  * Main Torrent model
  */
@@ -86,8 +138,9 @@ export interface Torrent {
   // Internal ID
   id: string;
 
-  // Nyaa information
-  nyaaId: string;
+  // Indexer information
+  nyaaId?: string; // Set when the torrent was found on Nyaa
+  sources?: TorrentIndexerSource[]; // Every indexer listing the torrent
   title: string;
   category: string;
   magnetLink: string;
@@ -112,6 +165,7 @@ export interface Torrent {
   animeId?: string; // Link to Anime
   episodeIds?: string[]; // Link to Episode(s)
   seasonId?: string; // Link to Season
+  seasonNumber?: number; // Season label in the title (e.g. "S2 - 05"); numbers below are relative to it
   episodeNumber?: number; // For single episode
   episodeRange?: EpisodeRange; // For batch
 
@@ -136,13 +190,19 @@ export interface TorrentSearchFilter {
   animeId?: string;
   episodeId?: string;
   seasonId?: string;
-  episodeNumber?: number;
+  episodeNumber?: number; // Matches unlabelled or first-season release numbers
   quality?: TorrentQuality;
   audioLanguage?: TorrentLanguage;
   subtitleLanguage?: TorrentLanguage;
   releaseType?: TorrentReleaseType;
+  source?: ReleaseSource;
+  bitDepth?: number;
+  hdrFormat?: HdrFormat;
+  audioCodec?: AudioCodec;
+  minVersion?: number; // e.g. 2 for revised releases only
   minSeeders?: number;
   trustedOnly?: boolean;
+  minGroupReputation?: number; // 0-1, applied by NyaaService (see ReleaseGroup.reputation)
 }
 
 /**
@@ -153,6 +213,36 @@ export interface TorrentStats {
   byQuality: Record<TorrentQuality, number>;
   byLanguage: Record<TorrentLanguage, number>;
   byReleaseType: Record<TorrentReleaseType, number>;
+  bySource: Record<ReleaseSource, number>; // Torrents without a source count as UNKNOWN
+  byBitDepth: Record<number, number>;
+  byHdrFormat: Record<HdrFormat, number>;
+  byAudioCodec: Record<AudioCodec, number>;
+  byVersion: Record<number, number>;
   averageSeeders: number;
   totalSize: number;
 }
+
+/**
+ * User preference for a release group
+ * Denied groups are hidden, preferred groups rank higher and, once any group is allowed,
+ * only allowed and preferred groups are kept
+ */
+export type ReleaseGroupPreference = 'allow' | 'deny' | 'prefer';
+
+/**
+ * A release group, as seen in indexed torrents
+ */
+export interface ReleaseGroup {
+  name: string;
+  releaseCount: number;
+  animeCount: number;
+  averageSeeders: number;
+  trustedRatio: number; // Share of releases from trusted uploaders (0-1)
+  codecs: TorrentCodec[]; // Most common first
+  qualities: TorrentQuality[];
+  audioLanguages: TorrentLanguage[];
+  subtitleLanguages: TorrentLanguage[];
+  lastActive: Date; // Latest release
+  reputation: number; // 0-1, from trusted ratio, seeders and release count
+  preference?: ReleaseGroupPreference;
+}
@@ -0,0 +1,499 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { Anime } from '../models/Anime';
+import { Episode, EpisodeType } from '../models/Episode';
+import { StudioRole } from '../models/People';
+import { DataSource, AnimeType, AnimeStatus, Season, AgeRating, ExternalId } from '../types/common';
+import { BaseAnimeProvider } from './BaseProvider';
+import { HttpClient } from '../utils/httpClient';
+import { RateLimiter } from '../utils/rateLimiter';
+import { CacheService } from '../utils/cache';
+import { ProviderError } from '../utils/errors';
+import { generateId, parseDate } from '../utils/helpers';
+import { genreTaxonomy } from '../utils/taxonomy';
+import { normalizeScore } from '../utils/ratings';
+import { XmlElement, parseXml, xmlChild, xmlChildren, xmlText } from '../utils/xml';
+
+/**
+ * Title entry of the AniDB anime-titles dump
+ */
+export interface AniDBTitle {
+  title: string;
+  type: 'main' | 'official' | 'syn' | 'short';
+  language: string; // e.g. 'x-jat' (romaji), 'en', 'ja'
+}
+
+/**
+ * AniDB provider options
+ */
+export interface AniDBProviderOptions {
+  /**
+   * Client name registered with AniDB, required for HTTP API requests
+   */
+  client?: string;
+
+  /**
+   * Client version registered with AniDB
+   * Default: 1
+   */
+  clientVersion?: number;
+
+  /**
+   * anime-titles dump (.xml or .dat, optionally gzipped) to load on construction
+   */
+  titlesDumpPath?: string;
+
+  /**
+   * Fetch the HTTP API XML of an anime by AniDB ID
+   * Replaces the live API, e.g. to replay recorded responses
+   */
+  fetchAnimeXml?: (aid: string) => Promise<string>;
+}
+
+/**
+ * Episode types by the `type` attribute of `<epno>`
+ */
+const EPISODE_TYPES: Record<string, EpisodeType> = {
+  '1': EpisodeType.REGULAR,
+  '2': EpisodeType.SPECIAL,
+  '3': EpisodeType.CREDIT,
+  '4': EpisodeType.TRAILER,
+  '5': EpisodeType.PARODY,
+  '6': EpisodeType.OTHER,
+};
+
+/**
+ * Title types by the numeric type column of the .dat dump
+ */
+const DAT_TITLE_TYPES: Record<string, AniDBTitle['type']> = {
+  '1': 'main',
+  '2': 'syn',
+  '3': 'short',
+  '4': 'official',
+};
+
+/**
+ * Resource types of the HTTP API mapped to other sources
+ */
+const RESOURCE_SOURCES: Record<string, DataSource> = {
+  '2': DataSource.MYANIMELIST,
+};
+
+/**
+ * AniDB provider
+ * Title search and ID mapping use the offline anime-titles dump, details and episodes
+ * come from the HTTP API (clients are banned when requesting more than once every 2 seconds)
+ * @see https://wiki.anidb.net/HTTP_API_Definition
+ * @see https://wiki.anidb.net/API#Anime_Titles
+ */
+export class AniDBProvider extends BaseAnimeProvider {
+  private httpClient: HttpClient;
+  private cache: CacheService<XmlElement>;
+  private titles: Map<string, AniDBTitle[]> = new Map();
+  private client?: string;
+  private clientVersion: number;
+  private fetchAnimeXml?: (aid: string) => Promise<string>;
+
+  constructor(options: AniDBProviderOptions = {}) {
+    super('http://api.anidb.net:9001/httpapi');
+
+    this.client = options.client;
+    this.clientVersion = options.clientVersion ?? 1;
+    this.fetchAnimeXml = options.fetchAnimeXml;
+
+    this.httpClient = new HttpClient({
+      baseURL: this.baseUrl,
+      timeout: 15000,
+      rateLimiter: new RateLimiter({
+        maxRequests: 1,
+        windowMs: 2000,
+      }),
+      maxRetries: 1,
+      enableLogging: false,
+    });
+
+    // AniDB asks clients not to request the same anime more than once a day
+    this.cache = new CacheService<XmlElement>(86400000);
+
+    if (options.titlesDumpPath) {
+      this.loadTitlesDump(options.titlesDumpPath);
+    }
+  }
+
+  getSource(): DataSource {
+    return DataSource.ANIDB;
+  }
+
+  /**
+   * Load the anime-titles dump from a local file, replacing any loaded titles
+   * Returns the number of anime in the dump
+   */
+  loadTitlesDump(filePath: string): number {
+    let content = fs.readFileSync(filePath);
+    if (content[0] === 0x1f && content[1] === 0x8b) {
+      content = zlib.gunzipSync(content);
+    }
+    return this.loadTitles(content.toString('utf8'));
+  }
+
+  /**
+   * Load anime-titles dump content in XML or pipe-separated DAT format
+   * Returns the number of anime in the dump
+   */
+  loadTitles(content: string): number {
+    this.titles = content.trimStart().startsWith('<')
+      ? this.parseTitlesXml(content)
+      : this.parseTitlesDat(content);
+    return this.titles.size;
+  }
+
+  /**
+   * Titles of an anime from the loaded dump
+   */
+  getTitles(aid: string): AniDBTitle[] {
+    return this.titles.get(aid) ?? [];
+  }
+
+  /**
+   * AniDB IDs of anime with a title exactly matching the given one (ignoring case and punctuation)
+   */
+  findIdsByTitle(title: string): string[] {
+    const key = this.normalizeTitle(title);
+    const ids: string[] = [];
+
+    for (const [aid, titles] of this.titles) {
+      if (titles.some((t) => this.normalizeTitle(t.title) === key)) {
+        ids.push(aid);
+      }
+    }
+
+    return ids;
+  }
+
+  async fetchAnimeById(externalId: string): Promise<Anime | null> {
+    const document = await this.fetchAnimeDocument(externalId);
+    return document ? this.mapAniDBToAnime(document) : null;
+  }
+
+  /**
+   * Search the loaded titles dump
+   * Results only carry titles; fetch an anime by ID for its details
+   */
+  searchAnime(query: string, limit: number = 10): Promise<Anime[]> {
+    if (this.titles.size === 0) {
+      return Promise.reject(
+        new ProviderError('AniDB', 'No anime-titles dump loaded, call loadTitlesDump() first')
+      );
+    }
+
+    const key = this.normalizeTitle(query);
+    if (!key) return Promise.resolve([]);
+
+    const matches: Array<{ aid: string; rank: number }> = [];
+    for (const [aid, titles] of this.titles) {
+      let best = Infinity;
+      for (const { title } of titles) {
+        const normalized = this.normalizeTitle(title);
+        // Rank exact matches before prefixes before substrings
+        if (normalized === key) best = Math.min(best, 0);
+        else if (normalized.startsWith(key)) best = Math.min(best, 1);
+        else if (normalized.includes(key)) best = Math.min(best, 2);
+      }
+      if (best !== Infinity) matches.push({ aid, rank: best });
+    }
+
+    return Promise.resolve(
+      matches
+        .sort((a, b) => a.rank - b.rank || Number(a.aid) - Number(b.aid))
+        .slice(0, limit)
+        .map(({ aid }) => this.mapTitlesToAnime(aid, this.titles.get(aid)!))
+    );
+  }
+
+  /**
+   * Not supported by the AniDB HTTP API
+   */
+  getSeasonalAnime(): Promise<Anime[]> {
+    return Promise.resolve([]);
+  }
+
+  async fetchEpisodes(animeId: string, externalId: string): Promise<Episode[]> {
+    const document = await this.fetchAnimeDocument(externalId);
+    if (!document) return [];
+
+    return xmlChildren(xmlChild(document, 'episodes'), 'episode')
+      .map((episode) => this.mapAniDBToEpisode(animeId, episode))
+      .sort((a, b) => this.typeOrder(a) - this.typeOrder(b) || a.number - b.number);
+  }
+
+  /**
+   * Fetch and parse the HTTP API response of an anime, or null if it does not exist
+   */
+  private async fetchAnimeDocument(aid: string): Promise<XmlElement | null> {
+    const cacheKey = `anidb-anime-${aid}`;
+
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // No fetchWithRetry: repeated requests after an error get the client banned
+    const document = parseXml(await this.requestAnimeXml(aid));
+
+    if (document.name === 'error') {
+      if (/not found|no such/i.test(document.text)) {
+        return null;
+      }
+      throw new ProviderError('AniDB', document.text || `Error ${document.attributes.code}`);
+    }
+
+    this.cache.set(cacheKey, document);
+    return document;
+  }
+
+  private async requestAnimeXml(aid: string): Promise<string> {
+    if (this.fetchAnimeXml) {
+      return this.fetchAnimeXml(aid);
+    }
+
+    if (!this.client) {
+      throw new ProviderError('AniDB', 'A registered client name is required for API requests');
+    }
+
+    return this.httpClient.get<string>('', {
+      params: {
+        request: 'anime',
+        client: this.client,
+        clientver: this.clientVersion,
+        protover: 1,
+        aid,
+      },
+      responseType: 'text',
+    });
+  }
+
+  private parseTitlesXml(content: string): Map<string, AniDBTitle[]> {
+    const titles = new Map<string, AniDBTitle[]>();
+
+    for (const anime of xmlChildren(parseXml(content), 'anime')) {
+      titles.set(
+        anime.attributes.aid,
+        xmlChildren(anime, 'title').map((title) => ({
+          title: title.text,
+          type: title.attributes.type as AniDBTitle['type'],
+          language: title.attributes['xml:lang'],
+        }))
+      );
+    }
+
+    return titles;
+  }
+
+  private parseTitlesDat(content: string): Map<string, AniDBTitle[]> {
+    const titles = new Map<string, AniDBTitle[]>();
+
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim() || line.startsWith('#')) continue;
+
+      // aid|type|language|title (the title itself may contain pipes)
+      const [aid, type, language, ...rest] = line.split('|');
+      if (!DAT_TITLE_TYPES[type] || rest.length === 0) continue;
+
+      if (!titles.has(aid)) {
+        titles.set(aid, []);
+      }
+      titles.get(aid)!.push({ title: rest.join('|'), type: DAT_TITLE_TYPES[type], language });
+    }
+
+    return titles;
+  }
+
+  private mapTitlesToAnime(aid: string, titles: AniDBTitle[]): Anime {
+    return {
+      id: generateId(),
+      title: this.mapTitles(titles),
+      type: AnimeType.TV,
+      status: AnimeStatus.FINISHED,
+      images: {},
+      aired: {},
+      ratings: [],
+      genres: [],
+      themes: [],
+      studios: [],
+      producers: [],
+      licensors: [],
+      externalIds: [{ source: DataSource.ANIDB, id: aid }],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSyncedAt: new Date(),
+    };
+  }
+
+  private mapAniDBToAnime(data: XmlElement): Anime {
+    const start = parseDate(xmlText(data, 'startdate'));
+    const end = parseDate(xmlText(data, 'enddate'));
+    const permanent = xmlChild(xmlChild(data, 'ratings'), 'permanent');
+    const picture = xmlText(data, 'picture');
+    const studios = xmlChildren(xmlChild(data, 'creators'), 'name').filter(
+      (creator) => creator.attributes.type === 'Animation Work'
+    );
+    const tags = xmlChildren(xmlChild(data, 'tags'), 'tag')
+      .map((tag) => xmlText(tag, 'name'))
+      .filter((name): name is string => !!name && !!genreTaxonomy.resolve(name, DataSource.ANIDB));
+    const regularEpisode = xmlChildren(xmlChild(data, 'episodes'), 'episode').find(
+      (episode) => xmlChild(episode, 'epno')?.attributes.type === '1'
+    );
+    const episodes = parseInt(xmlText(data, 'episodecount') ?? '');
+    const duration = parseInt(xmlText(regularEpisode, 'length') ?? '');
+
+    const externalIds: ExternalId[] = [{ source: DataSource.ANIDB, id: data.attributes.id }];
+    for (const resource of xmlChildren(xmlChild(data, 'resources'), 'resource')) {
+      const source = RESOURCE_SOURCES[resource.attributes.type];
+      const id = xmlText(xmlChild(resource, 'externalentity'), 'identifier');
+      if (source && id) {
+        externalIds.push({ source, id });
+      }
+    }
+
+    return {
+      id: generateId(),
+      title: this.mapTitles(
+        xmlChildren(xmlChild(data, 'titles'), 'title').map((title) => ({
+          title: title.text,
+          type: (title.attributes.type === 'synonym'
+            ? 'syn'
+            : title.attributes.type) as AniDBTitle['type'],
+          language: title.attributes['xml:lang'],
+        }))
+      ),
+      type: this.mapType(xmlText(data, 'type')),
+      status: this.mapStatus(start, end),
+      episodes: episodes > 0 ? episodes : undefined,
+      duration: duration > 0 ? duration : undefined,
+      synopsis: this.cleanDescription(xmlText(data, 'description')),
+      images: picture
+        ? {
+            large: `https://cdn.anidb.net/images/main/${picture}`,
+            original: `https://cdn.anidb.net/images/main/${picture}`,
+          }
+        : {},
+      aired: { start, end },
+      season: start ? this.mapSeason(start) : undefined,
+      year: start?.getFullYear(),
+      ratings: [
+        {
+          source: DataSource.ANIDB,
+          score: normalizeScore(permanent?.text, DataSource.ANIDB),
+          votes: permanent?.attributes.count ? parseInt(permanent.attributes.count) : undefined,
+        },
+      ],
+      ageRating: data.attributes.restricted === 'true' ? AgeRating.RX : undefined,
+      ...genreTaxonomy.classify({ genres: tags }, DataSource.ANIDB),
+      studios: studios.map((studio) => studio.text),
+      producers: [],
+      licensors: [],
+      companies: studios.map((studio) => ({
+        name: studio.text,
+        role: StudioRole.STUDIO,
+        externalId: studio.attributes.id
+          ? { source: DataSource.ANIDB, id: studio.attributes.id }
+          : undefined,
+        isAnimationStudio: true,
+      })),
+      externalIds,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSyncedAt: new Date(),
+    };
+  }
+
+  private mapAniDBToEpisode(animeId: string, data: XmlElement): Episode {
+    const epno = xmlChild(data, 'epno');
+    const titles = xmlChildren(data, 'title');
+    const titleIn = (language: string): string | undefined =>
+      titles.find((title) => title.attributes['xml:lang'] === language)?.text;
+    const length = parseInt(xmlText(data, 'length') ?? '');
+
+    return {
+      // Special/credit/trailer numbers carry a prefix (S1, C1, T1, ...)
+      id: `${animeId}-ep-${epno?.text}`,
+      animeId,
+      number: parseInt(epno?.text.replace(/^\D+/, '') ?? '') || 1,
+      type: EPISODE_TYPES[epno?.attributes.type ?? ''] ?? EpisodeType.OTHER,
+      title: titleIn('en'),
+      titleJapanese: titleIn('ja'),
+      titleRomaji: titleIn('x-jat'),
+      synopsis: this.cleanDescription(xmlText(data, 'summary')),
+      duration: length > 0 ? length : undefined,
+      aired: parseDate(xmlText(data, 'airdate')),
+      externalIds: [{ source: DataSource.ANIDB, id: data.attributes.id }],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+
+  private typeOrder(episode: Episode): number {
+    return Object.values(EpisodeType).indexOf(episode.type ?? EpisodeType.REGULAR);
+  }
+
+  private mapTitles(titles: AniDBTitle[]): Anime['title'] {
+    const find = (type: AniDBTitle['type'], language: string): string | undefined =>
+      titles.find((t) => t.type === type && t.language === language)?.title;
+
+    const romaji = titles.find((t) => t.type === 'main')?.title;
+    const english = find('official', 'en');
+    const native = find('official', 'ja');
+    const synonyms = titles
+      .filter((t) => t.type === 'syn' || t.type === 'short')
+      .map((t) => t.title)
+      .filter((title) => title !== romaji && title !== english && title !== native);
+
+    return {
+      romaji,
+      english,
+      native,
+      synonyms: synonyms.length > 0 ? [...new Set(synonyms)] : undefined,
+    };
+  }
+
+  /**
+   * Replace AniDB's BBCode-style links ("http://anidb.net/ch123 [Name]") with their label
+   */
+  private cleanDescription(description?: string): string | undefined {
+    return description?.replace(/https?:\/\/anidb\.net\/\S+ \[([^\]]*)\]/g, '$1');
+  }
+
+  private normalizeTitle(title: string): string {
+    return title
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim();
+  }
+
+  private mapSeason(start: Date): Season {
+    const seasons = [Season.WINTER, Season.SPRING, Season.SUMMER, Season.FALL];
+    return seasons[Math.floor(start.getMonth() / 3)];
+  }
+
+  private mapType(type?: string): AnimeType {
+    const typeMap: Record<string, AnimeType> = {
+      'TV Series': AnimeType.TV,
+      'TV Special': AnimeType.SPECIAL,
+      OVA: AnimeType.OVA,
+      Web: AnimeType.ONA,
+      Movie: AnimeType.MOVIE,
+      'Music Video': AnimeType.MUSIC,
+    };
+
+    return type && typeMap[type] ? typeMap[type] : AnimeType.TV;
+  }
+
+  private mapStatus(start?: Date, end?: Date): AnimeStatus {
+    const now = new Date();
+
+    if (!start || start > now) return AnimeStatus.NOT_YET_AIRED;
+    if (!end || end > now) return AnimeStatus.AIRING;
+    return AnimeStatus.FINISHED;
+  }
+}
@@ -1,15 +1,51 @@
 import { Anime } from '../models/Anime';
-import { Episode } from '../models/Episode';
-import { DataSource } from '../types/common';
+import { Episode, AnimeSeason } from '../models/Episode';
+import { Character, StaffMember } from '../models/People';
+import { SourceId } from '../types/common';
+
+/**
+ * Features a provider takes part in
+ */
+export interface ProviderCapabilities {
+  search: boolean;
+  seasonal: boolean;
+  episodes: boolean;
+  people: boolean;
+}
+
+/**
+ * Options used when registering a provider
+ */
+export interface ProviderRegistrationOptions {
+  /**
+   * Higher priority providers are queried first and preferred during unification
+   * Default: 0 (built-in providers use 10-30)
+   */
+  priority?: number;
+
+  /**
+   * Features to use the provider for
+   * Default: search and seasonal enabled, episodes and people enabled when `fetchEpisodes`
+   * and `fetchCharacters`/`fetchStaff` are implemented
+   */
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+/**
+ * A provider together with its registration options
+ */
+export interface ProviderRegistration extends ProviderRegistrationOptions {
+  provider: IAnimeProvider;
+}
 
 /**
  * Base interface for anime data providers
  */
 export interface IAnimeProvider {
   /**
-   * Get the source of this provider
+   * Get the source of this provider (a `DataSource` or a custom id such as 'my-service')
    */
-  getSource(): DataSource;
+  getSource(): SourceId;
 
   /**
    * Fetch anime by ID from the external source
@@ -31,6 +67,21 @@ export interface IAnimeProvider {
    */
   fetchEpisodes?(animeId: string, externalId: string): Promise<Episode[]>;
 
+  /**
+   * Fetch the season layout of an anime, for sources that group episodes into seasons
+   */
+  fetchSeasons?(animeId: string, externalId: string): Promise<AnimeSeason[]>;
+
+  /**
+   * Fetch the characters of an anime with their role and voice actors
+   */
+  fetchCharacters?(externalId: string): Promise<Character[]>;
+
+  /**
+   * Fetch the staff of an anime, one record per person and role
+   */
+  fetchStaff?(externalId: string): Promise<StaffMember[]>;
+
   /**
    * Check if the provider is available
    */
@@ -48,7 +99,7 @@ export abstract class BaseAnimeProvider implements IAnimeProvider {
     this.baseUrl = baseUrl;
   }
 
-  abstract getSource(): DataSource;
+  abstract getSource(): SourceId;
   abstract fetchAnimeById(externalId: string): Promise<Anime | null>;
   abstract searchAnime(query: string, limit?: number): Promise<Anime[]>;
   abstract getSeasonalAnime(year: number, season: string): Promise<Anime[]>;
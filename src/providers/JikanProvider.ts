@@ -1,11 +1,14 @@
-import { Anime } from '../models/Anime';
+import { Anime, AnimeCompany, AnimeRelation, RelationType } from '../models/Anime';
 import { Episode } from '../models/Episode';
+import { Character, CharacterRole, StaffMember, StudioRole } from '../models/People';
 import { DataSource, AnimeType, AnimeStatus, Season } from '../types/common';
 import { BaseAnimeProvider } from './BaseProvider';
 import { HttpClient } from '../utils/httpClient';
 import { RateLimiter } from '../utils/rateLimiter';
 import { CacheService } from '../utils/cache';
 import { generateId } from '../utils/helpers';
+import { genreTaxonomy } from '../utils/taxonomy';
+import { normalizeScore } from '../utils/ratings';
 
 /**
  * Jikan API response interfaces
@@ -93,6 +96,29 @@ interface JikanEpisodeData {
   forum_url?: string;
 }
 
+interface JikanRelationData {
+  relation: string;
+  entry: Array<{ mal_id: number; type: string; name: string; url: string }>;
+}
+
+interface JikanPersonEntry {
+  mal_id: number;
+  url: string;
+  images?: { jpg?: { image_url?: string } };
+  name: string; // "Last, First"
+}
+
+interface JikanCharacterData {
+  character: JikanPersonEntry;
+  role: string;
+  voice_actors?: Array<{ person: JikanPersonEntry; language: string }>;
+}
+
+interface JikanStaffData {
+  person: JikanPersonEntry;
+  positions: string[];
+}
+
 interface JikanAnimeResponse {
   data: JikanAnimeData;
 }
@@ -158,6 +184,7 @@ export class JikanProvider extends BaseAnimeProvider {
 
         const data = response.data;
         const anime = this.mapJikanToAnime(data);
+        anime.relations = await this.fetchRelations(externalId);
 
         this.cache.set(cacheKey, anime);
         return anime;
@@ -262,6 +289,106 @@ export class JikanProvider extends BaseAnimeProvider {
     });
   }
 
+  /**
+   * Fetch the characters of an anime with their voice actors
+   */
+  async fetchCharacters(externalId: string): Promise<Character[]> {
+    const roleMap: Record<string, CharacterRole> = {
+      Main: CharacterRole.MAIN,
+      Supporting: CharacterRole.SUPPORTING,
+    };
+
+    return this.fetchWithRetry(async () => {
+      const response = await this.httpClient.get<{ data: JikanCharacterData[] }>(
+        `/anime/${externalId}/characters`
+      );
+
+      return (response.data || []).map(({ character, role, voice_actors }) => ({
+        id: generateId(),
+        name: { full: this.mapPersonName(character.name) },
+        image: character.images?.jpg?.image_url,
+        role: roleMap[role],
+        voiceActors: (voice_actors || []).map(({ person, language }) => ({
+          id: generateId(),
+          name: { full: this.mapPersonName(person.name) },
+          language,
+          image: person.images?.jpg?.image_url,
+          externalIds: [{ source: DataSource.MYANIMELIST, id: person.mal_id.toString() }],
+        })),
+        externalIds: [{ source: DataSource.MYANIMELIST, id: character.mal_id.toString() }],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }));
+    });
+  }
+
+  /**
+   * Fetch the staff of an anime, one record per position
+   */
+  async fetchStaff(externalId: string): Promise<StaffMember[]> {
+    return this.fetchWithRetry(async () => {
+      const response = await this.httpClient.get<{ data: JikanStaffData[] }>(
+        `/anime/${externalId}/staff`
+      );
+
+      return (response.data || []).flatMap(({ person, positions }) =>
+        positions.map((role) => ({
+          id: generateId(),
+          name: { full: this.mapPersonName(person.name) },
+          role,
+          image: person.images?.jpg?.image_url,
+          externalIds: [{ source: DataSource.MYANIMELIST, id: person.mal_id.toString() }],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }))
+      );
+    });
+  }
+
+  /**
+   * MAL lists names as "Last, First"; other sources use "First Last"
+   */
+  private mapPersonName(name: string): string {
+    const parts = name.split(', ');
+    return parts.length === 2 ? `${parts[1]} ${parts[0]}` : name;
+  }
+
+  /**
+   * Fetch related anime (manga entries are skipped)
+   * Relations are optional, so a failed request yields undefined instead of failing the anime
+   */
+  private async fetchRelations(externalId: string): Promise<AnimeRelation[] | undefined> {
+    const relationMap: Record<string, RelationType> = {
+      Sequel: RelationType.SEQUEL,
+      Prequel: RelationType.PREQUEL,
+      'Side Story': RelationType.SIDE_STORY,
+      'Parent Story': RelationType.PARENT_STORY,
+      'Alternative Version': RelationType.ALTERNATIVE_VERSION,
+      'Alternative Setting': RelationType.ALTERNATIVE_SETTING,
+      Summary: RelationType.SUMMARY,
+      'Full Story': RelationType.FULL_STORY,
+      'Spin-Off': RelationType.SPIN_OFF,
+    };
+
+    try {
+      const response = await this.httpClient.get<{ data: JikanRelationData[] }>(
+        `/anime/${externalId}/relations`
+      );
+
+      return (response.data || []).flatMap((relation) =>
+        relation.entry
+          .filter((entry) => entry.type === 'anime')
+          .map((entry) => ({
+            relationType: relationMap[relation.relation] || RelationType.OTHER,
+            externalId: { source: DataSource.MYANIMELIST, id: entry.mal_id.toString() },
+            title: entry.name,
+          }))
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
   private mapJikanToAnime(data: JikanAnimeData): Anime {
     const anime: Anime = {
       id: generateId(),
@@ -290,18 +417,28 @@ export class JikanProvider extends BaseAnimeProvider {
       ratings: [
         {
           source: DataSource.MYANIMELIST,
-          score: data.score,
+          score: normalizeScore(data.score, DataSource.MYANIMELIST),
           votes: data.scored_by,
           rank: data.rank,
           popularity: data.popularity,
         },
       ],
-      genres: data.genres?.map((g) => g.name) || [],
-      themes: data.themes?.map((t) => t.name) || [],
-      demographics: data.demographics?.map((d) => d.name) || [],
+      ...genreTaxonomy.classify(
+        {
+          genres: [...(data.genres || []), ...(data.explicit_genres || [])].map((g) => g.name),
+          themes: data.themes?.map((t) => t.name),
+          demographics: data.demographics?.map((d) => d.name),
+        },
+        DataSource.MYANIMELIST
+      ),
       studios: data.studios?.map((s) => s.name) || [],
       producers: data.producers?.map((p) => p.name) || [],
       licensors: data.licensors?.map((l) => l.name) || [],
+      companies: [
+        ...this.mapCompanies(data.studios, StudioRole.STUDIO),
+        ...this.mapCompanies(data.producers, StudioRole.PRODUCER),
+        ...this.mapCompanies(data.licensors, StudioRole.LICENSOR),
+      ],
       externalIds: [
         {
           source: DataSource.MYANIMELIST,
@@ -316,6 +453,20 @@ export class JikanProvider extends BaseAnimeProvider {
     return anime;
   }
 
+  /**
+   * Map studios, producers or licensors to companies with their MAL IDs
+   */
+  private mapCompanies(
+    companies: JikanAnimeData['studios'] | undefined,
+    role: StudioRole
+  ): AnimeCompany[] {
+    return (companies || []).map((company) => ({
+      name: company.name,
+      role,
+      externalId: { source: DataSource.MYANIMELIST, id: company.mal_id.toString() },
+    }));
+  }
+
   private mapSeason(season: string): Season {
     const seasonMap: Record<string, Season> = {
       winter: Season.WINTER,
@@ -0,0 +1,465 @@
+import { Anime } from '../models/Anime';
+import { Episode, AnimeSeason, EpisodeType } from '../models/Episode';
+import { StudioRole } from '../models/People';
+import { DataSource, AnimeType, AnimeStatus, Season, ExternalId, Image } from '../types/common';
+import { BaseAnimeProvider } from './BaseProvider';
+import { HttpClient } from '../utils/httpClient';
+import { RateLimiter } from '../utils/rateLimiter';
+import { CacheService } from '../utils/cache';
+import { generateId, parseDate } from '../utils/helpers';
+import { genreTaxonomy } from '../utils/taxonomy';
+import { normalizeScore } from '../utils/ratings';
+
+/**
+ * TMDB API response interfaces
+ * TV shows and movies share most fields under different names (name/title, first_air_date/release_date)
+ */
+interface TMDBMedia {
+  id: number;
+  media_type?: 'tv' | 'movie' | 'person';
+  name?: string;
+  original_name?: string;
+  title?: string;
+  original_title?: string;
+  original_language?: string;
+  overview?: string;
+  first_air_date?: string;
+  last_air_date?: string;
+  release_date?: string;
+  status?: string;
+  number_of_episodes?: number;
+  episode_run_time?: number[];
+  runtime?: number;
+  poster_path?: string | null;
+  backdrop_path?: string | null;
+  vote_average?: number;
+  vote_count?: number;
+  genre_ids?: number[];
+  genres?: Array<{ id: number; name: string }>;
+  production_companies?: Array<{ id: number; name: string }>;
+  seasons?: TMDBSeasonSummary[];
+  external_ids?: {
+    imdb_id?: string | null;
+    tvdb_id?: number | null;
+  };
+  alternative_titles?: {
+    results?: TMDBAlternativeTitle[]; // TV
+    titles?: TMDBAlternativeTitle[]; // Movies
+  };
+}
+
+interface TMDBAlternativeTitle {
+  iso_3166_1: string;
+  title: string;
+  type?: string;
+}
+
+interface TMDBSeasonSummary {
+  id: number;
+  season_number: number;
+  name?: string;
+  episode_count?: number;
+  air_date?: string | null;
+  poster_path?: string | null;
+}
+
+interface TMDBSeasonDetails extends TMDBSeasonSummary {
+  episodes: TMDBEpisode[];
+}
+
+interface TMDBEpisode {
+  id: number;
+  episode_number: number;
+  season_number: number;
+  name?: string;
+  overview?: string;
+  air_date?: string | null;
+  runtime?: number | null;
+  still_path?: string | null;
+}
+
+interface TMDBPagedResponse {
+  results: TMDBMedia[];
+  page: number;
+  total_pages: number;
+}
+
+/**
+ * TMDB genre id of "Animation"
+ */
+const ANIMATION_GENRE_ID = 16;
+
+const IMAGE_BASE_URL = 'https://image.tmdb.org/t/p';
+
+/**
+ * TMDB (The Movie Database) provider for TV shows and movies
+ * External IDs are `tv/<id>` or `movie/<id>`; bare numeric IDs are treated as TV shows
+ * @see https://developer.themoviedb.org/reference/intro/getting-started
+ */
+export class TMDBProvider extends BaseAnimeProvider {
+  private httpClient: HttpClient;
+  private cache: CacheService<TMDBMedia | TMDBSeasonDetails>;
+  private apiKey?: string;
+  private language: string;
+
+  /**
+   * @param credential API Read Access Token (Bearer) or v3 API key
+   * @param language Language of titles and overviews, e.g. 'en-US' (default)
+   */
+  constructor(credential: string, language: string = 'en-US') {
+    super('https://api.themoviedb.org/3');
+
+    // Read Access Tokens are JWTs, v3 API keys are sent as a query parameter
+    const isAccessToken = credential.includes('.');
+    this.apiKey = isAccessToken ? undefined : credential;
+    this.language = language;
+
+    // Initialize HTTP client with rate limiting (TMDB allows ~50 requests/second)
+    this.httpClient = new HttpClient({
+      baseURL: this.baseUrl,
+      timeout: 15000,
+      headers: isAccessToken ? { Authorization: `Bearer ${credential}` } : {},
+      rateLimiter: new RateLimiter({
+        maxRequests: 40,
+        windowMs: 1000,
+      }),
+      maxRetries: 3,
+      retryDelay: 1000,
+      enableLogging: false,
+    });
+
+    // Cache for 6 hours
+    this.cache = new CacheService<TMDBMedia | TMDBSeasonDetails>(21600000);
+  }
+
+  getSource(): DataSource {
+    return DataSource.TMDB;
+  }
+
+  async fetchAnimeById(externalId: string): Promise<Anime | null> {
+    const details = await this.fetchDetails(externalId);
+    return details
+      ? this.mapTMDBToAnime(details, this.parseExternalId(externalId).mediaType)
+      : null;
+  }
+
+  /**
+   * Search TV shows and movies, keeping animated titles only
+   */
+  async searchAnime(query: string, limit: number = 10): Promise<Anime[]> {
+    return this.fetchWithRetry(async () => {
+      const response = await this.request<TMDBPagedResponse>('/search/multi', {
+        query,
+        include_adult: 'false',
+      });
+
+      return response.results
+        .filter(
+          (item) =>
+            (item.media_type === 'tv' || item.media_type === 'movie') &&
+            item.genre_ids?.includes(ANIMATION_GENRE_ID)
+        )
+        .slice(0, limit)
+        .map((item) => this.mapTMDBToAnime(item, item.media_type as 'tv' | 'movie'));
+    });
+  }
+
+  /**
+   * Japanese animated TV shows that premiered in the given season
+   */
+  async getSeasonalAnime(year: number, season: string): Promise<Anime[]> {
+    const firstMonth = { winter: 1, spring: 4, summer: 7, fall: 10 }[season.toLowerCase()] ?? 1;
+    const pad = (n: number): string => String(n).padStart(2, '0');
+    const lastDay = new Date(Date.UTC(year, firstMonth + 2, 0)).getUTCDate();
+
+    return this.fetchWithRetry(async () => {
+      const response = await this.request<TMDBPagedResponse>('/discover/tv', {
+        with_genres: String(ANIMATION_GENRE_ID),
+        with_original_language: 'ja',
+        'first_air_date.gte': `${year}-${pad(firstMonth)}-01`,
+        'first_air_date.lte': `${year}-${pad(firstMonth + 2)}-${lastDay}`,
+        sort_by: 'popularity.desc',
+      });
+
+      return response.results.map((item) => this.mapTMDBToAnime(item, 'tv'));
+    });
+  }
+
+  /**
+   * Episodes in TMDB's season layout
+   * Regular episodes are numbered across seasons, season 0 becomes special episodes,
+   * and a movie is returned as a single episode
+   */
+  async fetchEpisodes(animeId: string, externalId: string): Promise<Episode[]> {
+    const { mediaType } = this.parseExternalId(externalId);
+
+    if (mediaType === 'movie') {
+      const movie = await this.fetchDetails(externalId);
+      if (!movie) return [];
+
+      return [
+        {
+          id: `${animeId}-ep-1`,
+          animeId,
+          number: 1,
+          title: movie.title,
+          synopsis: movie.overview || undefined,
+          duration: movie.runtime || undefined,
+          aired: parseDate(movie.release_date),
+          images: this.mapImage(movie.backdrop_path),
+          externalIds: [{ source: DataSource.TMDB, id: externalId }],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ];
+    }
+
+    const seasons = await this.fetchSeasonDetails(externalId);
+    const episodes: Episode[] = [];
+    let absoluteNumber = 0;
+
+    for (const season of seasons) {
+      for (const ep of season.episodes) {
+        const isSpecial = season.season_number === 0;
+        const number = isSpecial ? ep.episode_number : ++absoluteNumber;
+
+        episodes.push({
+          id: isSpecial ? `${animeId}-ep-S${number}` : `${animeId}-ep-${number}`,
+          animeId,
+          number,
+          type: isSpecial ? EpisodeType.SPECIAL : EpisodeType.REGULAR,
+          seasonNumber: season.season_number,
+          seasonEpisodeNumber: ep.episode_number,
+          title: ep.name || undefined,
+          synopsis: ep.overview || undefined,
+          duration: ep.runtime || undefined,
+          aired: parseDate(ep.air_date ?? undefined),
+          images: this.mapImage(ep.still_path),
+          externalIds: [{ source: DataSource.TMDB, id: ep.id.toString() }],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+      }
+    }
+
+    return episodes;
+  }
+
+  /**
+   * Seasons of a TV show with their episodes (specials in season 0 are not included)
+   */
+  async fetchSeasons(animeId: string, externalId: string): Promise<AnimeSeason[]> {
+    if (this.parseExternalId(externalId).mediaType === 'movie') {
+      return [];
+    }
+
+    // Sequential so the season requests are served from cache the second time
+    const episodes = await this.fetchEpisodes(animeId, externalId);
+    const seasons = await this.fetchSeasonDetails(externalId);
+
+    return seasons
+      .filter((season) => season.season_number > 0)
+      .map((season) => {
+        const seasonEpisodes = episodes.filter((ep) => ep.seasonNumber === season.season_number);
+        const airDates = seasonEpisodes
+          .map((ep) => ep.aired)
+          .filter((date): date is Date => date !== undefined);
+
+        return {
+          id: generateId(),
+          animeId,
+          seasonNumber: season.season_number,
+          title: season.name || undefined,
+          episodeCount: seasonEpisodes.length,
+          episodes: seasonEpisodes,
+          aired: {
+            start: parseDate(season.air_date ?? undefined) ?? airDates[0],
+            end: airDates[airDates.length - 1],
+          },
+          externalIds: [{ source: DataSource.TMDB, id: season.id.toString() }],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+      });
+  }
+
+  private async fetchDetails(externalId: string): Promise<TMDBMedia | null> {
+    const { mediaType, id } = this.parseExternalId(externalId);
+    const cacheKey = `tmdb-${mediaType}-${id}`;
+
+    // Try cache first
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached as TMDBMedia;
+    }
+
+    try {
+      return await this.fetchWithRetry(async () => {
+        const details = await this.request<TMDBMedia>(`/${mediaType}/${id}`, {
+          append_to_response: 'external_ids,alternative_titles',
+        });
+
+        this.cache.set(cacheKey, details);
+        return details;
+      });
+    } catch (error) {
+      // Handle 404 errors gracefully
+      if ((error as { response?: { status?: number } }).response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Season details of a TV show, in season order (specials first)
+   */
+  private async fetchSeasonDetails(externalId: string): Promise<TMDBSeasonDetails[]> {
+    const show = await this.fetchDetails(externalId);
+    if (!show) return [];
+
+    const seasons: TMDBSeasonDetails[] = [];
+    for (const summary of [...(show.seasons || [])].sort(
+      (a, b) => a.season_number - b.season_number
+    )) {
+      const cacheKey = `tmdb-tv-${show.id}-season-${summary.season_number}`;
+
+      let season = this.cache.get(cacheKey) as TMDBSeasonDetails | null;
+      if (!season) {
+        season = await this.fetchWithRetry(() =>
+          this.request<TMDBSeasonDetails>(`/tv/${show.id}/season/${summary.season_number}`)
+        );
+        this.cache.set(cacheKey, season);
+      }
+      seasons.push(season);
+    }
+
+    return seasons;
+  }
+
+  private request<T>(url: string, params: Record<string, string> = {}): Promise<T> {
+    return this.httpClient.get<T>(url, {
+      params: {
+        ...params,
+        language: this.language,
+        ...(this.apiKey ? { api_key: this.apiKey } : {}),
+      },
+    });
+  }
+
+  private parseExternalId(externalId: string): { mediaType: 'tv' | 'movie'; id: string } {
+    const [prefix, id] = externalId.split('/');
+    return id === undefined
+      ? { mediaType: 'tv', id: prefix }
+      : { mediaType: prefix === 'movie' ? 'movie' : 'tv', id };
+  }
+
+  private mapTMDBToAnime(data: TMDBMedia, mediaType: 'tv' | 'movie'): Anime {
+    const isMovie = mediaType === 'movie';
+    const start = parseDate(isMovie ? data.release_date : data.first_air_date);
+    const alternativeTitles =
+      data.alternative_titles?.results ?? data.alternative_titles?.titles ?? [];
+    const english = (isMovie ? data.title : data.name) || undefined;
+    const native = (isMovie ? data.original_title : data.original_name) || undefined;
+    const romaji = alternativeTitles.find((t) => /romaji/i.test(t.type ?? ''))?.title;
+    const synonyms = [
+      ...new Set(
+        alternativeTitles
+          .filter((t) => ['JP', 'US', 'GB'].includes(t.iso_3166_1))
+          .map((t) => t.title)
+          .filter((title) => title !== english && title !== native && title !== romaji)
+      ),
+    ];
+
+    const externalIds: ExternalId[] = [{ source: DataSource.TMDB, id: `${mediaType}/${data.id}` }];
+    if (data.external_ids?.tvdb_id) {
+      externalIds.push({ source: 'TVDB', id: data.external_ids.tvdb_id.toString() });
+    }
+    if (data.external_ids?.imdb_id) {
+      externalIds.push({ source: 'IMDB', id: data.external_ids.imdb_id });
+    }
+
+    const anime: Anime = {
+      id: generateId(),
+      title: {
+        romaji,
+        english,
+        native,
+        synonyms: synonyms.length > 0 ? synonyms : undefined,
+      },
+      type: isMovie ? AnimeType.MOVIE : AnimeType.TV,
+      status: this.mapStatus(data.status, isMovie),
+      synopsis: data.overview || undefined,
+      images: this.mapImage(data.poster_path) ?? {},
+      episodes: isMovie ? 1 : data.number_of_episodes,
+      duration: (isMovie ? data.runtime : data.episode_run_time?.[0]) || undefined,
+      aired: {
+        start,
+        end: isMovie ? start : parseDate(data.last_air_date),
+      },
+      season: start ? this.mapSeason(start) : undefined,
+      year: start?.getFullYear(),
+      ratings: [
+        {
+          source: DataSource.TMDB,
+          score: normalizeScore(data.vote_average, DataSource.TMDB),
+          votes: data.vote_count,
+        },
+      ],
+      ...genreTaxonomy.classify(
+        {
+          // Composite TV genres such as "Sci-Fi & Fantasy"; every result is "Animation"
+          genres: (data.genres || [])
+            .flatMap((g) => g.name.split(' & '))
+            .filter((name) => name !== 'Animation'),
+        },
+        DataSource.TMDB
+      ),
+      studios: data.production_companies?.map((c) => c.name) || [],
+      producers: [],
+      licensors: [],
+      companies: data.production_companies?.map((c) => ({
+        name: c.name,
+        role: StudioRole.STUDIO,
+        externalId: { source: DataSource.TMDB, id: c.id.toString() },
+      })),
+      externalIds,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSyncedAt: new Date(),
+    };
+
+    return anime;
+  }
+
+  private mapImage(path?: string | null): Image | undefined {
+    if (!path) return undefined;
+
+    return {
+      small: `${IMAGE_BASE_URL}/w185${path}`,
+      medium: `${IMAGE_BASE_URL}/w342${path}`,
+      large: `${IMAGE_BASE_URL}/w780${path}`,
+      original: `${IMAGE_BASE_URL}/original${path}`,
+    };
+  }
+
+  private mapSeason(start: Date): Season {
+    const seasons = [Season.WINTER, Season.SPRING, Season.SUMMER, Season.FALL];
+    return seasons[Math.floor(start.getMonth() / 3)];
+  }
+
+  private mapStatus(status: string | undefined, isMovie: boolean): AnimeStatus {
+    const statusMap: Record<string, AnimeStatus> = {
+      'Returning Series': AnimeStatus.AIRING,
+      Ended: AnimeStatus.FINISHED,
+      Canceled: AnimeStatus.CANCELLED,
+      'In Production': AnimeStatus.NOT_YET_AIRED,
+      Planned: AnimeStatus.NOT_YET_AIRED,
+      Pilot: AnimeStatus.NOT_YET_AIRED,
+      Released: AnimeStatus.FINISHED,
+    };
+
+    if (status && statusMap[status]) return statusMap[status];
+    return isMovie ? AnimeStatus.NOT_YET_AIRED : AnimeStatus.FINISHED;
+  }
+}
@@ -1,11 +1,14 @@
-import { Anime } from '../models/Anime';
+import { Anime, AnimeRelation, RelationType } from '../models/Anime';
 import { Episode } from '../models/Episode';
+import { Character, CharacterRole, StaffMember, StudioRole, VoiceActor } from '../models/People';
 import { DataSource, AnimeType, AnimeStatus } from '../types/common';
 import { BaseAnimeProvider } from './BaseProvider';
 import { HttpClient } from '../utils/httpClient';
 import { RateLimiter } from '../utils/rateLimiter';
 import { CacheService } from '../utils/cache';
 import { generateId } from '../utils/helpers';
+import { genreTaxonomy } from '../utils/taxonomy';
+import { normalizeScore } from '../utils/ratings';
 
 /**
  * MyAnimeList API response interfaces
@@ -220,17 +223,26 @@ export class MyAnimeListProvider extends BaseAnimeProvider {
         ? [
             {
               source: DataSource.MYANIMELIST,
-              score: data.mean,
+              score: normalizeScore(data.mean, DataSource.MYANIMELIST),
               votes: data.num_scoring_users,
             },
           ]
         : [],
       synopsis: data.synopsis,
-      genres: data.genres?.map((g) => g.name) || [],
-      themes: [],
+      // MAL API reports genres, themes and demographics as a single list
+      ...genreTaxonomy.classify(
+        { genres: data.genres?.map((g) => g.name) },
+        DataSource.MYANIMELIST
+      ),
       studios: data.studios?.map((s) => s.name) || [],
       producers: [],
       licensors: [],
+      companies: data.studios?.map((s) => ({
+        name: s.name,
+        role: StudioRole.STUDIO,
+        externalId: { source: DataSource.MYANIMELIST, id: s.id.toString() },
+        isAnimationStudio: true,
+      })),
       externalIds: [
         {
           source: DataSource.MYANIMELIST,
@@ -315,6 +327,35 @@ export class MyAnimeListProvider extends BaseAnimeProvider {
   }
 }
 
+/**
+ * AniList studio node
+ */
+interface AniListStudio {
+  id: number;
+  name: string;
+  isAnimationStudio: boolean;
+}
+
+/**
+ * AniList character and staff connection shapes
+ */
+interface AniListPerson {
+  id: number;
+  name?: { full?: string; native?: string; alternative?: string[] };
+  image?: { large?: string };
+  description?: string;
+  languageV2?: string;
+}
+
+interface AniListPeopleMedia {
+  characters?: {
+    edges?: Array<{ role?: string; node?: AniListPerson; voiceActors?: AniListPerson[] }>;
+  };
+  staff?: {
+    edges?: Array<{ role?: string; node?: AniListPerson }>;
+  };
+}
+
 /**
  * AniList provider with GraphQL implementation
  */
@@ -361,14 +402,17 @@ export class AniListProvider extends BaseAnimeProvider {
         query ($id: Int) {
           Media(id: $id, type: ANIME) {
             id
+            idMal
             title {
               romaji
               english
               native
             }
+            synonyms
             format
             status
             description
+            seasonYear
             startDate {
               year
               month
@@ -400,12 +444,26 @@ export class AniListProvider extends BaseAnimeProvider {
               nodes {
                 id
                 name
+                isAnimationStudio
               }
             }
             externalLinks {
               url
               site
             }
+            relations {
+              edges {
+                relationType
+                node {
+                  id
+                  type
+                  format
+                  title {
+                    romaji
+                  }
+                }
+              }
+            }
           }
         }
       `;
@@ -437,13 +495,22 @@ export class AniListProvider extends BaseAnimeProvider {
           Page(page: 1, perPage: $perPage) {
             media(search: $search, type: ANIME) {
               id
+              idMal
               title {
                 romaji
                 english
                 native
               }
+              synonyms
               format
               status
+              episodes
+              seasonYear
+              startDate {
+                year
+                month
+                day
+              }
               description
               coverImage {
                 large
@@ -484,6 +551,7 @@ export class AniListProvider extends BaseAnimeProvider {
           Page(page: 1, perPage: $perPage) {
             media(season: $season, seasonYear: $year, type: ANIME, sort: POPULARITY_DESC) {
               id
+              idMal
               title {
                 romaji
                 english
@@ -534,12 +602,14 @@ export class AniListProvider extends BaseAnimeProvider {
    * Map AniList API response to internal Anime model
    */
   private mapAniListToAnime(data: any): Anime {
+    const studios: AniListStudio[] = data.studios?.nodes || [];
     const anime: Anime = {
       id: generateId(),
       title: {
         romaji: data.title?.romaji,
         english: data.title?.english,
         native: data.title?.native,
+        synonyms: data.synonyms,
       },
       type: this.mapFormat(data.format),
       status: this.mapStatus(data.status),
@@ -553,28 +623,44 @@ export class AniListProvider extends BaseAnimeProvider {
         ? [
             {
               source: DataSource.ANILIST,
-              score: data.averageScore / 10, // AniList uses 0-100 scale
-              votes: data.favourites,
+              score: normalizeScore(data.averageScore, DataSource.ANILIST),
+              votes: data.popularity, // Users with the anime on their list, like Kitsu's userCount
             },
           ]
         : [],
       synopsis: data.description,
-      genres: data.genres || [],
-      themes: data.tags?.filter((t: any) => t.rank >= 70).map((t: any) => t.name) || [],
-      studios: data.studios?.nodes?.map((s: any) => ({ id: generateId(), name: s.name })) || [],
-      producers: [],
+      ...genreTaxonomy.classify(
+        {
+          genres: data.genres,
+          themes: data.tags?.filter((t: any) => t.rank >= 70).map((t: any) => t.name),
+        },
+        DataSource.ANILIST
+      ),
+      // AniList lists animation studios and producers together
+      studios: studios.filter((s) => s.isAnimationStudio).map((s) => s.name),
+      producers: studios.filter((s) => !s.isAnimationStudio).map((s) => s.name),
       licensors: [],
+      companies: studios.map((s) => ({
+        name: s.name,
+        role: s.isAnimationStudio ? StudioRole.STUDIO : StudioRole.PRODUCER,
+        externalId: { source: DataSource.ANILIST, id: s.id.toString() },
+        isAnimationStudio: s.isAnimationStudio,
+      })),
       externalIds: [
         {
           source: DataSource.ANILIST,
           id: data.id.toString(),
         },
+        // AniList cross-references MyAnimeList IDs
+        ...(data.idMal ? [{ source: DataSource.MYANIMELIST, id: data.idMal.toString() }] : []),
       ],
       episodes: data.episodes,
+      year: data.seasonYear,
       aired: {
         start: this.parseAniListDate(data.startDate),
         end: this.parseAniListDate(data.endDate),
       },
+      relations: data.relations ? this.mapRelations(data.relations.edges || []) : undefined,
       createdAt: new Date(),
       updatedAt: new Date(),
       lastSyncedAt: new Date(),
@@ -583,6 +669,41 @@ export class AniListProvider extends BaseAnimeProvider {
     return anime;
   }
 
+  /**
+   * Map AniList relation edges to anime relations (manga and novels are skipped)
+   */
+  private mapRelations(
+    edges: Array<{
+      relationType: string;
+      node?: { id: number; type: string; format?: string; title?: { romaji?: string } };
+    }>
+  ): AnimeRelation[] {
+    const relationMap: Record<string, RelationType> = {
+      SEQUEL: RelationType.SEQUEL,
+      PREQUEL: RelationType.PREQUEL,
+      SIDE_STORY: RelationType.SIDE_STORY,
+      PARENT: RelationType.PARENT_STORY,
+      ALTERNATIVE: RelationType.ALTERNATIVE_VERSION,
+      SUMMARY: RelationType.SUMMARY,
+      COMPILATION: RelationType.SUMMARY,
+      CONTAINS: RelationType.FULL_STORY,
+      SPIN_OFF: RelationType.SPIN_OFF,
+    };
+
+    return edges.flatMap(({ relationType, node }) =>
+      node?.type === 'ANIME'
+        ? [
+            {
+              relationType: relationMap[relationType] || RelationType.OTHER,
+              externalId: { source: DataSource.ANILIST, id: node.id.toString() },
+              title: node.title?.romaji,
+              type: node.format ? this.mapFormat(node.format) : undefined,
+            },
+          ]
+        : []
+    );
+  }
+
   /**
    * Map AniList format to internal AnimeType
    */
@@ -697,6 +818,105 @@ export class AniListProvider extends BaseAnimeProvider {
       return episodes;
     });
   }
+
+  /**
+   * Fetch the characters of an anime with their voice actors (first 50, main roles first)
+   */
+  async fetchCharacters(externalId: string): Promise<Character[]> {
+    const media = await this.fetchPeopleMedia(
+      externalId,
+      `characters(perPage: 50, sort: [ROLE, RELEVANCE]) {
+        edges {
+          role
+          node { id name { full native alternative } image { large } description }
+          voiceActors { id name { full native } image { large } languageV2 }
+        }
+      }`
+    );
+    const roleMap: Record<string, CharacterRole> = {
+      MAIN: CharacterRole.MAIN,
+      SUPPORTING: CharacterRole.SUPPORTING,
+      BACKGROUND: CharacterRole.BACKGROUND,
+    };
+
+    return (media.characters?.edges || []).flatMap(({ role, node, voiceActors }) =>
+      node
+        ? [
+            {
+              id: generateId(),
+              name: {
+                full: node.name?.full,
+                native: node.name?.native,
+                alternative: node.name?.alternative?.filter((name) => !!name),
+              },
+              description: node.description,
+              image: node.image?.large,
+              role: roleMap[role || ''],
+              voiceActors: (voiceActors || []).map(
+                (person): VoiceActor => ({
+                  id: generateId(),
+                  name: { full: person.name?.full, native: person.name?.native },
+                  language: person.languageV2,
+                  image: person.image?.large,
+                  externalIds: [{ source: DataSource.ANILIST, id: person.id.toString() }],
+                })
+              ),
+              externalIds: [{ source: DataSource.ANILIST, id: node.id.toString() }],
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            },
+          ]
+        : []
+    );
+  }
+
+  /**
+   * Fetch the staff of an anime (first 50 credits)
+   */
+  async fetchStaff(externalId: string): Promise<StaffMember[]> {
+    const media = await this.fetchPeopleMedia(
+      externalId,
+      `staff(perPage: 50, sort: RELEVANCE) {
+        edges { role node { id name { full native } image { large } } }
+      }`
+    );
+
+    return (media.staff?.edges || []).flatMap(({ role, node }) =>
+      node
+        ? [
+            {
+              id: generateId(),
+              name: { full: node.name?.full, native: node.name?.native },
+              role,
+              image: node.image?.large,
+              externalIds: [{ source: DataSource.ANILIST, id: node.id.toString() }],
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            },
+          ]
+        : []
+    );
+  }
+
+  /**
+   * Query a character or staff connection of an anime
+   */
+  private fetchPeopleMedia(externalId: string, connection: string): Promise<AniListPeopleMedia> {
+    return this.fetchWithRetry(async () => {
+      const query = `
+        query ($id: Int) {
+          Media(id: $id, type: ANIME) {
+            ${connection}
+          }
+        }
+      `;
+
+      const data = await this.httpClient.graphql<{ Media: AniListPeopleMedia | null }>(query, {
+        id: parseInt(externalId),
+      });
+      return data.Media || {};
+    });
+  }
 }
 
 /**
@@ -735,10 +955,55 @@ interface KitsuAnimeData {
     popularityRank?: number;
     ratingRank?: number;
   };
+  relationships?: {
+    categories?: {
+      data?: Array<{ type: string; id: string }>;
+    };
+    mediaRelationships?: {
+      data?: Array<{ type: string; id: string }>;
+    };
+  };
+}
+
+interface KitsuIncludedResource {
+  id: string;
+  type: string;
+  attributes: {
+    title?: string; // categories
+    role?: string; // mediaRelationships
+    canonicalTitle?: string; // anime
+    subtype?: string; // anime
+    name?: string; // characters, people
+    names?: { en?: string; ja_jp?: string }; // characters
+    otherNames?: string[]; // characters
+    malId?: number; // characters, people
+    description?: string; // characters
+    image?: { original?: string }; // characters, people
+  };
+  relationships?: {
+    destination?: {
+      data?: { type: string; id: string };
+    };
+  };
+}
+
+interface KitsuCasting {
+  id: string;
+  attributes: {
+    role?: string;
+    voiceActor?: boolean;
+    featured?: boolean;
+    language?: string;
+  };
+  relationships?: {
+    character?: { data?: { type: string; id: string } | null };
+    person?: { data?: { type: string; id: string } | null };
+  };
 }
 
 interface KitsuResponse {
   data: KitsuAnimeData | KitsuAnimeData[];
+  included?: KitsuIncludedResource[];
 }
 
 /**
@@ -782,13 +1047,15 @@ export class KitsuProvider extends BaseAnimeProvider {
     }
 
     return this.fetchWithRetry(async () => {
-      const data = await this.httpClient.get<KitsuResponse>(`/anime/${externalId}`);
+      const data = await this.httpClient.get<KitsuResponse>(`/anime/${externalId}`, {
+        params: { include: 'categories,mediaRelationships.destination' },
+      });
 
       if (!data.data || Array.isArray(data.data)) {
         return null;
       }
 
-      const anime = this.mapKitsuToAnime(data.data);
+      const anime = this.mapKitsuToAnime(data.data, data.included);
 
       // Cache the result
       this.cache.set(cacheKey, anime);
@@ -812,6 +1079,7 @@ export class KitsuProvider extends BaseAnimeProvider {
           'filter[text]': query,
           'page[limit]': limit,
           'page[offset]': 0,
+          include: 'categories',
         },
       });
 
@@ -819,7 +1087,7 @@ export class KitsuProvider extends BaseAnimeProvider {
         return [];
       }
 
-      const results = data.data.map((item) => this.mapKitsuToAnime(item));
+      const results = data.data.map((item) => this.mapKitsuToAnime(item, data.included));
 
       // Cache the results
       this.cache.set(cacheKey, results);
@@ -876,7 +1144,14 @@ export class KitsuProvider extends BaseAnimeProvider {
   /**
    * Map Kitsu API response to internal Anime model
    */
-  private mapKitsuToAnime(data: KitsuAnimeData): Anime {
+  private mapKitsuToAnime(data: KitsuAnimeData, included: KitsuIncludedResource[] = []): Anime {
+    const categoryIds = new Set(data.relationships?.categories?.data?.map((c) => c.id) || []);
+    const categories = included
+      .filter((r) => r.type === 'categories' && categoryIds.has(r.id))
+      .map((r) => r.attributes.title)
+      .filter((title): title is string => !!title);
+    const relationIds = data.relationships?.mediaRelationships?.data;
+
     const anime: Anime = {
       id: generateId(),
       title: {
@@ -896,14 +1171,14 @@ export class KitsuProvider extends BaseAnimeProvider {
         ? [
             {
               source: DataSource.KITSU,
-              score: parseFloat(data.attributes.averageRating) / 10, // Kitsu uses 0-100 scale
+              score: normalizeScore(data.attributes.averageRating, DataSource.KITSU),
               votes: data.attributes.userCount,
             },
           ]
         : [],
       synopsis: data.attributes.synopsis || data.attributes.description,
-      genres: [],
-      themes: [],
+      // Kitsu categories mix genres with settings ("Earth", "Present"), so unknown ones are themes
+      ...genreTaxonomy.classify({ themes: categories }, DataSource.KITSU),
       studios: [],
       producers: [],
       licensors: [],
@@ -919,6 +1194,7 @@ export class KitsuProvider extends BaseAnimeProvider {
         start: data.attributes.startDate ? new Date(data.attributes.startDate) : undefined,
         end: data.attributes.endDate ? new Date(data.attributes.endDate) : undefined,
       },
+      relations: relationIds ? this.mapRelations(relationIds, included) : undefined,
       createdAt: new Date(),
       updatedAt: new Date(),
       lastSyncedAt: new Date(),
@@ -927,6 +1203,45 @@ export class KitsuProvider extends BaseAnimeProvider {
     return anime;
   }
 
+  /**
+   * Map included media relationships to anime relations (manga destinations are skipped)
+   */
+  private mapRelations(
+    relationIds: Array<{ type: string; id: string }>,
+    included: KitsuIncludedResource[]
+  ): AnimeRelation[] {
+    const relationMap: Record<string, RelationType> = {
+      sequel: RelationType.SEQUEL,
+      prequel: RelationType.PREQUEL,
+      side_story: RelationType.SIDE_STORY,
+      parent_story: RelationType.PARENT_STORY,
+      alternative_version: RelationType.ALTERNATIVE_VERSION,
+      alternative_setting: RelationType.ALTERNATIVE_SETTING,
+      summary: RelationType.SUMMARY,
+      full_story: RelationType.FULL_STORY,
+      spinoff: RelationType.SPIN_OFF,
+    };
+    const find = (type: string, id: string): KitsuIncludedResource | undefined =>
+      included.find((r) => r.type === type && r.id === id);
+
+    const relations: AnimeRelation[] = [];
+    for (const { id } of relationIds) {
+      const relationship = find('mediaRelationships', id);
+      const destination = relationship?.relationships?.destination?.data;
+      if (!relationship || destination?.type !== 'anime') continue;
+
+      const related = find('anime', destination.id);
+      relations.push({
+        relationType: relationMap[relationship.attributes.role || ''] || RelationType.OTHER,
+        externalId: { source: DataSource.KITSU, id: destination.id },
+        title: related?.attributes.canonicalTitle,
+        type: related?.attributes.subtype ? this.mapSubtype(related.attributes.subtype) : undefined,
+      });
+    }
+
+    return relations;
+  }
+
   /**
    * Map Kitsu subtype to internal AnimeType
    */
@@ -1007,4 +1322,124 @@ export class KitsuProvider extends BaseAnimeProvider {
       return episodes;
     });
   }
+
+  /**
+   * Fetch the characters of an anime from its voice castings
+   * Featured castings are main characters; other roles are not reported by Kitsu
+   */
+  async fetchCharacters(externalId: string): Promise<Character[]> {
+    const { castings, included } = await this.fetchCastings(externalId);
+    const characters = new Map<string, Character>();
+
+    for (const casting of castings) {
+      const characterId = casting.relationships?.character?.data?.id;
+      const character = characterId && this.findIncluded(included, 'characters', characterId);
+      if (!character) continue;
+
+      const mapped = characters.get(character.id) ?? {
+        id: generateId(),
+        name: {
+          full: character.attributes.names?.en || character.attributes.name,
+          native: character.attributes.names?.ja_jp,
+          alternative: character.attributes.otherNames,
+        },
+        description: character.attributes.description,
+        image: character.attributes.image?.original,
+        voiceActors: [],
+        externalIds: this.peopleIds(character),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      if (casting.attributes.featured) mapped.role = CharacterRole.MAIN;
+
+      const personId = casting.relationships?.person?.data?.id;
+      const person = personId && this.findIncluded(included, 'people', personId);
+      if (person) {
+        mapped.voiceActors!.push({
+          id: generateId(),
+          name: { full: person.attributes.name },
+          language: casting.attributes.language,
+          image: person.attributes.image?.original,
+          externalIds: this.peopleIds(person),
+        });
+      }
+      characters.set(character.id, mapped);
+    }
+
+    return Array.from(characters.values());
+  }
+
+  /**
+   * Fetch the staff of an anime from its non-voice castings
+   */
+  async fetchStaff(externalId: string): Promise<StaffMember[]> {
+    const { castings, included } = await this.fetchCastings(externalId);
+
+    return castings.flatMap((casting) => {
+      const personId = casting.relationships?.person?.data?.id;
+      const person = personId && this.findIncluded(included, 'people', personId);
+      if (casting.attributes.voiceActor || casting.relationships?.character?.data || !person) {
+        return [];
+      }
+
+      return [
+        {
+          id: generateId(),
+          name: { full: person.attributes.name },
+          role: casting.attributes.role,
+          image: person.attributes.image?.original,
+          externalIds: this.peopleIds(person),
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ];
+    });
+  }
+
+  /**
+   * Fetch the castings of an anime with their characters and people (up to 5 pages of 20)
+   */
+  private fetchCastings(
+    externalId: string
+  ): Promise<{ castings: KitsuCasting[]; included: KitsuIncludedResource[] }> {
+    return this.fetchWithRetry(async () => {
+      const castings: KitsuCasting[] = [];
+      const included: KitsuIncludedResource[] = [];
+
+      for (let offset = 0; offset < 100; offset += 20) {
+        const response = await this.httpClient.get<{
+          data?: KitsuCasting[];
+          included?: KitsuIncludedResource[];
+        }>(`/anime/${externalId}/castings`, {
+          params: { include: 'character,person', 'page[limit]': 20, 'page[offset]': offset },
+        });
+
+        castings.push(...(response.data || []));
+        included.push(...(response.included || []));
+        if ((response.data || []).length < 20) break;
+      }
+
+      return { castings, included };
+    });
+  }
+
+  private findIncluded(
+    included: KitsuIncludedResource[],
+    type: string,
+    id: string
+  ): KitsuIncludedResource | undefined {
+    return included.find((r) => r.type === type && r.id === id);
+  }
+
+  /**
+   * Kitsu IDs of a character or person, with the MyAnimeList ID Kitsu cross-references
+   */
+  private peopleIds(resource: KitsuIncludedResource): Array<{ source: DataSource; id: string }> {
+    return [
+      { source: DataSource.KITSU, id: resource.id },
+      ...(resource.attributes.malId
+        ? [{ source: DataSource.MYANIMELIST, id: resource.attributes.malId.toString() }]
+        : []),
+    ];
+  }
 }
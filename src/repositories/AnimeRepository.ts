@@ -1,4 +1,8 @@
-import { Anime } from '../models/Anime';
+import { Anime, AnimeQuery, AnimeQueryResult, NumberRange } from '../models/Anime';
+import { queryAnime } from '../utils/animeQuery';
+import { TitleMatch, TitleSearchOptions, normalizeTitle, rankByTitle } from '../utils/titleSearch';
+import { FileStore, FileStoreOptions } from './FileStore';
+import { SqliteDatabase, parseRow, parseRows } from './SqliteDatabase';
 
 /**
  * Repository interface for anime data persistence
@@ -19,6 +23,19 @@ export interface IAnimeRepository {
    */
   searchByTitle(title: string, limit?: number): Promise<Anime[]>;
 
+  /**
+   * Search anime by title, tolerating accents, long vowel spellings and typos
+   * Results carry a relevance score and come best first
+   * Optional: without it, MiauIndex runs `rankByTitle()` over `findAll()`
+   */
+  fuzzySearchByTitle?(title: string, options?: TitleSearchOptions): Promise<TitleMatch[]>;
+
+  /**
+   * Find anime matching filters, sorted and paginated with a cursor
+   * Optional: without it, MiauIndex runs `queryAnime()` over `findAll()`
+   */
+  findByQuery?(query: AnimeQuery): Promise<AnimeQueryResult>;
+
   /**
    * Save or update anime data
    */
@@ -49,7 +66,7 @@ export interface IAnimeRepository {
  * In-memory implementation of anime repository (for development/testing)
  */
 export class InMemoryAnimeRepository implements IAnimeRepository {
-  private animes: Map<string, Anime> = new Map();
+  protected animes: Map<string, Anime> = new Map();
 
   async findById(id: string): Promise<Anime | null> {
     return this.animes.get(id) || null;
@@ -84,6 +101,14 @@ export class InMemoryAnimeRepository implements IAnimeRepository {
     return results;
   }
 
+  async fuzzySearchByTitle(title: string, options?: TitleSearchOptions): Promise<TitleMatch[]> {
+    return rankByTitle(Array.from(this.animes.values()), title, options);
+  }
+
+  async findByQuery(query: AnimeQuery): Promise<AnimeQueryResult> {
+    return queryAnime(Array.from(this.animes.values()), query);
+  }
+
   async save(anime: Anime): Promise<Anime> {
     anime.updatedAt = new Date();
     this.animes.set(anime.id, anime);
@@ -112,3 +137,268 @@ export class InMemoryAnimeRepository implements IAnimeRepository {
     return this.animes.size;
   }
 }
+
+/**
+ * File-backed anime repository
+ * Keeps records in memory and persists every change to `<directory>/anime.json`
+ */
+export class FileAnimeRepository extends InMemoryAnimeRepository {
+  private store: FileStore<Anime>;
+
+  constructor(directory: string, options: FileStoreOptions = {}) {
+    super();
+    this.store = new FileStore<Anime>(directory, 'anime', options);
+    this.animes = this.store.load();
+  }
+
+  async save(anime: Anime): Promise<Anime> {
+    const saved = await super.save(anime);
+    await this.store.put(saved);
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await super.delete(id);
+    if (deleted) {
+      await this.store.remove(id);
+    }
+    return deleted;
+  }
+
+  /**
+   * Rewrite the snapshot and truncate the append log
+   */
+  async compact(): Promise<void> {
+    await this.store.compact();
+  }
+}
+
+/**
+ * SQLite-backed anime repository
+ * External IDs are indexed and titles are searched through an FTS5 trigram index
+ */
+export class SqliteAnimeRepository implements IAnimeRepository {
+  constructor(private database: SqliteDatabase) {}
+
+  private get db(): SqliteDatabase['connection'] {
+    return this.database.connection;
+  }
+
+  findById(id: string): Promise<Anime | null> {
+    const row = this.db.prepare('SELECT data FROM anime WHERE id = ?').get(id);
+    return Promise.resolve(parseRow<Anime>(row));
+  }
+
+  findByExternalId(source: string, externalId: string): Promise<Anime | null> {
+    const row = this.db
+      .prepare(
+        `SELECT a.data FROM anime a
+         JOIN anime_external_ids e ON e.anime_id = a.id
+         WHERE e.source = ? AND e.external_id = ?
+         LIMIT 1`
+      )
+      .get(source, externalId);
+    return Promise.resolve(parseRow<Anime>(row));
+  }
+
+  searchByTitle(title: string, limit = 10): Promise<Anime[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT a.data FROM anime_titles t
+         JOIN anime a ON a.id = t.anime_id
+         WHERE t.titles LIKE ? ESCAPE '\\'
+         ORDER BY a.rowid
+         LIMIT ?`
+      )
+      .all(titlePattern(title), limit);
+    return Promise.resolve(parseRows<Anime>(rows));
+  }
+
+  /**
+   * Candidates are anime whose folded titles share a three-letter sequence with the query,
+   * found through the trigram index; queries without one rank every anime
+   */
+  fuzzySearchByTitle(title: string, options: TitleSearchOptions = {}): Promise<TitleMatch[]> {
+    const trigrams = titleTrigrams(title);
+    const rows =
+      trigrams.length > 0
+        ? this.db
+            .prepare(
+              `SELECT data FROM anime
+               WHERE id IN (SELECT anime_id FROM anime_title_keys WHERE anime_title_keys MATCH ?)
+               ORDER BY rowid`
+            )
+            .all(trigrams.map((trigram) => `"${trigram.replace(/"/g, '""')}"`).join(' OR '))
+        : this.db.prepare('SELECT data FROM anime ORDER BY rowid').all();
+    return Promise.resolve(rankByTitle(parseRows<Anime>(rows), title, options));
+  }
+
+  /**
+   * Filters run in SQL over the stored JSON; sorting and cursors run on the matching records
+   */
+  findByQuery(query: AnimeQuery): Promise<AnimeQueryResult> {
+    const { clauses, params } = queryFilters(query);
+    const rows = this.db
+      .prepare(
+        `SELECT a.data FROM anime a
+         ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}
+         ORDER BY a.rowid`
+      )
+      .all(...params);
+    return Promise.resolve(queryAnime(parseRows<Anime>(rows), query));
+  }
+
+  save(anime: Anime): Promise<Anime> {
+    anime.updatedAt = new Date();
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          'INSERT INTO anime (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data'
+        )
+        .run(anime.id, JSON.stringify(anime));
+
+      this.db.prepare('DELETE FROM anime_external_ids WHERE anime_id = ?').run(anime.id);
+      const insertId = this.db.prepare(
+        'INSERT OR IGNORE INTO anime_external_ids (anime_id, source, external_id) VALUES (?, ?, ?)'
+      );
+      anime.externalIds.forEach((ext) => insertId.run(anime.id, ext.source, ext.id));
+
+      // Case is folded here so LIKE also ignores case outside ASCII
+      const titles = [anime.title.romaji, anime.title.english, anime.title.native]
+        .concat(anime.title.synonyms || [])
+        .filter((t): t is string => !!t)
+        .map((t) => t.toLowerCase());
+      this.db.prepare('DELETE FROM anime_titles WHERE anime_id = ?').run(anime.id);
+      this.db
+        .prepare('INSERT INTO anime_titles (anime_id, titles) VALUES (?, ?)')
+        .run(anime.id, titles.join('\n'));
+      this.db.prepare('DELETE FROM anime_title_keys WHERE anime_id = ?').run(anime.id);
+      this.db
+        .prepare('INSERT INTO anime_title_keys (anime_id, titles) VALUES (?, title_keys(?))')
+        .run(anime.id, titles.join('\n'));
+    })();
+
+    return Promise.resolve(anime);
+  }
+
+  async saveMany(animes: Anime[]): Promise<Anime[]> {
+    const saved: Anime[] = [];
+    for (const anime of animes) {
+      saved.push(await this.save(anime));
+    }
+    return saved;
+  }
+
+  delete(id: string): Promise<boolean> {
+    const deleted = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM anime_titles WHERE anime_id = ?').run(id);
+      this.db.prepare('DELETE FROM anime_title_keys WHERE anime_id = ?').run(id);
+      return this.db.prepare('DELETE FROM anime WHERE id = ?').run(id).changes > 0;
+    })();
+    return Promise.resolve(deleted);
+  }
+
+  findAll(page: number, limit: number): Promise<Anime[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM anime ORDER BY rowid LIMIT ? OFFSET ?')
+      .all(limit, page * limit);
+    return Promise.resolve(parseRows<Anime>(rows));
+  }
+
+  count(): Promise<number> {
+    const row = this.db.prepare('SELECT COUNT(*) AS total FROM anime').get() as { total: number };
+    return Promise.resolve(row.total);
+  }
+}
+
+/**
+ * Distinct three-letter sequences of the words of a folded query
+ */
+function titleTrigrams(title: string): string[] {
+  const trigrams = new Set<string>();
+  for (const word of normalizeTitle(title).split(' ')) {
+    const chars = Array.from(word);
+    for (let i = 0; i + 3 <= chars.length; i++) {
+      trigrams.add(chars.slice(i, i + 3).join(''));
+    }
+  }
+  return Array.from(trigrams);
+}
+
+/**
+ * SQL conditions on `anime a` for the filters of a query, matching `matchesAnimeQuery()`
+ * Aggregate scores are only compared when stored; computed ones are checked by `queryAnime()`
+ */
+function queryFilters(query: AnimeQuery): { clauses: string[]; params: unknown[] } {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  const field = (path: string): string => `json_extract(a.data, '$.${path}')`;
+  const inRange = (path: string, range: NumberRange, orMissing = false): void => {
+    const value = field(path);
+    const conditions = [`${value} IS NOT NULL`];
+    if (range.min !== undefined) {
+      conditions.push(`${value} >= ?`);
+      params.push(range.min);
+    }
+    if (range.max !== undefined) {
+      conditions.push(`${value} <= ?`);
+      params.push(range.max);
+    }
+    const inBounds = conditions.join(' AND ');
+    clauses.push(orMissing ? `(${value} IS NULL OR (${inBounds}))` : inBounds);
+  };
+  const oneOf = (path: string, values: string[]): void => {
+    clauses.push(`${field(path)} IN (SELECT value FROM json_each(?))`);
+    params.push(JSON.stringify(values));
+  };
+
+  if (query.title) {
+    clauses.push(`a.id IN (SELECT anime_id FROM anime_titles WHERE titles LIKE ? ESCAPE '\\')`);
+    params.push(titlePattern(query.title));
+  }
+  for (const [path, names] of [
+    ['genres', query.genres],
+    ['themes', query.themes],
+  ] as const) {
+    for (const name of names ?? []) {
+      clauses.push(
+        `EXISTS (SELECT 1 FROM json_each(a.data, '$.${path}') WHERE casefold(value) = ?)`
+      );
+      params.push(name.toLowerCase());
+    }
+  }
+  if (query.types) oneOf('type', query.types);
+  if (query.statuses) oneOf('status', query.statuses);
+  if (query.ageRatings) oneOf('ageRating', query.ageRatings);
+  if (query.season) {
+    clauses.push(`${field('season')} = ?`);
+    params.push(query.season);
+  }
+  if (query.year !== undefined) {
+    inRange(
+      'year',
+      typeof query.year === 'number' ? { min: query.year, max: query.year } : query.year
+    );
+  }
+  if (query.episodes) inRange('episodes', query.episodes);
+  if (query.score) inRange('aggregateScore', query.score, true);
+  if (query.studio) {
+    clauses.push(
+      `(EXISTS (SELECT 1 FROM json_each(a.data, '$.studios') WHERE casefold(value) = ?)
+        OR EXISTS (SELECT 1 FROM json_each(a.data, '$.companies')
+          WHERE json_extract(value, '$.studioId') = ?
+             OR casefold(json_extract(value, '$.name')) = ?))`
+    );
+    params.push(query.studio.toLowerCase(), query.studio, query.studio.toLowerCase());
+  }
+
+  return { clauses, params };
+}
+
+/**
+ * LIKE pattern matching a title substring in the case-folded FTS titles
+ */
+function titlePattern(title: string): string {
+  return `%${title.toLowerCase().replace(/[\\%_]/g, '\\$&')}%`;
+}
@@ -1,4 +1,6 @@
-import { Episode, AnimeSeason } from '../models/Episode';
+import { Episode, AnimeSeason, EpisodeType } from '../models/Episode';
+import { FileStore, FileStoreOptions } from './FileStore';
+import { SqliteDatabase, parseRow, parseRows } from './SqliteDatabase';
 
 /**
  * Repository interface for episode data persistence
@@ -6,6 +8,9 @@ import { Episode, AnimeSeason } from '../models/Episode';
 export interface IEpisodeRepository {
   findById(id: string): Promise<Episode | null>;
   findByAnimeId(animeId: string): Promise<Episode[]>;
+  /**
+   * Find a regular episode by number (specials and other episode types are skipped)
+   */
   findByNumber(animeId: string, number: number): Promise<Episode | null>;
   save(episode: Episode): Promise<Episode>;
   saveMany(episodes: Episode[]): Promise<Episode[]>;
@@ -17,7 +22,7 @@ export interface IEpisodeRepository {
  * In-memory implementation of episode repository
  */
 export class InMemoryEpisodeRepository implements IEpisodeRepository {
-  private episodes: Map<string, Episode> = new Map();
+  protected episodes: Map<string, Episode> = new Map();
 
   async findById(id: string): Promise<Episode | null> {
     return this.episodes.get(id) || null;
@@ -35,7 +40,11 @@ export class InMemoryEpisodeRepository implements IEpisodeRepository {
 
   async findByNumber(animeId: string, number: number): Promise<Episode | null> {
     for (const episode of this.episodes.values()) {
-      if (episode.animeId === animeId && episode.number === number) {
+      if (
+        episode.animeId === animeId &&
+        episode.number === number &&
+        (episode.type ?? EpisodeType.REGULAR) === EpisodeType.REGULAR
+      ) {
         return episode;
       }
     }
@@ -75,6 +84,109 @@ export class InMemoryEpisodeRepository implements IEpisodeRepository {
   }
 }
 
+/**
+ * File-backed episode repository
+ * Keeps records in memory and persists every change to `<directory>/episodes.json`
+ */
+export class FileEpisodeRepository extends InMemoryEpisodeRepository {
+  private store: FileStore<Episode>;
+
+  constructor(directory: string, options: FileStoreOptions = {}) {
+    super();
+    this.store = new FileStore<Episode>(directory, 'episodes', options);
+    this.episodes = this.store.load();
+  }
+
+  async save(episode: Episode): Promise<Episode> {
+    const saved = await super.save(episode);
+    await this.store.put(saved);
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await super.delete(id);
+    if (deleted) {
+      await this.store.remove(id);
+    }
+    return deleted;
+  }
+
+  /**
+   * Rewrite the snapshot and truncate the append log
+   */
+  async compact(): Promise<void> {
+    await this.store.compact();
+  }
+}
+
+/**
+ * SQLite-backed episode repository, indexed by anime and episode number
+ */
+export class SqliteEpisodeRepository implements IEpisodeRepository {
+  constructor(private database: SqliteDatabase) {}
+
+  private get db(): SqliteDatabase['connection'] {
+    return this.database.connection;
+  }
+
+  findById(id: string): Promise<Episode | null> {
+    const row = this.db.prepare('SELECT data FROM episodes WHERE id = ?').get(id);
+    return Promise.resolve(parseRow<Episode>(row));
+  }
+
+  findByAnimeId(animeId: string): Promise<Episode[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM episodes WHERE anime_id = ? ORDER BY number')
+      .all(animeId);
+    return Promise.resolve(parseRows<Episode>(rows));
+  }
+
+  findByNumber(animeId: string, number: number): Promise<Episode | null> {
+    const row = this.db
+      .prepare(
+        `SELECT data FROM episodes WHERE anime_id = ? AND number = ?
+         AND COALESCE(json_extract(data, '$.type'), ?) = ? LIMIT 1`
+      )
+      .get(animeId, number, EpisodeType.REGULAR, EpisodeType.REGULAR);
+    return Promise.resolve(parseRow<Episode>(row));
+  }
+
+  save(episode: Episode): Promise<Episode> {
+    episode.updatedAt = new Date();
+    this.db
+      .prepare(
+        `INSERT INTO episodes (id, anime_id, number, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           anime_id = excluded.anime_id, number = excluded.number, data = excluded.data`
+      )
+      .run(episode.id, episode.animeId, episode.number, JSON.stringify(episode));
+    return Promise.resolve(episode);
+  }
+
+  async saveMany(episodes: Episode[]): Promise<Episode[]> {
+    const saved: Episode[] = [];
+    for (const episode of episodes) {
+      saved.push(await this.save(episode));
+    }
+    return saved;
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(
+      this.db.prepare('DELETE FROM episodes WHERE id = ?').run(id).changes > 0
+    );
+  }
+
+  count(animeId?: string): Promise<number> {
+    const row = (
+      animeId
+        ? this.db.prepare('SELECT COUNT(*) AS total FROM episodes WHERE anime_id = ?').get(animeId)
+        : this.db.prepare('SELECT COUNT(*) AS total FROM episodes').get()
+    ) as { total: number };
+    return Promise.resolve(row.total);
+  }
+}
+
 /**
  * Repository interface for anime season data persistence
  */
@@ -92,7 +204,7 @@ export interface ISeasonRepository {
  * In-memory implementation of season repository
  */
 export class InMemorySeasonRepository implements ISeasonRepository {
-  private seasons: Map<string, AnimeSeason> = new Map();
+  protected seasons: Map<string, AnimeSeason> = new Map();
 
   async findById(id: string): Promise<AnimeSeason | null> {
     return this.seasons.get(id) || null;
@@ -149,3 +261,101 @@ export class InMemorySeasonRepository implements ISeasonRepository {
     return count;
   }
 }
+
+/**
+ * File-backed season repository
+ * Keeps records in memory and persists every change to `<directory>/seasons.json`
+ */
+export class FileSeasonRepository extends InMemorySeasonRepository {
+  private store: FileStore<AnimeSeason>;
+
+  constructor(directory: string, options: FileStoreOptions = {}) {
+    super();
+    this.store = new FileStore<AnimeSeason>(directory, 'seasons', options);
+    this.seasons = this.store.load();
+  }
+
+  async save(season: AnimeSeason): Promise<AnimeSeason> {
+    const saved = await super.save(season);
+    await this.store.put(saved);
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await super.delete(id);
+    if (deleted) {
+      await this.store.remove(id);
+    }
+    return deleted;
+  }
+
+  /**
+   * Rewrite the snapshot and truncate the append log
+   */
+  async compact(): Promise<void> {
+    await this.store.compact();
+  }
+}
+
+/**
+ * SQLite-backed season repository, indexed by anime and season number
+ */
+export class SqliteSeasonRepository implements ISeasonRepository {
+  constructor(private database: SqliteDatabase) {}
+
+  private get db(): SqliteDatabase['connection'] {
+    return this.database.connection;
+  }
+
+  findById(id: string): Promise<AnimeSeason | null> {
+    const row = this.db.prepare('SELECT data FROM seasons WHERE id = ?').get(id);
+    return Promise.resolve(parseRow<AnimeSeason>(row));
+  }
+
+  findByAnimeId(animeId: string): Promise<AnimeSeason[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM seasons WHERE anime_id = ? ORDER BY season_number')
+      .all(animeId);
+    return Promise.resolve(parseRows<AnimeSeason>(rows));
+  }
+
+  findBySeasonNumber(animeId: string, seasonNumber: number): Promise<AnimeSeason | null> {
+    const row = this.db
+      .prepare('SELECT data FROM seasons WHERE anime_id = ? AND season_number = ? LIMIT 1')
+      .get(animeId, seasonNumber);
+    return Promise.resolve(parseRow<AnimeSeason>(row));
+  }
+
+  save(season: AnimeSeason): Promise<AnimeSeason> {
+    season.updatedAt = new Date();
+    this.db
+      .prepare(
+        `INSERT INTO seasons (id, anime_id, season_number, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           anime_id = excluded.anime_id, season_number = excluded.season_number, data = excluded.data`
+      )
+      .run(season.id, season.animeId, season.seasonNumber, JSON.stringify(season));
+    return Promise.resolve(season);
+  }
+
+  async saveMany(seasons: AnimeSeason[]): Promise<AnimeSeason[]> {
+    const saved: AnimeSeason[] = [];
+    for (const season of seasons) {
+      saved.push(await this.save(season));
+    }
+    return saved;
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.db.prepare('DELETE FROM seasons WHERE id = ?').run(id).changes > 0);
+  }
+
+  count(animeId?: string): Promise<number> {
+    const row = (
+      animeId
+        ? this.db.prepare('SELECT COUNT(*) AS total FROM seasons WHERE anime_id = ?').get(animeId)
+        : this.db.prepare('SELECT COUNT(*) AS total FROM seasons').get()
+    ) as { total: number };
+    return Promise.resolve(row.total);
+  }
+}
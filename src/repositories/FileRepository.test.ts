@@ -0,0 +1,235 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileAnimeRepository } from '../repositories/AnimeRepository';
+import { FileEpisodeRepository, FileSeasonRepository } from '../repositories/EpisodeRepository';
+import { FileTorrentRepository } from '../repositories/TorrentRepository';
+import { FileStore, reviveDates } from '../repositories/FileStore';
+import { Anime } from '../models/Anime';
+import { Episode } from '../models/Episode';
+import {
+  TorrentCodec,
+  TorrentLanguage,
+  TorrentQuality,
+  TorrentReleaseType,
+} from '../models/Torrent';
+import { makeAnime } from '../../tests/helpers/fixtures';
+
+describe('File-backed repositories', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'miau-index-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('FileAnimeRepository', () => {
+    it('should persist anime across instances and revive dates', async () => {
+      const repository = new FileAnimeRepository(directory);
+      await repository.save(
+        makeAnime('1', 'Cowboy Bebop', { aired: { start: new Date('1998-04-03T00:00:00.000Z') } })
+      );
+
+      const reopened = new FileAnimeRepository(directory);
+      const anime = await reopened.findById('1');
+
+      expect(anime?.title.romaji).toBe('Cowboy Bebop');
+      expect(anime?.aired.start).toBeInstanceOf(Date);
+      expect(anime?.aired.start?.toISOString()).toBe('1998-04-03T00:00:00.000Z');
+      expect(anime?.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should persist deletions', async () => {
+      const repository = new FileAnimeRepository(directory);
+      await repository.saveMany([makeAnime('1', 'Cowboy Bebop'), makeAnime('2', 'Trigun')]);
+      await repository.delete('1');
+
+      const reopened = new FileAnimeRepository(directory);
+
+      expect(await reopened.count()).toBe(1);
+      expect(await reopened.findById('1')).toBeNull();
+    });
+
+    it('should compact the append log into the snapshot', async () => {
+      const repository = new FileAnimeRepository(directory, { compactThreshold: 2 });
+      await repository.save(makeAnime('1', 'Cowboy Bebop'));
+      await repository.save(makeAnime('2', 'Trigun'));
+      await repository.save(makeAnime('3', 'Monster'));
+
+      const snapshot = JSON.parse(
+        fs.readFileSync(path.join(directory, 'anime.json'), 'utf8')
+      ) as Anime[];
+      const log = fs.readFileSync(path.join(directory, 'anime.log.ndjson'), 'utf8');
+
+      expect(snapshot.map((a) => a.id)).toEqual(['1', '2']);
+      expect(log.trim().split('\n')).toHaveLength(1);
+      expect(await new FileAnimeRepository(directory).count()).toBe(3);
+    });
+
+    it('should recover from a torn final log line', async () => {
+      const repository = new FileAnimeRepository(directory);
+      await repository.save(makeAnime('1', 'Cowboy Bebop'));
+      fs.appendFileSync(path.join(directory, 'anime.log.ndjson'), '{"op":"put","value":{"id"');
+
+      const reopened = new FileAnimeRepository(directory);
+      await reopened.save(makeAnime('2', 'Trigun'));
+
+      const again = new FileAnimeRepository(directory);
+      expect((await again.findAll(0, 10)).map((a) => a.id)).toEqual(['1', '2']);
+    });
+  });
+
+  describe('FileEpisodeRepository and FileSeasonRepository', () => {
+    it('should persist episodes and seasons', async () => {
+      const episode: Episode = {
+        id: 'ep-1',
+        animeId: '1',
+        number: 1,
+        aired: new Date('1998-04-03T00:00:00.000Z'),
+        externalIds: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      await new FileEpisodeRepository(directory).save(episode);
+      await new FileSeasonRepository(directory).save({
+        id: 'season-1',
+        animeId: '1',
+        seasonNumber: 1,
+        externalIds: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const episodes = await new FileEpisodeRepository(directory).findByAnimeId('1');
+      const season = await new FileSeasonRepository(directory).findBySeasonNumber('1', 1);
+
+      expect(episodes[0].aired).toEqual(episode.aired);
+      expect(season?.id).toBe('season-1');
+    });
+  });
+
+  describe('FileTorrentRepository', () => {
+    it('should persist torrents across instances', async () => {
+      await new FileTorrentRepository(directory).save({
+        id: 't-1',
+        nyaaId: '100',
+        animeId: '1',
+        title: '[Group] Cowboy Bebop - 01 [1080p]',
+        category: '1_2',
+        magnetLink: `magnet:?xt=urn:btih:${'a'.repeat(40)}`,
+        infoHash: 'a'.repeat(40),
+        size: '1 GiB',
+        sizeBytes: 1073741824,
+        seeders: 10,
+        leechers: 1,
+        downloads: 100,
+        publishedAt: new Date('2024-01-01T00:00:00.000Z'),
+        metadata: {
+          quality: TorrentQuality.FULL_HD_1080p,
+          codec: TorrentCodec.H264,
+          audioLanguages: [TorrentLanguage.JAPANESE],
+          subtitleLanguages: [TorrentLanguage.ENGLISH],
+          releaseType: TorrentReleaseType.EPISODE,
+        },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const reopened = new FileTorrentRepository(directory);
+      const torrents = await reopened.findByAnimeId('1');
+
+      expect(torrents.map((t) => t.id)).toEqual(['t-1']);
+      expect(torrents[0].publishedAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+      expect(await reopened.deleteByAnimeId('1')).toBe(1);
+      expect(await new FileTorrentRepository(directory).count()).toBe(0);
+    });
+  });
+
+  describe('FileStore', () => {
+    type Item = { id: string; name: string; at?: Date };
+
+    it('should replay puts and deletes from the log after reopening', async () => {
+      const store = new FileStore<Item>(directory, 'items');
+      store.load();
+      await store.put({ id: '1', name: 'one' });
+      await store.put({ id: '2', name: 'two' });
+      await store.put({ id: '1', name: 'uno' });
+      await store.remove('2');
+
+      const records = new FileStore<Item>(directory, 'items').load();
+
+      expect(Array.from(records.values())).toEqual([{ id: '1', name: 'uno' }]);
+      expect(fs.existsSync(path.join(directory, 'items.json'))).toBe(false);
+    });
+
+    it('should compact through a temp file and empty the log', async () => {
+      const store = new FileStore<Item>(directory, 'items');
+      const records = store.load();
+      records.set('1', { id: '1', name: 'one' });
+      await store.put({ id: '1', name: 'one' });
+      await store.compact();
+
+      expect(fs.readdirSync(directory).sort()).toEqual(['items.json', 'items.log.ndjson']);
+      expect(fs.readFileSync(path.join(directory, 'items.log.ndjson'), 'utf8')).toBe('');
+      expect(JSON.parse(fs.readFileSync(path.join(directory, 'items.json'), 'utf8'))).toEqual([
+        { id: '1', name: 'one' },
+      ]);
+
+      // Entries logged after a compaction are replayed on top of the snapshot
+      await store.remove('1');
+      expect(new FileStore<Item>(directory, 'items').load().size).toBe(0);
+    });
+
+    it('should compact automatically at the threshold', async () => {
+      const store = new FileStore<Item>(directory, 'items', { compactThreshold: 3 });
+      const records = store.load();
+      for (const id of ['1', '2', '3']) {
+        records.set(id, { id, name: id });
+        await store.put({ id, name: id });
+      }
+
+      expect(fs.readFileSync(path.join(directory, 'items.log.ndjson'), 'utf8')).toBe('');
+      expect(new FileStore<Item>(directory, 'items').load().size).toBe(3);
+    });
+
+    it('should drop a truncated last log line and rewrite the snapshot', async () => {
+      const store = new FileStore<Item>(directory, 'items');
+      store.load();
+      await store.put({ id: '1', name: 'one' });
+      fs.appendFileSync(path.join(directory, 'items.log.ndjson'), '{"op":"put","value":{"id":"2"');
+
+      const records = new FileStore<Item>(directory, 'items').load();
+
+      expect(Array.from(records.keys())).toEqual(['1']);
+      expect(fs.readFileSync(path.join(directory, 'items.log.ndjson'), 'utf8')).toBe('');
+      expect(JSON.parse(fs.readFileSync(path.join(directory, 'items.json'), 'utf8'))).toEqual([
+        { id: '1', name: 'one' },
+      ]);
+    });
+
+    it('should revive ISO dates in nested records only', async () => {
+      const store = new FileStore<Item>(directory, 'items');
+      store.load();
+      await store.put({ id: '1', name: '2024-01-01', at: new Date('2024-01-01T12:30:00.000Z') });
+
+      const item = new FileStore<Item>(directory, 'items').load().get('1');
+
+      expect(item?.at).toEqual(new Date('2024-01-01T12:30:00.000Z'));
+      expect(item?.name).toBe('2024-01-01');
+      expect(reviveDates('date', '2024-01-01T12:30:00Z')).toBeInstanceOf(Date);
+      expect(reviveDates('date', '2024-01-01T12:30:00+02:00')).toBe('2024-01-01T12:30:00+02:00');
+    });
+
+    it('should reject a corrupt entry in the middle of the log', () => {
+      fs.writeFileSync(
+        path.join(directory, 'items.log.ndjson'),
+        'not json\n{"op":"delete","id":"1"}\n'
+      );
+
+      expect(() => new FileStore(directory, 'items').load()).toThrow('Corrupt log entry');
+    });
+  });
+});
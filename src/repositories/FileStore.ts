@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MiauIndexError } from '../utils/errors';
+
+/**
+ * Options for file-backed repositories
+ */
+export interface FileStoreOptions {
+  /**
+   * Number of append-log entries after which the snapshot is rewritten
+   * Default: 1000
+   */
+  compactThreshold?: number;
+}
+
+type LogEntry<T> = { op: 'put'; value: T } | { op: 'delete'; id: string };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * JSON reviver turning ISO date strings back into Date objects
+ */
+export function reviveDates(_key: string, value: unknown): unknown {
+  return typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value;
+}
+
+/**
+ * Persists a collection of records as a JSON snapshot plus an NDJSON append log
+ *
+ * Every change is appended to `<name>.log.ndjson`; once the log grows past the
+ * compaction threshold the full collection is written atomically to `<name>.json`
+ * (temp file + rename) and the log is truncated. Replaying the log is idempotent,
+ * so a crash at any point leaves a loadable store.
+ */
+export class FileStore<T extends { id: string }> {
+  private records: Map<string, T> = new Map();
+  private snapshotPath: string;
+  private logPath: string;
+  private compactThreshold: number;
+  private logEntries = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(directory: string, name: string, options: FileStoreOptions = {}) {
+    this.snapshotPath = path.join(directory, `${name}.json`);
+    this.logPath = path.join(directory, `${name}.log.ndjson`);
+    this.compactThreshold = options.compactThreshold ?? 1000;
+  }
+
+  /**
+   * Load the snapshot and replay the append log
+   * The returned map is live: the store snapshots it on compaction
+   */
+  load(): Map<string, T> {
+    fs.mkdirSync(path.dirname(this.snapshotPath), { recursive: true });
+    this.records.clear();
+
+    if (fs.existsSync(this.snapshotPath)) {
+      const records = this.parse<T[]>(
+        fs.readFileSync(this.snapshotPath, 'utf8'),
+        this.snapshotPath
+      );
+      records.forEach((record) => this.records.set(record.id, record));
+    }
+
+    if (fs.existsSync(this.logPath)) {
+      const content = fs.readFileSync(this.logPath, 'utf8');
+      const lines = content.split('\n');
+      let torn = !content.endsWith('\n') && content.length > 0;
+
+      lines.forEach((line, index) => {
+        if (!line.trim()) return;
+        try {
+          this.apply(JSON.parse(line, reviveDates) as LogEntry<T>);
+          this.logEntries++;
+        } catch (error) {
+          // Only the last line can be partially written by a crash
+          if (index !== lines.length - 1) {
+            throw new MiauIndexError(`Corrupt log entry at ${this.logPath}:${index + 1}`);
+          }
+          torn = true;
+        }
+      });
+
+      // Rewrite the snapshot so new entries are not appended to a torn line
+      if (torn) {
+        this.writeSnapshotSync();
+      }
+    }
+
+    return this.records;
+  }
+
+  /**
+   * Record an insert or update
+   */
+  put(record: T): Promise<void> {
+    return this.append({ op: 'put', value: record });
+  }
+
+  /**
+   * Record a deletion
+   */
+  remove(id: string): Promise<void> {
+    return this.append({ op: 'delete', id });
+  }
+
+  /**
+   * Write the current records to the snapshot and truncate the log
+   */
+  compact(): Promise<void> {
+    return this.enqueue(async () => {
+      const tempPath = `${this.snapshotPath}.tmp`;
+      const handle = await fs.promises.open(tempPath, 'w');
+      try {
+        await handle.writeFile(JSON.stringify(Array.from(this.records.values())));
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await fs.promises.rename(tempPath, this.snapshotPath);
+      await fs.promises.writeFile(this.logPath, '');
+      this.logEntries = 0;
+    });
+  }
+
+  /**
+   * Wait for all pending writes
+   */
+  flush(): Promise<void> {
+    return this.enqueue(() => Promise.resolve());
+  }
+
+  private async append(entry: LogEntry<T>): Promise<void> {
+    await this.enqueue(async () => {
+      await fs.promises.appendFile(this.logPath, JSON.stringify(entry) + '\n');
+      this.logEntries++;
+    });
+
+    if (this.logEntries >= this.compactThreshold) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Serialize file operations so appends and compactions never interleave
+   */
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private apply(entry: LogEntry<T>): void {
+    if (entry.op === 'put') {
+      this.records.set(entry.value.id, entry.value);
+    } else {
+      this.records.delete(entry.id);
+    }
+  }
+
+  private writeSnapshotSync(): void {
+    const tempPath = `${this.snapshotPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(Array.from(this.records.values())));
+    fs.renameSync(tempPath, this.snapshotPath);
+    fs.writeFileSync(this.logPath, '');
+    this.logEntries = 0;
+  }
+
+  private parse<R>(content: string, file: string): R {
+    try {
+      return JSON.parse(content, reviveDates) as R;
+    } catch (error) {
+      throw new MiauIndexError(`Failed to parse ${file}: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,385 @@
+import { Character, StaffMember } from '../models/People';
+import { FileStore, FileStoreOptions } from './FileStore';
+import { SqliteDatabase, parseRow, parseRows } from './SqliteDatabase';
+
+/**
+ * Repository interface for character persistence
+ */
+export interface ICharacterRepository {
+  findById(id: string): Promise<Character | null>;
+  findByExternalId(source: string, externalId: string): Promise<Character | null>;
+  /**
+   * Find the characters appearing in an anime (see `Character.appearances`)
+   */
+  findByAnimeId(animeId: string): Promise<Character[]>;
+  save(character: Character): Promise<Character>;
+  saveMany(characters: Character[]): Promise<Character[]>;
+  delete(id: string): Promise<boolean>;
+  count(animeId?: string): Promise<number>;
+}
+
+/**
+ * In-memory implementation of character repository
+ */
+export class InMemoryCharacterRepository implements ICharacterRepository {
+  protected characters: Map<string, Character> = new Map();
+
+  async findById(id: string): Promise<Character | null> {
+    return this.characters.get(id) || null;
+  }
+
+  async findByExternalId(source: string, externalId: string): Promise<Character | null> {
+    for (const character of this.characters.values()) {
+      if (character.externalIds.some((ext) => ext.source === source && ext.id === externalId)) {
+        return character;
+      }
+    }
+    return null;
+  }
+
+  async findByAnimeId(animeId: string): Promise<Character[]> {
+    return Array.from(this.characters.values()).filter((character) =>
+      character.appearances?.some((appearance) => appearance.animeId === animeId)
+    );
+  }
+
+  async save(character: Character): Promise<Character> {
+    character.updatedAt = new Date();
+    this.characters.set(character.id, character);
+    return character;
+  }
+
+  async saveMany(characters: Character[]): Promise<Character[]> {
+    const saved: Character[] = [];
+    for (const character of characters) {
+      saved.push(await this.save(character));
+    }
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.characters.delete(id);
+  }
+
+  async count(animeId?: string): Promise<number> {
+    return animeId ? (await this.findByAnimeId(animeId)).length : this.characters.size;
+  }
+}
+
+/**
+ * File-backed character repository
+ * Keeps records in memory and persists every change to `<directory>/characters.json`
+ */
+export class FileCharacterRepository extends InMemoryCharacterRepository {
+  private store: FileStore<Character>;
+
+  constructor(directory: string, options: FileStoreOptions = {}) {
+    super();
+    this.store = new FileStore<Character>(directory, 'characters', options);
+    this.characters = this.store.load();
+  }
+
+  async save(character: Character): Promise<Character> {
+    const saved = await super.save(character);
+    await this.store.put(saved);
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await super.delete(id);
+    if (deleted) {
+      await this.store.remove(id);
+    }
+    return deleted;
+  }
+
+  /**
+   * Rewrite the snapshot and truncate the append log
+   */
+  async compact(): Promise<void> {
+    await this.store.compact();
+  }
+}
+
+/**
+ * SQLite-backed character repository, indexed by external ID and anime
+ */
+export class SqliteCharacterRepository implements ICharacterRepository {
+  constructor(private database: SqliteDatabase) {}
+
+  private get db(): SqliteDatabase['connection'] {
+    return this.database.connection;
+  }
+
+  findById(id: string): Promise<Character | null> {
+    const row = this.db.prepare('SELECT data FROM characters WHERE id = ?').get(id);
+    return Promise.resolve(parseRow<Character>(row));
+  }
+
+  findByExternalId(source: string, externalId: string): Promise<Character | null> {
+    const row = this.db
+      .prepare(
+        `SELECT c.data FROM characters c
+         JOIN character_external_ids e ON e.character_id = c.id
+         WHERE e.source = ? AND e.external_id = ?
+         LIMIT 1`
+      )
+      .get(source, externalId);
+    return Promise.resolve(parseRow<Character>(row));
+  }
+
+  findByAnimeId(animeId: string): Promise<Character[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT c.data FROM characters c
+         JOIN character_anime a ON a.character_id = c.id
+         WHERE a.anime_id = ?
+         ORDER BY c.rowid`
+      )
+      .all(animeId);
+    return Promise.resolve(parseRows<Character>(rows));
+  }
+
+  save(character: Character): Promise<Character> {
+    character.updatedAt = new Date();
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          'INSERT INTO characters (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data'
+        )
+        .run(character.id, JSON.stringify(character));
+
+      this.db
+        .prepare('DELETE FROM character_external_ids WHERE character_id = ?')
+        .run(character.id);
+      const insertId = this.db.prepare(
+        'INSERT OR IGNORE INTO character_external_ids (character_id, source, external_id) VALUES (?, ?, ?)'
+      );
+      character.externalIds.forEach((ext) => insertId.run(character.id, ext.source, ext.id));
+
+      this.db.prepare('DELETE FROM character_anime WHERE character_id = ?').run(character.id);
+      const insertAnime = this.db.prepare(
+        'INSERT OR IGNORE INTO character_anime (character_id, anime_id) VALUES (?, ?)'
+      );
+      (character.appearances || []).forEach((appearance) =>
+        insertAnime.run(character.id, appearance.animeId)
+      );
+    })();
+
+    return Promise.resolve(character);
+  }
+
+  async saveMany(characters: Character[]): Promise<Character[]> {
+    const saved: Character[] = [];
+    for (const character of characters) {
+      saved.push(await this.save(character));
+    }
+    return saved;
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(
+      this.db.prepare('DELETE FROM characters WHERE id = ?').run(id).changes > 0
+    );
+  }
+
+  count(animeId?: string): Promise<number> {
+    const row = (
+      animeId
+        ? this.db
+            .prepare('SELECT COUNT(*) AS total FROM character_anime WHERE anime_id = ?')
+            .get(animeId)
+        : this.db.prepare('SELECT COUNT(*) AS total FROM characters').get()
+    ) as { total: number };
+    return Promise.resolve(row.total);
+  }
+}
+
+/**
+ * Repository interface for staff member persistence (voice actors included)
+ */
+export interface IStaffRepository {
+  findById(id: string): Promise<StaffMember | null>;
+  findByExternalId(source: string, externalId: string): Promise<StaffMember | null>;
+  /**
+   * Find the people credited on an anime (see `StaffMember.credits`)
+   */
+  findByAnimeId(animeId: string): Promise<StaffMember[]>;
+  save(member: StaffMember): Promise<StaffMember>;
+  saveMany(members: StaffMember[]): Promise<StaffMember[]>;
+  delete(id: string): Promise<boolean>;
+  count(animeId?: string): Promise<number>;
+}
+
+/**
+ * In-memory implementation of staff repository
+ */
+export class InMemoryStaffRepository implements IStaffRepository {
+  protected staff: Map<string, StaffMember> = new Map();
+
+  async findById(id: string): Promise<StaffMember | null> {
+    return this.staff.get(id) || null;
+  }
+
+  async findByExternalId(source: string, externalId: string): Promise<StaffMember | null> {
+    for (const member of this.staff.values()) {
+      if (member.externalIds.some((ext) => ext.source === source && ext.id === externalId)) {
+        return member;
+      }
+    }
+    return null;
+  }
+
+  async findByAnimeId(animeId: string): Promise<StaffMember[]> {
+    return Array.from(this.staff.values()).filter((member) =>
+      member.credits?.some((credit) => credit.animeId === animeId)
+    );
+  }
+
+  async save(member: StaffMember): Promise<StaffMember> {
+    member.updatedAt = new Date();
+    this.staff.set(member.id, member);
+    return member;
+  }
+
+  async saveMany(members: StaffMember[]): Promise<StaffMember[]> {
+    const saved: StaffMember[] = [];
+    for (const member of members) {
+      saved.push(await this.save(member));
+    }
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.staff.delete(id);
+  }
+
+  async count(animeId?: string): Promise<number> {
+    return animeId ? (await this.findByAnimeId(animeId)).length : this.staff.size;
+  }
+}
+
+/**
+ * File-backed staff repository
+ * Keeps records in memory and persists every change to `<directory>/staff.json`
+ */
+export class FileStaffRepository extends InMemoryStaffRepository {
+  private store: FileStore<StaffMember>;
+
+  constructor(directory: string, options: FileStoreOptions = {}) {
+    super();
+    this.store = new FileStore<StaffMember>(directory, 'staff', options);
+    this.staff = this.store.load();
+  }
+
+  async save(member: StaffMember): Promise<StaffMember> {
+    const saved = await super.save(member);
+    await this.store.put(saved);
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await super.delete(id);
+    if (deleted) {
+      await this.store.remove(id);
+    }
+    return deleted;
+  }
+
+  /**
+   * Rewrite the snapshot and truncate the append log
+   */
+  async compact(): Promise<void> {
+    await this.store.compact();
+  }
+}
+
+/**
+ * SQLite-backed staff repository, indexed by external ID and credited anime
+ */
+export class SqliteStaffRepository implements IStaffRepository {
+  constructor(private database: SqliteDatabase) {}
+
+  private get db(): SqliteDatabase['connection'] {
+    return this.database.connection;
+  }
+
+  findById(id: string): Promise<StaffMember | null> {
+    const row = this.db.prepare('SELECT data FROM staff WHERE id = ?').get(id);
+    return Promise.resolve(parseRow<StaffMember>(row));
+  }
+
+  findByExternalId(source: string, externalId: string): Promise<StaffMember | null> {
+    const row = this.db
+      .prepare(
+        `SELECT s.data FROM staff s
+         JOIN staff_external_ids e ON e.staff_id = s.id
+         WHERE e.source = ? AND e.external_id = ?
+         LIMIT 1`
+      )
+      .get(source, externalId);
+    return Promise.resolve(parseRow<StaffMember>(row));
+  }
+
+  findByAnimeId(animeId: string): Promise<StaffMember[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT s.data FROM staff s
+         JOIN staff_anime a ON a.staff_id = s.id
+         WHERE a.anime_id = ?
+         ORDER BY s.rowid`
+      )
+      .all(animeId);
+    return Promise.resolve(parseRows<StaffMember>(rows));
+  }
+
+  save(member: StaffMember): Promise<StaffMember> {
+    member.updatedAt = new Date();
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          'INSERT INTO staff (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data'
+        )
+        .run(member.id, JSON.stringify(member));
+
+      this.db.prepare('DELETE FROM staff_external_ids WHERE staff_id = ?').run(member.id);
+      const insertId = this.db.prepare(
+        'INSERT OR IGNORE INTO staff_external_ids (staff_id, source, external_id) VALUES (?, ?, ?)'
+      );
+      member.externalIds.forEach((ext) => insertId.run(member.id, ext.source, ext.id));
+
+      this.db.prepare('DELETE FROM staff_anime WHERE staff_id = ?').run(member.id);
+      const insertAnime = this.db.prepare(
+        'INSERT OR IGNORE INTO staff_anime (staff_id, anime_id) VALUES (?, ?)'
+      );
+      (member.credits || []).forEach((credit) => insertAnime.run(member.id, credit.animeId));
+    })();
+
+    return Promise.resolve(member);
+  }
+
+  async saveMany(members: StaffMember[]): Promise<StaffMember[]> {
+    const saved: StaffMember[] = [];
+    for (const member of members) {
+      saved.push(await this.save(member));
+    }
+    return saved;
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.db.prepare('DELETE FROM staff WHERE id = ?').run(id).changes > 0);
+  }
+
+  count(animeId?: string): Promise<number> {
+    const row = (
+      animeId
+        ? this.db
+            .prepare('SELECT COUNT(*) AS total FROM staff_anime WHERE anime_id = ?')
+            .get(animeId)
+        : this.db.prepare('SELECT COUNT(*) AS total FROM staff').get()
+    ) as { total: number };
+    return Promise.resolve(row.total);
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  IAnimeRepository,
+  InMemoryAnimeRepository,
+  FileAnimeRepository,
+  SqliteAnimeRepository,
+} from './AnimeRepository';
+import {
+  IEpisodeRepository,
+  ISeasonRepository,
+  InMemoryEpisodeRepository,
+  InMemorySeasonRepository,
+  FileEpisodeRepository,
+  FileSeasonRepository,
+  SqliteEpisodeRepository,
+  SqliteSeasonRepository,
+} from './EpisodeRepository';
+import {
+  ITorrentRepository,
+  InMemoryTorrentRepository,
+  FileTorrentRepository,
+  SqliteTorrentRepository,
+} from './TorrentRepository';
+import {
+  ICharacterRepository,
+  IStaffRepository,
+  InMemoryCharacterRepository,
+  InMemoryStaffRepository,
+  FileCharacterRepository,
+  FileStaffRepository,
+  SqliteCharacterRepository,
+  SqliteStaffRepository,
+} from './PeopleRepository';
+import {
+  IStudioRepository,
+  InMemoryStudioRepository,
+  FileStudioRepository,
+  SqliteStudioRepository,
+} from './StudioRepository';
+import { FileStoreOptions } from './FileStore';
+import { SqliteDatabase } from './SqliteDatabase';
+
+/**
+ * Storage backend configuration
+ */
+export interface RepositoryConfig extends FileStoreOptions {
+  type: 'memory' | 'file' | 'database';
+
+  /**
+   * Directory holding the data files when type is 'file'
+   * Default: './data'
+   */
+  path?: string;
+
+  /**
+   * SQLite database file when type is 'database' (':memory:' for a temporary database)
+   * Default: './data/miau-index.db'
+   */
+  connectionString?: string;
+}
+
+/**
+ * Repositories backing a MiauIndex instance
+ */
+export interface Repositories {
+  anime: IAnimeRepository;
+  episodes: IEpisodeRepository;
+  seasons: ISeasonRepository;
+  torrents: ITorrentRepository;
+  characters: ICharacterRepository;
+  staff: IStaffRepository;
+  studios: IStudioRepository;
+}
+
+/**
+ * Create the repositories for a storage backend
+ */
+export function createRepositories(config: RepositoryConfig = { type: 'memory' }): Repositories {
+  switch (config.type) {
+    case 'file': {
+      const directory = config.path ?? './data';
+      return {
+        anime: new FileAnimeRepository(directory, config),
+        episodes: new FileEpisodeRepository(directory, config),
+        seasons: new FileSeasonRepository(directory, config),
+        torrents: new FileTorrentRepository(directory, config),
+        characters: new FileCharacterRepository(directory, config),
+        staff: new FileStaffRepository(directory, config),
+        studios: new FileStudioRepository(directory, config),
+      };
+    }
+    case 'database': {
+      const database = new SqliteDatabase(config.connectionString ?? './data/miau-index.db');
+      return {
+        anime: new SqliteAnimeRepository(database),
+        episodes: new SqliteEpisodeRepository(database),
+        seasons: new SqliteSeasonRepository(database),
+        torrents: new SqliteTorrentRepository(database),
+        characters: new SqliteCharacterRepository(database),
+        staff: new SqliteStaffRepository(database),
+        studios: new SqliteStudioRepository(database),
+      };
+    }
+    default:
+      return {
+        anime: new InMemoryAnimeRepository(),
+        episodes: new InMemoryEpisodeRepository(),
+        seasons: new InMemorySeasonRepository(),
+        torrents: new InMemoryTorrentRepository(),
+        characters: new InMemoryCharacterRepository(),
+        staff: new InMemoryStaffRepository(),
+        studios: new InMemoryStudioRepository(),
+      };
+  }
+}
@@ -0,0 +1,267 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MiauIndexError } from '../utils/errors';
+import { normalizeTitle } from '../utils/titleSearch';
+import { reviveDates } from './FileStore';
+
+/**
+ * Schema migrations, applied in order and tracked with `PRAGMA user_version`
+ * Never edit a released migration; append a new one instead
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE anime (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE anime_external_ids (
+    anime_id TEXT NOT NULL REFERENCES anime(id) ON DELETE CASCADE,
+    source TEXT NOT NULL,
+    external_id TEXT NOT NULL,
+    PRIMARY KEY (anime_id, source, external_id)
+  );
+  CREATE INDEX idx_anime_external_ids ON anime_external_ids(source, external_id);
+
+  -- Trigram index so LIKE '%term%' title searches use FTS instead of a table scan
+  CREATE VIRTUAL TABLE anime_titles USING fts5(anime_id UNINDEXED, titles, tokenize = 'trigram');
+
+  CREATE TABLE episodes (
+    id TEXT PRIMARY KEY,
+    anime_id TEXT NOT NULL,
+    number REAL NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX idx_episodes_anime_number ON episodes(anime_id, number);
+
+  CREATE TABLE seasons (
+    id TEXT PRIMARY KEY,
+    anime_id TEXT NOT NULL,
+    season_number INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX idx_seasons_anime_number ON seasons(anime_id, season_number);
+
+  CREATE TABLE torrents (
+    id TEXT PRIMARY KEY,
+    info_hash TEXT NOT NULL,
+    anime_id TEXT,
+    season_id TEXT,
+    episode_number REAL,
+    episode_start REAL,
+    episode_end REAL,
+    quality TEXT,
+    release_type TEXT,
+    seeders INTEGER NOT NULL DEFAULT 0,
+    trusted INTEGER NOT NULL DEFAULT 0,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX idx_torrents_info_hash ON torrents(info_hash);
+  CREATE INDEX idx_torrents_anime_episode ON torrents(anime_id, episode_number);
+  CREATE INDEX idx_torrents_season ON torrents(season_id);
+  CREATE INDEX idx_torrents_seeders ON torrents(seeders);
+
+  CREATE TABLE torrent_episodes (
+    torrent_id TEXT NOT NULL REFERENCES torrents(id) ON DELETE CASCADE,
+    episode_id TEXT NOT NULL,
+    PRIMARY KEY (torrent_id, episode_id)
+  );
+  CREATE INDEX idx_torrent_episodes_episode ON torrent_episodes(episode_id);
+  `,
+  `
+  CREATE TABLE characters (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE character_external_ids (
+    character_id TEXT NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    source TEXT NOT NULL,
+    external_id TEXT NOT NULL,
+    PRIMARY KEY (character_id, source, external_id)
+  );
+  CREATE INDEX idx_character_external_ids ON character_external_ids(source, external_id);
+
+  CREATE TABLE character_anime (
+    character_id TEXT NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    anime_id TEXT NOT NULL,
+    PRIMARY KEY (character_id, anime_id)
+  );
+  CREATE INDEX idx_character_anime ON character_anime(anime_id);
+
+  CREATE TABLE staff (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE staff_external_ids (
+    staff_id TEXT NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+    source TEXT NOT NULL,
+    external_id TEXT NOT NULL,
+    PRIMARY KEY (staff_id, source, external_id)
+  );
+  CREATE INDEX idx_staff_external_ids ON staff_external_ids(source, external_id);
+
+  CREATE TABLE staff_anime (
+    staff_id TEXT NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+    anime_id TEXT NOT NULL,
+    PRIMARY KEY (staff_id, anime_id)
+  );
+  CREATE INDEX idx_staff_anime ON staff_anime(anime_id);
+  `,
+  `
+  CREATE TABLE studios (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE studio_external_ids (
+    studio_id TEXT NOT NULL REFERENCES studios(id) ON DELETE CASCADE,
+    source TEXT NOT NULL,
+    external_id TEXT NOT NULL,
+    PRIMARY KEY (studio_id, source, external_id)
+  );
+  CREATE INDEX idx_studio_external_ids ON studio_external_ids(source, external_id);
+
+  CREATE TABLE studio_names (
+    studio_id TEXT NOT NULL REFERENCES studios(id) ON DELETE CASCADE,
+    name TEXT NOT NULL COLLATE NOCASE,
+    PRIMARY KEY (studio_id, name)
+  );
+  CREATE INDEX idx_studio_names ON studio_names(name);
+
+  CREATE TABLE studio_anime (
+    studio_id TEXT NOT NULL REFERENCES studios(id) ON DELETE CASCADE,
+    anime_id TEXT NOT NULL,
+    PRIMARY KEY (studio_id, anime_id)
+  );
+  CREATE INDEX idx_studio_anime ON studio_anime(anime_id);
+  `,
+  `
+  -- Titles folded by normalizeTitle(), one per line, for fuzzy title search candidates
+  CREATE VIRTUAL TABLE anime_title_keys USING fts5(anime_id UNINDEXED, titles, tokenize = 'trigram');
+  INSERT INTO anime_title_keys (anime_id, titles)
+    SELECT anime_id, title_keys(titles) FROM anime_titles;
+  `,
+];
+
+/**
+ * Prepared statement of a `SqliteConnection`
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): { changes: number };
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * The part of a better-sqlite3 connection used by the repositories
+ * Declared here so the published types do not depend on `@types/better-sqlite3`
+ */
+export interface SqliteConnection {
+  prepare(sql: string): SqliteStatement;
+  exec(sql: string): void;
+  pragma(source: string, options?: { simple?: boolean }): unknown;
+  transaction<T>(fn: () => T): () => T;
+  function(
+    name: string,
+    options: { deterministic?: boolean },
+    fn: (...params: unknown[]) => unknown
+  ): void;
+  close(): void;
+}
+
+/**
+ * Embedded SQLite database shared by the SQLite repositories
+ * Requires the optional `better-sqlite3` package
+ */
+export class SqliteDatabase {
+  readonly connection: SqliteConnection;
+
+  /**
+   * Open (or create) a database file and apply pending migrations
+   * Use ':memory:' for a temporary database
+   */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    const Driver = loadDriver();
+    this.connection = new Driver(filename);
+    this.connection.pragma('journal_mode = WAL');
+    this.connection.pragma('foreign_keys = ON');
+    this.registerFunctions();
+    this.migrate();
+  }
+
+  /**
+   * Number of migrations applied to the database
+   */
+  getSchemaVersion(): number {
+    return this.connection.pragma('user_version', { simple: true }) as number;
+  }
+
+  /**
+   * Apply migrations newer than the current schema version, each in its own transaction
+   */
+  migrate(): void {
+    const current = this.getSchemaVersion();
+
+    MIGRATIONS.slice(current).forEach((sql, index) => {
+      this.connection.transaction(() => {
+        this.connection.exec(sql);
+        this.connection.pragma(`user_version = ${current + index + 1}`);
+      })();
+    });
+  }
+
+  /**
+   * SQL functions used by migrations and repository queries
+   * - `casefold(text)`: lowercase, outside ASCII too (SQLite's `lower()` only folds ASCII)
+   * - `title_keys(titles)`: each line folded by `normalizeTitle()`
+   */
+  private registerFunctions(): void {
+    this.connection.function('casefold', { deterministic: true }, (text: unknown) =>
+      typeof text === 'string' ? text.toLowerCase() : text
+    );
+    this.connection.function('title_keys', { deterministic: true }, (titles: unknown) =>
+      typeof titles === 'string' ? titles.split('\n').map(normalizeTitle).join('\n') : titles
+    );
+  }
+
+  /**
+   * Close the connection
+   */
+  close(): void {
+    this.connection.close();
+  }
+}
+
+/**
+ * Parse a record stored in a `data` column
+ */
+export function parseRow<T>(row: unknown): T | null {
+  return row ? (JSON.parse((row as { data: string }).data, reviveDates) as T) : null;
+}
+
+/**
+ * Parse every record of a query result
+ */
+export function parseRows<T>(rows: unknown[]): T[] {
+  return rows.map((row) => parseRow<T>(row)!);
+}
+
+/**
+ * Load better-sqlite3 on demand so it stays an optional dependency
+ */
+function loadDriver(): new (filename: string) => SqliteConnection {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require('better-sqlite3') as new (filename: string) => SqliteConnection;
+  } catch (error) {
+    throw new MiauIndexError(
+      'Database repositories require better-sqlite3. Install it with: npm install better-sqlite3'
+    );
+  }
+}
@@ -0,0 +1,468 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SqliteDatabase } from '../repositories/SqliteDatabase';
+import { SqliteAnimeRepository } from '../repositories/AnimeRepository';
+import { SqliteEpisodeRepository, SqliteSeasonRepository } from '../repositories/EpisodeRepository';
+import { SqliteTorrentRepository } from '../repositories/TorrentRepository';
+import { SqliteCharacterRepository, SqliteStaffRepository } from '../repositories/PeopleRepository';
+import { SqliteStudioRepository } from '../repositories/StudioRepository';
+import { createRepositories } from '../repositories/RepositoryFactory';
+import { queryAnime } from '../utils/animeQuery';
+import { rankByTitle } from '../utils/titleSearch';
+import { Anime, AnimeQuery } from '../models/Anime';
+import { EpisodeType } from '../models/Episode';
+import { StudioRole } from '../models/People';
+import {
+  TorrentQuality,
+  TorrentCodec,
+  TorrentLanguage,
+  TorrentReleaseType,
+  TorrentSearchFilter,
+  ReleaseSource,
+  AudioCodec,
+} from '../models/Torrent';
+import { AgeRating, AnimeType, AnimeStatus, DataSource, Season } from '../types/common';
+import { makeAnime, makeTorrent } from '../../tests/helpers/fixtures';
+
+describe('SQLite repositories', () => {
+  let database: SqliteDatabase;
+
+  beforeEach(() => {
+    database = new SqliteDatabase(':memory:');
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  it('should apply all migrations once', () => {
+    const version = database.getSchemaVersion();
+
+    database.migrate();
+
+    expect(version).toBeGreaterThan(0);
+    expect(database.getSchemaVersion()).toBe(version);
+  });
+
+  it('should upgrade an older schema without touching existing data', async () => {
+    await new SqliteAnimeRepository(database).save(makeAnime('1', 'Trigun'));
+    const version = database.getSchemaVersion();
+
+    // Roll the schema back to before the studio tables and title keys were added
+    database.connection.exec(`
+      DROP TABLE anime_title_keys;
+      DROP TABLE studio_anime;
+      DROP TABLE studio_names;
+      DROP TABLE studio_external_ids;
+      DROP TABLE studios;
+    `);
+    database.connection.pragma(`user_version = ${version - 2}`);
+
+    database.migrate();
+
+    const tables = database.connection
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'studio%'")
+      .all() as { name: string }[];
+    expect(database.getSchemaVersion()).toBe(version);
+    expect(tables.map((table) => table.name).sort()).toEqual([
+      'studio_anime',
+      'studio_external_ids',
+      'studio_names',
+      'studios',
+    ]);
+    expect((await new SqliteAnimeRepository(database).findById('1'))?.title.romaji).toBe('Trigun');
+    // Title keys are built from the titles already indexed
+    expect(
+      database.connection.prepare('SELECT anime_id, titles FROM anime_title_keys').all()
+    ).toEqual([{ anime_id: '1', titles: 'trigun' }]);
+  });
+
+  it('should roll back a failed migration', () => {
+    const version = database.getSchemaVersion();
+    database.connection.exec('DROP TABLE studio_anime');
+    database.connection.pragma(`user_version = ${version - 2}`);
+
+    // The studios table still exists, so re-running the studio migration fails
+    expect(() => database.migrate()).toThrow();
+    expect(database.getSchemaVersion()).toBe(version - 2);
+  });
+
+  describe('SqliteAnimeRepository', () => {
+    let repository: SqliteAnimeRepository;
+
+    beforeEach(async () => {
+      repository = new SqliteAnimeRepository(database);
+      await repository.saveMany([
+        makeAnime('1', {
+          title: { romaji: 'Cowboy Bebop', synonyms: ['カウボーイビバップ'] },
+          aired: { start: new Date('1998-04-03T00:00:00.000Z') },
+        }),
+        makeAnime('2', {
+          title: { romaji: 'Shingeki no Kyojin', english: 'Attack on Titan' },
+          externalIds: [{ source: DataSource.MYANIMELIST, id: '2' }],
+        }),
+        makeAnime('3', '100% Pascal-sensei'),
+      ]);
+    });
+
+    it('should round-trip records with dates', async () => {
+      const anime = await repository.findById('1');
+
+      expect(anime?.title.romaji).toBe('Cowboy Bebop');
+      expect(anime?.aired.start).toEqual(new Date('1998-04-03T00:00:00.000Z'));
+    });
+
+    it('should find anime by external ID', async () => {
+      const anime = await repository.findByExternalId(DataSource.MYANIMELIST, '2');
+
+      expect(anime?.id).toBe('2');
+      expect(await repository.findByExternalId(DataSource.ANILIST, '2')).toBeNull();
+    });
+
+    it('should search titles and synonyms by substring, ignoring case', async () => {
+      expect((await repository.searchByTitle('TITAN')).map((a) => a.id)).toEqual(['2']);
+      expect((await repository.searchByTitle('bebop')).map((a) => a.id)).toEqual(['1']);
+      expect((await repository.searchByTitle('ビバップ')).map((a) => a.id)).toEqual(['1']);
+      expect(await repository.searchByTitle('o')).toHaveLength(2);
+      expect((await repository.searchByTitle('100%')).map((a) => a.id)).toEqual(['3']);
+      expect(await repository.searchByTitle('0% P')).toHaveLength(1);
+      expect(await repository.searchByTitle('%')).toHaveLength(1);
+    });
+
+    it('should rank fuzzy title matches', async () => {
+      const matches = await repository.fuzzySearchByTitle('cowboy bebpo');
+
+      expect(matches.map((m) => m.anime.id)).toEqual(['1']);
+      expect(matches[0].title).toBe('Cowboy Bebop');
+      expect(matches[0].score).toBeGreaterThan(0.8);
+      expect((await repository.fuzzySearchByTitle('びばっぷ')).map((m) => m.anime.id)).toEqual([
+        '1',
+      ]);
+      expect(await repository.fuzzySearchByTitle('cowboy', { minScore: 1 })).toEqual([]);
+    });
+
+    it('should reindex titles on update and remove them on delete', async () => {
+      const anime = (await repository.findById('1'))!;
+      anime.title.english = 'Space Cowboys';
+      await repository.save(anime);
+      await repository.delete('2');
+
+      expect((await repository.searchByTitle('space')).map((a) => a.id)).toEqual(['1']);
+      expect(await repository.searchByTitle('titan')).toHaveLength(0);
+      expect(await repository.count()).toBe(2);
+
+      const rows = database.connection
+        .prepare('SELECT anime_id, titles FROM anime_titles ORDER BY anime_id')
+        .all() as { anime_id: string; titles: string }[];
+      expect(rows).toEqual([
+        { anime_id: '1', titles: 'cowboy bebop\nspace cowboys\nカウボーイビバップ' },
+        { anime_id: '3', titles: '100% pascal-sensei' },
+      ]);
+      expect(
+        database.connection
+          .prepare('SELECT anime_id, titles FROM anime_title_keys ORDER BY anime_id')
+          .all()
+      ).toEqual([
+        { anime_id: '1', titles: 'cowboy bebop\nspace cowboys\nかうぼーいびばっぷ' },
+        { anime_id: '3', titles: '100 pascal sensei' },
+      ]);
+    });
+
+    it('should rank every anime for queries too short for the trigram index', async () => {
+      const matches = await repository.fuzzySearchByTitle('ki');
+
+      expect(matches.length).toBeGreaterThan(0);
+      expect(matches).toEqual(rankByTitle(await repository.findAll(0, 10), 'ki'));
+    });
+
+    it('should query like the in-memory repository', async () => {
+      const anime = (await repository.findById('2'))!;
+      await repository.save({ ...anime, genres: ['Action'], year: 2013 });
+
+      const result = await repository.findByQuery({ title: 'o', genres: ['action'] });
+      expect(result.items.map((a) => a.id)).toEqual(['2']);
+      expect(result.total).toBe(1);
+
+      const page = await repository.findByQuery({ sortBy: 'title', limit: 2 });
+      expect(page.items.map((a) => a.id)).toEqual(['3', '1']);
+      expect(
+        (await repository.findByQuery({ sortBy: 'title', cursor: page.nextCursor })).items
+      ).toHaveLength(1);
+    });
+
+    it('should filter in SQL like matchesAnimeQuery', async () => {
+      const catalog: Anime[] = [
+        {
+          ...makeAnime('10', 'Mushishi'),
+          type: AnimeType.TV,
+          status: AnimeStatus.FINISHED,
+          season: Season.FALL,
+          year: 2005,
+          episodes: 26,
+          genres: ['Mystery', 'Slice of Life'],
+          themes: ['Historical'],
+          studios: ['Artland'],
+          ageRating: AgeRating.PG_13,
+          aggregateScore: 8.6,
+        },
+        {
+          ...makeAnime('11', 'Ōkami to Kōshinryō'),
+          type: AnimeType.TV,
+          status: AnimeStatus.FINISHED,
+          season: Season.WINTER,
+          year: 2008,
+          episodes: 13,
+          genres: ['Romance', 'Économie'],
+          studios: [],
+          companies: [{ studioId: 'studio-imagin', name: 'IMAGIN', role: StudioRole.STUDIO }],
+          ratings: [{ source: DataSource.MYANIMELIST, score: 8.2, votes: 100 }],
+        },
+        {
+          ...makeAnime('12', 'Kimi no Na wa.'),
+          type: AnimeType.MOVIE,
+          status: AnimeStatus.FINISHED,
+          year: 2016,
+          episodes: 1,
+          genres: ['Romance'],
+          studios: ['CoMix Wave Films'],
+        },
+      ];
+      await repository.saveMany(catalog);
+      const stored = await repository.findAll(0, 100);
+      const ids = async (query: AnimeQuery): Promise<string[]> =>
+        (await repository.findByQuery(query)).items.map((a) => a.id);
+
+      const queries: AnimeQuery[] = [
+        { genres: ['romance'] },
+        { genres: ['ÉCONOMIE'] },
+        { genres: ['Romance', 'Mystery'] },
+        { themes: ['historical'] },
+        { types: [AnimeType.MOVIE] },
+        { statuses: [AnimeStatus.AIRING] },
+        { season: Season.FALL },
+        { year: 2008 },
+        { year: { min: 2006 } },
+        { episodes: { max: 13 } },
+        { ageRatings: [AgeRating.PG_13] },
+        { score: { min: 8.3 } },
+        { score: { max: 8.3 } },
+        { studio: 'artland' },
+        { studio: 'imagin' },
+        { studio: 'studio-imagin' },
+        { studio: 'comix wave films', types: [AnimeType.MOVIE], year: { max: 2020 } },
+      ];
+      for (const query of queries) {
+        expect({ query, ids: await ids(query) }).toEqual({
+          query,
+          ids: queryAnime(stored, query).items.map((a) => a.id),
+        });
+      }
+      expect(await ids({ score: { min: 8.3 } })).toEqual(['10']);
+      expect(await ids({ genres: ['ÉCONOMIE'] })).toEqual(['11']);
+    });
+
+    it('should paginate in insertion order', async () => {
+      expect((await repository.findAll(0, 2)).map((a) => a.id)).toEqual(['1', '2']);
+      expect((await repository.findAll(1, 2)).map((a) => a.id)).toEqual(['3']);
+    });
+  });
+
+  describe('SqliteEpisodeRepository and SqliteSeasonRepository', () => {
+    it('should query episodes and seasons by anime and number', async () => {
+      const episodes = new SqliteEpisodeRepository(database);
+      const seasons = new SqliteSeasonRepository(database);
+      const now = new Date();
+
+      await episodes.save({
+        id: 'ep-S1',
+        animeId: 'a',
+        number: 1,
+        type: EpisodeType.SPECIAL,
+        externalIds: [],
+        createdAt: now,
+        updatedAt: now,
+      });
+      await episodes.saveMany(
+        [2, 1].map((number) => ({
+          id: `ep-${number}`,
+          animeId: 'a',
+          number,
+          externalIds: [],
+          createdAt: now,
+          updatedAt: now,
+        }))
+      );
+      await seasons.save({
+        id: 's-1',
+        animeId: 'a',
+        seasonNumber: 1,
+        externalIds: [],
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      expect((await episodes.findByAnimeId('a')).map((e) => e.number)).toEqual([1, 1, 2]);
+      expect((await episodes.findByNumber('a', 1))?.id).toBe('ep-1');
+      expect((await episodes.findByNumber('a', 2))?.id).toBe('ep-2');
+      expect(await episodes.count('a')).toBe(3);
+      expect((await seasons.findBySeasonNumber('a', 1))?.id).toBe('s-1');
+      expect(await seasons.count('b')).toBe(0);
+    });
+  });
+
+  describe('SqliteCharacterRepository and SqliteStaffRepository', () => {
+    it('should query characters and staff by external ID and anime', async () => {
+      const characters = new SqliteCharacterRepository(database);
+      const staff = new SqliteStaffRepository(database);
+      const now = new Date();
+
+      await characters.save({
+        id: 'spike',
+        name: { full: 'Spike Spiegel' },
+        appearances: [{ animeId: 'a' }, { animeId: 'b' }],
+        externalIds: [{ source: DataSource.ANILIST, id: '1' }],
+        createdAt: now,
+        updatedAt: now,
+      });
+      await staff.save({
+        id: 'watanabe',
+        name: { full: 'Shinichiro Watanabe' },
+        credits: [
+          { animeId: 'a', role: 'Director' },
+          { animeId: 'a', role: 'Storyboard' },
+        ],
+        externalIds: [{ source: DataSource.MYANIMELIST, id: '2009' }],
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      expect((await characters.findByExternalId(DataSource.ANILIST, '1'))?.id).toBe('spike');
+      expect((await characters.findByAnimeId('b')).map((c) => c.id)).toEqual(['spike']);
+      expect(await characters.count('c')).toBe(0);
+      expect((await staff.findByExternalId(DataSource.MYANIMELIST, '2009'))?.createdAt).toEqual(
+        now
+      );
+      expect((await staff.findByAnimeId('a')).map((s) => s.id)).toEqual(['watanabe']);
+      expect(await staff.count('a')).toBe(1);
+
+      await characters.delete('spike');
+      expect(await characters.findByAnimeId('a')).toEqual([]);
+    });
+  });
+
+  describe('SqliteStudioRepository', () => {
+    it('should query studios by external ID, name and anime', async () => {
+      const studios = new SqliteStudioRepository(database);
+
+      await studios.save({
+        id: 'sunrise',
+        name: 'Sunrise',
+        alternativeNames: ['Sunrise Inc.'],
+        credits: [
+          { animeId: 'a', role: StudioRole.STUDIO },
+          { animeId: 'a', role: StudioRole.PRODUCER },
+          { animeId: 'b', role: StudioRole.STUDIO },
+        ],
+        externalIds: [{ source: DataSource.ANILIST, id: '14' }],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      expect((await studios.findByExternalId(DataSource.ANILIST, '14'))?.id).toBe('sunrise');
+      expect((await studios.findByName('SUNRISE INC.')).map((s) => s.id)).toEqual(['sunrise']);
+      expect(await studios.findByName('Sun')).toEqual([]);
+      expect((await studios.findByAnimeId('b')).map((s) => s.id)).toEqual(['sunrise']);
+      expect(await studios.count('a')).toBe(1);
+
+      await studios.save({ ...(await studios.findById('sunrise'))!, credits: [] });
+      expect(await studios.findByAnimeId('a')).toEqual([]);
+    });
+  });
+
+  describe('SqliteTorrentRepository', () => {
+    let repository: SqliteTorrentRepository;
+
+    beforeEach(async () => {
+      repository = new SqliteTorrentRepository(database);
+      await repository.saveMany([
+        makeTorrent('1', { animeId: 'a', episodeNumber: 1, episodeIds: ['ep-1'], seeders: 5 }),
+        makeTorrent('2', {
+          animeId: 'a',
+          episodeRange: { start: 1, end: 12 },
+          seeders: 50,
+          trusted: true,
+          metadata: {
+            quality: TorrentQuality.HD_720p,
+            codec: TorrentCodec.H265,
+            audioLanguages: [TorrentLanguage.JAPANESE, TorrentLanguage.ENGLISH],
+            subtitleLanguages: [TorrentLanguage.ENGLISH],
+            releaseType: TorrentReleaseType.BATCH,
+            source: ReleaseSource.BLURAY,
+            bitDepth: 10,
+            audioCodecs: [AudioCodec.FLAC],
+            version: 2,
+          },
+        }),
+        makeTorrent('3', { animeId: 'b', episodeNumber: 1 }),
+      ]);
+    });
+
+    it('should filter like the in-memory repository', async () => {
+      const ids = async (filters: TorrentSearchFilter) =>
+        (await repository.findByFilters(filters)).map((t) => t.id);
+
+      expect(await ids({ animeId: 'a', episodeNumber: 1 })).toEqual(['2', '1']);
+      expect(await ids({ episodeNumber: 5 })).toEqual(['2']);
+      expect(await ids({ audioLanguage: TorrentLanguage.ENGLISH })).toEqual(['2']);
+      expect(await ids({ quality: TorrentQuality.FULL_HD_1080p, minSeeders: 6 })).toEqual(['3']);
+      expect(await ids({ trustedOnly: true })).toEqual(['2']);
+      expect(await ids({ episodeId: 'ep-1' })).toEqual(['1']);
+      expect(await ids({ source: ReleaseSource.BLURAY, bitDepth: 10 })).toEqual(['2']);
+      expect(await ids({ audioCodec: AudioCodec.FLAC })).toEqual(['2']);
+      expect(await ids({ audioCodec: AudioCodec.AAC })).toEqual([]);
+      expect(await ids({ minVersion: 2 })).toEqual(['2']);
+      expect(await ids({ minVersion: 1 })).toHaveLength(3);
+
+      // Season-labelled numbers are relative to their season
+      await repository.save(makeTorrent('4', { animeId: 'b', seasonNumber: 2, episodeNumber: 5 }));
+      expect(await ids({ episodeNumber: 5 })).toEqual(['2']);
+    });
+
+    it('should find torrents by info hash', async () => {
+      expect((await repository.findByInfoHash('hash-2'))?.id).toBe('2');
+      expect((await repository.findByInfoHash('HASH-2'))?.id).toBe('2');
+      expect(await repository.findByInfoHash('hash-9')).toBeNull();
+    });
+
+    it('should find torrents saved with an upper-case info hash', async () => {
+      await repository.save(makeTorrent('4', { infoHash: 'ABCDEF' }));
+
+      expect((await repository.findByInfoHash('abcdef'))?.id).toBe('4');
+      expect((await repository.findByInfoHash('AbCdEf'))?.infoHash).toBe('ABCDEF');
+    });
+
+    it('should delete torrents by anime', async () => {
+      expect(await repository.deleteByAnimeId('a')).toBe(2);
+      expect(await repository.findByEpisodeId('ep-1')).toHaveLength(0);
+      expect(await repository.count()).toBe(1);
+    });
+  });
+
+  describe('createRepositories', () => {
+    it('should persist database repositories to the configured file', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'miau-index-'));
+      const connectionString = path.join(directory, 'nested', 'miau.db');
+
+      try {
+        const first = createRepositories({ type: 'database', connectionString });
+        await first.anime.save(makeAnime('1', 'Trigun'));
+
+        const second = createRepositories({ type: 'database', connectionString });
+        expect((await second.anime.searchByTitle('trig')).map((a) => a.id)).toEqual(['1']);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
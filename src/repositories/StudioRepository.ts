@@ -0,0 +1,222 @@
+import { Studio } from '../models/People';
+import { FileStore, FileStoreOptions } from './FileStore';
+import { SqliteDatabase, parseRow, parseRows } from './SqliteDatabase';
+
+/**
+ * Repository interface for studio persistence
+ */
+export interface IStudioRepository {
+  findById(id: string): Promise<Studio | null>;
+  findByExternalId(source: string, externalId: string): Promise<Studio | null>;
+  /**
+   * Find studios whose name or alternative names match, ignoring case
+   */
+  findByName(name: string): Promise<Studio[]>;
+  /**
+   * Find the studios credited on an anime (see `Studio.credits`)
+   */
+  findByAnimeId(animeId: string): Promise<Studio[]>;
+  save(studio: Studio): Promise<Studio>;
+  saveMany(studios: Studio[]): Promise<Studio[]>;
+  delete(id: string): Promise<boolean>;
+  count(animeId?: string): Promise<number>;
+}
+
+/**
+ * In-memory implementation of studio repository
+ */
+export class InMemoryStudioRepository implements IStudioRepository {
+  protected studios: Map<string, Studio> = new Map();
+
+  async findById(id: string): Promise<Studio | null> {
+    return this.studios.get(id) || null;
+  }
+
+  async findByExternalId(source: string, externalId: string): Promise<Studio | null> {
+    for (const studio of this.studios.values()) {
+      if (studio.externalIds.some((ext) => ext.source === source && ext.id === externalId)) {
+        return studio;
+      }
+    }
+    return null;
+  }
+
+  async findByName(name: string): Promise<Studio[]> {
+    const lowerName = name.toLowerCase();
+    return Array.from(this.studios.values()).filter((studio) =>
+      [studio.name, ...(studio.alternativeNames || [])].some((n) => n.toLowerCase() === lowerName)
+    );
+  }
+
+  async findByAnimeId(animeId: string): Promise<Studio[]> {
+    return Array.from(this.studios.values()).filter((studio) =>
+      studio.credits?.some((credit) => credit.animeId === animeId)
+    );
+  }
+
+  async save(studio: Studio): Promise<Studio> {
+    studio.updatedAt = new Date();
+    this.studios.set(studio.id, studio);
+    return studio;
+  }
+
+  async saveMany(studios: Studio[]): Promise<Studio[]> {
+    const saved: Studio[] = [];
+    for (const studio of studios) {
+      saved.push(await this.save(studio));
+    }
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.studios.delete(id);
+  }
+
+  async count(animeId?: string): Promise<number> {
+    return animeId ? (await this.findByAnimeId(animeId)).length : this.studios.size;
+  }
+}
+
+/**
+ * File-backed studio repository
+ * Keeps records in memory and persists every change to `<directory>/studios.json`
+ */
+export class FileStudioRepository extends InMemoryStudioRepository {
+  private store: FileStore<Studio>;
+
+  constructor(directory: string, options: FileStoreOptions = {}) {
+    super();
+    this.store = new FileStore<Studio>(directory, 'studios', options);
+    this.studios = this.store.load();
+  }
+
+  async save(studio: Studio): Promise<Studio> {
+    const saved = await super.save(studio);
+    await this.store.put(saved);
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await super.delete(id);
+    if (deleted) {
+      await this.store.remove(id);
+    }
+    return deleted;
+  }
+
+  /**
+   * Rewrite the snapshot and truncate the append log
+   */
+  async compact(): Promise<void> {
+    await this.store.compact();
+  }
+}
+
+/**
+ * SQLite-backed studio repository, indexed by external ID, name and credited anime
+ */
+export class SqliteStudioRepository implements IStudioRepository {
+  constructor(private database: SqliteDatabase) {}
+
+  private get db(): SqliteDatabase['connection'] {
+    return this.database.connection;
+  }
+
+  findById(id: string): Promise<Studio | null> {
+    const row = this.db.prepare('SELECT data FROM studios WHERE id = ?').get(id);
+    return Promise.resolve(parseRow<Studio>(row));
+  }
+
+  findByExternalId(source: string, externalId: string): Promise<Studio | null> {
+    const row = this.db
+      .prepare(
+        `SELECT s.data FROM studios s
+         JOIN studio_external_ids e ON e.studio_id = s.id
+         WHERE e.source = ? AND e.external_id = ?
+         LIMIT 1`
+      )
+      .get(source, externalId);
+    return Promise.resolve(parseRow<Studio>(row));
+  }
+
+  findByName(name: string): Promise<Studio[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT DISTINCT s.data FROM studios s
+         JOIN studio_names n ON n.studio_id = s.id
+         WHERE n.name = ?
+         ORDER BY s.rowid`
+      )
+      .all(name);
+    return Promise.resolve(parseRows<Studio>(rows));
+  }
+
+  findByAnimeId(animeId: string): Promise<Studio[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT s.data FROM studios s
+         JOIN studio_anime a ON a.studio_id = s.id
+         WHERE a.anime_id = ?
+         ORDER BY s.rowid`
+      )
+      .all(animeId);
+    return Promise.resolve(parseRows<Studio>(rows));
+  }
+
+  save(studio: Studio): Promise<Studio> {
+    studio.updatedAt = new Date();
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          'INSERT INTO studios (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data'
+        )
+        .run(studio.id, JSON.stringify(studio));
+
+      this.db.prepare('DELETE FROM studio_external_ids WHERE studio_id = ?').run(studio.id);
+      const insertId = this.db.prepare(
+        'INSERT OR IGNORE INTO studio_external_ids (studio_id, source, external_id) VALUES (?, ?, ?)'
+      );
+      studio.externalIds.forEach((ext) => insertId.run(studio.id, ext.source, ext.id));
+
+      this.db.prepare('DELETE FROM studio_names WHERE studio_id = ?').run(studio.id);
+      const insertName = this.db.prepare(
+        'INSERT OR IGNORE INTO studio_names (studio_id, name) VALUES (?, ?)'
+      );
+      [studio.name, ...(studio.alternativeNames || [])].forEach((name) =>
+        insertName.run(studio.id, name)
+      );
+
+      this.db.prepare('DELETE FROM studio_anime WHERE studio_id = ?').run(studio.id);
+      const insertAnime = this.db.prepare(
+        'INSERT OR IGNORE INTO studio_anime (studio_id, anime_id) VALUES (?, ?)'
+      );
+      (studio.credits || []).forEach((credit) => insertAnime.run(studio.id, credit.animeId));
+    })();
+
+    return Promise.resolve(studio);
+  }
+
+  async saveMany(studios: Studio[]): Promise<Studio[]> {
+    const saved: Studio[] = [];
+    for (const studio of studios) {
+      saved.push(await this.save(studio));
+    }
+    return saved;
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.db.prepare('DELETE FROM studios WHERE id = ?').run(id).changes > 0);
+  }
+
+  count(animeId?: string): Promise<number> {
+    const row = (
+      animeId
+        ? this.db
+            .prepare('SELECT COUNT(*) AS total FROM studio_anime WHERE anime_id = ?')
+            .get(animeId)
+        : this.db.prepare('SELECT COUNT(*) AS total FROM studios').get()
+    ) as { total: number };
+    return Promise.resolve(row.total);
+  }
+}
@@ -1,4 +1,6 @@
 import { Torrent, TorrentSearchFilter } from '../models/Torrent';
+import { FileStore, FileStoreOptions } from './FileStore';
+import { SqliteDatabase, parseRow, parseRows } from './SqliteDatabase';
 
 /**
  * Repository interface for Torrent persistence
@@ -9,6 +11,12 @@ export interface ITorrentRepository {
    */
   findById(id: string): Promise<Torrent | null>;
 
+  /**
+   * Find torrent by info hash (the same torrent listed by several indexers)
+   * Optional: without it, NyaaService looks info hashes up in `findAll()`
+   */
+  findByInfoHash?(infoHash: string): Promise<Torrent | null>;
+
   /**
    * Find torrents by anime ID
    */
@@ -59,12 +67,20 @@ export interface ITorrentRepository {
  * In-memory implementation of Torrent Repository
  */
 export class InMemoryTorrentRepository implements ITorrentRepository {
-  private torrents: Map<string, Torrent> = new Map();
+  protected torrents: Map<string, Torrent> = new Map();
 
   async findById(id: string): Promise<Torrent | null> {
     return this.torrents.get(id) ?? null;
   }
 
+  async findByInfoHash(infoHash: string): Promise<Torrent | null> {
+    const hash = infoHash.toLowerCase();
+    for (const torrent of this.torrents.values()) {
+      if (torrent.infoHash.toLowerCase() === hash) return torrent;
+    }
+    return null;
+  }
+
   async findByAnimeId(animeId: string): Promise<Torrent[]> {
     return Array.from(this.torrents.values()).filter((torrent) => torrent.animeId === animeId);
   }
@@ -93,10 +109,11 @@ export class InMemoryTorrentRepository implements ITorrentRepository {
     if (filters.episodeNumber !== undefined) {
       results = results.filter(
         (t) =>
-          t.episodeNumber === filters.episodeNumber ||
-          (t.episodeRange &&
-            t.episodeRange.start <= filters.episodeNumber! &&
-            t.episodeRange.end >= filters.episodeNumber!)
+          (t.seasonNumber ?? 1) === 1 &&
+          (t.episodeNumber === filters.episodeNumber ||
+            (t.episodeRange &&
+              t.episodeRange.start <= filters.episodeNumber! &&
+              t.episodeRange.end >= filters.episodeNumber!))
       );
     }
 
@@ -118,6 +135,26 @@ export class InMemoryTorrentRepository implements ITorrentRepository {
       results = results.filter((t) => t.metadata.releaseType === filters.releaseType);
     }
 
+    if (filters.source) {
+      results = results.filter((t) => t.metadata.source === filters.source);
+    }
+
+    if (filters.bitDepth !== undefined) {
+      results = results.filter((t) => t.metadata.bitDepth === filters.bitDepth);
+    }
+
+    if (filters.hdrFormat) {
+      results = results.filter((t) => t.metadata.hdrFormats?.includes(filters.hdrFormat!));
+    }
+
+    if (filters.audioCodec) {
+      results = results.filter((t) => t.metadata.audioCodecs?.includes(filters.audioCodec!));
+    }
+
+    if (filters.minVersion !== undefined) {
+      results = results.filter((t) => (t.metadata.version ?? 1) >= filters.minVersion!);
+    }
+
     if (filters.minSeeders !== undefined) {
       results = results.filter((t) => t.seeders >= filters.minSeeders!);
     }
@@ -163,3 +200,267 @@ export class InMemoryTorrentRepository implements ITorrentRepository {
     return this.torrents.size;
   }
 }
+
+/**
+ * File-backed torrent repository
+ * Keeps records in memory and persists every change to `<directory>/torrents.json`
+ */
+export class FileTorrentRepository extends InMemoryTorrentRepository {
+  private store: FileStore<Torrent>;
+
+  constructor(directory: string, options: FileStoreOptions = {}) {
+    super();
+    this.store = new FileStore<Torrent>(directory, 'torrents', options);
+    this.torrents = this.store.load();
+  }
+
+  async save(torrent: Torrent): Promise<Torrent> {
+    const saved = await super.save(torrent);
+    await this.store.put(saved);
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await super.delete(id);
+    if (deleted) {
+      await this.store.remove(id);
+    }
+    return deleted;
+  }
+
+  async deleteByAnimeId(animeId: string): Promise<number> {
+    const toDelete = await this.findByAnimeId(animeId);
+    for (const torrent of toDelete) {
+      await this.delete(torrent.id);
+    }
+    return toDelete.length;
+  }
+
+  /**
+   * Rewrite the snapshot and truncate the append log
+   */
+  async compact(): Promise<void> {
+    await this.store.compact();
+  }
+}
+
+/**
+ * SQLite-backed torrent repository
+ * Filterable columns are indexed; language and format filters read the stored metadata JSON
+ */
+export class SqliteTorrentRepository implements ITorrentRepository {
+  constructor(private database: SqliteDatabase) {}
+
+  private get db(): SqliteDatabase['connection'] {
+    return this.database.connection;
+  }
+
+  findById(id: string): Promise<Torrent | null> {
+    const row = this.db.prepare('SELECT data FROM torrents WHERE id = ?').get(id);
+    return Promise.resolve(parseRow<Torrent>(row));
+  }
+
+  findByInfoHash(infoHash: string): Promise<Torrent | null> {
+    const row = this.db
+      .prepare('SELECT data FROM torrents WHERE info_hash = ? ORDER BY rowid LIMIT 1')
+      .get(infoHash.toLowerCase());
+    return Promise.resolve(parseRow<Torrent>(row));
+  }
+
+  findByAnimeId(animeId: string): Promise<Torrent[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM torrents WHERE anime_id = ? ORDER BY rowid')
+      .all(animeId);
+    return Promise.resolve(parseRows<Torrent>(rows));
+  }
+
+  findByEpisodeId(episodeId: string): Promise<Torrent[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT t.data FROM torrents t
+         JOIN torrent_episodes e ON e.torrent_id = t.id
+         WHERE e.episode_id = ?
+         ORDER BY t.rowid`
+      )
+      .all(episodeId);
+    return Promise.resolve(parseRows<Torrent>(rows));
+  }
+
+  findByFilters(filters: TorrentSearchFilter): Promise<Torrent[]> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (filters.animeId) {
+      conditions.push('anime_id = ?');
+      params.push(filters.animeId);
+    }
+
+    if (filters.episodeId) {
+      conditions.push('id IN (SELECT torrent_id FROM torrent_episodes WHERE episode_id = ?)');
+      params.push(filters.episodeId);
+    }
+
+    if (filters.seasonId) {
+      conditions.push('season_id = ?');
+      params.push(filters.seasonId);
+    }
+
+    if (filters.episodeNumber !== undefined) {
+      conditions.push(
+        "COALESCE(json_extract(data, '$.seasonNumber'), 1) = 1" +
+          ' AND (episode_number = ? OR (episode_start <= ? AND episode_end >= ?))'
+      );
+      params.push(filters.episodeNumber, filters.episodeNumber, filters.episodeNumber);
+    }
+
+    if (filters.quality) {
+      conditions.push('quality = ?');
+      params.push(filters.quality);
+    }
+
+    if (filters.audioLanguage) {
+      conditions.push(
+        "EXISTS (SELECT 1 FROM json_each(data, '$.metadata.audioLanguages') WHERE value = ?)"
+      );
+      params.push(filters.audioLanguage);
+    }
+
+    if (filters.subtitleLanguage) {
+      conditions.push(
+        "EXISTS (SELECT 1 FROM json_each(data, '$.metadata.subtitleLanguages') WHERE value = ?)"
+      );
+      params.push(filters.subtitleLanguage);
+    }
+
+    if (filters.releaseType) {
+      conditions.push('release_type = ?');
+      params.push(filters.releaseType);
+    }
+
+    if (filters.source) {
+      conditions.push("json_extract(data, '$.metadata.source') = ?");
+      params.push(filters.source);
+    }
+
+    if (filters.bitDepth !== undefined) {
+      conditions.push("json_extract(data, '$.metadata.bitDepth') = ?");
+      params.push(filters.bitDepth);
+    }
+
+    if (filters.hdrFormat) {
+      conditions.push(
+        "EXISTS (SELECT 1 FROM json_each(data, '$.metadata.hdrFormats') WHERE value = ?)"
+      );
+      params.push(filters.hdrFormat);
+    }
+
+    if (filters.audioCodec) {
+      conditions.push(
+        "EXISTS (SELECT 1 FROM json_each(data, '$.metadata.audioCodecs') WHERE value = ?)"
+      );
+      params.push(filters.audioCodec);
+    }
+
+    if (filters.minVersion !== undefined) {
+      conditions.push("COALESCE(json_extract(data, '$.metadata.version'), 1) >= ?");
+      params.push(filters.minVersion);
+    }
+
+    if (filters.minSeeders !== undefined) {
+      conditions.push('seeders >= ?');
+      params.push(filters.minSeeders);
+    }
+
+    if (filters.trustedOnly) {
+      conditions.push('trusted = 1');
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT data FROM torrents ${where} ORDER BY seeders DESC`)
+      .all(...params);
+
+    return Promise.resolve(parseRows<Torrent>(rows));
+  }
+
+  save(torrent: Torrent): Promise<Torrent> {
+    const now = new Date();
+    const savedTorrent = {
+      ...torrent,
+      updatedAt: now,
+      createdAt: torrent.createdAt ?? now,
+    };
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO torrents (
+             id, info_hash, anime_id, season_id, episode_number, episode_start, episode_end,
+             quality, release_type, seeders, trusted, data
+           ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET
+             info_hash = excluded.info_hash, anime_id = excluded.anime_id,
+             season_id = excluded.season_id, episode_number = excluded.episode_number,
+             episode_start = excluded.episode_start, episode_end = excluded.episode_end,
+             quality = excluded.quality, release_type = excluded.release_type,
+             seeders = excluded.seeders, trusted = excluded.trusted, data = excluded.data`
+        )
+        .run(
+          savedTorrent.id,
+          savedTorrent.infoHash.toLowerCase(),
+          savedTorrent.animeId ?? null,
+          savedTorrent.seasonId ?? null,
+          savedTorrent.episodeNumber ?? null,
+          savedTorrent.episodeRange?.start ?? null,
+          savedTorrent.episodeRange?.end ?? null,
+          savedTorrent.metadata.quality,
+          savedTorrent.metadata.releaseType,
+          savedTorrent.seeders,
+          savedTorrent.trusted ? 1 : 0,
+          JSON.stringify(savedTorrent)
+        );
+
+      this.db.prepare('DELETE FROM torrent_episodes WHERE torrent_id = ?').run(savedTorrent.id);
+      const insertEpisode = this.db.prepare(
+        'INSERT OR IGNORE INTO torrent_episodes (torrent_id, episode_id) VALUES (?, ?)'
+      );
+      (savedTorrent.episodeIds || []).forEach((episodeId) =>
+        insertEpisode.run(savedTorrent.id, episodeId)
+      );
+    })();
+
+    return Promise.resolve(savedTorrent);
+  }
+
+  async saveMany(torrents: Torrent[]): Promise<Torrent[]> {
+    const saved: Torrent[] = [];
+    for (const torrent of torrents) {
+      saved.push(await this.save(torrent));
+    }
+    return saved;
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(
+      this.db.prepare('DELETE FROM torrents WHERE id = ?').run(id).changes > 0
+    );
+  }
+
+  deleteByAnimeId(animeId: string): Promise<number> {
+    return Promise.resolve(
+      this.db.prepare('DELETE FROM torrents WHERE anime_id = ?').run(animeId).changes
+    );
+  }
+
+  findAll(): Promise<Torrent[]> {
+    const rows = this.db.prepare('SELECT data FROM torrents ORDER BY rowid').all();
+    return Promise.resolve(parseRows<Torrent>(rows));
+  }
+
+  count(): Promise<number> {
+    const row = this.db.prepare('SELECT COUNT(*) AS total FROM torrents').get() as {
+      total: number;
+    };
+    return Promise.resolve(row.total);
+  }
+}
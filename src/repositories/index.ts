@@ -1,3 +1,8 @@
 export * from './AnimeRepository';
 export * from './EpisodeRepository';
 export * from './TorrentRepository';
+export * from './PeopleRepository';
+export * from './StudioRepository';
+export * from './FileStore';
+export * from './SqliteDatabase';
+export * from './RepositoryFactory';
@@ -0,0 +1,202 @@
+import { Anime } from '../models/Anime';
+import { stringSimilarity } from '../utils/helpers';
+import { matchExternalIds } from '../utils/identity';
+
+/**
+ * Relative weight of each signal used to score a match
+ */
+export interface MatchWeights {
+  title: number;
+  year: number;
+  type: number;
+  episodes: number;
+}
+
+/**
+ * Options for the cross-provider anime matcher
+ */
+export interface AnimeMatcherOptions {
+  /**
+   * Minimum confidence (0-1) for two records to be considered the same anime
+   * Default: 0.8
+   */
+  threshold?: number;
+
+  /**
+   * Signal weights used when no shared external ID decides the match
+   */
+  weights?: Partial<MatchWeights>;
+}
+
+/**
+ * Result of comparing two anime records
+ */
+export interface AnimeMatch {
+  /** Confidence between 0 (different anime) and 1 (same anime) */
+  confidence: number;
+  /** Whether confidence reaches the matcher threshold */
+  isMatch: boolean;
+  /** How the confidence was obtained */
+  reason: 'shared-external-id' | 'conflicting-external-id' | 'similarity';
+  /** Per-signal scores (only signals known on both sides) */
+  signals: Partial<MatchWeights>;
+}
+
+const DEFAULT_WEIGHTS: MatchWeights = {
+  title: 0.6,
+  year: 0.15,
+  type: 0.1,
+  episodes: 0.15,
+};
+
+/**
+ * Links records of the same anime coming from different providers
+ * using shared external IDs, fuzzy title similarity, year, type and episode count
+ */
+export class AnimeMatcher {
+  private threshold: number;
+  private weights: MatchWeights;
+
+  constructor(options: AnimeMatcherOptions = {}) {
+    this.threshold = options.threshold ?? 0.8;
+    this.weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+  }
+
+  /**
+   * Compare two anime records
+   */
+  match(a: Anime, b: Anime, threshold: number = this.threshold): AnimeMatch {
+    // External IDs are authoritative: a shared ID links, a different ID on the same source separates
+    const byId = matchExternalIds(a.externalIds, b.externalIds);
+    if (byId === true) {
+      return { confidence: 1, isMatch: true, reason: 'shared-external-id', signals: {} };
+    }
+    if (byId === false) {
+      return { confidence: 0, isMatch: false, reason: 'conflicting-external-id', signals: {} };
+    }
+
+    const signals: Partial<MatchWeights> = {
+      title: this.titleSimilarity(a, b),
+    };
+
+    const yearA = this.getYear(a);
+    const yearB = this.getYear(b);
+    if (yearA !== undefined && yearB !== undefined) {
+      const diff = Math.abs(yearA - yearB);
+      signals.year = diff === 0 ? 1 : diff === 1 ? 0.5 : 0;
+    }
+
+    signals.type = a.type === b.type ? 1 : 0;
+
+    if (a.episodes && b.episodes) {
+      signals.episodes =
+        a.episodes === b.episodes ? 1 : Math.abs(a.episodes - b.episodes) <= 1 ? 0.5 : 0;
+    }
+
+    let total = 0;
+    let weightSum = 0;
+    for (const [signal, score] of Object.entries(signals) as Array<[keyof MatchWeights, number]>) {
+      total += this.weights[signal] * score;
+      weightSum += this.weights[signal];
+    }
+
+    const confidence = weightSum > 0 ? total / weightSum : 0;
+
+    return {
+      confidence,
+      isMatch: confidence >= threshold,
+      reason: 'similarity',
+      signals,
+    };
+  }
+
+  /**
+   * Group records that refer to the same anime
+   * Each record joins the group holding its best match above the threshold
+   */
+  group(anime: Anime[], threshold: number = this.threshold): Anime[][] {
+    const groups: Anime[][] = [];
+
+    for (const item of anime) {
+      let bestGroup: Anime[] | undefined;
+      let bestConfidence = threshold;
+
+      for (const group of groups) {
+        const matches = group.map((member) => this.match(item, member, threshold));
+
+        // Never join a group containing a record known to be a different anime
+        if (matches.some((m) => m.reason === 'conflicting-external-id')) continue;
+
+        const confidence = Math.max(...matches.map((m) => m.confidence));
+        if (confidence >= bestConfidence) {
+          bestGroup = group;
+          bestConfidence = confidence;
+        }
+      }
+
+      if (bestGroup) {
+        bestGroup.push(item);
+      } else {
+        groups.push([item]);
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Best similarity between any pair of titles or synonyms
+   */
+  private titleSimilarity(a: Anime, b: Anime): number {
+    const titlesA = this.getTitles(a);
+    const titlesB = this.getTitles(b);
+
+    let best = 0;
+    for (const titleA of titlesA) {
+      for (const titleB of titlesB) {
+        best = Math.max(best, stringSimilarity(titleA, titleB));
+        if (best === 1) return best;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Collect normalized titles and synonyms of a record
+   */
+  private getTitles(anime: Anime): string[] {
+    const titles = [
+      anime.title.romaji,
+      anime.title.english,
+      anime.title.native,
+      ...(anime.title.synonyms || []),
+    ];
+
+    return Array.from(
+      new Set(
+        titles
+          .filter((t): t is string => !!t)
+          .map((t) => this.normalizeTitle(t))
+          .filter((t) => t.length > 0)
+      )
+    );
+  }
+
+  /**
+   * Lowercase and strip punctuation so "Re:Zero" and "Re Zero" compare equal
+   */
+  private normalizeTitle(title: string): string {
+    return title
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim();
+  }
+
+  /**
+   * Year the anime started airing
+   */
+  private getYear(anime: Anime): number | undefined {
+    return anime.year ?? anime.aired?.start?.getFullYear();
+  }
+}
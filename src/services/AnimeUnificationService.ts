@@ -1,7 +1,72 @@
-import { Anime } from '../models/Anime';
+import { Anime, FieldProvenance } from '../models/Anime';
 import { IAnimeProvider } from '../providers/BaseProvider';
 import { IAnimeRepository } from '../repositories/AnimeRepository';
-import { DataSource } from '../types/common';
+import { SourceId, DateRange, ExternalId } from '../types/common';
+import { uniqueBy } from '../utils/helpers';
+import { genreTaxonomy } from '../utils/taxonomy';
+import { calculateAggregateScore } from '../utils/ratings';
+import { AnimeMatcher } from './AnimeMatcher';
+
+/**
+ * Anime fields resolved by picking a single value from one source
+ */
+export type UnifiedField =
+  | 'title.romaji'
+  | 'title.english'
+  | 'title.native'
+  | 'synopsis'
+  | 'background'
+  | 'type'
+  | 'status'
+  | 'episodes'
+  | 'duration'
+  | 'season'
+  | 'year'
+  | 'aired'
+  | 'broadcast'
+  | 'trailer'
+  | 'images'
+  | 'ageRating';
+
+/**
+ * A value paired with the source it was taken from
+ */
+export interface SourcedValue<T> {
+  source?: SourceId;
+  value: T;
+}
+
+/**
+ * Fields resolved by majority vote across sources before falling back to priority
+ */
+const CONSENSUS_FIELDS: ReadonlySet<UnifiedField> = new Set<UnifiedField>([
+  'type',
+  'status',
+  'episodes',
+  'duration',
+  'season',
+  'year',
+  'aired',
+]);
+
+/**
+ * Disagreement between sources on a single field
+ */
+export interface FieldConflict {
+  field: UnifiedField;
+  candidates: SourcedValue<unknown>[];
+  selected: SourcedValue<unknown>;
+  resolvedBy: 'consensus' | 'priority';
+}
+
+/**
+ * Conflicts found while unifying one anime
+ */
+export interface ConflictReport {
+  title?: string;
+  externalIds: ExternalId[];
+  conflicts: FieldConflict[];
+}
 
 /**
  * Options for anime unification
@@ -10,28 +75,48 @@ export interface UnificationOptions {
   /**
    * Preferred sources in order of priority
    */
-  preferredSources?: DataSource[];
+  preferredSources?: SourceId[];
 
   /**
-   * Minimum number of sources required for a field to be considered
+   * Per-field source priority, overriding preferredSources for that field
+   * e.g. `{ 'title.english': [DataSource.ANILIST], synopsis: [DataSource.MYANIMELIST] }`
+   */
+  fieldPriorities?: Partial<Record<UnifiedField, SourceId[]>>;
+
+  /**
+   * Minimum number of sources that must agree on a value for it to win by majority vote
+   * (type, status, episodes, duration, season, year, aired). Default: 2
    */
   minSourcesForConsensus?: number;
 
+  /**
+   * Called with the conflict report whenever sources disagree on a voted field
+   */
+  onConflicts?: (report: ConflictReport) => void;
+
   /**
    * Whether to merge arrays (genres, themes, etc.)
    */
   mergeArrays?: boolean;
+
+  /**
+   * Minimum matcher confidence (0-1) for search results from different providers
+   * to be unified as the same anime. Defaults to the matcher threshold
+   */
+  matchThreshold?: number;
 }
 
 /**
  * Service responsible for unifying anime data from multiple sources
  */
 export class AnimeUnificationService {
-  private providers: Map<DataSource, IAnimeProvider> = new Map();
+  private providers: Map<SourceId, IAnimeProvider> = new Map();
   private repository: IAnimeRepository;
+  private matcher: AnimeMatcher;
 
-  constructor(repository: IAnimeRepository) {
+  constructor(repository: IAnimeRepository, matcher: AnimeMatcher = new AnimeMatcher()) {
     this.repository = repository;
+    this.matcher = matcher;
   }
 
   /**
@@ -41,11 +126,18 @@ export class AnimeUnificationService {
     this.providers.set(provider.getSource(), provider);
   }
 
+  /**
+   * Remove the provider registered for a source
+   */
+  unregisterProvider(source: SourceId): boolean {
+    return this.providers.delete(source);
+  }
+
   /**
    * Fetch and unify anime data from all available sources
    */
   async fetchAndUnify(
-    externalIds: Array<{ source: DataSource; id: string }>,
+    externalIds: Array<{ source: SourceId; id: string }>,
     options: UnificationOptions = {}
   ): Promise<Anime> {
     const animeDataFromSources: Anime[] = [];
@@ -80,72 +172,287 @@ export class AnimeUnificationService {
    * Unify anime data from multiple sources using consensus and priority
    */
   private unifyAnimeData(sources: Anime[], options: UnificationOptions): Anime {
-    const { preferredSources = [], mergeArrays = true } = options;
+    const {
+      preferredSources = [],
+      fieldPriorities = {},
+      minSourcesForConsensus = 2,
+      mergeArrays = true,
+    } = options;
+    const conflicts: FieldConflict[] = [];
+    const provenance: Record<string, FieldProvenance> = {};
 
-    // Start with the first source as base
-    const base = sources[0];
+    // Record which source (and fetch time) a field value was taken from
+    const track = (field: string, contributors: (SourceId | undefined)[]): void => {
+      const known = contributors.filter((c): c is SourceId => !!c);
+      if (known.length === 0) return;
+
+      const origin = sources.find((s) => this.getSourceOf(s) === known[0]);
+      provenance[field] = {
+        source: known[0],
+        ...(known.length > 1 ? { sources: known } : {}),
+        fetchedAt: origin?.lastSyncedAt ?? new Date(),
+      };
+    };
+
+    // Start with the highest priority source as base
+    const base = this.rankByPriority(sources, (s) => this.getSourceOf(s), preferredSources)[0];
     const unified: Anime = { ...base };
 
+    const pick = <T>(
+      field: UnifiedField,
+      getter: (anime: Anime) => T | undefined,
+      keyOf: (value: T) => string = String
+    ): T | undefined => {
+      const values = sources.map((s) => ({ source: this.getSourceOf(s), value: getter(s) }));
+      const priority = fieldPriorities[field] ?? preferredSources;
+
+      let selected: SourcedValue<T> | undefined;
+      if (!CONSENSUS_FIELDS.has(field)) {
+        selected = this.selectBestValue(values, priority);
+      } else {
+        const result = this.selectByConsensus(values, priority, minSourcesForConsensus, keyOf);
+        if (result.conflict) {
+          conflicts.push({ field, ...result.conflict });
+        }
+        selected = result.selected;
+      }
+
+      if (selected) {
+        track(field, [selected.source]);
+      }
+      return selected?.value;
+    };
+
+    const merge = (field: string, getter: (anime: Anime) => string[] | undefined): string[] => {
+      track(
+        field,
+        sources.filter((s) => (getter(s) || []).length > 0).map((s) => this.getSourceOf(s))
+      );
+      return this.mergeArrayFields(sources.map((s) => getter(s) || []));
+    };
+
     // Unify titles
     unified.title = {
-      romaji: this.selectBestValue(
-        sources.map((s) => s.title.romaji),
-        preferredSources
-      ),
-      english: this.selectBestValue(
-        sources.map((s) => s.title.english),
-        preferredSources
-      ),
-      native: this.selectBestValue(
-        sources.map((s) => s.title.native),
-        preferredSources
-      ),
+      romaji: pick('title.romaji', (s) => s.title.romaji),
+      english: pick('title.english', (s) => s.title.english),
+      native: pick('title.native', (s) => s.title.native),
       synonyms: mergeArrays
-        ? this.mergeArrayFields(sources.map((s) => s.title.synonyms || []))
+        ? merge('title.synonyms', (s) => s.title.synonyms)
         : base.title.synonyms,
     };
 
-    // Unify synopsis (prefer longest non-empty)
-    const synopses = sources.map((s) => s.synopsis).filter((s): s is string => !!s);
-    unified.synopsis = synopses.sort((a, b) => b.length - a.length)[0] || base.synopsis;
+    // Unify synopsis (prefer longest non-empty unless a source is explicitly preferred)
+    if (fieldPriorities.synopsis) {
+      unified.synopsis = pick('synopsis', (s) => s.synopsis);
+    } else {
+      const longest = this.filterDefined(
+        sources.map((s) => ({ source: this.getSourceOf(s), value: s.synopsis }))
+      ).sort((a, b) => b.value.length - a.value.length)[0];
+      if (longest) {
+        track('synopsis', [longest.source]);
+      }
+      unified.synopsis = longest?.value || base.synopsis;
+    }
+
+    // Unify scalar fields, filling gaps left by the base source
+    unified.background = pick('background', (s) => s.background);
+    unified.type = pick('type', (s) => s.type) ?? base.type;
+    unified.status = pick('status', (s) => s.status) ?? base.status;
+    unified.episodes = pick('episodes', (s) => s.episodes);
+    unified.duration = pick('duration', (s) => s.duration);
+    unified.season = pick('season', (s) => s.season);
+    unified.year = pick('year', (s) => s.year);
+    unified.aired =
+      pick(
+        'aired',
+        (s) => (s.aired.start || s.aired.end ? s.aired : undefined),
+        (aired) => this.dateRangeKey(aired)
+      ) ?? base.aired;
+    unified.broadcast = pick('broadcast', (s) => s.broadcast);
+    unified.trailer = pick('trailer', (s) => s.trailer);
+    unified.images =
+      pick('images', (s) => (Object.values(s.images).some(Boolean) ? s.images : undefined)) ??
+      base.images;
+    unified.ageRating = pick('ageRating', (s) => s.ageRating);
 
-    // Unify ratings
-    unified.ratings = sources.flatMap((s) => s.ratings);
+    // Unify ratings (one per source) and weight them by votes
+    unified.ratings = uniqueBy(
+      sources.flatMap((s) => s.ratings),
+      (r) => r.source
+    );
+    unified.aggregateScore = calculateAggregateScore(unified.ratings);
 
     // Merge array fields
     if (mergeArrays) {
-      unified.genres = this.mergeArrayFields(sources.map((s) => s.genres));
-      unified.themes = this.mergeArrayFields(sources.map((s) => s.themes));
-      unified.studios = this.mergeArrayFields(sources.map((s) => s.studios));
-      unified.producers = this.mergeArrayFields(sources.map((s) => s.producers));
+      // Re-normalize so records stored before taxonomy updates still collapse near-duplicates
+      const categorized = genreTaxonomy.classify({
+        genres: merge('genres', (s) => s.genres),
+        themes: merge('themes', (s) => s.themes),
+        demographics: merge('demographics', (s) => s.demographics),
+      });
+      unified.genres = categorized.genres.sort();
+      unified.themes = categorized.themes.sort();
+      unified.demographics = categorized.demographics.sort();
+      unified.studios = merge('studios', (s) => s.studios);
+      unified.producers = merge('producers', (s) => s.producers);
+
+      // Companies keep the IDs of every source; stored studios are resolved by MiauIndex
+      if (sources.some((s) => s.companies?.length)) {
+        track(
+          'companies',
+          sources.filter((s) => s.companies?.length).map((s) => this.getSourceOf(s))
+        );
+        unified.companies = uniqueBy(
+          sources.flatMap((s) => s.companies || []),
+          (c) =>
+            `${c.role}:${c.externalId ? `${c.externalId.source}:${c.externalId.id}` : c.name.toLowerCase()}`
+        );
+      }
     }
 
     // Combine all external IDs
-    unified.externalIds = sources.flatMap((s) => s.externalIds);
+    unified.externalIds = uniqueBy(
+      sources.flatMap((s) => s.externalIds),
+      (e) => `${e.source}:${e.id}`
+    );
+
+    // Combine relations reported by each source (pointing at that source's IDs)
+    if (sources.some((s) => s.relations?.length)) {
+      track(
+        'relations',
+        sources.filter((s) => s.relations?.length).map((s) => this.getSourceOf(s))
+      );
+      unified.relations = uniqueBy(
+        sources.flatMap((s) => s.relations || []),
+        (r) =>
+          `${r.relationType}:${r.externalId ? `${r.externalId.source}:${r.externalId.id}` : r.animeId}`
+      );
+    }
+    unified.provenance = provenance;
 
     // Update metadata
     unified.lastSyncedAt = new Date();
     unified.updatedAt = new Date();
 
+    if (conflicts.length > 0 && options.onConflicts) {
+      options.onConflicts({
+        title: unified.title.romaji || unified.title.english,
+        externalIds: unified.externalIds,
+        conflicts,
+      });
+    }
+
     return unified;
   }
 
+  /**
+   * Get the source an anime record was fetched from
+   * Provider-mapped records carry their own source as the first external ID
+   */
+  private getSourceOf(anime: Anime): SourceId | undefined {
+    return anime.externalIds[0]?.source;
+  }
+
+  /**
+   * Order items by the position of their source in the priority list
+   * Sources missing from the list keep their original order after the listed ones
+   */
+  private rankByPriority<T>(
+    items: T[],
+    getSource: (item: T) => SourceId | undefined,
+    priority: SourceId[]
+  ): T[] {
+    const rank = (item: T): number => {
+      const source = getSource(item);
+      const index = source ? priority.indexOf(source) : -1;
+      return index === -1 ? priority.length : index;
+    };
+
+    return items
+      .map((item, index) => ({ item, index, rank: rank(item) }))
+      .sort((a, b) => a.rank - b.rank || a.index - b.index)
+      .map(({ item }) => item);
+  }
+
   /**
    * Select the best value from multiple sources based on priority
    */
   private selectBestValue<T>(
-    values: (T | undefined)[],
-    _preferredSources: DataSource[]
-  ): T | undefined {
-    // Filter out undefined values
-    const defined = values.filter((v): v is T => v !== undefined);
+    values: SourcedValue<T | undefined>[],
+    preferredSources: SourceId[]
+  ): SourcedValue<T> | undefined {
+    // Filter out missing values
+    const defined = this.filterDefined(values);
 
     if (defined.length === 0) return undefined;
     if (defined.length === 1) return defined[0];
 
-    // If we have preferred sources logic, implement it here
-    // For now, return the first non-undefined value
-    return defined[0];
+    return this.rankByPriority(defined, (v) => v.source, preferredSources)[0];
+  }
+
+  /**
+   * Select a value by majority vote, falling back to priority when no value
+   * is backed by at least `threshold` sources
+   */
+  private selectByConsensus<T>(
+    values: SourcedValue<T | undefined>[],
+    preferredSources: SourceId[],
+    threshold: number,
+    keyOf: (value: T) => string
+  ): {
+    selected?: SourcedValue<T>;
+    conflict?: Omit<FieldConflict, 'field'>;
+  } {
+    const defined = this.filterDefined(values);
+    if (defined.length === 0) return {};
+
+    // Group candidates by value, keeping each group in priority order
+    const groups = new Map<string, SourcedValue<T>[]>();
+    for (const candidate of this.rankByPriority(defined, (v) => v.source, preferredSources)) {
+      const key = keyOf(candidate.value);
+      groups.set(key, [...(groups.get(key) || []), candidate]);
+    }
+
+    // Largest group wins; ties go to the group holding the highest priority source
+    const winner = Array.from(groups.values())
+      .filter((group) => group.length >= threshold)
+      .reduce<SourcedValue<T>[] | undefined>(
+        (best, group) => (!best || group.length > best.length ? group : best),
+        undefined
+      );
+
+    const selected = winner ? winner[0] : this.selectBestValue(defined, preferredSources)!;
+
+    if (groups.size <= 1) {
+      return { selected };
+    }
+
+    return {
+      selected,
+      conflict: {
+        candidates: defined,
+        selected,
+        resolvedBy: winner ? 'consensus' : 'priority',
+      },
+    };
+  }
+
+  /**
+   * Build a comparable key for a date range (calendar day precision)
+   */
+  private dateRangeKey(range: DateRange): string {
+    const day = (date?: Date): string =>
+      date ? `${date.getUTCFullYear()}-${date.getUTCMonth() + 1}-${date.getUTCDate()}` : '';
+    return `${day(range.start)}|${day(range.end)}`;
+  }
+
+  /**
+   * Drop missing values (undefined, null or empty string)
+   */
+  private filterDefined<T>(values: SourcedValue<T | undefined>[]): SourcedValue<T>[] {
+    return values.filter(
+      (v): v is SourcedValue<T> => v.value !== undefined && v.value !== null && v.value !== ''
+    );
   }
 
   /**
@@ -164,31 +471,30 @@ export class AnimeUnificationService {
   /**
    * Search for anime across all providers and unify results
    */
-  async searchAndUnify(query: string, limit: number = 10): Promise<Anime[]> {
-    const resultsMap = new Map<string, Anime[]>();
+  async searchAndUnify(
+    query: string,
+    limit: number = 10,
+    options: UnificationOptions = {}
+  ): Promise<Anime[]> {
+    const allResults: Anime[] = [];
 
     // Search across all providers
     for (const [source, provider] of this.providers) {
       try {
-        const results = await provider.searchAnime(query, limit);
-        for (const anime of results) {
-          // Group by title for potential unification
-          const key = anime.title.romaji || anime.title.english || anime.id;
-          if (!resultsMap.has(key)) {
-            resultsMap.set(key, []);
-          }
-          resultsMap.get(key)?.push(anime);
-        }
+        allResults.push(...(await provider.searchAnime(query, limit)));
       } catch (error) {
         console.error(`Search failed for ${source}:`, error);
       }
     }
 
+    // Group records that refer to the same anime across providers
+    const groups = this.matcher.group(allResults, options.matchThreshold);
+
     // Unify grouped results
     const unified: Anime[] = [];
-    for (const animeGroup of resultsMap.values()) {
+    for (const animeGroup of groups) {
       if (animeGroup.length > 0) {
-        const unifiedAnime = this.unifyAnimeData(animeGroup, { mergeArrays: true });
+        const unifiedAnime = this.unifyAnimeData(animeGroup, { mergeArrays: true, ...options });
         unified.push(unifiedAnime);
       }
     }
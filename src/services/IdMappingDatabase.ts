@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { DataSource, ExternalId, SourceId } from '../types/common';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Sources whose IDs identify exactly one anime entry
+ * TMDB, TVDB and IMDb IDs usually cover every season of a show, so entries are never merged on them
+ */
+const UNIQUE_SOURCES: ReadonlySet<SourceId> = new Set([
+  DataSource.MYANIMELIST,
+  DataSource.ANILIST,
+  DataSource.KITSU,
+  DataSource.ANIDB,
+]);
+
+/**
+ * Sources whose IDs usually cover every season of a show (TMDB only for `tv/<id>`)
+ */
+const SHOW_WIDE_SOURCES: ReadonlySet<SourceId> = new Set(['TVDB', 'IMDB']);
+
+/**
+ * Source URL patterns of the anime-offline-database `sources` array
+ */
+const SOURCE_URL_PATTERNS: Array<[RegExp, DataSource]> = [
+  [/^https?:\/\/myanimelist\.net\/anime\/(\d+)/, DataSource.MYANIMELIST],
+  [/^https?:\/\/anilist\.co\/anime\/(\d+)/, DataSource.ANILIST],
+  [/^https?:\/\/kitsu\.(?:io|app)\/anime\/(\d+)/, DataSource.KITSU],
+  [/^https?:\/\/anidb\.net\/a(?:nime\/)?(\d+)/, DataSource.ANIDB],
+];
+
+/**
+ * Entry of the anime-offline-database (`{ data: [...] }`)
+ * @see https://github.com/manami-project/anime-offline-database
+ */
+interface OfflineDatabaseEntry {
+  sources: string[];
+}
+
+/**
+ * Entry of the anime-lists mapping (`anime-list-full.json`)
+ * @see https://github.com/Fribb/anime-lists
+ */
+interface AnimeListsEntry {
+  type?: string;
+  mal_id?: number;
+  anilist_id?: number;
+  kitsu_id?: number;
+  anidb_id?: number;
+  themoviedb_id?: number | string;
+  thetvdb_id?: number;
+  imdb_id?: string;
+}
+
+/**
+ * Offline cross-reference table linking the IDs of one anime across sources
+ * Loads the anime-offline-database and anime-lists JSON files; entries sharing a
+ * MyAnimeList, AniList, Kitsu or AniDB ID are merged
+ */
+export class IdMappingDatabase {
+  private entries: Array<Map<SourceId, string>> = [];
+  private index: Map<string, number[]> = new Map();
+
+  /**
+   * Number of mapped anime
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Load a JSON mapping file (optionally gzipped)
+   * Returns the number of entries read
+   */
+  loadFile(filePath: string): number {
+    let content = fs.readFileSync(filePath);
+    if (content[0] === 0x1f && content[1] === 0x8b) {
+      content = zlib.gunzipSync(content);
+    }
+    return this.load(JSON.parse(content.toString('utf8')));
+  }
+
+  /**
+   * Load parsed anime-offline-database (`{ data: [...] }`) or anime-lists (`[...]`) JSON
+   * Returns the number of entries read
+   */
+  load(data: unknown): number {
+    if (Array.isArray(data)) {
+      const entries = data as AnimeListsEntry[];
+      entries.forEach((entry) => this.add(this.fromAnimeLists(entry)));
+      return entries.length;
+    }
+
+    const offline = (data as { data?: unknown } | null)?.data;
+    if (Array.isArray(offline)) {
+      const entries = offline as OfflineDatabaseEntry[];
+      entries.forEach((entry) => this.add(this.fromOfflineDatabase(entry)));
+      return entries.length;
+    }
+
+    throw new ValidationError(
+      'Expected anime-offline-database ({ data: [...] }) or anime-lists ([...]) JSON',
+      'data'
+    );
+  }
+
+  /**
+   * Link IDs of the same anime, merging them into an entry that shares a unique ID
+   * IDs already mapped for a source in that entry are kept
+   */
+  add(externalIds: ExternalId[]): void {
+    if (externalIds.length === 0) return;
+
+    let entryIndex = externalIds
+      .filter(({ source }) => UNIQUE_SOURCES.has(source))
+      .map(({ source, id }) => this.index.get(this.key(source, id))?.[0])
+      .find((index) => index !== undefined);
+
+    if (entryIndex === undefined) {
+      entryIndex = this.entries.push(new Map()) - 1;
+    }
+
+    const entry = this.entries[entryIndex];
+    for (const { source, id } of externalIds) {
+      if (entry.has(source)) continue;
+
+      entry.set(source, id);
+      const key = this.key(source, id);
+      this.index.set(key, [...(this.index.get(key) ?? []), entryIndex]);
+    }
+  }
+
+  /**
+   * All known IDs of the anime identified by an external ID, starting with that ID
+   * IDs shared by several entries (e.g. a TMDB show) resolve to the first entry
+   */
+  resolve(externalId: ExternalId): ExternalId[] {
+    const entryIndex = this.index.get(this.key(externalId.source, externalId.id))?.[0];
+    const resolved: ExternalId[] = [{ source: externalId.source, id: externalId.id }];
+
+    if (entryIndex !== undefined) {
+      for (const [source, id] of this.entries[entryIndex]) {
+        if (source !== externalId.source) {
+          resolved.push({ source, id });
+        }
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Whether an ID usually covers every season of a show (TMDB TV shows, TVDB, IMDb)
+   * rather than the single anime entry it is mapped to
+   */
+  isShowWide(externalId: ExternalId): boolean {
+    if (externalId.source === DataSource.TMDB) {
+      return externalId.id.startsWith('tv/');
+    }
+    return SHOW_WIDE_SOURCES.has(externalId.source);
+  }
+
+  /**
+   * Remove all mappings
+   */
+  clear(): void {
+    this.entries = [];
+    this.index.clear();
+  }
+
+  private fromOfflineDatabase(entry: OfflineDatabaseEntry): ExternalId[] {
+    const ids: ExternalId[] = [];
+
+    for (const url of entry.sources || []) {
+      for (const [pattern, source] of SOURCE_URL_PATTERNS) {
+        const match = pattern.exec(url);
+        if (match) {
+          ids.push({ source, id: match[1] });
+          break;
+        }
+      }
+    }
+
+    return ids;
+  }
+
+  private fromAnimeLists(entry: AnimeListsEntry): ExternalId[] {
+    const ids: ExternalId[] = [];
+    const push = (source: SourceId, id: number | string | undefined): void => {
+      if (id !== undefined && id !== null && id !== '') {
+        ids.push({ source, id: String(id) });
+      }
+    };
+
+    push(DataSource.MYANIMELIST, entry.mal_id);
+    push(DataSource.ANILIST, entry.anilist_id);
+    push(DataSource.KITSU, entry.kitsu_id);
+    push(DataSource.ANIDB, entry.anidb_id);
+    // Same `tv/<id>` / `movie/<id>` format as TMDBProvider
+    if (entry.themoviedb_id !== undefined && entry.themoviedb_id !== null) {
+      push(
+        DataSource.TMDB,
+        `${entry.type?.toUpperCase() === 'MOVIE' ? 'movie' : 'tv'}/${entry.themoviedb_id}`
+      );
+    }
+    push('TVDB', entry.thetvdb_id);
+    push('IMDB', entry.imdb_id);
+
+    return ids;
+  }
+
+  private key(source: SourceId, id: string): string {
+    return `${source}:${id}`;
+  }
+}
@@ -1,27 +1,40 @@
-import { NyaaScraper } from '@kitsuneislife/nyaa';
-import type { NyaaTorrent, SearchOptions } from '@kitsuneislife/nyaa';
 import { v4 as uuidv4 } from 'uuid';
 import {
   Torrent,
   TorrentQuality,
   TorrentLanguage,
-  TorrentCodec,
   TorrentReleaseType,
   TorrentMetadata,
   TorrentSearchFilter,
   TorrentStats,
-  EpisodeRange,
+  ReleaseSource,
+  HdrFormat,
+  AudioCodec,
+  ReleaseGroup,
+  ReleaseGroupPreference,
 } from '../models/Torrent';
 import { Anime } from '../models/Anime';
+import { EpisodeType } from '../models/Episode';
 import { ITorrentRepository } from '../repositories/TorrentRepository';
 import { Logger } from '../utils/logger';
 import { CacheService } from '../utils/cache';
-import { retryWithBackoff } from '../utils/helpers';
 import {
   sanitizeSearchQuery,
   isValidEpisodeNumber,
 } from '../utils/torrentValidation';
+import { matchReleaseEpisodes } from '../utils/episodeNumbering';
+import { ParsedRelease, parseRelease } from '../utils/releaseParser';
+import {
+  ScoredTorrent,
+  TorrentScoringProfile,
+  createDefaultScoringProfile,
+  preferQuality,
+  rankTorrents,
+} from '../utils/torrentScoring';
+import { ReleaseGroupPreferences, ReleaseGroupRegistry } from './ReleaseGroupRegistry';
 import { ProviderError } from '../utils/errors';
+import { ITorrentIndexer, IndexerRelease, TorrentPeerStats } from '../indexers/TorrentIndexer';
+import { NyaaIndexer } from '../indexers/NyaaIndexer';
 
 /**
  * Options for Nyaa service
@@ -39,6 +52,12 @@ export interface NyaaServiceOptions {
   preferredQuality?: TorrentQuality;
   /** Default language preference */
   preferredLanguages?: TorrentLanguage[];
+  /** Profile ranking torrents for an episode (default: built from the preferences above) */
+  scoringProfile?: TorrentScoringProfile;
+  /** Allowed, denied and preferred release groups */
+  releaseGroups?: ReleaseGroupPreferences;
+  /** Minimum release group reputation for the best torrent (0-1, default: 0) */
+  minGroupReputation?: number;
   /** Enable caching of search results (default: true) */
   enableCache?: boolean;
   /** Cache TTL in milliseconds (default: 1 hour) */
@@ -47,16 +66,24 @@ export interface NyaaServiceOptions {
   timeout?: number;
   /** Maximum retry attempts on failure (default: 3) */
   maxRetries?: number;
+  /** Nyaa category of the default indexer (default: '1_2', Anime - English-translated) */
+  category?: string;
+  /**
+   * Torrent indexers to search (default: Nyaa)
+   * Results are merged by info hash, so a torrent listed by several indexers is stored once
+   */
+  indexers?: ITorrentIndexer[];
 }
 
 /**
- * Service for indexing and managing anime torrents from Nyaa
+ * Service for indexing and managing anime torrents from Nyaa and other indexers
  */
 export class NyaaService {
   private logger: Logger;
-  private nyaa: NyaaScraper;
+  private indexers: ITorrentIndexer[];
   private options: Required<NyaaServiceOptions>;
-  private searchCache?: CacheService<NyaaTorrent[]>;
+  private searchCache?: CacheService<IndexerRelease[]>;
+  private releaseGroupRegistry: ReleaseGroupRegistry;
   private metrics = {
     totalSearches: 0,
     cacheHits: 0,
@@ -73,49 +100,51 @@ export class NyaaService {
     private seasonRepository?: import('../repositories/EpisodeRepository').ISeasonRepository,
   ) {
     this.logger = new Logger('NyaaService');
-    this.nyaa = new NyaaScraper({
-      timeout: options.timeout ?? 30000,
-      retry: {
-        maxRetries: options.maxRetries ?? 3,
-      },
-    });
+    const preferredQuality = options.preferredQuality ?? TorrentQuality.FULL_HD_1080p;
+    const preferredLanguages = options.preferredLanguages ?? [
+      TorrentLanguage.JAPANESE,
+      TorrentLanguage.ENGLISH,
+    ];
     this.options = {
       autoIndex: options.autoIndex ?? true,
       minSeeders: options.minSeeders ?? 1,
       trustedOnly: options.trustedOnly ?? false,
       maxResults: options.maxResults ?? 100,
-      preferredQuality: options.preferredQuality ?? TorrentQuality.FULL_HD_1080p,
-      preferredLanguages: options.preferredLanguages ?? [
-        TorrentLanguage.JAPANESE,
-        TorrentLanguage.ENGLISH,
-      ],
+      preferredQuality,
+      preferredLanguages,
+      scoringProfile:
+        options.scoringProfile ?? createDefaultScoringProfile(preferredQuality, preferredLanguages),
+      releaseGroups: options.releaseGroups ?? {},
+      minGroupReputation: options.minGroupReputation ?? 0,
       enableCache: options.enableCache ?? true,
       cacheTTL: options.cacheTTL ?? 3600000, // 1 hour
       timeout: options.timeout ?? 30000,
       maxRetries: options.maxRetries ?? 3,
+      category: options.category ?? '1_2',
+      indexers: options.indexers ?? [],
     };
+    this.indexers =
+      this.options.indexers.length > 0
+        ? this.options.indexers
+        : [
+            new NyaaIndexer({
+              category: this.options.category,
+              timeout: this.options.timeout,
+              maxRetries: this.options.maxRetries,
+            }),
+          ];
+    this.releaseGroupRegistry = new ReleaseGroupRegistry(
+      torrentRepository,
+      this.options.releaseGroups
+    );
 
     // Initialize cache if enabled
     if (this.options.enableCache) {
-      this.searchCache = new CacheService<NyaaTorrent[]>(this.options.cacheTTL);
+      this.searchCache = new CacheService<IndexerRelease[]>(this.options.cacheTTL);
       this.logger.debug('Search cache enabled with TTL:', this.options.cacheTTL);
     }
   }
 
-  /**
-   * Extract season number from title (e.g. S01, Season 1, S1E12, S01E12)
-   */
-  private extractSeasonNumber(title: string): number | undefined {
-    const patterns = [/[Ss](\d{1,2})[Ee]\d{1,3}/, /Season\s*(\d{1,2})/i, /[Ss](\d{1,2})\b/];
-
-    for (const pattern of patterns) {
-      const match = title.match(pattern);
-      if (match) return parseInt(match[1], 10);
-    }
-
-    return undefined;
-  }
-
   /**
    * Index torrents for an anime
    */
@@ -131,14 +160,14 @@ export class NyaaService {
 
       for (const query of searchQueries) {
         const sanitizedQuery = sanitizeSearchQuery(query);
-        this.logger.debug(`Searching Nyaa with query: ${sanitizedQuery}`);
+        this.logger.debug(`Searching indexers with query: ${sanitizedQuery}`);
         
-        const results = await this.searchNyaa(sanitizedQuery);
+        const results = await this.searchIndexers(sanitizedQuery);
 
         const mapped = await Promise.all(
           results.map(async (result) => {
             try {
-              const t = await this.mapNyaaResultToTorrent(result, anime);
+              const t = await this.mapReleaseToTorrent(result, anime);
               return t;
             } catch (error) {
               this.logger.warn(`Failed to map torrent: ${result.title}`, error);
@@ -147,17 +176,22 @@ export class NyaaService {
           }),
         );
 
-        const torrents = mapped.filter((t): t is Torrent => t !== null && this.isValidTorrent(t));
+        const torrents = this.deduplicateTorrents(
+          mapped.filter((t): t is Torrent => t !== null && this.isValidTorrent(t))
+        );
 
-        allTorrents.push(...torrents);
+        allTorrents.push(...torrents.slice(0, this.options.maxResults));
       }
 
       // Remove duplicates by infoHash
-      const uniqueTorrents = this.deduplicateTorrents(allTorrents);
+      let uniqueTorrents = this.deduplicateTorrents(allTorrents);
 
-      // Save to repository
+      // Save to repository, updating torrents indexed before
       if (this.options.autoIndex && uniqueTorrents.length > 0) {
-        await this.torrentRepository.saveMany(uniqueTorrents);
+        uniqueTorrents = await this.torrentRepository.saveMany(
+          await this.mergeWithStored(uniqueTorrents)
+        );
+        this.releaseGroupRegistry.invalidate();
         this.metrics.totalTorrentsIndexed += uniqueTorrents.length;
       }
 
@@ -188,12 +222,12 @@ export class NyaaService {
     try {
       const query = this.buildEpisodeQuery(anime, episodeNumber);
       const sanitizedQuery = sanitizeSearchQuery(query);
-      const results = await this.searchNyaa(sanitizedQuery);
+      const results = await this.searchIndexers(sanitizedQuery);
 
       const mapped = await Promise.all(
         results.map(async (result) => {
           try {
-            const t = await this.mapNyaaResultToTorrent(result, anime, episodeNumber);
+            const t = await this.mapReleaseToTorrent(result, anime, episodeNumber);
             return t;
           } catch (error) {
             this.logger.warn(`Failed to map torrent: ${result.title}`, error);
@@ -202,10 +236,13 @@ export class NyaaService {
         }),
       );
 
-      const torrents = mapped.filter((t): t is Torrent => t !== null && this.isValidTorrent(t));
+      let torrents = this.deduplicateTorrents(
+        mapped.filter((t): t is Torrent => t !== null && this.isValidTorrent(t))
+      ).slice(0, this.options.maxResults);
 
       if (this.options.autoIndex && torrents.length > 0) {
-        await this.torrentRepository.saveMany(torrents);
+        torrents = await this.torrentRepository.saveMany(await this.mergeWithStored(torrents));
+        this.releaseGroupRegistry.invalidate();
         this.metrics.totalTorrentsIndexed += torrents.length;
       }
 
@@ -226,39 +263,74 @@ export class NyaaService {
    * Search torrents for an anime with filters
    */
   async searchTorrents(anime: Anime, filters?: TorrentSearchFilter): Promise<Torrent[]> {
-    const searchFilters: TorrentSearchFilter = {
+    const { minGroupReputation, ...searchFilters }: TorrentSearchFilter = {
       animeId: anime.id,
       ...filters,
     };
 
-    return this.torrentRepository.findByFilters(searchFilters);
+    const torrents = await this.torrentRepository.findByFilters(searchFilters);
+    return this.releaseGroupRegistry.filterTorrents(torrents, minGroupReputation);
   }
 
   /**
-   * Get best torrent for episode (highest quality with good seeders)
+   * Get the best torrent for an episode according to the scoring profile
+   * A quality instead of a profile ranks with the configured profile, preferring that quality
    */
   async getBestTorrentForEpisode(
     anime: Anime,
     episodeNumber: number,
-    preferredQuality?: TorrentQuality
+    preference?: TorrentQuality | TorrentScoringProfile
   ): Promise<Torrent | null> {
-    const torrents = await this.torrentRepository.findByFilters({
-      animeId: anime.id,
-      episodeNumber,
+    const profile =
+      typeof preference === 'string'
+        ? preferQuality(this.options.scoringProfile, preference)
+        : preference;
+    const ranked = await this.rankTorrentsForEpisode(anime, episodeNumber, profile);
+    return ranked.find((candidate) => candidate.accepted)?.torrent ?? null;
+  }
+
+  /**
+   * Score every torrent of an episode, best first, with score breakdowns and rejection reasons
+   */
+  async rankTorrentsForEpisode(
+    anime: Anime,
+    episodeNumber: number,
+    profile: TorrentScoringProfile = this.options.scoringProfile
+  ): Promise<ScoredTorrent[]> {
+    const torrents = await this.findTorrentsForEpisode(anime.id, episodeNumber, {
       minSeeders: this.options.minSeeders,
       trustedOnly: this.options.trustedOnly,
     });
 
-    if (torrents.length === 0) return null;
+    return this.rankByGroups(torrents, profile);
+  }
 
-    const quality = preferredQuality ?? this.options.preferredQuality;
+  /**
+   * Release groups in the indexed torrents, best reputation first
+   */
+  async getReleaseGroups(): Promise<ReleaseGroup[]> {
+    return this.releaseGroupRegistry.getGroups();
+  }
+
+  /**
+   * Get a release group by name
+   */
+  async getReleaseGroup(name: string): Promise<ReleaseGroup | null> {
+    return this.releaseGroupRegistry.getGroup(name);
+  }
 
-    // Try to find exact quality match
-    const exactMatch = torrents.find((t) => t.metadata.quality === quality);
-    if (exactMatch) return exactMatch;
+  /**
+   * Allow, deny or prefer a release group (null clears its preference)
+   */
+  setReleaseGroupPreference(name: string, preference: ReleaseGroupPreference | null): void {
+    this.releaseGroupRegistry.setPreference(name, preference);
+  }
 
-    // Fallback to best available (by seeders)
-    return torrents[0]; // Already sorted by seeders
+  /**
+   * Current allow, deny and prefer lists
+   */
+  getReleaseGroupPreferences(): Required<ReleaseGroupPreferences> {
+    return this.releaseGroupRegistry.getPreferences();
   }
 
   /**
@@ -272,6 +344,11 @@ export class NyaaService {
       byQuality: {} as Record<TorrentQuality, number>,
       byLanguage: {} as Record<TorrentLanguage, number>,
       byReleaseType: {} as Record<TorrentReleaseType, number>,
+      bySource: {} as Record<ReleaseSource, number>,
+      byBitDepth: {},
+      byHdrFormat: {} as Record<HdrFormat, number>,
+      byAudioCodec: {} as Record<AudioCodec, number>,
+      byVersion: {},
       averageSeeders: 0,
       totalSize: 0,
     };
@@ -292,6 +369,22 @@ export class NyaaService {
       stats.byReleaseType[torrent.metadata.releaseType] =
         (stats.byReleaseType[torrent.metadata.releaseType] ?? 0) + 1;
 
+      // By source, bit depth, HDR format, audio codec and version
+      const { metadata } = torrent;
+      const source = metadata.source ?? ReleaseSource.UNKNOWN;
+      stats.bySource[source] = (stats.bySource[source] ?? 0) + 1;
+      if (metadata.bitDepth) {
+        stats.byBitDepth[metadata.bitDepth] = (stats.byBitDepth[metadata.bitDepth] ?? 0) + 1;
+      }
+      metadata.hdrFormats?.forEach((format) => {
+        stats.byHdrFormat[format] = (stats.byHdrFormat[format] ?? 0) + 1;
+      });
+      metadata.audioCodecs?.forEach((codec) => {
+        stats.byAudioCodec[codec] = (stats.byAudioCodec[codec] ?? 0) + 1;
+      });
+      const version = metadata.version ?? 1;
+      stats.byVersion[version] = (stats.byVersion[version] ?? 0) + 1;
+
       // Size
       stats.totalSize += torrent.sizeBytes;
     });
@@ -302,22 +395,34 @@ export class NyaaService {
   }
 
   /**
-   * Refresh torrent info (seeders, leechers)
+   * Refresh torrent info (seeders, leechers) from the first indexer listing it that answers
    */
   async refreshTorrent(torrentId: string): Promise<Torrent | null> {
     const torrent = await this.torrentRepository.findById(torrentId);
     if (!torrent) return null;
 
-    try {
-      const results = await this.searchNyaa(torrent.nyaaId);
-      if (results.length === 0) return torrent;
+    const sources =
+      torrent.sources ?? (torrent.nyaaId ? [{ indexer: 'nyaa', id: torrent.nyaaId }] : []);
 
-      const updated = this.updateTorrentFromNyaaResult(torrent, results[0]);
-      return this.torrentRepository.save(updated);
-    } catch (error) {
-      this.logger.error('Error refreshing torrent:', error);
-      return torrent;
+    for (const source of sources) {
+      const indexer = this.indexers.find((candidate) => candidate.getId() === source.indexer);
+      if (!indexer) continue;
+
+      try {
+        const stats = await indexer.refreshStats(source.id);
+        if (stats) {
+          const refreshed = await this.torrentRepository.save(
+            this.updateTorrentStats(torrent, stats)
+          );
+          this.releaseGroupRegistry.invalidate();
+          return refreshed;
+        }
+      } catch (error) {
+        this.logger.error(`Error refreshing torrent from ${source.indexer}:`, error);
+      }
     }
+
+    return torrent;
   }
 
   /**
@@ -353,88 +458,94 @@ export class NyaaService {
   }
 
   /**
-   * Search Nyaa with query (with caching and retry)
+   * Search every indexer with query (with caching)
+   * An indexer failing is logged and skipped; the search only fails when every indexer fails
    */
-  private async searchNyaa(query: string): Promise<NyaaTorrent[]> {
+  private async searchIndexers(query: string): Promise<IndexerRelease[]> {
+    const releases: IndexerRelease[] = [];
+    const errors: unknown[] = [];
+
+    for (const indexer of this.indexers) {
+      try {
+        releases.push(...(await this.searchIndexer(indexer, query)));
+      } catch (error) {
+        this.metrics.failedSearches++;
+        this.logger.warn(`Search failed on ${indexer.getId()} for query: ${query}`, error);
+        errors.push(error);
+      }
+    }
+
+    if (errors.length === this.indexers.length) {
+      throw errors[0];
+    }
+
+    return releases;
+  }
+
+  private async searchIndexer(indexer: ITorrentIndexer, query: string): Promise<IndexerRelease[]> {
     this.metrics.totalSearches++;
+    const cacheKey = `${indexer.getId()}:${query}`;
 
     // Check cache first
     if (this.searchCache) {
-      const cached = this.searchCache.get(query);
+      const cached = this.searchCache.get(cacheKey);
       if (cached) {
         this.metrics.cacheHits++;
-        this.logger.debug(`Cache hit for query: ${query}`);
+        this.logger.debug(`Cache hit for query: ${cacheKey}`);
         return cached;
       }
       this.metrics.cacheMisses++;
     }
 
-    // Search with retry logic
-    const options: SearchOptions = {
-      query,
-      category: '1_2', // Anime - English-translated
-      filter: this.options.trustedOnly ? 'trusted-only' : 'no-filter',
-      sortBy: 'seeders',
-      order: 'desc',
-    };
-
-    try {
-      const result = await retryWithBackoff(
-        async () => {
-          const searchResult = await this.nyaa.search(options);
-          return searchResult.torrents;
-        },
-        {
-          maxRetries: this.options.maxRetries,
-          initialDelay: 1000,
-        },
-      );
-
-      // Cache the result
-      if (this.searchCache) {
-        this.searchCache.set(query, result);
-      }
+    // maxResults applies once releases are validated and merged across indexers
+    const result = await indexer.search(query, {
+      trustedOnly: this.options.trustedOnly,
+    });
 
-      return result;
-    } catch (error) {
-      this.logger.error(`Search failed for query: ${query}`, error);
-      throw new ProviderError('Nyaa', `Search failed: ${error}`);
+    // Cache the result
+    if (this.searchCache) {
+      this.searchCache.set(cacheKey, result);
     }
+
+    return result;
   }
 
   /**
-   * Map Nyaa result to Torrent model
+   * Map an indexer release to Torrent model
    */
-  private async mapNyaaResultToTorrent(
-    result: NyaaTorrent,
+  private async mapReleaseToTorrent(
+    result: IndexerRelease,
     anime: Anime,
     episodeNumber?: number
   ): Promise<Torrent> {
-    const metadata = this.extractMetadata(result.title);
-    const episodeRange = this.extractEpisodeRange(result.title);
-    const extractedEpisode = episodeNumber ?? this.extractEpisodeNumber(result.title);
-    const extractedSeason = this.extractSeasonNumber(result.title);
+    const release = parseRelease(result.title);
+    const metadata = this.toMetadata(release);
+    const episodeRange = release.episodeRange;
+    const extractedEpisode = episodeNumber ?? release.episodeNumber;
+    const extractedSeason = release.seasonNumber;
 
     const torrent: Torrent = {
       id: uuidv4(),
-      nyaaId: result.id,
+      nyaaId: result.indexer === 'nyaa' ? result.id : undefined,
+      sources: [{ indexer: result.indexer, id: result.id }],
       title: result.title,
       category: result.category,
       magnetLink: result.magnetLink,
       torrentLink: result.torrentLink,
-      infoHash: this.extractInfoHash(result.magnetLink),
+      infoHash: result.infoHash,
       size: result.size,
-      sizeBytes: this.parseSizeToBytes(result.size),
+      sizeBytes: result.sizeBytes,
       seeders: result.seeders,
       leechers: result.leechers,
       downloads: result.downloads,
-      publishedAt: new Date(result.date),
+      publishedAt: result.publishedAt,
       animeId: anime.id,
+      seasonNumber: extractedSeason,
       episodeNumber: extractedEpisode,
       episodeRange,
       metadata,
-      trusted: result.isTrusted,
-      remake: result.isRemake,
+      trusted: result.trusted,
+      remake: result.remake,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -464,8 +575,29 @@ export class NyaaService {
       }
     }
 
-    // If we have an episode number and an episode repository, link or create the episode
-    if (extractedEpisode && this.episodeRepository) {
+    // Link known episodes through the season layout (season-relative or absolute numbers)
+    if ((extractedEpisode || episodeRange) && this.episodeRepository) {
+      try {
+        const matched = matchReleaseEpisodes(
+          torrent,
+          await this.episodeRepository.findByAnimeId(anime.id),
+          this.seasonRepository ? await this.seasonRepository.findByAnimeId(anime.id) : []
+        );
+        if (matched.length > 0) {
+          torrent.episodeIds = matched.map((ep) => ep.id);
+        }
+      } catch (e) {
+        this.logger.warn('Failed to associate episodes for torrent:', result.title, e);
+      }
+    }
+
+    // Otherwise create the episode of an unlabelled (or first-season) single-episode release
+    if (
+      extractedEpisode &&
+      !torrent.episodeIds &&
+      (extractedSeason ?? 1) === 1 &&
+      this.episodeRepository
+    ) {
       try {
         let ep = await this.episodeRepository.findByNumber(anime.id, extractedEpisode);
         if (!ep) {
@@ -498,232 +630,85 @@ export class NyaaService {
   }
 
   /**
-   * Update torrent from Nyaa result
+   * Update torrent with fresh swarm statistics
    */
-  private updateTorrentFromNyaaResult(torrent: Torrent, result: NyaaTorrent): Torrent {
+  private updateTorrentStats(torrent: Torrent, stats: TorrentPeerStats): Torrent {
     return {
       ...torrent,
-      seeders: result.seeders,
-      leechers: result.leechers,
-      downloads: result.downloads,
+      seeders: stats.seeders,
+      leechers: stats.leechers,
+      downloads: stats.downloads,
       lastChecked: new Date(),
       updatedAt: new Date(),
     };
   }
 
   /**
-   * Extract metadata from torrent title and description
+   * Torrent metadata from a parsed release title
    */
-  private extractMetadata(title: string): TorrentMetadata {
-    const titleLower = title.toLowerCase();
-
+  private toMetadata(release: ParsedRelease): TorrentMetadata {
     return {
-      quality: this.extractQuality(title),
-      codec: this.extractCodec(title),
-      audioLanguages: this.extractAudioLanguages(title),
-      subtitleLanguages: this.extractSubtitleLanguages(title),
-      releaseType: this.extractReleaseType(title),
-      releaseGroup: this.extractReleaseGroup(title),
-      isDual: titleLower.includes('dual audio'),
-      isMultiSub: titleLower.includes('multi') && titleLower.includes('sub'),
-      isBatch: titleLower.includes('batch'),
-      hasHardSubs: titleLower.includes('hardsub'),
-    };
-  }
-
-  /**
-   * Extract quality from title
-   */
-  private extractQuality(title: string): TorrentQuality {
-    const titleLower = title.toLowerCase();
-
-    if (titleLower.includes('2160p') || titleLower.includes('4k')) return TorrentQuality.UHD_4K;
-    if (titleLower.includes('1080p')) return TorrentQuality.FULL_HD_1080p;
-    if (titleLower.includes('720p')) return TorrentQuality.HD_720p;
-    if (titleLower.includes('480p')) return TorrentQuality.SD_480p;
-    if (titleLower.includes('raw')) return TorrentQuality.RAW;
-
-    return TorrentQuality.UNKNOWN;
-  }
-
-  /**
-   * Extract codec from title
-   */
-  private extractCodec(title: string): TorrentCodec {
-    const titleLower = title.toLowerCase();
-
-    if (titleLower.includes('hevc') || titleLower.includes('h.265')) return TorrentCodec.HEVC;
-    if (titleLower.includes('h.264') || titleLower.includes('x264')) return TorrentCodec.H264;
-    if (titleLower.includes('av1')) return TorrentCodec.AV1;
-    if (titleLower.includes('vp9')) return TorrentCodec.VP9;
-    if (titleLower.includes('xvid')) return TorrentCodec.XVID;
-
-    return TorrentCodec.UNKNOWN;
-  }
-
-  /**
-   * Extract audio languages from title
-   */
-  private extractAudioLanguages(title: string): TorrentLanguage[] {
-    const languages: TorrentLanguage[] = [];
-    const titleLower = title.toLowerCase();
-
-    if (titleLower.includes('dual audio') || titleLower.includes('multi audio')) {
-      languages.push(TorrentLanguage.JAPANESE, TorrentLanguage.ENGLISH);
-    } else {
-      if (
-        titleLower.includes('japanese') ||
-        titleLower.includes('jpn') ||
-        titleLower.includes('jap')
-      ) {
-        languages.push(TorrentLanguage.JAPANESE);
-      }
-      if (
-        titleLower.includes('english') ||
-        titleLower.includes('eng') ||
-        titleLower.includes('dub')
-      ) {
-        languages.push(TorrentLanguage.ENGLISH);
-      }
-    }
-
-    return languages.length > 0 ? languages : [TorrentLanguage.JAPANESE];
-  }
-
-  /**
-   * Extract subtitle languages from title
-   */
-  private extractSubtitleLanguages(title: string): TorrentLanguage[] {
-    const languages: TorrentLanguage[] = [];
-    const titleLower = title.toLowerCase();
-
-    if (
-      titleLower.includes('multi') &&
-      (titleLower.includes('sub') || titleLower.includes('subtitle'))
-    ) {
-      return [TorrentLanguage.MULTI];
-    }
-
-    const langMap: Record<string, TorrentLanguage> = {
-      'eng|english': TorrentLanguage.ENGLISH,
-      'pt-br|portuguese': TorrentLanguage.PORTUGUESE_BR,
-      'esp|spanish': TorrentLanguage.SPANISH,
-      'fre|french': TorrentLanguage.FRENCH,
-      'ger|german': TorrentLanguage.GERMAN,
-      'ita|italian': TorrentLanguage.ITALIAN,
-      'rus|russian': TorrentLanguage.RUSSIAN,
-      'chi|chinese': TorrentLanguage.CHINESE,
-      'kor|korean': TorrentLanguage.KOREAN,
+      quality: release.quality,
+      codec: release.codec,
+      audioLanguages: release.audioLanguages,
+      subtitleLanguages: release.subtitleLanguages,
+      releaseType: release.releaseType,
+      releaseGroup: release.releaseGroup,
+      isDual: release.isDual,
+      isMultiSub: release.isMultiSub,
+      isBatch: release.isBatch,
+      hasHardSubs: release.hasHardSubs,
+      source: release.source,
+      bitDepth: release.bitDepth,
+      hdrFormats: release.hdrFormats,
+      audioCodecs: release.audioCodecs,
+      version: release.version,
     };
-
-    Object.entries(langMap).forEach(([pattern, lang]) => {
-      const patterns = pattern.split('|');
-      if (patterns.some((p) => titleLower.includes(p))) {
-        languages.push(lang);
-      }
-    });
-
-    return languages.length > 0 ? languages : [TorrentLanguage.ENGLISH];
-  }
-
-  /**
-   * Extract release type from title
-   */
-  private extractReleaseType(title: string): TorrentReleaseType {
-    const titleLower = title.toLowerCase();
-
-    if (titleLower.includes('batch') || titleLower.includes('complete'))
-      return TorrentReleaseType.BATCH;
-    if (titleLower.includes('season')) return TorrentReleaseType.SEASON;
-    if (titleLower.includes('movie')) return TorrentReleaseType.MOVIE;
-    if (titleLower.includes('ova')) return TorrentReleaseType.OVA;
-    if (titleLower.includes('special')) return TorrentReleaseType.SPECIAL;
-
-    return TorrentReleaseType.EPISODE;
   }
 
   /**
-   * Extract release group from title
+   * Drop torrents from denied or disreputable groups, then rank the rest with preferred groups
+   * rewarded
    */
-  private extractReleaseGroup(title: string): string | undefined {
-    // Release group usually in brackets at the end: [GroupName]
-    const match = title.match(/\[([^\]]+)\]$/);
-    return match ? match[1] : undefined;
-  }
-
   /**
-   * Extract episode number from title
+   * Find the torrents of an episode by its number within the anime
+   * Torrents linked to episodes are matched by episode ID, others through the season layout
+   * (season-relative or absolute numbers); without a known episode only unlabelled or
+   * first-season numbers are compared
    */
-  private extractEpisodeNumber(title: string): number | undefined {
-    // Match patterns like "E01", "- 01", "Episode 01", etc.
-    const patterns = [
-      /[Ee](\d{2,3})/,
-      /[Ee]pisode\s*(\d{1,3})/i,
-      /\s-\s(\d{2,3})\s/,
-      /\s(\d{2,3})\s*\[/,
-    ];
-
-    for (const pattern of patterns) {
-      const match = title.match(pattern);
-      if (match) {
-        return parseInt(match[1], 10);
-      }
-    }
-
-    return undefined;
-  }
-
-  /**
-   * Extract episode range for batch torrents
-   */
-  private extractEpisodeRange(title: string): EpisodeRange | undefined {
-    // Match patterns like "01-12", "E01-E12", etc.
-    const patterns = [/(\d{2,3})\s*-\s*(\d{2,3})/, /[Ee](\d{2,3})\s*-\s*[Ee]?(\d{2,3})/];
-
-    for (const pattern of patterns) {
-      const match = title.match(pattern);
-      if (match) {
-        return {
-          start: parseInt(match[1], 10),
-          end: parseInt(match[2], 10),
-        };
-      }
+  private async findTorrentsForEpisode(
+    animeId: string,
+    episodeNumber: number,
+    filters: TorrentSearchFilter = {}
+  ): Promise<Torrent[]> {
+    const episodes = this.episodeRepository
+      ? await this.episodeRepository.findByAnimeId(animeId)
+      : [];
+    const episode = episodes.find(
+      (e) => e.number === episodeNumber && (e.type ?? EpisodeType.REGULAR) === EpisodeType.REGULAR
+    );
+    if (!episode) {
+      return this.torrentRepository.findByFilters({ ...filters, animeId, episodeNumber });
     }
 
-    return undefined;
-  }
-
-  /**
-   * Extract info hash from magnet link
-   */
-  private extractInfoHash(magnetLink: string): string {
-    const match = magnetLink.match(/btih:([a-fA-F0-9]{40})/i);
-    return match ? match[1].toLowerCase() : '';
+    const seasons = this.seasonRepository ? await this.seasonRepository.findByAnimeId(animeId) : [];
+    const torrents = await this.torrentRepository.findByFilters({ ...filters, animeId });
+    return torrents.filter((torrent) =>
+      torrent.episodeIds?.length
+        ? torrent.episodeIds.includes(episode.id)
+        : matchReleaseEpisodes(torrent, episodes, seasons).some((e) => e.id === episode.id)
+    );
   }
 
-  /**
-   * Parse size string to bytes
-   */
-  private parseSizeToBytes(sizeStr: string): number {
-    const units: Record<string, number> = {
-      B: 1,
-      KB: 1024,
-      MB: 1024 ** 2,
-      GB: 1024 ** 3,
-      TB: 1024 ** 4,
-      KiB: 1024,
-      MiB: 1024 ** 2,
-      GiB: 1024 ** 3,
-      TiB: 1024 ** 4,
-    };
-
-    const match = sizeStr.match(/^([\d.]+)\s*([A-Za-z]+)$/);
-    if (!match) return 0;
-
-    const value = parseFloat(match[1]);
-    const unit = match[2];
-
-    return Math.round(value * (units[unit] ?? 1));
+  private async rankByGroups(
+    torrents: Torrent[],
+    profile: TorrentScoringProfile
+  ): Promise<ScoredTorrent[]> {
+    const candidates = await this.releaseGroupRegistry.filterTorrents(
+      torrents,
+      this.options.minGroupReputation
+    );
+    return rankTorrents(candidates, this.releaseGroupRegistry.applyToProfile(profile));
   }
 
   /**
@@ -755,20 +740,82 @@ export class NyaaService {
       if (!existing) {
         map.set(key, t);
       } else {
-        // prefer higher seeders, then newer
-        if (t.seeders > existing.seeders) {
-          map.set(key, t);
-        }
+        // prefer higher seeders, keeping every indexer listing the torrent
+        const [best, other] = t.seeders > existing.seeders ? [t, existing] : [existing, t];
+        map.set(key, this.mergeSources(best, other));
       }
     }
 
     return Array.from(map.values()).sort((a, b) => b.seeders - a.seeders);
   }
+
+  /**
+   * Give torrents indexed before their stored ID, episode links and indexer listings
+   */
+  private async mergeWithStored(torrents: Torrent[]): Promise<Torrent[]> {
+    const findByInfoHash = await this.storedTorrentLookup();
+
+    return Promise.all(
+      torrents.map(async (torrent) => {
+        const stored = torrent.infoHash ? await findByInfoHash(torrent.infoHash) : null;
+        if (!stored) return torrent;
+
+        return this.mergeSources(
+          {
+            ...torrent,
+            id: stored.id,
+            episodeIds: torrent.episodeIds ?? stored.episodeIds,
+            seasonId: torrent.seasonId ?? stored.seasonId,
+            createdAt: stored.createdAt,
+          },
+          stored
+        );
+      })
+    );
+  }
+
+  /**
+   * Look up stored torrents by info hash
+   * Repositories without `findByInfoHash` are read once through `findAll()`
+   */
+  private async storedTorrentLookup(): Promise<(infoHash: string) => Promise<Torrent | null>> {
+    const findByInfoHash = this.torrentRepository.findByInfoHash?.bind(this.torrentRepository);
+    if (findByInfoHash) return findByInfoHash;
+
+    const stored = new Map<string, Torrent>();
+    for (const torrent of await this.torrentRepository.findAll()) {
+      const hash = torrent.infoHash.toLowerCase();
+      if (!stored.has(hash)) stored.set(hash, torrent);
+    }
+    return (infoHash) => Promise.resolve(stored.get(infoHash.toLowerCase()) ?? null);
+  }
+
+  /**
+   * Add the indexer listings of another copy of the same torrent
+   */
+  private mergeSources(torrent: Torrent, other: Torrent): Torrent {
+    const sources = [...(torrent.sources ?? [])];
+    for (const source of other.sources ?? []) {
+      if (!sources.some((s) => s.indexer === source.indexer && s.id === source.id)) {
+        sources.push(source);
+      }
+    }
+
+    return { ...torrent, nyaaId: torrent.nyaaId ?? other.nyaaId, sources };
+  }
+
   /**
-   * Check if Nyaa service is enabled and available
+   * Check if a Nyaa indexer is configured
    */
   get isNyaaEnabled(): boolean {
-    return !!this.nyaa;
+    return this.indexers.some((indexer) => indexer.getId() === 'nyaa');
+  }
+
+  /**
+   * Ids of the configured torrent indexers
+   */
+  getIndexers(): string[] {
+    return this.indexers.map((indexer) => indexer.getId());
   }
 
   /**
@@ -836,33 +883,18 @@ export class NyaaService {
   }
 
   /**
-   * Get best quality available for episode
+   * Get the quality of the best torrent for an episode according to the scoring profile
    */
   async getBestQualityForEpisode(
     animeId: string,
     episodeNumber: number,
+    profile: TorrentScoringProfile = this.options.scoringProfile
   ): Promise<TorrentQuality | null> {
-    const torrents = await this.torrentRepository.findByFilters({
-      animeId,
-      episodeNumber,
-    });
-
-    if (torrents.length === 0) return null;
+    const torrents = await this.findTorrentsForEpisode(animeId, episodeNumber);
 
-    // Quality priority: 4K > 1080p > 720p > 480p
-    const qualityPriority = [
-      TorrentQuality.UHD_4K,
-      TorrentQuality.FULL_HD_1080p,
-      TorrentQuality.HD_720p,
-      TorrentQuality.SD_480p,
-    ];
-
-    for (const quality of qualityPriority) {
-      if (torrents.some((t) => t.metadata.quality === quality)) {
-        return quality;
-      }
-    }
-
-    return torrents[0].metadata.quality;
+    const best = (await this.rankByGroups(torrents, profile)).find(
+      (candidate) => candidate.accepted
+    );
+    return best?.torrent.metadata.quality ?? null;
   }
 }
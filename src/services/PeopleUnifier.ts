@@ -0,0 +1,154 @@
+import { Character, StaffMember, VoiceActor } from '../models/People';
+import { ExternalId } from '../types/common';
+import { uniqueBy } from '../utils/helpers';
+import { foldName, matchExternalIds, unifyRecords } from '../utils/identity';
+
+/**
+ * Fields used to tell whether two records describe the same character or person
+ */
+export interface PersonIdentity {
+  name: { full?: string; native?: string };
+  externalIds: ExternalId[];
+}
+
+/**
+ * Merges character and staff records reported by several sources
+ * Records are linked by shared external IDs, then by name (ignoring word order, accents
+ * and long vowel spellings); a different ID from the same source keeps records apart
+ */
+export class PeopleUnifier {
+  /**
+   * Check whether two records describe the same character or person
+   */
+  isSame(a: PersonIdentity, b: PersonIdentity): boolean {
+    const byId = matchExternalIds(a.externalIds, b.externalIds);
+    if (byId !== undefined) return byId;
+
+    const full = [normalizeName(a.name.full), normalizeName(b.name.full)];
+    const native = [normalizeNative(a.name.native), normalizeNative(b.name.native)];
+    return (!!full[0] && full[0] === full[1]) || (!!native[0] && native[0] === native[1]);
+  }
+
+  /**
+   * Merge characters of the same anime from several sources, highest priority source first
+   */
+  unifyCharacters(characters: Character[]): Character[] {
+    return this.unify(characters, (target, source) => this.mergeCharacters(target, source));
+  }
+
+  /**
+   * Merge staff records for the same person, highest priority source first
+   */
+  unifyStaff(members: StaffMember[]): StaffMember[] {
+    return this.unify(members, (target, source) => this.mergeStaff(target, source));
+  }
+
+  /**
+   * Merge two records of the same character
+   * Names, description, image and role come from the first record that has them
+   */
+  mergeCharacters(target: Character, source: Character): Character {
+    return {
+      ...target,
+      name: {
+        full: target.name.full ?? source.name.full,
+        native: target.name.native ?? source.name.native,
+        alternative: this.mergeNames(target.name.alternative, source.name.alternative),
+      },
+      description: target.description ?? source.description,
+      image: target.image ?? source.image,
+      role: target.role ?? source.role,
+      voiceActors:
+        target.voiceActors || source.voiceActors
+          ? this.unifyVoiceActors([...(target.voiceActors || []), ...(source.voiceActors || [])])
+          : undefined,
+      appearances:
+        target.appearances || source.appearances
+          ? uniqueBy(
+              [...(target.appearances || []), ...(source.appearances || [])],
+              (a) => a.animeId
+            )
+          : undefined,
+      externalIds: this.mergeIds(target.externalIds, source.externalIds),
+    };
+  }
+
+  /**
+   * Merge two records of the same person
+   * Credits are combined and `role` lists every distinct role
+   */
+  mergeStaff(target: StaffMember, source: StaffMember): StaffMember {
+    return {
+      ...target,
+      name: {
+        full: target.name.full ?? source.name.full,
+        native: target.name.native ?? source.name.native,
+      },
+      role: this.mergeRoles(target.role, source.role),
+      image: target.image ?? source.image,
+      credits:
+        target.credits || source.credits
+          ? uniqueBy(
+              [...(target.credits || []), ...(source.credits || [])],
+              (c) =>
+                `${c.animeId}:${c.role.toLowerCase()}:${c.characterId ?? ''}:${c.language ?? ''}`
+            )
+          : undefined,
+      externalIds: this.mergeIds(target.externalIds, source.externalIds),
+    };
+  }
+
+  private unifyVoiceActors(voiceActors: VoiceActor[]): VoiceActor[] {
+    return this.unify(voiceActors, (target, source) => ({
+      ...target,
+      name: {
+        full: target.name.full ?? source.name.full,
+        native: target.name.native ?? source.name.native,
+      },
+      language: target.language ?? source.language,
+      image: target.image ?? source.image,
+      externalIds: this.mergeIds(target.externalIds, source.externalIds),
+    }));
+  }
+
+  /**
+   * Fold every record into the first record describing the same character or person
+   */
+  private unify<T extends PersonIdentity>(records: T[], merge: (target: T, source: T) => T): T[] {
+    return unifyRecords(records, (a, b) => this.isSame(a, b), merge);
+  }
+
+  private mergeIds(a: ExternalId[], b: ExternalId[]): ExternalId[] {
+    return uniqueBy([...a, ...b], (e) => `${e.source}:${e.id}`);
+  }
+
+  private mergeNames(a?: string[], b?: string[]): string[] | undefined {
+    return a || b
+      ? uniqueBy([...(a || []), ...(b || [])], (name) => name.toLowerCase())
+      : undefined;
+  }
+
+  private mergeRoles(a?: string, b?: string): string | undefined {
+    const roles = [a, b].flatMap((role) => (role ? role.split(', ') : []));
+    return roles.length > 0 ? uniqueBy(roles, (role) => role.toLowerCase()).join(', ') : undefined;
+  }
+}
+
+/**
+ * Romanized name key: words sorted, accents and long vowel spellings (ō, ou, uu) folded
+ */
+function normalizeName(name?: string): string | undefined {
+  const words = foldName(name || '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0);
+
+  return words.length > 0 ? words.sort().join(' ') : undefined;
+}
+
+/**
+ * Native name key: letters only, so "山寺 宏一" and "山寺宏一" match
+ */
+function normalizeNative(name?: string): string | undefined {
+  const key = (name || '').replace(/[^\p{L}\p{N}]+/gu, '');
+  return key.length > 0 ? key : undefined;
+}
@@ -0,0 +1,242 @@
+import { Anime, AnimeRelation, RelationType } from '../models/Anime';
+import { ExternalId } from '../types/common';
+import { IAnimeRepository } from '../repositories/AnimeRepository';
+
+/**
+ * Fetches an anime that is not stored yet (e.g. `MiauIndex.fetchAnime`)
+ */
+export type RelatedAnimeFetcher = (externalId: ExternalId) => Promise<Anime | null>;
+
+/**
+ * Options for walking a franchise
+ */
+export interface FranchiseOptions {
+  /**
+   * Relation types to follow
+   * Default: every type except OTHER (crossovers, character appearances)
+   */
+  types?: RelationType[];
+
+  /**
+   * Maximum number of anime to collect (including the starting anime)
+   * Default: 50
+   */
+  maxEntries?: number;
+
+  /**
+   * Fetch related anime missing from the repository with the graph's fetcher
+   * Default: false
+   */
+  fetchMissing?: boolean;
+}
+
+/**
+ * A related anime and how it relates to the anime it was reached from
+ */
+export interface RelatedAnime {
+  anime: Anime;
+  relationType: RelationType;
+}
+
+const FRANCHISE_TYPES: RelationType[] = Object.values(RelationType).filter(
+  (type) => type !== RelationType.OTHER
+);
+
+/**
+ * Relation graph over the anime repository
+ * Relations point at internal IDs or at the IDs of the source that reported them,
+ * and are resolved through the repository (optionally fetching missing anime)
+ */
+export class RelationGraph {
+  constructor(
+    private repository: IAnimeRepository,
+    private fetcher?: RelatedAnimeFetcher
+  ) {}
+
+  /**
+   * Resolve the direct relations of an anime, optionally limited to some relation types
+   * Relations reported by several sources for the same anime are returned once
+   */
+  async getRelated(
+    anime: Anime,
+    types?: RelationType[],
+    fetchMissing: boolean = false
+  ): Promise<RelatedAnime[]> {
+    const related: RelatedAnime[] = [];
+
+    for (const relation of anime.relations || []) {
+      if (types && !types.includes(relation.relationType)) continue;
+
+      const target = await this.resolve(relation, fetchMissing);
+      if (
+        target &&
+        target.id !== anime.id &&
+        !related.some((r) => r.anime.id === target.id && r.relationType === relation.relationType)
+      ) {
+        related.push({ anime: target, relationType: relation.relationType });
+      }
+    }
+
+    return related;
+  }
+
+  /**
+   * Collect every anime of the franchise reachable from an anime (breadth-first)
+   * The starting anime comes first
+   */
+  async getFranchise(anime: Anime, options: FranchiseOptions = {}): Promise<Anime[]> {
+    return (await this.walk(anime, options)).entries;
+  }
+
+  /**
+   * Follow the stored prequels of an anime back to the first entry (earliest first)
+   */
+  async getPrequels(anime: Anime): Promise<Anime[]> {
+    const prequels: Anime[] = [];
+    const visited = new Set([anime.id]);
+
+    for (let current = anime; ; ) {
+      // The latest prequel is the direct one when a source lists earlier entries too
+      const prequel = (await this.getRelated(current, [RelationType.PREQUEL]))
+        .map((related) => related.anime)
+        .filter((candidate) => !visited.has(candidate.id))
+        .sort(
+          (a, b) =>
+            (b.aired.start ? this.startTime(b) : 0) - (a.aired.start ? this.startTime(a) : 0)
+        )[0];
+      if (!prequel) break;
+
+      visited.add(prequel.id);
+      prequels.unshift(prequel);
+      current = prequel;
+    }
+
+    return prequels;
+  }
+
+  /**
+   * Order a franchise for watching: the main story goes from the first entry (reached
+   * through parent stories and prequels) along sequels; side stories, movies and other
+   * entries are placed after the last main story entry that aired before them
+   */
+  async getWatchOrder(anime: Anime, options: FranchiseOptions = {}): Promise<Anime[]> {
+    const { entries, edges } = await this.walk(anime, options);
+    const byId = new Map(entries.map((entry) => [entry.id, entry]));
+
+    // Direct successors/predecessors, whichever side reported the relation
+    const linked = (id: string, forward: RelationType, backward: RelationType): Anime[] =>
+      edges
+        .filter(
+          (e) => (e.from === id && e.type === forward) || (e.to === id && e.type === backward)
+        )
+        .map((e) => byId.get(e.from === id ? e.to : e.from)!)
+        .sort((a, b) => this.startTime(a) - this.startTime(b));
+
+    // Climb from side stories and summaries to the main story, then follow prequels back
+    const parentOf = (id: string): Anime | undefined =>
+      linked(id, RelationType.PREQUEL, RelationType.SEQUEL)[0] ??
+      linked(id, RelationType.PARENT_STORY, RelationType.SIDE_STORY)[0] ??
+      linked(id, RelationType.FULL_STORY, RelationType.SUMMARY)[0];
+
+    let first = anime;
+    const visited = new Set([first.id]);
+    for (let parent = parentOf(first.id); parent && !visited.has(parent.id); ) {
+      visited.add(parent.id);
+      first = parent;
+      parent = parentOf(first.id);
+    }
+
+    // Then sequels (the earliest one when a story branches)
+    const chain = [first];
+    const inChain = new Set([first.id]);
+    for (;;) {
+      const last = chain[chain.length - 1];
+      const sequel = linked(last.id, RelationType.SEQUEL, RelationType.PREQUEL).find(
+        (candidate) => !inChain.has(candidate.id)
+      );
+      if (!sequel) break;
+      chain.push(sequel);
+      inChain.add(sequel.id);
+    }
+
+    // Attach every other entry after the last main story entry aired at or before it
+    const attached: Anime[][] = chain.map(() => []);
+    const undated: Anime[] = [];
+    const others = entries
+      .filter((entry) => !inChain.has(entry.id))
+      .sort((a, b) => this.startTime(a) - this.startTime(b));
+
+    for (const entry of others) {
+      const start = this.startTime(entry);
+      if (start === Infinity) {
+        undated.push(entry);
+        continue;
+      }
+
+      let position = 0;
+      chain.forEach((chainEntry, index) => {
+        if (this.startTime(chainEntry) <= start) position = index;
+      });
+      attached[position].push(entry);
+    }
+
+    return [...chain.flatMap((entry, index) => [entry, ...attached[index]]), ...undated];
+  }
+
+  /**
+   * Breadth-first walk collecting the franchise entries and the relations between them
+   */
+  private async walk(
+    anime: Anime,
+    options: FranchiseOptions
+  ): Promise<{ entries: Anime[]; edges: Array<{ from: string; to: string; type: RelationType }> }> {
+    const { types = FRANCHISE_TYPES, maxEntries = 50, fetchMissing = false } = options;
+    const entries: Anime[] = [anime];
+    const seen = new Set([anime.id]);
+    const edges: Array<{ from: string; to: string; type: RelationType }> = [];
+
+    for (let i = 0; i < entries.length; i++) {
+      const current = entries[i];
+
+      for (const { anime: related, relationType } of await this.getRelated(
+        current,
+        types,
+        fetchMissing && entries.length < maxEntries
+      )) {
+        if (!seen.has(related.id)) {
+          if (entries.length >= maxEntries) continue;
+          seen.add(related.id);
+          entries.push(related);
+        }
+        edges.push({ from: current.id, to: related.id, type: relationType });
+      }
+    }
+
+    return { entries, edges };
+  }
+
+  /**
+   * Find the anime a relation points to
+   */
+  private async resolve(relation: AnimeRelation, fetchMissing: boolean): Promise<Anime | null> {
+    if (relation.animeId) {
+      const stored = await this.repository.findById(relation.animeId);
+      if (stored) return stored;
+    }
+
+    if (!relation.externalId) return null;
+
+    const { source, id } = relation.externalId;
+    const stored = await this.repository.findByExternalId(source, id);
+    if (stored || !fetchMissing || !this.fetcher) return stored;
+
+    return this.fetcher(relation.externalId);
+  }
+
+  /**
+   * Start date as a timestamp, undated anime sorting last
+   */
+  private startTime(anime: Anime): number {
+    return anime.aired.start ? new Date(anime.aired.start).getTime() : Infinity;
+  }
+}
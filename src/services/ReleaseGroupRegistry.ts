@@ -0,0 +1,208 @@
+import { ReleaseGroup, ReleaseGroupPreference, Torrent } from '../models/Torrent';
+import { ITorrentRepository } from '../repositories/TorrentRepository';
+import { TorrentScoringProfile } from '../utils/torrentScoring';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * User-managed release group lists
+ */
+export interface ReleaseGroupPreferences {
+  allow?: string[];
+  deny?: string[];
+  prefer?: string[];
+}
+
+/**
+ * Points added to releases from preferred groups when ranking torrents
+ * Lower than a quality step, so a preferred group does not outrank a better quality
+ */
+export const PREFERRED_GROUP_SCORE = 50;
+
+/**
+ * Release groups seen in the indexed torrents, with reputations and user preferences
+ * Statistics are computed from the torrent repository on first use and cached until
+ * `invalidate()`; names are matched ignoring case
+ */
+export class ReleaseGroupRegistry {
+  private preferences = new Map<string, { name: string; preference: ReleaseGroupPreference }>();
+  private summaries?: Promise<Map<string, ReleaseGroup>>;
+
+  constructor(
+    private torrentRepository: ITorrentRepository,
+    preferences: ReleaseGroupPreferences = {}
+  ) {
+    for (const name of preferences.allow ?? []) this.setPreference(name, 'allow');
+    for (const name of preferences.prefer ?? []) this.setPreference(name, 'prefer');
+    for (const name of preferences.deny ?? []) this.setPreference(name, 'deny');
+  }
+
+  /**
+   * Every release group in the indexed torrents, best reputation first
+   */
+  async getGroups(): Promise<ReleaseGroup[]> {
+    return Array.from((await this.getSummaries()).values())
+      .map((group) => this.withPreference(group))
+      .sort((a, b) => b.reputation - a.reputation || b.releaseCount - a.releaseCount);
+  }
+
+  /**
+   * Get a release group by name, or null when it has no indexed torrents
+   */
+  async getGroup(name: string): Promise<ReleaseGroup | null> {
+    const group = (await this.getSummaries()).get(name.trim().toLowerCase());
+    return group ? this.withPreference(group) : null;
+  }
+
+  /**
+   * Drop the cached statistics so they are recomputed from the repository
+   * Call after saving torrents to the repository
+   */
+  invalidate(): void {
+    this.summaries = undefined;
+  }
+
+  /**
+   * Allow, deny or prefer a release group; null clears its preference
+   *
+   * @throws {ValidationError} When the name is empty
+   */
+  setPreference(name: string, preference: ReleaseGroupPreference | null): void {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new ValidationError('must not be empty', 'name');
+    }
+
+    if (preference) {
+      this.preferences.set(trimmed.toLowerCase(), { name: trimmed, preference });
+    } else {
+      this.preferences.delete(trimmed.toLowerCase());
+    }
+  }
+
+  getPreference(name: string): ReleaseGroupPreference | undefined {
+    return this.preferences.get(name.trim().toLowerCase())?.preference;
+  }
+
+  /**
+   * Current allow, deny and prefer lists
+   */
+  getPreferences(): Required<ReleaseGroupPreferences> {
+    const lists: Required<ReleaseGroupPreferences> = { allow: [], deny: [], prefer: [] };
+    for (const { name, preference } of this.preferences.values()) {
+      lists[preference].push(name);
+    }
+    return lists;
+  }
+
+  /**
+   * Drop torrents from denied groups, from groups missing from the allow list (when one is set)
+   * and, with a minimum reputation, from unknown or less reputable groups
+   * Allowed and preferred groups skip the reputation check
+   */
+  async filterTorrents(torrents: Torrent[], minReputation: number = 0): Promise<Torrent[]> {
+    const preferences = Array.from(this.preferences.values());
+    const hasAllowList = preferences.some(({ preference }) => preference === 'allow');
+    const reputations = minReputation > 0 ? await this.getSummaries() : undefined;
+
+    return torrents.filter((torrent) => {
+      const key = torrent.metadata.releaseGroup?.toLowerCase();
+      const preference = key ? this.preferences.get(key)?.preference : undefined;
+      if (preference) return preference !== 'deny';
+      if (hasAllowList) return false;
+      if (!reputations) return true;
+      return !!key && (reputations.get(key)?.reputation ?? 0) >= minReputation;
+    });
+  }
+
+  /**
+   * Add a rule rewarding the preferred groups to a scoring profile
+   */
+  applyToProfile(profile: TorrentScoringProfile): TorrentScoringProfile {
+    const preferred = this.getPreferences().prefer;
+    if (preferred.length === 0) return profile;
+
+    return {
+      ...profile,
+      rules: [
+        ...(profile.rules ?? []),
+        { name: 'Preferred release group', score: PREFERRED_GROUP_SCORE, releaseGroups: preferred },
+      ],
+    };
+  }
+
+  private getSummaries(): Promise<Map<string, ReleaseGroup>> {
+    this.summaries ??= this.summarizeAll().catch((error: unknown) => {
+      this.summaries = undefined;
+      throw error;
+    });
+    return this.summaries;
+  }
+
+  /**
+   * Statistics of every group, by lowercase name, without preferences
+   */
+  private async summarizeAll(): Promise<Map<string, ReleaseGroup>> {
+    const byGroup = new Map<string, Torrent[]>();
+    for (const torrent of await this.torrentRepository.findAll()) {
+      const key = torrent.metadata.releaseGroup?.toLowerCase();
+      if (!key) continue;
+      const releases = byGroup.get(key);
+      if (releases) releases.push(torrent);
+      else byGroup.set(key, [torrent]);
+    }
+
+    return new Map(
+      Array.from(byGroup.entries()).map(([key, releases]) => [key, this.summarize(releases)])
+    );
+  }
+
+  private withPreference(group: ReleaseGroup): ReleaseGroup {
+    return { ...group, preference: this.getPreference(group.name) };
+  }
+
+  private summarize(releases: Torrent[]): ReleaseGroup {
+    const releaseCount = releases.length;
+    const averageSeeders = releases.reduce((sum, t) => sum + t.seeders, 0) / releaseCount;
+    const trustedRatio = releases.filter((t) => t.trusted).length / releaseCount;
+    const name = releases[0].metadata.releaseGroup ?? '';
+
+    // Trusted uploads and seeders weigh most; 100 seeders or 100 releases count as full marks
+    const reputation =
+      0.4 * trustedRatio +
+      0.4 * Math.min(1, Math.log10(1 + averageSeeders) / 2) +
+      0.2 * Math.min(1, Math.log10(1 + releaseCount) / 2);
+
+    return {
+      name,
+      releaseCount,
+      animeCount: new Set(releases.map((t) => t.animeId).filter(Boolean)).size,
+      averageSeeders: round(averageSeeders),
+      trustedRatio: round(trustedRatio),
+      codecs: byFrequency(releases.map((t) => [t.metadata.codec])),
+      qualities: byFrequency(releases.map((t) => [t.metadata.quality])),
+      audioLanguages: byFrequency(releases.map((t) => t.metadata.audioLanguages)),
+      subtitleLanguages: byFrequency(releases.map((t) => t.metadata.subtitleLanguages)),
+      lastActive: new Date(
+        releases.reduce((latest, t) => Math.max(latest, t.publishedAt.getTime()), 0)
+      ),
+      reputation: round(reputation),
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Distinct values, most common first
+ */
+function byFrequency<T>(values: T[][]): T[] {
+  const counts = new Map<T, number>();
+  for (const value of values.flat()) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([value]) => value);
+}
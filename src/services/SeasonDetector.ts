@@ -0,0 +1,237 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Anime } from '../models/Anime';
+import { AnimeSeason, Episode, EpisodeType, SeasonDetection } from '../models/Episode';
+import { AnimeType } from '../types/common';
+
+/**
+ * Options for season detection
+ */
+export interface SeasonDetectorOptions {
+  /**
+   * Days without a broadcast that start a new season
+   * Default: 60 (mid-season breaks of a few weeks stay in one season)
+   */
+  minGapDays?: number;
+
+  /**
+   * Episodes a season needs; smaller groups (e.g. a delayed finale) join the previous season
+   * Default: 3
+   */
+  minSeasonEpisodes?: number;
+}
+
+/**
+ * Data season detection works from
+ */
+export interface SeasonDetectionInput {
+  animeId: string;
+  episodes: Episode[];
+
+  /**
+   * Season structure reported by a provider (`IAnimeProvider.fetchSeasons`)
+   */
+  providerSeasons?: AnimeSeason[];
+
+  /**
+   * Main story prequel entries, earliest first (see `RelationGraph.getPrequels`)
+   * TV and ONA prequels shift season numbers and absolute episode numbers
+   */
+  prequels?: Anime[];
+}
+
+/**
+ * Detected seasons and the episodes annotated with their season numbering
+ */
+export interface SeasonDetectionResult {
+  seasons: AnimeSeason[];
+  episodes: Episode[];
+}
+
+const SEASON_TYPES: ReadonlySet<AnimeType> = new Set([AnimeType.TV, AnimeType.ONA]);
+
+const DAY_MS = 86400000;
+
+/**
+ * Builds the season layout of an anime
+ * Provider season structures win; otherwise episodes are split on broadcast breaks.
+ * Sequel entries continue the season and absolute episode numbering of their prequels
+ */
+export class SeasonDetector {
+  private minGapDays: number;
+  private minSeasonEpisodes: number;
+
+  constructor(options: SeasonDetectorOptions = {}) {
+    this.minGapDays = options.minGapDays ?? 60;
+    this.minSeasonEpisodes = options.minSeasonEpisodes ?? 3;
+  }
+
+  /**
+   * Detect seasons from regular episodes; specials and other episodes are left as they are
+   */
+  detect(input: SeasonDetectionInput): SeasonDetectionResult {
+    const regular = input.episodes
+      .filter((episode) => (episode.type ?? EpisodeType.REGULAR) === EpisodeType.REGULAR)
+      .sort((a, b) => a.number - b.number);
+    if (regular.length === 0) {
+      return { seasons: [], episodes: input.episodes };
+    }
+
+    const prequels = (input.prequels || []).filter((anime) => SEASON_TYPES.has(anime.type));
+    const prequelEpisodes = prequels.every((anime) => anime.episodes !== undefined)
+      ? prequels.reduce((sum, anime) => sum + anime.episodes!, 0)
+      : undefined;
+
+    const seasons =
+      this.fromProvider(input.animeId, regular, input.providerSeasons || [], prequelEpisodes) ??
+      this.fromAirDates(input.animeId, regular, prequels.length + 1, prequelEpisodes);
+
+    const annotated = new Map(
+      seasons.flatMap((season) => season.episodes!.map((episode) => [episode.id, episode]))
+    );
+    return {
+      seasons,
+      episodes: input.episodes.map((episode) => annotated.get(episode.id) ?? episode),
+    };
+  }
+
+  /**
+   * Use the provider layout: season numbers on the episodes, or provider season sizes
+   * matching the episode count
+   */
+  private fromProvider(
+    animeId: string,
+    regular: Episode[],
+    providerSeasons: AnimeSeason[],
+    prequelEpisodes: number | undefined
+  ): AnimeSeason[] | undefined {
+    let groups: Array<{ seasonNumber: number; episodes: Episode[] }>;
+
+    if (regular.every((episode) => (episode.seasonNumber ?? 0) >= 1)) {
+      groups = [];
+      for (const episode of regular) {
+        const group = groups.find((g) => g.seasonNumber === episode.seasonNumber);
+        if (group) group.episodes.push(episode);
+        else groups.push({ seasonNumber: episode.seasonNumber!, episodes: [episode] });
+      }
+    } else {
+      const sized = providerSeasons
+        .filter((season) => season.seasonNumber >= 1 && season.episodeCount)
+        .sort((a, b) => a.seasonNumber - b.seasonNumber);
+      const total = sized.reduce((sum, season) => sum + season.episodeCount!, 0);
+      if (sized.length === 0 || total !== regular.length) return undefined;
+
+      let start = 0;
+      groups = sized.map((season) => {
+        const episodes = regular.slice(start, start + season.episodeCount!);
+        start += season.episodeCount!;
+        return { seasonNumber: season.seasonNumber, episodes };
+      });
+    }
+
+    return groups.map(({ seasonNumber, episodes }) =>
+      this.buildSeason(
+        animeId,
+        seasonNumber,
+        episodes,
+        SeasonDetection.PROVIDER,
+        prequelEpisodes,
+        providerSeasons.find((season) => season.seasonNumber === seasonNumber)
+      )
+    );
+  }
+
+  /**
+   * Split episodes wherever the broadcast pauses for at least `minGapDays`
+   */
+  private fromAirDates(
+    animeId: string,
+    regular: Episode[],
+    firstSeasonNumber: number,
+    prequelEpisodes: number | undefined
+  ): AnimeSeason[] {
+    const groups: Episode[][] = [[regular[0]]];
+    for (let i = 1; i < regular.length; i++) {
+      const previous = regular[i - 1].aired;
+      const current = regular[i].aired;
+      const gapDays =
+        previous && current
+          ? (new Date(current).getTime() - new Date(previous).getTime()) / DAY_MS
+          : 0;
+
+      if (gapDays >= this.minGapDays) groups.push([]);
+      groups[groups.length - 1].push(regular[i]);
+    }
+
+    // Fold groups too small to be a season into their neighbour
+    const merged: Episode[][] = [];
+    for (const group of groups) {
+      if (merged.length > 0 && group.length < this.minSeasonEpisodes) {
+        merged[merged.length - 1].push(...group);
+      } else {
+        merged.push(group);
+      }
+    }
+    if (merged.length > 1 && merged[0].length < this.minSeasonEpisodes) {
+      merged.splice(0, 2, [...merged[0], ...merged[1]]);
+    }
+
+    const detection = merged.length > 1 ? SeasonDetection.AIR_DATES : SeasonDetection.SINGLE;
+    return merged.map((episodes, index) =>
+      this.buildSeason(
+        animeId,
+        firstSeasonNumber + index,
+        episodes.map((episode, position) => ({
+          ...episode,
+          seasonNumber: firstSeasonNumber + index,
+          seasonEpisodeNumber: position + 1,
+        })),
+        detection,
+        prequelEpisodes
+      )
+    );
+  }
+
+  private buildSeason(
+    animeId: string,
+    seasonNumber: number,
+    episodes: Episode[],
+    detection: SeasonDetection,
+    prequelEpisodes: number | undefined,
+    providerSeason?: AnimeSeason
+  ): AnimeSeason {
+    const first = episodes[0];
+    const episodeOffset = first.number - (first.seasonEpisodeNumber ?? 1);
+    const absoluteEpisodeOffset =
+      prequelEpisodes !== undefined ? prequelEpisodes + episodeOffset : undefined;
+
+    const annotated = episodes.map((episode, position) => ({
+      ...episode,
+      seasonNumber,
+      seasonEpisodeNumber: episode.seasonEpisodeNumber ?? position + 1,
+      absoluteNumber:
+        prequelEpisodes !== undefined ? prequelEpisodes + episode.number : episode.absoluteNumber,
+    }));
+    const airDates = annotated
+      .map((episode) => episode.aired)
+      .filter((aired): aired is Date => !!aired);
+
+    return {
+      id: uuidv4(),
+      animeId,
+      seasonNumber,
+      title: providerSeason?.title ?? `Season ${seasonNumber}`,
+      episodeCount: annotated.length,
+      episodes: annotated,
+      episodeOffset,
+      absoluteEpisodeOffset,
+      detection,
+      aired: providerSeason?.aired ?? {
+        start: airDates[0],
+        end: airDates[airDates.length - 1],
+      },
+      externalIds: providerSeason?.externalIds ?? [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import { Studio } from '../models/People';
+import { uniqueBy } from '../utils/helpers';
+import { foldName, matchExternalIds, unifyRecords } from '../utils/identity';
+
+/**
+ * Corporate suffixes ignored when comparing studio names
+ */
+const CORPORATE_SUFFIXES = /\b(co|ltd|inc|llc|corp|corporation|company|limited)\b\.?/gi;
+
+/**
+ * Merges studio records reported by several sources
+ * Records are linked by shared external IDs, then by name (ignoring case, accents, long vowel
+ * spellings, punctuation and corporate suffixes); a different ID from the same source keeps
+ * records apart
+ */
+export class StudioUnifier {
+  /**
+   * Check whether two records describe the same studio
+   */
+  isSame(a: Studio, b: Studio): boolean {
+    const byId = matchExternalIds(a.externalIds, b.externalIds);
+    if (byId !== undefined) return byId;
+
+    const keysB = this.nameKeys(b);
+    return this.nameKeys(a).some((key) => keysB.includes(key));
+  }
+
+  /**
+   * Merge studios from several sources, highest priority source first
+   */
+  unify(studios: Studio[]): Studio[] {
+    return unifyRecords(
+      studios,
+      (a, b) => this.isSame(a, b),
+      (target, source) => this.merge(target, source)
+    );
+  }
+
+  /**
+   * Merge two records of the same studio
+   * The name comes from the first record; other spellings become alternative names
+   */
+  merge(target: Studio, source: Studio): Studio {
+    const alternativeNames = uniqueBy(
+      [...(target.alternativeNames || []), source.name, ...(source.alternativeNames || [])],
+      (name) => name.toLowerCase()
+    ).filter((name) => name.toLowerCase() !== target.name.toLowerCase());
+
+    return {
+      ...target,
+      alternativeNames: alternativeNames.length > 0 ? alternativeNames : undefined,
+      isAnimationStudio: target.isAnimationStudio ?? source.isAnimationStudio,
+      favorites: target.favorites ?? source.favorites,
+      credits:
+        target.credits || source.credits
+          ? uniqueBy(
+              [...(target.credits || []), ...(source.credits || [])],
+              (c) => `${c.animeId}:${c.role}`
+            )
+          : undefined,
+      externalIds: uniqueBy(
+        [...target.externalIds, ...source.externalIds],
+        (e) => `${e.source}:${e.id}`
+      ),
+    };
+  }
+
+  /**
+   * Names to look a studio up by: each name with and without corporate suffixes
+   */
+  lookupNames(studio: Studio): string[] {
+    const names = [studio.name, ...(studio.alternativeNames || [])].flatMap((name) => [
+      name,
+      name.replace(CORPORATE_SUFFIXES, '').replace(/[\s,.]+$/, ''),
+    ]);
+    return uniqueBy(
+      names.filter((name) => name.length > 0),
+      (name) => name.toLowerCase()
+    );
+  }
+
+  private nameKeys(studio: Studio): string[] {
+    return [studio.name, ...(studio.alternativeNames || [])]
+      .map(normalizeStudioName)
+      .filter((key) => key.length > 0);
+  }
+}
+
+/**
+ * Studio name key: "Sunrise Inc." and "SUNRISE" match, "Studio Pierrot" and "Pierrot" do not
+ */
+function normalizeStudioName(name: string): string {
+  return foldName(name)
+    .replace(CORPORATE_SUFFIXES, '')
+    .replace(/[^\p{L}\p{N}]+/gu, '');
+}
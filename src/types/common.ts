@@ -42,8 +42,13 @@ export enum DataSource {
   TMDB = 'TMDB',
 }
 
+/**
+ * Identifier of a data source: a built-in `DataSource` or the id of a custom provider
+ */
+export type SourceId = DataSource | (string & Record<never, never>);
+
 export interface ExternalId {
-  source: DataSource;
+  source: SourceId;
   id: string;
 }
 
@@ -67,8 +72,8 @@ export interface Title {
 }
 
 export interface Rating {
-  source: DataSource;
-  score?: number;
+  source: SourceId;
+  score?: number; // 0-10, see normalizeScore()
   votes?: number;
   rank?: number;
   popularity?: number;
@@ -0,0 +1,185 @@
+import { matchesAnimeQuery, queryAnime } from '../animeQuery';
+import { Anime } from '../../models/Anime';
+import { StudioRole } from '../../models/People';
+import { AgeRating, AnimeStatus, AnimeType, DataSource, Season } from '../../types/common';
+import { ValidationError } from '../errors';
+import { makeAnime } from '../../../tests/helpers/fixtures';
+
+describe('anime queries', () => {
+  const anime = [
+    makeAnime('Cowboy Bebop', {
+      genres: ['Action', 'Sci-Fi'],
+      season: Season.SPRING,
+      year: 1998,
+      episodes: 26,
+      ageRating: AgeRating.R,
+      aggregateScore: 8.8,
+      studios: ['Sunrise'],
+    }),
+    makeAnime('Trigun', {
+      genres: ['Action', 'Sci-Fi'],
+      season: Season.SPRING,
+      year: 1998,
+      episodes: 26,
+      ageRating: AgeRating.PG_13,
+      aggregateScore: 8.2,
+      companies: [{ studioId: 'madhouse', name: 'Madhouse', role: StudioRole.STUDIO }],
+    }),
+    makeAnime('Kimi no Na wa.', {
+      type: AnimeType.MOVIE,
+      genres: ['Drama'],
+      year: 2016,
+      episodes: 1,
+      ratings: [{ source: DataSource.MYANIMELIST, score: 8.8 }],
+    }),
+    makeAnime('Frieren', {
+      status: AnimeStatus.AIRING,
+      genres: ['Adventure'],
+      year: 2023,
+    }),
+  ];
+  const ids = (result: { items: Anime[] }): string[] => result.items.map((a) => a.id);
+
+  it('should combine filters', () => {
+    expect(ids(queryAnime(anime, { genres: ['action', 'Sci-Fi'], year: 1998 }))).toEqual([
+      'Cowboy Bebop',
+      'Trigun',
+    ]);
+    expect(ids(queryAnime(anime, { types: [AnimeType.MOVIE], score: { min: 8.5 } }))).toEqual([
+      'Kimi no Na wa.',
+    ]);
+    expect(ids(queryAnime(anime, { statuses: [AnimeStatus.AIRING], year: { min: 2020 } }))).toEqual(
+      ['Frieren']
+    );
+    expect(ids(queryAnime(anime, { ageRatings: [AgeRating.R], season: Season.SPRING }))).toEqual([
+      'Cowboy Bebop',
+    ]);
+    expect(ids(queryAnime(anime, { episodes: { max: 12 } }))).toEqual(['Kimi no Na wa.']);
+  });
+
+  it('should match studios by name or stored studio ID', () => {
+    expect(matchesAnimeQuery(anime[0], { studio: 'SUNRISE' })).toBe(true);
+    expect(matchesAnimeQuery(anime[1], { studio: 'madhouse' })).toBe(true);
+    expect(matchesAnimeQuery(anime[1], { studio: 'Sunrise' })).toBe(false);
+  });
+
+  it('should sort with missing values last and ties broken by ID', () => {
+    expect(ids(queryAnime(anime, { sortBy: 'aggregateScore' }))).toEqual([
+      'Cowboy Bebop',
+      'Kimi no Na wa.',
+      'Trigun',
+      'Frieren',
+    ]);
+    expect(ids(queryAnime(anime, { sortBy: 'year', sortOrder: 'desc' }))).toEqual([
+      'Frieren',
+      'Kimi no Na wa.',
+      'Cowboy Bebop',
+      'Trigun',
+    ]);
+    expect(ids(queryAnime(anime, { sortBy: 'episodes' }))[3]).toBe('Frieren');
+  });
+
+  it('should paginate with cursors and report the total', () => {
+    const query = { sortBy: 'title' as const, limit: 3 };
+    const first = queryAnime(anime, query);
+
+    expect(first.total).toBe(4);
+    expect(ids(first)).toEqual(['Cowboy Bebop', 'Frieren', 'Kimi no Na wa.']);
+
+    // Removing an item already returned does not shift the next page
+    const second = queryAnime(anime.slice(1), { ...query, cursor: first.nextCursor });
+
+    expect(ids(second)).toEqual(['Trigun']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should filter by aggregate score range', () => {
+    expect(ids(queryAnime(anime, { score: { min: 8.5 } }))).toEqual([
+      'Cowboy Bebop',
+      'Kimi no Na wa.',
+    ]);
+    expect(ids(queryAnime(anime, { score: { min: 8, max: 8.5 } }))).toEqual(['Trigun']);
+    // Anime without any score never match a score filter
+    expect(ids(queryAnime(anime, { score: { max: 10 } }))).not.toContain('Frieren');
+  });
+
+  it('should filter by studio and age rating', () => {
+    expect(ids(queryAnime(anime, { studio: 'sunrise' }))).toEqual(['Cowboy Bebop']);
+    expect(ids(queryAnime(anime, { studio: 'madhouse' }))).toEqual(['Trigun']);
+    expect(ids(queryAnime(anime, { studio: 'Bones' }))).toEqual([]);
+    expect(ids(queryAnime(anime, { ageRatings: [AgeRating.R, AgeRating.PG_13] }))).toEqual([
+      'Cowboy Bebop',
+      'Trigun',
+    ]);
+    expect(ids(queryAnime(anime, { ageRatings: [AgeRating.G] }))).toEqual([]);
+  });
+
+  it('should put anime missing the sort key last in both orders', () => {
+    const withoutYear = [makeAnime('B'), makeAnime('A', { year: 2000 }), makeAnime('C')];
+    const withYear = [makeAnime('D', { year: 1990 }), ...withoutYear];
+
+    expect(ids(queryAnime(withYear, { sortBy: 'year' }))).toEqual(['D', 'A', 'B', 'C']);
+    expect(ids(queryAnime(withYear, { sortBy: 'year', sortOrder: 'desc' }))).toEqual([
+      'A',
+      'D',
+      'B',
+      'C',
+    ]);
+  });
+
+  it('should break ties by ID whatever the input and sort order', () => {
+    const tied = ['c', 'a', 'b'].map((id) => makeAnime(id, { year: 2000 }));
+
+    expect(ids(queryAnime(tied, { sortBy: 'year' }))).toEqual(['a', 'b', 'c']);
+    expect(ids(queryAnime(tied.reverse(), { sortBy: 'year', sortOrder: 'desc' }))).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+
+  it('should keep the cursor position when anime are added between pages', () => {
+    const query = { sortBy: 'year' as const, limit: 2 };
+    const first = queryAnime(anime, query);
+    expect(ids(first)).toEqual(['Cowboy Bebop', 'Trigun']);
+
+    // One anime sorts before the cursor, the other after it
+    const added = [
+      ...anime,
+      makeAnime('Akira', { year: 1988 }),
+      makeAnime('Mob Psycho 100', { year: 2016 }),
+    ];
+    const second = queryAnime(added, { ...query, cursor: first.nextCursor });
+    const third = queryAnime(added, { ...query, cursor: second.nextCursor });
+
+    expect(second.total).toBe(6);
+    expect(ids(second)).toEqual(['Kimi no Na wa.', 'Mob Psycho 100']);
+    expect(ids(third)).toEqual(['Frieren']);
+  });
+
+  it('should page through anime missing the sort key', () => {
+    const query = { sortBy: 'episodes' as const, limit: 1 };
+    const cursors: (string | undefined)[] = [undefined];
+    const seen: string[] = [];
+
+    do {
+      const page = queryAnime(anime, { ...query, cursor: cursors[cursors.length - 1] });
+      seen.push(...ids(page));
+      cursors.push(page.nextCursor);
+    } while (cursors[cursors.length - 1]);
+
+    expect(seen).toEqual(['Kimi no Na wa.', 'Cowboy Bebop', 'Trigun', 'Frieren']);
+  });
+
+  it('should reject malformed cursors and limits', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    expect(() => queryAnime(anime, { cursor: 'not-a-cursor' })).toThrow(ValidationError);
+    expect(() => queryAnime(anime, { cursor: encode({ id: 'x' }) })).toThrow(ValidationError);
+    expect(() => queryAnime(anime, { cursor: encode([1, 2]) })).toThrow(ValidationError);
+    expect(() => queryAnime(anime, { cursor: encode([true, 'x']) })).toThrow(ValidationError);
+    expect(() => queryAnime(anime, { cursor: encode([null, 'x']) })).not.toThrow();
+    expect(() => queryAnime(anime, { limit: 0 })).toThrow(ValidationError);
+    expect(() => queryAnime(anime, { limit: 1.5 })).toThrow(ValidationError);
+  });
+});
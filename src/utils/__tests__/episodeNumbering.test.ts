@@ -0,0 +1,129 @@
+import { fromAbsoluteEpisode, fromSeasonEpisode, matchReleaseEpisodes } from '../episodeNumbering';
+import { AnimeSeason, Episode, EpisodeType } from '../../models/Episode';
+
+function makeSeason(
+  seasonNumber: number,
+  episodeCount: number,
+  episodeOffset: number,
+  absoluteEpisodeOffset?: number
+): AnimeSeason {
+  return {
+    id: `season-${seasonNumber}`,
+    animeId: 'anime',
+    seasonNumber,
+    episodeCount,
+    episodeOffset,
+    absoluteEpisodeOffset,
+    externalIds: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('episode numbering', () => {
+  // Third season entry split in two cours, after 37 episodes of prequels
+  const seasons = [makeSeason(3, 12, 0, 37), makeSeason(4, 10, 12, 49)];
+
+  it('should resolve season-relative episodes', () => {
+    expect(fromSeasonEpisode(seasons, 4, 2)).toEqual({
+      seasonNumber: 4,
+      seasonEpisodeNumber: 2,
+      number: 14,
+      absoluteNumber: 51,
+    });
+    expect(fromSeasonEpisode(seasons, 4, 11)).toBeUndefined();
+    expect(fromSeasonEpisode(seasons, 1, 1)).toBeUndefined();
+  });
+
+  it('should resolve absolute episodes', () => {
+    expect(fromAbsoluteEpisode(seasons, 38)).toEqual({
+      seasonNumber: 3,
+      seasonEpisodeNumber: 1,
+      number: 1,
+      absoluteNumber: 38,
+    });
+    expect(fromAbsoluteEpisode(seasons, 50)?.number).toBe(13);
+    expect(fromAbsoluteEpisode(seasons, 37)).toBeUndefined();
+    expect(fromAbsoluteEpisode(seasons, 60)).toBeUndefined();
+  });
+
+  it('should number within the anime when prequel episode counts are unknown', () => {
+    const unknownPrequels = [makeSeason(2, 12, 0), makeSeason(3, 12, 12)];
+
+    expect(fromAbsoluteEpisode(unknownPrequels, 13)).toEqual({
+      seasonNumber: 3,
+      seasonEpisodeNumber: 1,
+      number: 13,
+      absoluteNumber: undefined,
+    });
+  });
+});
+
+describe('matchReleaseEpisodes', () => {
+  // Sequel entry with 22 episodes in two cours, after 37 episodes of prequels
+  const seasons = [makeSeason(3, 12, 0, 37), makeSeason(4, 10, 12, 49)];
+  const episodes: Episode[] = Array.from({ length: 22 }, (_, i) => ({
+    id: `ep-${i + 1}`,
+    animeId: 'anime',
+    number: i + 1,
+    externalIds: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }));
+  const numbers = (matched: Episode[]): number[] => matched.map((e) => e.number);
+
+  it('should match the anime numbering first', () => {
+    expect(numbers(matchReleaseEpisodes({ episodeNumber: 5 }, episodes, seasons))).toEqual([5]);
+    expect(
+      numbers(matchReleaseEpisodes({ episodeRange: { start: 1, end: 12 } }, episodes, seasons))
+    ).toHaveLength(12);
+  });
+
+  it('should convert season-relative numbers', () => {
+    expect(
+      numbers(matchReleaseEpisodes({ seasonNumber: 4, episodeNumber: 5 }, episodes, seasons))
+    ).toEqual([17]);
+    expect(
+      numbers(
+        matchReleaseEpisodes(
+          { seasonNumber: 4, episodeRange: { start: 1, end: 10 } },
+          episodes,
+          seasons
+        )
+      )
+    ).toEqual([13, 14, 15, 16, 17, 18, 19, 20, 21, 22]);
+    expect(matchReleaseEpisodes({ seasonNumber: 2, episodeNumber: 5 }, episodes, seasons)).toEqual(
+      []
+    );
+  });
+
+  it('should not match season-relative numbers outside the season', () => {
+    expect(matchReleaseEpisodes({ seasonNumber: 3, episodeNumber: 13 }, episodes, seasons)).toEqual(
+      []
+    );
+    expect(
+      matchReleaseEpisodes(
+        { seasonNumber: 3, episodeRange: { start: 10, end: 14 } },
+        episodes,
+        seasons
+      )
+    ).toEqual([]);
+  });
+
+  it('should convert absolute numbers', () => {
+    expect(numbers(matchReleaseEpisodes({ episodeNumber: 50 }, episodes, seasons))).toEqual([13]);
+    expect(
+      numbers(matchReleaseEpisodes({ episodeRange: { start: 38, end: 49 } }, episodes, seasons))
+    ).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+
+  it('should skip specials and trust only first-season labels without a layout', () => {
+    const special = { ...episodes[0], id: 'special', type: EpisodeType.SPECIAL };
+
+    expect(matchReleaseEpisodes({ episodeNumber: 1 }, [special], seasons)).toEqual([]);
+    expect(
+      numbers(matchReleaseEpisodes({ seasonNumber: 1, episodeNumber: 3 }, episodes, []))
+    ).toEqual([3]);
+    expect(matchReleaseEpisodes({ seasonNumber: 2, episodeNumber: 3 }, episodes, [])).toEqual([]);
+  });
+});
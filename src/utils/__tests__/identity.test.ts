@@ -0,0 +1,88 @@
+import { foldName, matchExternalIds, unifyRecords } from '../identity';
+import { DataSource } from '../../types/common';
+
+describe('matchExternalIds', () => {
+  it('should match records sharing an ID', () => {
+    expect(
+      matchExternalIds(
+        [
+          { source: DataSource.ANILIST, id: '1' },
+          { source: DataSource.KITSU, id: '5' },
+        ],
+        [{ source: DataSource.KITSU, id: '5' }]
+      )
+    ).toBe(true);
+  });
+
+  it('should keep records with different IDs from the same source apart', () => {
+    expect(
+      matchExternalIds(
+        [{ source: DataSource.ANILIST, id: '1' }],
+        [{ source: DataSource.ANILIST, id: '2' }]
+      )
+    ).toBe(false);
+  });
+
+  it('should prefer a shared ID over a conflicting one', () => {
+    expect(
+      matchExternalIds(
+        [
+          { source: DataSource.ANILIST, id: '1' },
+          { source: DataSource.KITSU, id: '5' },
+        ],
+        [
+          { source: DataSource.ANILIST, id: '2' },
+          { source: DataSource.KITSU, id: '5' },
+        ]
+      )
+    ).toBe(true);
+  });
+
+  it('should leave records without comparable IDs undecided', () => {
+    expect(
+      matchExternalIds(
+        [{ source: DataSource.ANILIST, id: '1' }],
+        [{ source: DataSource.KITSU, id: '1' }]
+      )
+    ).toBeUndefined();
+    expect(matchExternalIds([], [])).toBeUndefined();
+  });
+});
+
+describe('unifyRecords', () => {
+  it('should fold each record into the first matching record, keeping order', () => {
+    const records = [
+      { name: 'a', count: 1 },
+      { name: 'b', count: 1 },
+      { name: 'a', count: 2 },
+      { name: 'c', count: 1 },
+      { name: 'a', count: 3 },
+    ];
+
+    const unified = unifyRecords(
+      records,
+      (x, y) => x.name === y.name,
+      (target, source) => ({ ...target, count: target.count + source.count })
+    );
+
+    expect(unified).toEqual([
+      { name: 'a', count: 6 },
+      { name: 'b', count: 1 },
+      { name: 'c', count: 1 },
+    ]);
+  });
+});
+
+describe('foldName', () => {
+  it('should fold case, accents and long vowel spellings', () => {
+    expect(foldName('Kōkaku Kidōtai')).toBe('kokaku kidotai');
+    expect(foldName('Koukaku Kidoutai')).toBe('kokaku kidotai');
+    expect(foldName('Yuuki Kajiura')).toBe('yuki kajiura');
+    expect(foldName('Pokémon')).toBe('pokemon');
+  });
+
+  it('should leave punctuation, spacing and kana untouched', () => {
+    expect(foldName('Re:Zero')).toBe('re:zero');
+    expect(foldName('ガンダム')).toBe('ガンダム');
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  normalizeScore,
+  calculateAggregateScore,
+  getAggregateScore,
+  sortByAggregateScore,
+} from '../ratings';
+import { DataSource } from '../../types/common';
+import { makeAnime } from '../../../tests/helpers/fixtures';
+
+describe('Rating utilities', () => {
+  describe('normalizeScore', () => {
+    it('should convert provider scales to 0-10', () => {
+      expect(normalizeScore(8.54, DataSource.MYANIMELIST)).toBe(8.54);
+      expect(normalizeScore(85, DataSource.ANILIST)).toBe(8.5);
+      expect(normalizeScore('82.47', DataSource.KITSU)).toBe(8.25);
+      expect(normalizeScore('82.47%', DataSource.KITSU)).toBe(8.25);
+    });
+
+    it('should return undefined for missing or unrated scores', () => {
+      expect(normalizeScore(undefined, DataSource.MYANIMELIST)).toBeUndefined();
+      expect(normalizeScore(null, DataSource.ANILIST)).toBeUndefined();
+      expect(normalizeScore('', DataSource.KITSU)).toBeUndefined();
+      expect(normalizeScore('n/a', DataSource.KITSU)).toBeUndefined();
+      expect(normalizeScore(0, DataSource.ANILIST)).toBeUndefined();
+    });
+
+    it('should clamp scores above the scale', () => {
+      expect(normalizeScore(120, DataSource.ANILIST)).toBe(10);
+    });
+  });
+
+  describe('calculateAggregateScore', () => {
+    it('should weight scores by votes', () => {
+      const score = calculateAggregateScore([
+        { source: DataSource.MYANIMELIST, score: 9, votes: 3000 },
+        { source: DataSource.KITSU, score: 7, votes: 1000 },
+      ]);
+
+      expect(score).toBe(8.5);
+    });
+
+    it('should use a plain average when no votes are reported', () => {
+      const score = calculateAggregateScore([
+        { source: DataSource.MYANIMELIST, score: 9 },
+        { source: DataSource.KITSU, score: 8 },
+      ]);
+
+      expect(score).toBe(8.5);
+    });
+
+    it('should weight ratings without votes like the average rating with votes', () => {
+      const score = calculateAggregateScore([
+        { source: DataSource.MYANIMELIST, score: 9, votes: 3000 },
+        { source: DataSource.KITSU, score: 7, votes: 1000 },
+        { source: DataSource.ANIDB, score: 6 },
+      ]);
+
+      // AniDB weighs 2000 votes: (9 * 3000 + 7 * 1000 + 6 * 2000) / 6000
+      expect(score).toBe(7.67);
+    });
+
+    it('should ignore ratings without a score', () => {
+      expect(
+        calculateAggregateScore([
+          { source: DataSource.MYANIMELIST, votes: 100 },
+          { source: DataSource.ANILIST, score: 7.2, votes: 10 },
+        ])
+      ).toBe(7.2);
+      expect(calculateAggregateScore([])).toBeUndefined();
+    });
+  });
+
+  describe('sortByAggregateScore', () => {
+    it('should sort highest first with unscored anime last', () => {
+      const sorted = sortByAggregateScore([
+        makeAnime('unscored'),
+        makeAnime('low', { aggregateScore: 6.1 }),
+        makeAnime('computed', { ratings: [{ source: DataSource.ANILIST, score: 7.5 }] }),
+        makeAnime('high', { aggregateScore: 8.9 }),
+      ]);
+
+      expect(sorted.map((a) => a.id)).toEqual(['high', 'computed', 'low', 'unscored']);
+    });
+
+    it('should prefer the stored aggregate score', () => {
+      const anime = makeAnime('a', {
+        aggregateScore: 9,
+        ratings: [{ source: DataSource.ANILIST, score: 5 }],
+      });
+
+      expect(getAggregateScore(anime)).toBe(9);
+    });
+  });
+});
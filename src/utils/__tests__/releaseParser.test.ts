@@ -0,0 +1,195 @@
+import { parseRelease } from '../releaseParser';
+import {
+  AudioCodec,
+  HdrFormat,
+  ReleaseSource,
+  TorrentCodec,
+  TorrentLanguage,
+  TorrentQuality,
+  TorrentReleaseType,
+} from '../../models/Torrent';
+
+describe('release parser', () => {
+  it('should parse fansub releases', () => {
+    expect(
+      parseRelease('[SubsPlease] Sousou no Frieren - 05v2 (1080p) [A1B2C3D4].mkv')
+    ).toMatchObject({
+      releaseGroup: 'SubsPlease',
+      title: 'Sousou no Frieren',
+      episodeNumber: 5,
+      version: 2,
+      resolution: '1080p',
+      quality: TorrentQuality.FULL_HD_1080p,
+      checksum: 'A1B2C3D4',
+      extension: 'mkv',
+      releaseType: TorrentReleaseType.EPISODE,
+    });
+  });
+
+  it('should parse scene-style names with episode titles and a group suffix', () => {
+    expect(
+      parseRelease('Frieren.S01E05.Phantoms.of.the.Dead.1080p.WEB-DL.AAC2.0.H.264-VARYG')
+    ).toMatchObject({
+      releaseGroup: 'VARYG',
+      title: 'Frieren',
+      seasonNumber: 1,
+      episodeNumber: 5,
+      episodeTitle: 'Phantoms of the Dead',
+      source: ReleaseSource.WEB_DL,
+      audioCodecs: [AudioCodec.AAC],
+      codec: TorrentCodec.H264,
+    });
+  });
+
+  it('should parse file paths with underscores', () => {
+    expect(parseRelease('/media/anime/[Group]_Kimi_no_Na_wa_-_07_[720p].mp4')).toMatchObject({
+      releaseGroup: 'Group',
+      title: 'Kimi no Na wa',
+      episodeNumber: 7,
+      extension: 'mp4',
+    });
+  });
+
+  it('should parse seasons and episode titles', () => {
+    expect(parseRelease('[Erai-raws] Shingeki no Kyojin S3 - 05 [720p]')).toMatchObject({
+      title: 'Shingeki no Kyojin',
+      seasonNumber: 3,
+      episodeNumber: 5,
+    });
+    expect(parseRelease('Kimetsu no Yaiba 2nd Season - 03 - Hashira [1080p]')).toMatchObject({
+      title: 'Kimetsu no Yaiba',
+      seasonNumber: 2,
+      episodeNumber: 3,
+      episodeTitle: 'Hashira',
+    });
+    expect(parseRelease('[ASW] 86 - Eighty Six - 05 [1080p HEVC]')).toMatchObject({
+      title: '86 - Eighty Six',
+      episodeNumber: 5,
+      codec: TorrentCodec.HEVC,
+    });
+  });
+
+  it('should parse multi-episode releases and batches', () => {
+    expect(parseRelease('Show.S02E01-E02.1080p.WEB.x265-GRP')).toMatchObject({
+      seasonNumber: 2,
+      episodeRange: { start: 1, end: 2 },
+      source: ReleaseSource.WEB,
+      codec: TorrentCodec.HEVC,
+    });
+
+    const batch = parseRelease(
+      '[Judas] Mob Psycho 100 (Season 2) [BD 1080p][HEVC x265 10bit][Dual-Audio][Eng-Subs] (Batch)'
+    );
+    expect(batch).toMatchObject({
+      releaseGroup: 'Judas',
+      title: 'Mob Psycho 100',
+      seasonNumber: 2,
+      source: ReleaseSource.BLURAY,
+      releaseType: TorrentReleaseType.BATCH,
+      isBatch: true,
+      isDual: true,
+      audioLanguages: [TorrentLanguage.JAPANESE, TorrentLanguage.ENGLISH],
+      subtitleLanguages: [TorrentLanguage.ENGLISH],
+    });
+    expect(batch.episodeNumber).toBeUndefined();
+
+    expect(parseRelease('[Group] Title (01-12) [1080p]')).toMatchObject({
+      episodeRange: { start: 1, end: 12 },
+      releaseType: TorrentReleaseType.BATCH,
+    });
+  });
+
+  it('should read bracketed titles, episodes and years', () => {
+    expect(parseRelease('[Group][Title][01][1080p]')).toMatchObject({
+      releaseGroup: 'Group',
+      title: 'Title',
+      episodeNumber: 1,
+    });
+
+    const movie = parseRelease('Akira (1988) [BDRip 1080p x264 FLAC]');
+    expect(movie).toMatchObject({ title: 'Akira', year: 1988, audioCodecs: [AudioCodec.FLAC] });
+    expect(movie.episodeNumber).toBeUndefined();
+  });
+
+  it('should detect audio codecs and languages', () => {
+    const release = parseRelease(
+      '[Group] Title - 03 [BD 1080p E-AC-3 DTS-HD][Multi-Subs][Hardsub]'
+    );
+
+    expect(release.audioCodecs).toEqual([AudioCodec.EAC3, AudioCodec.DTS]);
+    expect(release.subtitleLanguages).toEqual([TorrentLanguage.MULTI]);
+    expect(release.isMultiSub).toBe(true);
+    expect(release.hasHardSubs).toBe(true);
+    expect(parseRelease('Title - 01 [720p AC3]').audioCodecs).toEqual([AudioCodec.AC3]);
+  });
+
+  it('should detect bit depth and HDR formats', () => {
+    expect(parseRelease('Title.S01E01.2160p.WEB-DL.DV.HDR10.10bit.x265-GRP')).toMatchObject({
+      resolution: '2160p',
+      quality: TorrentQuality.UHD_4K,
+      bitDepth: 10,
+      hdrFormats: [HdrFormat.DOLBY_VISION, HdrFormat.HDR10],
+    });
+    expect(parseRelease('[Group] Title - 01 [1080p Hi10P HDR]')).toMatchObject({
+      bitDepth: 10,
+      hdrFormats: [HdrFormat.HDR],
+    });
+    expect(parseRelease('Title - 01 [2160p HDR10+]').hdrFormats).toEqual([HdrFormat.HDR10_PLUS]);
+  });
+
+  it('should keep the defaults for unlabelled releases', () => {
+    expect(parseRelease('Test Anime - 01')).toMatchObject({
+      title: 'Test Anime',
+      episodeNumber: 1,
+      quality: TorrentQuality.UNKNOWN,
+      codec: TorrentCodec.UNKNOWN,
+      audioLanguages: [TorrentLanguage.JAPANESE],
+      subtitleLanguages: [TorrentLanguage.ENGLISH],
+      source: ReleaseSource.UNKNOWN,
+      audioCodecs: [],
+      hdrFormats: [],
+      releaseType: TorrentReleaseType.EPISODE,
+    });
+  });
+
+  it.each([
+    [
+      '[Group] Title - 01 [BD1080p]',
+      {
+        releaseGroup: 'Group',
+        episodeNumber: 1,
+        resolution: '1080p',
+        source: ReleaseSource.BLURAY,
+      },
+    ],
+    ['Title - 02 (WEB720p AAC)', { resolution: '720p', source: ReleaseSource.WEB }],
+    ['Title - 03 [BDRip1920x1080]', { resolution: '1080p', source: ReleaseSource.BLURAY }],
+    ['[Some-Group] Title - 04 [480p]', { releaseGroup: 'Some-Group', resolution: '480p' }],
+    ['Title - 05 [4K]', { resolution: '2160p', quality: TorrentQuality.UHD_4K }],
+    ['[Group] Title - 06 [0A1B2C3D]', { checksum: '0A1B2C3D', episodeNumber: 6 }],
+    ['[Group] Title - 07 [deadbeef]', { checksum: 'DEADBEEF' }],
+    ['[Group] Title - 08v2 [1080p]', { episodeNumber: 8, version: 2 }],
+    ['[Group] Title - 09 [v3][720p]', { episodeNumber: 9, version: 3 }],
+    ['Title.S01E10v2.1080p.WEB-DL-GRP', { seasonNumber: 1, episodeNumber: 10, version: 2 }],
+    ['Title - 11 [Blu-ray 1080p]', { source: ReleaseSource.BLURAY }],
+    ['Title - 12 [1080p WEB-DL]', { source: ReleaseSource.WEB_DL }],
+    ['Title - 13 [1080p WEBRip]', { source: ReleaseSource.WEBRIP }],
+    ['Title - 14 [HDTV 720p]', { source: ReleaseSource.HDTV }],
+    ['Title - 15 [DVDRip 480p]', { source: ReleaseSource.DVD }],
+    ['Title - 16 [1080p FLAC Opus]', { audioCodecs: [AudioCodec.FLAC, AudioCodec.OPUS] }],
+    ['Title.S01E17.1080p.WEB-DL.DDP5.1.H.264-GRP', { audioCodecs: [AudioCodec.EAC3] }],
+    ['Title - 18 [BD 1080p TrueHD]', { audioCodecs: [AudioCodec.TRUEHD] }],
+    ['Title - 19 - The Last Stand [1080p]', { episodeNumber: 19, episodeTitle: 'The Last Stand' }],
+    ['Title - 20 - Final [1080p]', { episodeNumber: 20, episodeTitle: undefined }],
+    ['[Group] Title - 21 - Departure (1080p)', { episodeNumber: 21, episodeTitle: 'Departure' }],
+    ['Title - 01-12 [1080p]', { episodeRange: { start: 1, end: 12 }, episodeNumber: undefined }],
+    ['Title - 01 ~ 24 [720p]', { episodeRange: { start: 1, end: 24 } }],
+    ['[Group] Title [E01-E13][1080p]', { episodeRange: { start: 1, end: 13 } }],
+    ['Title Ep05-08 [1080p]', { episodeRange: { start: 5, end: 8 } }],
+  ])('should parse %s', (name, expected) => {
+    const release = parseRelease(name);
+    for (const [key, value] of Object.entries(expected)) {
+      expect(release[key as keyof typeof release]).toEqual(value);
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import { GenreTaxonomy } from '../taxonomy';
+import { ValidationError } from '../errors';
+import { DataSource } from '../../types/common';
+
+describe('GenreTaxonomy', () => {
+  let taxonomy: GenreTaxonomy;
+
+  beforeEach(() => {
+    taxonomy = new GenreTaxonomy();
+  });
+
+  describe('resolve', () => {
+    it('should resolve canonical terms ignoring case and separators', () => {
+      expect(taxonomy.resolve('slice-of-life')).toEqual({
+        name: 'Slice of Life',
+        category: 'genre',
+      });
+      expect(taxonomy.resolve('SCI-FI')?.name).toBe('Sci-Fi');
+    });
+
+    it('should resolve common aliases', () => {
+      expect(taxonomy.resolve('Science Fiction')?.name).toBe('Sci-Fi');
+      expect(taxonomy.resolve('Thriller')?.name).toBe('Suspense');
+      expect(taxonomy.resolve('Shonen')).toEqual({ name: 'Shounen', category: 'demographic' });
+    });
+
+    it('should apply provider-specific aliases only for that provider', () => {
+      expect(taxonomy.resolve('Female Harem', DataSource.ANILIST)?.name).toBe('Harem');
+      expect(taxonomy.resolve('Female Harem', DataSource.KITSU)).toBeUndefined();
+    });
+
+    it('should return undefined for unknown terms', () => {
+      expect(taxonomy.resolve('Earth')).toBeUndefined();
+    });
+  });
+
+  describe('classify', () => {
+    it('should normalize and deduplicate near-duplicate terms', () => {
+      const result = taxonomy.classify({
+        genres: ['Sci-Fi', 'Science Fiction', 'Slice of Life', 'Slice-of-Life'],
+      });
+
+      expect(result.genres).toEqual(['Sci-Fi', 'Slice of Life']);
+    });
+
+    it('should move terms to their canonical category', () => {
+      const result = taxonomy.classify(
+        { genres: ['Action', 'Mecha'], themes: ['Shounen', 'Military'] },
+        DataSource.ANILIST
+      );
+
+      expect(result).toEqual({
+        genres: ['Action'],
+        themes: ['Mecha', 'Military'],
+        demographics: ['Shounen'],
+      });
+    });
+
+    it('should keep unknown terms in the category they were reported under', () => {
+      const result = taxonomy.classify({ themes: ['Earth', 'Comedy'] }, DataSource.KITSU);
+
+      expect(result.genres).toEqual(['Comedy']);
+      expect(result.themes).toEqual(['Earth']);
+    });
+  });
+
+  describe('runtime extension', () => {
+    it('should accept new terms and aliases', () => {
+      taxonomy.addTerm('Tokusatsu', 'genre');
+      taxonomy.addAlias('Toku', 'Tokusatsu');
+      taxonomy.addAlias('Idol', 'Idols (Female)', DataSource.KITSU);
+
+      expect(taxonomy.classify({ themes: ['Toku'] }).genres).toEqual(['Tokusatsu']);
+      expect(taxonomy.resolve('Idol', DataSource.KITSU)?.name).toBe('Idols (Female)');
+      expect(taxonomy.getTerms('genre')).toContain('Tokusatsu');
+    });
+
+    it('should reject aliases to unknown terms', () => {
+      expect(() => taxonomy.addAlias('Foo', 'Bar')).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { normalizeTitle, rankByTitle, scoreTitleMatch, scoreTitles } from '../titleSearch';
+import { makeAnime } from '../../../tests/helpers/fixtures';
+
+describe('title search', () => {
+  const anime = [
+    makeAnime('1', {
+      title: {
+        romaji: 'Kimetsu no Yaiba',
+        english: 'Demon Slayer: Kimetsu no Yaiba',
+        native: '鬼滅の刃',
+      },
+    }),
+    makeAnime('2', { title: { romaji: 'Koukaku Kidoutai', english: 'Ghost in the Shell' } }),
+    makeAnime('3', { title: { romaji: 'Steins;Gate', native: 'シュタインズ・ゲート' } }),
+    makeAnime('4', { title: { romaji: 'Pokémon', synonyms: ['Pocket Monsters'] } }),
+    makeAnime('5', 'Shingeki no Kyojin Season 2'),
+    makeAnime('6', 'Shingeki no Kyojin Season 3'),
+  ];
+
+  describe('normalizeTitle', () => {
+    it('should fold case, accents, punctuation and full-width characters', () => {
+      expect(normalizeTitle('Re:Zero kara Hajimeru Isekai Seikatsu')).toBe(
+        're zero kara hajimeru isekai seikatsu'
+      );
+      expect(normalizeTitle('Pokémon')).toBe('pokemon');
+      expect(normalizeTitle('ＳＴＥＩＮＳ；ＧＡＴＥ')).toBe('steins gate');
+    });
+
+    it('should fold long vowel spellings and kana', () => {
+      expect(normalizeTitle('Kōkaku Kidōtai')).toBe(normalizeTitle('Koukaku Kidoutai'));
+      expect(normalizeTitle('Yuuki')).toBe(normalizeTitle('Yūki'));
+      expect(normalizeTitle('シュタインズ・ゲート')).toBe(normalizeTitle('しゅたいんず げーと'));
+    });
+
+    it('should fold every macron vowel and doubled spelling', () => {
+      expect(normalizeTitle('Ōkami')).toBe('okami');
+      expect(normalizeTitle('Ookami')).toBe('okami');
+      expect(normalizeTitle('Ookami to Koushinryou')).toBe('okami to koshinryo');
+      expect(normalizeTitle('Shūmatsu')).toBe(normalizeTitle('Shuumatsu'));
+      expect(normalizeTitle('Ā Ē Ī')).toBe('a e i');
+      expect(normalizeTitle('KŌKAKU')).toBe('kokaku');
+    });
+
+    it('should fold katakana to hiragana but keep the long vowel mark', () => {
+      expect(normalizeTitle('カウボーイビバップ')).toBe('かうぼーいびばっぷ');
+      expect(normalizeTitle('ｶｳﾎﾞｰｲ')).toBe('かうぼーい');
+      expect(normalizeTitle('鬼滅の刃')).toBe('鬼滅の刃');
+    });
+
+    it('should collapse punctuation and whitespace', () => {
+      expect(normalizeTitle('  Steins;Gate 0 -- ')).toBe('steins gate 0');
+      expect(normalizeTitle('Fate/stay night [UBW]')).toBe('fate stay night ubw');
+      expect(normalizeTitle('...')).toBe('');
+    });
+  });
+
+  describe('scoreTitles', () => {
+    it('should return the best scoring title', () => {
+      expect(scoreTitles('ghost in the shell', ['Koukaku Kidoutai', 'Ghost in the Shell'])).toEqual(
+        { score: 1, title: 'Ghost in the Shell' }
+      );
+      expect(scoreTitles('frieren', [])).toEqual({ score: 0, title: '' });
+      expect(scoreTitles('---', ['Frieren'])).toEqual({ score: 0, title: '' });
+    });
+
+    it('should match across macrons, ou spellings and kana', () => {
+      expect(scoreTitles('Koukaku Kidoutai', ['Kōkaku Kidōtai']).score).toBe(1);
+      expect(scoreTitles('okami', ['Ookami Kodomo']).score).toBeGreaterThan(0.85);
+      expect(scoreTitles('カウボーイ', ['かうぼーいびばっぷ']).score).toBeGreaterThan(0.85);
+    });
+
+    it('should score substrings higher at the start of a word', () => {
+      const wordStart = scoreTitles('kyojin', ['Shingeki no Kyojin']).score;
+      const inner = scoreTitles('ojin', ['Shingeki no Kyojin']).score;
+
+      expect(wordStart).toBeGreaterThanOrEqual(0.85);
+      expect(inner).toBeGreaterThanOrEqual(0.75);
+      expect(inner).toBeLessThan(wordStart);
+    });
+
+    it('should tolerate skipped words', () => {
+      const skipped = scoreTitles('kimetsu yaiba', ['Kimetsu no Yaiba']);
+
+      expect(skipped.title).toBe('Kimetsu no Yaiba');
+      expect(skipped.score).toBeGreaterThanOrEqual(0.8);
+      expect(scoreTitles('kimetsu yaiba', ['Kimetsu no Kyojin']).score).toBeLessThan(0.8);
+      expect(scoreTitles('shingeki kyo', ['Shingeki no Kyojin']).score).toBe(0.8);
+    });
+
+    it('should require every number in the query', () => {
+      const titles = ['Shingeki no Kyojin Season 2'];
+
+      expect(scoreTitles('shingeki no kyojin season 3', titles).score).toBe(0);
+      expect(scoreTitles('shingeki season 3', titles).score).toBe(0);
+      expect(scoreTitles('shingeki season 2', titles).score).toBeGreaterThanOrEqual(0.8);
+      expect(scoreTitles('mob psycho 100', ['Mob Psycho 100 II']).score).toBeGreaterThan(0.85);
+      expect(scoreTitles('mob psycho 2', ['Mob Psycho 100']).score).toBe(0);
+    });
+  });
+
+  describe('scoreTitleMatch', () => {
+    it('should score exact titles 1 and substrings below', () => {
+      expect(scoreTitleMatch('kimetsu no yaiba', anime[0])).toEqual({
+        score: 1,
+        title: 'Kimetsu no Yaiba',
+      });
+      const partial = scoreTitleMatch('demon slayer', anime[0]);
+      expect(partial.title).toBe('Demon Slayer: Kimetsu no Yaiba');
+      expect(partial.score).toBeGreaterThan(0.85);
+      expect(partial.score).toBeLessThan(1);
+    });
+
+    it('should tolerate skipped words and typos', () => {
+      expect(scoreTitleMatch('kimetsu yaiba', anime[0]).score).toBeGreaterThanOrEqual(0.8);
+      expect(scoreTitleMatch('kimetu no yaiba', anime[0]).score).toBeGreaterThan(0.9);
+      expect(scoreTitleMatch('ghost in teh shell', anime[1]).score).toBeGreaterThan(0.8);
+    });
+
+    it('should not match a different number', () => {
+      expect(scoreTitleMatch('shingeki season 3', anime[4]).score).toBe(0);
+      expect(scoreTitleMatch('', anime[0]).score).toBe(0);
+    });
+  });
+
+  describe('rankByTitle', () => {
+    it('should rank matches best first across titles, synonyms and scripts', () => {
+      expect(rankByTitle(anime, 'Kōkaku Kidōtai').map((m) => m.anime.id)).toEqual(['2']);
+      expect(rankByTitle(anime, 'しゅたいんず').map((m) => m.anime.id)).toEqual(['3']);
+      expect(rankByTitle(anime, 'pokemon').map((m) => m.title)).toEqual(['Pokémon']);
+      expect(rankByTitle(anime, 'pocket monster').map((m) => m.anime.id)).toEqual(['4']);
+      expect(rankByTitle(anime, 'shingeki no kyojin season 3').map((m) => m.anime.id)).toEqual([
+        '6',
+      ]);
+    });
+
+    it('should apply the limit and minimum score', () => {
+      const matches = rankByTitle(anime, 'shingeki no kyojin');
+
+      expect(matches.map((m) => m.anime.id)).toEqual(['5', '6']);
+      expect(rankByTitle(anime, 'shingeki no kyojin', { limit: 1 })).toHaveLength(1);
+      expect(rankByTitle(anime, 'kimetsu yaiba', { minScore: 0.9 })).toEqual([]);
+      expect(rankByTitle(anime, 'one piece')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import {
+  createDefaultScoringProfile,
+  preferQuality,
+  rankTorrents,
+  scoreTorrent,
+} from '../torrentScoring';
+import { ValidationError } from '../errors';
+import {
+  ReleaseSource,
+  Torrent,
+  TorrentCodec,
+  TorrentLanguage,
+  TorrentQuality,
+  TorrentReleaseType,
+} from '../../models/Torrent';
+
+const MiB = 1024 * 1024;
+
+function createTorrent(id: string, overrides: Partial<Torrent> = {}): Torrent {
+  return {
+    id,
+    nyaaId: id,
+    animeId: 'anime-1',
+    episodeNumber: 1,
+    title: `[Group] Test Anime - 01 [1080p]`,
+    category: '1_2',
+    magnetLink: 'magnet:?xt=urn:btih:' + id.repeat(40).slice(0, 40),
+    infoHash: id.repeat(40).slice(0, 40),
+    size: '1.0 GiB',
+    sizeBytes: 1024 * MiB,
+    seeders: 10,
+    leechers: 1,
+    downloads: 100,
+    publishedAt: new Date('2024-01-01'),
+    metadata: {
+      quality: TorrentQuality.FULL_HD_1080p,
+      codec: TorrentCodec.H264,
+      audioLanguages: [TorrentLanguage.JAPANESE],
+      subtitleLanguages: [TorrentLanguage.ENGLISH],
+      releaseType: TorrentReleaseType.EPISODE,
+      releaseGroup: 'Group',
+    },
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+  };
+}
+
+describe('torrent scoring', () => {
+  it('should score qualities by their position in the profile', () => {
+    const profile = { qualities: [TorrentQuality.FULL_HD_1080p, TorrentQuality.HD_720p] };
+    const hd = createTorrent('a', {
+      metadata: { ...createTorrent('a').metadata, quality: TorrentQuality.HD_720p },
+    });
+
+    expect(scoreTorrent(createTorrent('b'), profile).score).toBe(200);
+    expect(scoreTorrent(hd, { ...profile, qualityStep: 10 }).score).toBe(10);
+  });
+
+  it('should add matching rules to the score breakdown', () => {
+    const result = scoreTorrent(createTorrent('a', { trusted: true }), {
+      qualities: [TorrentQuality.FULL_HD_1080p],
+      rules: [
+        { name: 'Preferred group', score: 50, releaseGroups: ['group'] },
+        { name: 'HEVC', score: 30, codecs: [TorrentCodec.H265] },
+        { name: 'Trusted', score: 10, trusted: true },
+        { name: 'No WEB', score: -20, sources: [ReleaseSource.WEB] },
+      ],
+    });
+
+    expect(result.breakdown).toEqual([
+      { reason: 'Quality 1080p', score: 100 },
+      { reason: 'Preferred group', score: 50 },
+      { reason: 'Trusted', score: 10 },
+    ]);
+    expect(result.score).toBe(160);
+    expect(result.accepted).toBe(true);
+  });
+
+  it('should reject disallowed qualities, terms and scores', () => {
+    const result = scoreTorrent(createTorrent('a'), {
+      qualities: [TorrentQuality.HD_720p],
+      mustContain: ['/\\bBD\\b/i'],
+      mustNotContain: ['test'],
+      minScore: 50,
+    });
+
+    expect(result.accepted).toBe(false);
+    expect(result.rejections).toEqual([
+      'Quality 1080p is not allowed',
+      'Title contains none of: /\\bBD\\b/i',
+      'Title contains "test"',
+      'Score 0 is below the minimum of 50',
+    ]);
+  });
+
+  it('should compare batch sizes per episode', () => {
+    const batch = createTorrent('a', {
+      episodeRange: { start: 1, end: 12 },
+      sizeBytes: 12 * 300 * MiB,
+    });
+
+    expect(scoreTorrent(batch, { maxSize: 500 * MiB }).accepted).toBe(true);
+    expect(scoreTorrent(batch, { minSize: 500 * MiB }).rejections).toEqual([
+      'Size 300 MB per episode is below 500 MB',
+    ]);
+  });
+
+  it('should throw on invalid regex terms', () => {
+    expect(() => scoreTorrent(createTorrent('a'), { mustContain: ['/[/'] })).toThrow(
+      ValidationError
+    );
+  });
+
+  it('should accept titles containing any required term, plain or regex', () => {
+    const torrent = createTorrent('a', { title: '[Group] Test Anime - 01 (BD 1080p HEVC)' });
+
+    expect(scoreTorrent(torrent, { mustContain: ['WEB', 'hevc'] }).accepted).toBe(true);
+    expect(scoreTorrent(torrent, { mustContain: ['/\\bBD\\b/'] }).accepted).toBe(true);
+    expect(scoreTorrent(torrent, { mustContain: ['/\\bbd\\b/'] }).rejections).toEqual([
+      'Title contains none of: /\\bbd\\b/',
+    ]);
+  });
+
+  it('should reject each forbidden term found in the title', () => {
+    const torrent = createTorrent('a', { title: '[Group] Test Anime - 01 (Dub) [1080p] [v2]' });
+
+    expect(
+      scoreTorrent(torrent, { mustNotContain: ['DUB', '/\\[v\\d\\]/', 'raw'] }).rejections
+    ).toEqual(['Title contains "DUB"', 'Title contains "/\\[v\\d\\]/"']);
+  });
+
+  it('should match rule terms as plain text or regex', () => {
+    const torrent = createTorrent('a', { title: '[Group] Test Anime - 01 [1080p][Multi-Subs]' });
+
+    const result = scoreTorrent(torrent, {
+      qualities: [TorrentQuality.FULL_HD_1080p],
+      rules: [
+        { name: 'Multi subs', score: 15, terms: ['multi-subs'] },
+        { name: 'Dual audio', score: 25, terms: ['/dual[ .-]?audio/i'] },
+        { name: 'Group multi subs', score: 5, releaseGroups: ['GROUP'], terms: ['/multi/i'] },
+      ],
+    });
+
+    expect(result.breakdown).toEqual([
+      { reason: 'Quality 1080p', score: 100 },
+      { reason: 'Multi subs', score: 15 },
+      { reason: 'Group multi subs', score: 5 },
+    ]);
+  });
+
+  it('should throw on invalid regex terms in rules and forbidden terms', () => {
+    const torrent = createTorrent('a');
+
+    expect(() => scoreTorrent(torrent, { mustNotContain: ['/(/'] })).toThrow(ValidationError);
+    expect(() =>
+      scoreTorrent(torrent, { rules: [{ name: 'Broken', score: 1, terms: ['/+/'] }] })
+    ).toThrow('invalid regex /+/');
+  });
+
+  it('should reject batches whose size per episode is over the limit', () => {
+    const batch = createTorrent('a', {
+      episodeRange: { start: 1, end: 4 },
+      sizeBytes: 4 * 1536 * MiB,
+    });
+    const episode = createTorrent('b', { sizeBytes: 1536 * MiB });
+
+    expect(scoreTorrent(batch, { maxSize: 1024 * MiB }).rejections).toEqual([
+      'Size 1.5 GB per episode is above 1 GB',
+    ]);
+    expect(scoreTorrent(batch, { maxSize: 2048 * MiB }).accepted).toBe(true);
+    expect(scoreTorrent(episode, { maxSize: 1024 * MiB }).accepted).toBe(false);
+  });
+
+  it('should compare the minimum score with penalties applied', () => {
+    const profile = {
+      qualities: [TorrentQuality.FULL_HD_1080p],
+      rules: [{ name: 'H.264', score: -40, codecs: [TorrentCodec.H264] }],
+    };
+
+    expect(scoreTorrent(createTorrent('a'), { ...profile, minScore: 60 })).toMatchObject({
+      score: 60,
+      accepted: true,
+    });
+    expect(scoreTorrent(createTorrent('a'), { ...profile, minScore: 61 }).rejections).toEqual([
+      'Score 60 is below the minimum of 61',
+    ]);
+  });
+
+  it('should list quality, language and trusted bonuses of the default profile', () => {
+    const result = scoreTorrent(
+      createTorrent('a', { trusted: true }),
+      createDefaultScoringProfile(TorrentQuality.HD_720p)
+    );
+
+    expect(result.breakdown).toEqual([
+      { reason: 'Quality 1080p', score: 400 },
+      { reason: 'Preferred audio language', score: 20 },
+      { reason: 'Preferred subtitle language', score: 20 },
+      { reason: 'Trusted uploader', score: 10 },
+    ]);
+    expect(result.score).toBe(450);
+  });
+
+  it('should prefer a quality while keeping the rest of the profile', () => {
+    const profile = {
+      qualities: [TorrentQuality.FULL_HD_1080p, TorrentQuality.HD_720p],
+      rules: [{ name: 'Trusted', score: 10, trusted: true }],
+      maxSize: 2048 * MiB,
+    };
+
+    expect(preferQuality(profile, TorrentQuality.HD_720p)).toEqual({
+      ...profile,
+      qualities: [TorrentQuality.HD_720p, TorrentQuality.FULL_HD_1080p],
+    });
+    expect(preferQuality({}, TorrentQuality.SD_480p).qualities?.[0]).toBe(TorrentQuality.SD_480p);
+    expect(profile.qualities[0]).toBe(TorrentQuality.FULL_HD_1080p);
+  });
+
+  it('should rank accepted torrents first, then by score and seeders', () => {
+    const profile = createDefaultScoringProfile(TorrentQuality.HD_720p);
+    const sd = createTorrent('a', {
+      metadata: { ...createTorrent('a').metadata, quality: TorrentQuality.SD_480p },
+    });
+    const hd = createTorrent('b', {
+      metadata: { ...createTorrent('b').metadata, quality: TorrentQuality.HD_720p },
+    });
+    const fullHd = createTorrent('c', { seeders: 5 });
+    const popularFullHd = createTorrent('d', { seeders: 50 });
+    const oversized = createTorrent('e', { seeders: 500, sizeBytes: 8192 * MiB });
+
+    const ranked = rankTorrents([sd, fullHd, oversized, popularFullHd, hd], {
+      ...profile,
+      maxSize: 4096 * MiB,
+    });
+    expect(ranked.map((r) => r.torrent.id)).toEqual(['b', 'd', 'c', 'a', 'e']);
+    expect(ranked[4].accepted).toBe(false);
+  });
+});
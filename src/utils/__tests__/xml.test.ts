@@ -0,0 +1,28 @@
+import { parseXml, xmlChild, xmlChildren, xmlText } from '../xml';
+import { ValidationError } from '../errors';
+
+describe('parseXml', () => {
+  it('should parse elements, attributes, text and CDATA', () => {
+    const root = parseXml(`<?xml version="1.0"?>
+      <!-- comment -->
+      <anime id="1" title='Tom &amp; Jerry'>
+        <episode number="1"><title>A &lt;B&gt; &#67;&#x44;</title></episode>
+        <episode number="2" />
+        <summary><![CDATA[<b>bold</b>]]></summary>
+      </anime>`);
+
+    expect(root.name).toBe('anime');
+    expect(root.attributes).toEqual({ id: '1', title: 'Tom & Jerry' });
+    expect(xmlChildren(root, 'episode').map((e) => e.attributes.number)).toEqual(['1', '2']);
+    expect(xmlText(xmlChild(root, 'episode'), 'title')).toBe('A <B> CD');
+    expect(xmlText(root, 'summary')).toBe('<b>bold</b>');
+    expect(xmlText(root, 'missing')).toBeUndefined();
+  });
+
+  it('should reject malformed documents', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow(ValidationError);
+    expect(() => parseXml('<a>')).toThrow('Unclosed tag <a>');
+    expect(() => parseXml('<a></a><b></b>')).toThrow(ValidationError);
+    expect(() => parseXml('<a>1 < 2</a>')).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,149 @@
+import { Anime, AnimeQuery, AnimeQueryResult, AnimeSortField, NumberRange } from '../models/Anime';
+import { getAggregateScore } from './ratings';
+import { ValidationError } from './errors';
+
+/**
+ * Filtering, sorting and cursor pagination of anime for `IAnimeRepository.findByQuery`
+ * Cursors hold the sort key and ID of the last item, so pages stay consistent when
+ * anime are added or removed between requests
+ */
+
+const DEFAULT_LIMIT = 20;
+
+type SortKey = number | string | undefined;
+
+/**
+ * Check whether an anime matches the filters of a query (sorting and pagination are ignored)
+ */
+export function matchesAnimeQuery(anime: Anime, query: AnimeQuery): boolean {
+  if (query.title) {
+    const term = query.title.toLowerCase();
+    const titles = [anime.title.romaji, anime.title.english, anime.title.native]
+      .concat(anime.title.synonyms || [])
+      .filter((t): t is string => !!t);
+    if (!titles.some((t) => t.toLowerCase().includes(term))) return false;
+  }
+
+  if (query.genres && !includesAll(anime.genres, query.genres)) return false;
+  if (query.themes && !includesAll(anime.themes, query.themes)) return false;
+  if (query.types && !query.types.includes(anime.type)) return false;
+  if (query.statuses && !query.statuses.includes(anime.status)) return false;
+  if (query.season && anime.season !== query.season) return false;
+  if (query.ageRatings && (!anime.ageRating || !query.ageRatings.includes(anime.ageRating))) {
+    return false;
+  }
+
+  if (query.year !== undefined) {
+    const range =
+      typeof query.year === 'number' ? { min: query.year, max: query.year } : query.year;
+    if (!inRange(anime.year, range)) return false;
+  }
+  if (query.score && !inRange(getAggregateScore(anime), query.score)) return false;
+  if (query.episodes && !inRange(anime.episodes, query.episodes)) return false;
+
+  if (query.studio) {
+    const studio = query.studio.toLowerCase();
+    const credited =
+      anime.studios.some((name) => name.toLowerCase() === studio) ||
+      (anime.companies || []).some(
+        (company) => company.studioId === query.studio || company.name.toLowerCase() === studio
+      );
+    if (!credited) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Filter, sort and paginate anime
+ * Anime missing the sort field come last in both sort orders; ties are ordered by ID
+ *
+ * @throws {ValidationError} When the cursor is malformed
+ */
+export function queryAnime(anime: Anime[], query: AnimeQuery): AnimeQueryResult {
+  const sortBy = query.sortBy ?? 'createdAt';
+  const descending = (query.sortOrder ?? (sortBy === 'aggregateScore' ? 'desc' : 'asc')) === 'desc';
+  const limit = query.limit ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new ValidationError('must be a positive integer', 'limit');
+  }
+
+  const compare = (a: [SortKey, string], b: [SortKey, string]): number =>
+    compareKeys(a[0], b[0], descending) || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+  const matches = anime
+    .filter((entry) => matchesAnimeQuery(entry, query))
+    .map((entry) => ({
+      anime: entry,
+      key: [sortKey(entry, sortBy), entry.id] as [SortKey, string],
+    }))
+    .sort((a, b) => compare(a.key, b.key));
+
+  const after = query.cursor ? decodeCursor(query.cursor) : undefined;
+  const start = after ? matches.findIndex((entry) => compare(entry.key, after) > 0) : 0;
+  const page = start === -1 ? [] : matches.slice(start, start + limit);
+  const hasMore = start !== -1 && start + limit < matches.length;
+
+  return {
+    items: page.map((entry) => entry.anime),
+    total: matches.length,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1].key) : undefined,
+  };
+}
+
+function sortKey(anime: Anime, sortBy: AnimeSortField): SortKey {
+  switch (sortBy) {
+    case 'title':
+      return (anime.title.romaji ?? anime.title.english ?? anime.title.native)?.toLowerCase();
+    case 'year':
+      return anime.year;
+    case 'aggregateScore':
+      return getAggregateScore(anime);
+    case 'episodes':
+      return anime.episodes;
+    case 'createdAt':
+      return new Date(anime.createdAt).getTime();
+  }
+}
+
+function compareKeys(a: SortKey, b: SortKey, descending: boolean): number {
+  if (a === b) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+
+  const order =
+    typeof a === 'string' && typeof b === 'string' ? a.localeCompare(b) : a < b ? -1 : 1;
+  return descending ? -order : order;
+}
+
+function encodeCursor(key: [SortKey, string]): string {
+  return Buffer.from(JSON.stringify([key[0] ?? null, key[1]])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [SortKey, string] {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString()) as unknown[];
+    if (
+      typeof id === 'string' &&
+      (value === null || typeof value === 'number' || typeof value === 'string')
+    ) {
+      return [value ?? undefined, id];
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ValidationError('malformed cursor', 'cursor');
+}
+
+function inRange(value: number | undefined, range: NumberRange): boolean {
+  if (value === undefined) return false;
+  return (
+    (range.min === undefined || value >= range.min) &&
+    (range.max === undefined || value <= range.max)
+  );
+}
+
+function includesAll(values: string[], required: string[]): boolean {
+  const lower = values.map((value) => value.toLowerCase());
+  return required.every((value) => lower.includes(value.toLowerCase()));
+}
@@ -0,0 +1,126 @@
+import { AnimeSeason, Episode, EpisodeType } from '../models/Episode';
+
+/**
+ * Conversions between season-relative and absolute episode numbers
+ * based on the offsets stored on detected seasons
+ */
+
+/**
+ * Position of an episode in every numbering scheme
+ */
+export interface EpisodeNumbering {
+  seasonNumber: number;
+  seasonEpisodeNumber: number;
+  number: number; // Episode.number within the anime
+  absoluteNumber?: number; // Across the franchise, when prequel episode counts are known
+}
+
+/**
+ * Resolve a season-relative episode (e.g. S02E05)
+ * Returns undefined when the season is unknown or has fewer episodes
+ */
+export function fromSeasonEpisode(
+  seasons: AnimeSeason[],
+  seasonNumber: number,
+  seasonEpisodeNumber: number
+): EpisodeNumbering | undefined {
+  const season = seasons.find((s) => s.seasonNumber === seasonNumber);
+  if (!season || !isInSeason(season, seasonEpisodeNumber)) return undefined;
+
+  return numbering(season, seasonEpisodeNumber);
+}
+
+/**
+ * Resolve an absolute episode number (e.g. episode 30 of a franchise)
+ * Seasons without an absolute offset are numbered within the anime
+ */
+export function fromAbsoluteEpisode(
+  seasons: AnimeSeason[],
+  absoluteNumber: number
+): EpisodeNumbering | undefined {
+  for (const season of seasons) {
+    const offset = season.absoluteEpisodeOffset ?? season.episodeOffset;
+    if (offset === undefined) continue;
+
+    const seasonEpisodeNumber = absoluteNumber - offset;
+    if (isInSeason(season, seasonEpisodeNumber)) {
+      return numbering(season, seasonEpisodeNumber);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Episode numbers a release refers to, as parsed from its title (e.g. a `Torrent`)
+ */
+export interface ReleaseNumbering {
+  seasonNumber?: number; // Season label; episode numbers are then relative to that season
+  episodeNumber?: number;
+  episodeRange?: { start: number; end: number };
+}
+
+/**
+ * Find the regular episodes a release covers, sorted by number
+ * Season-labelled numbers go through the season offsets; unlabelled numbers are taken as
+ * the anime's own numbering when those episodes exist, and as absolute numbers otherwise
+ */
+export function matchReleaseEpisodes(
+  release: ReleaseNumbering,
+  episodes: Episode[],
+  seasons: AnimeSeason[]
+): Episode[] {
+  const range =
+    release.episodeRange ??
+    (release.episodeNumber !== undefined
+      ? { start: release.episodeNumber, end: release.episodeNumber }
+      : undefined);
+  if (!range) return [];
+
+  const regular = episodes
+    .filter((episode) => (episode.type ?? EpisodeType.REGULAR) === EpisodeType.REGULAR)
+    .sort((a, b) => a.number - b.number);
+  const shifted = (shift: number): Episode[] =>
+    regular.filter(
+      (episode) => episode.number >= range.start + shift && episode.number <= range.end + shift
+    );
+
+  // Seasons created from release titles alone carry no offsets
+  const layout = seasons.filter((s) => s.episodeOffset !== undefined);
+
+  if (release.seasonNumber !== undefined) {
+    const season = layout.find((s) => s.seasonNumber === release.seasonNumber);
+    if (season) {
+      return isInSeason(season, range.start) && isInSeason(season, range.end)
+        ? shifted(season.episodeOffset!)
+        : [];
+    }
+
+    // Without a season layout only a first-season label matches the anime's own numbering
+    return layout.length === 0 && release.seasonNumber === 1 ? shifted(0) : [];
+  }
+
+  const exists = (number: number): boolean => regular.some((e) => e.number === number);
+  if (exists(range.start) && exists(range.end)) return shifted(0);
+
+  // Absolute numbers count the episodes of prequel entries before this anime
+  const reference = layout.find((s) => s.absoluteEpisodeOffset !== undefined);
+  return reference ? shifted(reference.episodeOffset! - reference.absoluteEpisodeOffset!) : [];
+}
+
+function isInSeason(season: AnimeSeason, seasonEpisodeNumber: number): boolean {
+  const count = season.episodeCount ?? season.episodes?.length;
+  return seasonEpisodeNumber >= 1 && (count === undefined || seasonEpisodeNumber <= count);
+}
+
+function numbering(season: AnimeSeason, seasonEpisodeNumber: number): EpisodeNumbering {
+  return {
+    seasonNumber: season.seasonNumber,
+    seasonEpisodeNumber,
+    number: (season.episodeOffset ?? 0) + seasonEpisodeNumber,
+    absoluteNumber:
+      season.absoluteEpisodeOffset !== undefined
+        ? season.absoluteEpisodeOffset + seasonEpisodeNumber
+        : undefined,
+  };
+}
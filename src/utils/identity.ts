@@ -0,0 +1,75 @@
+import { ExternalId } from '../types/common';
+
+/**
+ * Shared rules for telling whether records from several sources describe the same entity
+ * (anime, studios, characters, people) and folding them together
+ */
+
+/**
+ * Compare the external IDs of two records
+ * Returns true when they share an ID, false when they have different IDs from the same source
+ * and undefined when the IDs do not decide (so the caller falls back to names)
+ *
+ * @example
+ * ```typescript
+ * matchExternalIds([{ source: 'ANILIST', id: '1' }], [{ source: 'ANILIST', id: '1' }]); // true
+ * matchExternalIds([{ source: 'ANILIST', id: '1' }], [{ source: 'ANILIST', id: '2' }]); // false
+ * matchExternalIds([{ source: 'ANILIST', id: '1' }], [{ source: 'KITSU', id: '1' }]); // undefined
+ * ```
+ */
+export function matchExternalIds(a: ExternalId[], b: ExternalId[]): boolean | undefined {
+  for (const idA of a) {
+    if (b.some((idB) => idB.source === idA.source && idB.id === idA.id)) {
+      return true;
+    }
+  }
+  for (const idA of a) {
+    if (b.some((idB) => idB.source === idA.source && idB.id !== idA.id)) {
+      return false;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Fold every record into the first record describing the same entity
+ * Records are expected highest priority source first, so the first record is the merge target
+ */
+export function unifyRecords<T>(
+  records: T[],
+  isSame: (a: T, b: T) => boolean,
+  merge: (target: T, source: T) => T
+): T[] {
+  const unified: T[] = [];
+
+  for (const record of records) {
+    const index = unified.findIndex((existing) => isSame(existing, record));
+    if (index === -1) {
+      unified.push(record);
+    } else {
+      unified[index] = merge(unified[index], record);
+    }
+  }
+
+  return unified;
+}
+
+/**
+ * Fold a romanized name for comparison: lowercase, accents stripped and long vowel spellings
+ * (ō, ou, oo, uu) reduced to one vowel. Punctuation and spacing are left to the caller
+ *
+ * @example
+ * ```typescript
+ * foldName('Kōkaku Kidōtai') === foldName('Koukaku Kidoutai'); // true
+ * ```
+ */
+export function foldName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .replace(/ou|oo/g, 'o')
+    .replace(/uu/g, 'u');
+}
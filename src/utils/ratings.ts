@@ -0,0 +1,70 @@
+import { Anime } from '../models/Anime';
+import { DataSource, Rating, SourceId } from '../types/common';
+
+/**
+ * Rating normalization and aggregation utilities
+ * All normalized scores use a 0-10 scale
+ */
+
+/**
+ * Maximum score of each provider's native rating scale
+ */
+export const RATING_SCALES: Record<DataSource, number> = {
+  [DataSource.MYANIMELIST]: 10,
+  [DataSource.ANILIST]: 100,
+  [DataSource.KITSU]: 100, // Percentage string, e.g. "82.47"
+  [DataSource.ANIDB]: 10,
+  [DataSource.TMDB]: 10,
+};
+
+/**
+ * Convert a provider's native score (number or percentage string) to the 0-10 scale
+ * Sources without a known scale are assumed to already use 0-10
+ */
+export function normalizeScore(
+  score: number | string | null | undefined,
+  source: SourceId
+): number | undefined {
+  if (score === null || score === undefined || score === '') return undefined;
+
+  const value = typeof score === 'string' ? parseFloat(score.replace('%', '')) : score;
+  if (!Number.isFinite(value) || value <= 0) return undefined;
+
+  const scale = RATING_SCALES[source as DataSource] ?? 10;
+  const normalized = (value / scale) * 10;
+  return Math.round(Math.min(normalized, 10) * 100) / 100;
+}
+
+/**
+ * Vote-weighted average of normalized ratings (0-10)
+ * Ratings without a vote count weigh as much as the average rating with one, so sources that
+ * report no votes still count; with no vote counts at all this is a plain average
+ */
+export function calculateAggregateScore(ratings: Rating[]): number | undefined {
+  const scored = ratings.filter((r): r is Rating & { score: number } => r.score !== undefined);
+  if (scored.length === 0) return undefined;
+
+  const voted = scored.filter((r) => r.votes);
+  const fallbackWeight =
+    voted.length > 0 ? voted.reduce((sum, r) => sum + (r.votes ?? 0), 0) / voted.length : 1;
+  const weight = (r: Rating): number => r.votes || fallbackWeight;
+
+  const totalWeight = scored.reduce((sum, r) => sum + weight(r), 0);
+  const average = scored.reduce((sum, r) => sum + r.score * weight(r), 0) / totalWeight;
+
+  return Math.round(average * 100) / 100;
+}
+
+/**
+ * Aggregate score of an anime, computing it from ratings when not stored
+ */
+export function getAggregateScore(anime: Anime): number | undefined {
+  return anime.aggregateScore ?? calculateAggregateScore(anime.ratings);
+}
+
+/**
+ * Sort anime by aggregate score (highest first); unscored anime go last
+ */
+export function sortByAggregateScore(anime: Anime[]): Anime[] {
+  return [...anime].sort((a, b) => (getAggregateScore(b) ?? -1) - (getAggregateScore(a) ?? -1));
+}
@@ -0,0 +1,378 @@
+import {
+  AudioCodec,
+  EpisodeRange,
+  HdrFormat,
+  ReleaseSource,
+  TorrentCodec,
+  TorrentLanguage,
+  TorrentMetadata,
+  TorrentQuality,
+  TorrentReleaseType,
+} from '../models/Torrent';
+
+/**
+ * Release name parsing (anitomy-style) for torrent titles and video file names
+ * Bracketed groups are classified first (release group, checksum, year, episode range, tags),
+ * then the remaining text is split into title, season, episode and episode title
+ */
+
+/**
+ * Everything a release name tells about its content
+ * Languages keep the Nyaa conventions: Japanese audio and English subtitles unless named
+ */
+export interface ParsedRelease extends TorrentMetadata {
+  title?: string; // Anime title
+  seasonNumber?: number;
+  episodeNumber?: number;
+  episodeRange?: EpisodeRange; // Multi-episode releases and batches
+  episodeTitle?: string;
+  checksum?: string; // CRC32, upper case
+  resolution?: string; // e.g. '1080p'
+  source: ReleaseSource;
+  audioCodecs: AudioCodec[];
+  hdrFormats: HdrFormat[];
+  year?: number;
+  extension?: string; // File extension, lower case
+}
+
+interface Bracket {
+  content: string;
+  start: number;
+  end: number;
+}
+
+const EXTENSION = /\.(mkv|mp4|avi|m2ts|ts|webm|wmv|flv|ogm|mov|m4v)$/i;
+const BRACKETS = /\[([^\]]*)\]|\(([^)]*)\)|\{([^}]*)\}|【([^】]*)】/g;
+
+// Resolutions and sources may be glued together ("BD1080p", "WEB720p")
+const RESOLUTION = /(?:(?<!\d)(\d{3,4})p|(?<!\d)\d{3,4}x(\d{3,4})|\b(4k|uhd))(?![a-z\d])/i;
+
+const SOURCES: [RegExp, ReleaseSource][] = [
+  [/\b(?:bd|bd-?rip|bd-?remux|bdmv|blu-?ray)(?![a-z])/i, ReleaseSource.BLURAY],
+  [/\bweb-?dl(?![a-z])/i, ReleaseSource.WEB_DL],
+  [/\bweb-?rip(?![a-z])/i, ReleaseSource.WEBRIP],
+  [/\bweb(?![a-z])/i, ReleaseSource.WEB],
+  [/\b(?:hdtv|hdtv-?rip|tv-?rip)(?![a-z])/i, ReleaseSource.HDTV],
+  [/\bdvd(?:-?rip|-?remux)?(?![a-z])/i, ReleaseSource.DVD],
+];
+
+const VIDEO_CODECS: [RegExp, TorrentCodec][] = [
+  [/\b(?:hevc|[hx]\.?265)\b/i, TorrentCodec.HEVC],
+  [/\b(?:avc|[hx]\.?264)\b/i, TorrentCodec.H264],
+  [/\bav1\b/i, TorrentCodec.AV1],
+  [/\bvp9\b/i, TorrentCodec.VP9],
+  [/\bxvid\b/i, TorrentCodec.XVID],
+];
+
+// Channel layouts may follow the codec (AAC2.0, DDP5.1)
+const AUDIO_CODECS: [RegExp, AudioCodec][] = [
+  [/\b(?:e-?ac-?3|ddp(?:\d\.\d)?\b|dd\+)/i, AudioCodec.EAC3],
+  [/(?<!e-?)\b(?:ac-?3|dd\d\.\d)\b/i, AudioCodec.AC3],
+  [/\baac(?:\d\.\d)?\b/i, AudioCodec.AAC],
+  [/\bflac(?:\d\.\d)?\b/i, AudioCodec.FLAC],
+  [/\bopus(?:\d\.\d)?\b/i, AudioCodec.OPUS],
+  [/\bmp3\b/i, AudioCodec.MP3],
+  [/\bdts(?:-?hd)?\b/i, AudioCodec.DTS],
+  [/\btrue-?hd\b/i, AudioCodec.TRUEHD],
+  [/\bvorbis\b/i, AudioCodec.VORBIS],
+];
+
+const HDR_FORMATS: [RegExp, HdrFormat][] = [
+  [/\b(?:dv|dovi|dolby[ .]?vision)\b/i, HdrFormat.DOLBY_VISION],
+  [/\bhdr10(?:\+|plus)/i, HdrFormat.HDR10_PLUS],
+  [/\bhdr10\b(?!\+|plus)/i, HdrFormat.HDR10],
+  [/\bhlg\b/i, HdrFormat.HLG],
+  [/\bhdr\b/i, HdrFormat.HDR],
+];
+
+const BIT_DEPTH = /\b(?:(8|10|12)[ -]?bits?|(hi10)p?)\b/i;
+
+const SUBTITLE_LANGUAGES: [RegExp, TorrentLanguage][] = [
+  [/\b(?:eng|english)\b/i, TorrentLanguage.ENGLISH],
+  [/\b(?:pt-?br|portuguese)\b/i, TorrentLanguage.PORTUGUESE_BR],
+  [/\b(?:esp|spa|spanish)\b/i, TorrentLanguage.SPANISH],
+  [/\b(?:fre|fra|french)\b/i, TorrentLanguage.FRENCH],
+  [/\b(?:ger|deu|german)\b/i, TorrentLanguage.GERMAN],
+  [/\b(?:ita|italian)\b/i, TorrentLanguage.ITALIAN],
+  [/\b(?:rus|russian)\b/i, TorrentLanguage.RUSSIAN],
+  [/\b(?:chi|chs|cht|chinese)\b/i, TorrentLanguage.CHINESE],
+  [/\b(?:kor|korean)\b/i, TorrentLanguage.KOREAN],
+];
+
+const DUAL_AUDIO = /\b(?:dual|multi)[ -]?audio\b/i;
+const MULTI_SUBS = /\bmulti(?:ple)?[ -]?sub(?:s|titles?)?\b/i;
+const HARD_SUBS = /\bhard[ -]?sub/i;
+const BATCH = /\b(?:batch|complete)\b/i;
+
+/**
+ * Tags that end the title (and the episode title) when they appear outside brackets
+ */
+const TAGS: RegExp[] = [
+  RESOLUTION,
+  ...SOURCES.map(([pattern]) => pattern),
+  ...VIDEO_CODECS.map(([pattern]) => pattern),
+  ...AUDIO_CODECS.map(([pattern]) => pattern),
+  DUAL_AUDIO,
+  MULTI_SUBS,
+  HARD_SUBS,
+  ...HDR_FORMATS.map(([pattern]) => pattern),
+  BIT_DEPTH,
+  /\b(?:batch|complete|raw|uncensored|remux)\b/i,
+];
+
+// Each pattern captures the episode, and optionally a season, version and range end
+const EPISODE_PATTERNS: RegExp[] = [
+  // S01E05, S01E05v2, S01E05-E06
+  /\bS(?<season>\d{1,2}) ?E(?<episode>\d{1,4})(?:v(?<version>\d))?(?: ?[-~&] ?E?(?<end>\d{1,4}))?\b/i,
+  // Title - 05, Title - 05v2, Title - 01-12, Title - 01 ~ 12
+  /\s[-–] (?<episode>\d{1,4})(?:v(?<version>\d))?(?: ?[-~] ?(?<end>\d{1,4})(?:v\d)?)?(?=\s|$)/,
+  // Episode 5, Ep05, E05-E08
+  /\b(?:episode|ep\.?|e) ?(?<episode>\d{1,4})(?:v(?<version>\d))?(?: ?[-~] ?(?:ep?)?(?<end>\d{1,4}))?\b/i,
+];
+
+const SEASON_PATTERNS: RegExp[] = [
+  /\bseason ?(\d{1,2})\b/i,
+  /\b(\d{1,2})(?:st|nd|rd|th) season\b/i,
+  /\bS(\d{1,2})\b/i,
+];
+
+/**
+ * Parse a torrent title or file name
+ *
+ * @example
+ * ```typescript
+ * parseRelease('[SubsPlease] Sousou no Frieren - 05v2 (1080p) [A1B2C3D4].mkv');
+ * // { releaseGroup: 'SubsPlease', title: 'Sousou no Frieren', episodeNumber: 5, version: 2,
+ * //   resolution: '1080p', checksum: 'A1B2C3D4', extension: 'mkv', ... }
+ *
+ * parseRelease('Frieren.S01E05.The.Hero.1080p.WEB-DL.AAC2.0.H.264-GROUP');
+ * // { title: 'Frieren', seasonNumber: 1, episodeNumber: 5, episodeTitle: 'The Hero',
+ * //   source: ReleaseSource.WEB_DL, audioCodecs: [AudioCodec.AAC], releaseGroup: 'GROUP', ... }
+ * ```
+ */
+export function parseRelease(name: string): ParsedRelease {
+  let base = name.trim().split(/[\\/]/).pop() ?? '';
+  const extension = base.match(EXTENSION)?.[1].toLowerCase();
+  if (extension) base = base.slice(0, -extension.length - 1);
+
+  const text = base.replace(/_/g, ' ');
+  const release: Partial<ParsedRelease> = { extension };
+
+  // Brackets
+  const brackets: Bracket[] = Array.from(text.matchAll(BRACKETS), (match) => ({
+    content: (match[1] ?? match[2] ?? match[3] ?? match[4]).trim(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+  const textBrackets: Bracket[] = [];
+  let bracketEpisode: { episode: number; version?: number } | undefined;
+
+  for (const bracket of brackets) {
+    const { content } = bracket;
+    let match: RegExpMatchArray | null;
+
+    if (/^[0-9a-f]{8}$/i.test(content)) {
+      release.checksum = content.toUpperCase();
+    } else if (/^(19|20)\d\d$/.test(content)) {
+      release.year = parseInt(content, 10);
+    } else if ((match = content.match(/^(?:ep?)?(\d{1,4}) ?[-~] ?(?:ep?)?(\d{1,4})$/i))) {
+      release.episodeRange = { start: parseInt(match[1], 10), end: parseInt(match[2], 10) };
+    } else if (
+      (match = content.match(/^(?:season ?(\d{1,2})|(\d{1,2})(?:st|nd|rd|th) season)$/i))
+    ) {
+      release.seasonNumber = parseInt(match[1] ?? match[2], 10);
+    } else if ((match = content.match(/^(?:ep?)?(\d{1,4})(?:v(\d))?$/i))) {
+      bracketEpisode = {
+        episode: parseInt(match[1], 10),
+        version: match[2] ? parseInt(match[2], 10) : undefined,
+      };
+    } else if (content && !/^v\d$/i.test(content) && firstTag(content) === -1) {
+      textBrackets.push(bracket);
+    }
+  }
+
+  // Release group: a leading bracket, else a trailing one ("Title - 01 [Group]")
+  const group =
+    textBrackets.find((bracket) => bracket.start === 0) ??
+    textBrackets.find((bracket) => bracket.end === text.length);
+  release.releaseGroup = group?.content;
+
+  // Remaining text, with scene-style dots as separators (keeping channel layouts like 2.0)
+  let rest = brackets.reduceRight(
+    (result, bracket) => result.slice(0, bracket.start) + ' ' + result.slice(bracket.end),
+    text
+  );
+  if (!/\s/.test(rest.trim())) {
+    rest = rest.replace(/(?<!\d)\.|\.(?!\d\b)/g, ' ');
+  }
+  rest = rest.replace(/\s+/g, ' ').trim();
+
+  // Scene group suffix: "...x264-GROUP"
+  const tagIndex = firstTag(rest);
+  const sceneGroup = rest.match(/\S-([a-z0-9]+)$/i);
+  if (sceneGroup?.index !== undefined && tagIndex !== -1 && sceneGroup.index > tagIndex) {
+    release.releaseGroup ??= sceneGroup[1];
+    rest = rest.slice(0, sceneGroup.index + 1);
+  }
+
+  // Season and episode
+  let titleEnd = tagIndex === -1 ? rest.length : tagIndex;
+  let episodeEnd: number | undefined;
+
+  for (const pattern of EPISODE_PATTERNS) {
+    const match = rest.match(pattern);
+    if (match?.groups && match.index !== undefined && match.index < titleEnd) {
+      applyEpisode(release, match.groups);
+      titleEnd = match.index;
+      episodeEnd = match.index + match[0].length;
+      break;
+    }
+  }
+
+  if (release.seasonNumber === undefined) {
+    for (const pattern of SEASON_PATTERNS) {
+      const match = rest.match(pattern);
+      if (match?.index !== undefined) {
+        release.seasonNumber = parseInt(match[1], 10);
+        titleEnd = Math.min(titleEnd, match.index);
+        break;
+      }
+    }
+  }
+
+  // Bare trailing number: "Title 05" (batches have none, so "Mob Psycho 100 (Batch)" keeps it)
+  if (episodeEnd === undefined && !release.episodeRange && !BATCH.test(text)) {
+    const head = rest.slice(0, titleEnd);
+    const match = head.match(
+      / (?<episode>\d{1,4})(?:v(?<version>\d))?(?: ?[-~] ?(?<end>\d{1,4}))?\s*$/
+    );
+    if (match?.groups && match.index !== undefined && !/^(19|20)\d\d$/.test(match.groups.episode)) {
+      applyEpisode(release, match.groups);
+      titleEnd = match.index;
+    }
+  }
+
+  if (release.episodeNumber === undefined && !release.episodeRange && bracketEpisode) {
+    release.episodeNumber = bracketEpisode.episode;
+    release.version ??= bracketEpisode.version;
+  }
+
+  release.title =
+    cleanText(rest.slice(0, titleEnd)) ??
+    textBrackets.find((bracket) => bracket !== group)?.content;
+
+  if (episodeEnd !== undefined) {
+    const after = rest.slice(episodeEnd);
+    const end = firstTag(after);
+    const episodeTitle = cleanText(end === -1 ? after : after.slice(0, end));
+    if (episodeTitle && !/^(?:end|final|fin)$/i.test(episodeTitle)) {
+      release.episodeTitle = episodeTitle;
+    }
+  }
+
+  if (release.version === undefined) {
+    const version = text.match(/\bv(\d{1,2})\b/i);
+    if (version) release.version = parseInt(version[1], 10);
+  }
+
+  // Tags
+  const resolution = text.match(RESOLUTION);
+  if (resolution) {
+    release.resolution = resolution[3] ? '2160p' : `${resolution[1] ?? resolution[2]}p`;
+  }
+  const bitDepth = text.match(BIT_DEPTH);
+  if (bitDepth) release.bitDepth = bitDepth[2] ? 10 : parseInt(bitDepth[1], 10);
+
+  // A named format makes the bare "HDR" label redundant
+  const hdrFormats = HDR_FORMATS.filter(([pattern]) => pattern.test(text)).map(
+    ([, format]) => format
+  );
+
+  const releaseType = detectReleaseType(text, release);
+
+  return {
+    ...release,
+    quality: toQuality(release.resolution, text),
+    codec: VIDEO_CODECS.find(([pattern]) => pattern.test(text))?.[1] ?? TorrentCodec.UNKNOWN,
+    audioLanguages: detectAudioLanguages(text),
+    subtitleLanguages: detectSubtitleLanguages(text),
+    releaseType,
+    isDual: DUAL_AUDIO.test(text),
+    isMultiSub: MULTI_SUBS.test(text),
+    isBatch: releaseType === TorrentReleaseType.BATCH,
+    hasHardSubs: HARD_SUBS.test(text),
+    source: SOURCES.find(([pattern]) => pattern.test(text))?.[1] ?? ReleaseSource.UNKNOWN,
+    audioCodecs: AUDIO_CODECS.filter(([pattern]) => pattern.test(text)).map(([, codec]) => codec),
+    hdrFormats: hdrFormats.length > 1 ? hdrFormats.filter((f) => f !== HdrFormat.HDR) : hdrFormats,
+  };
+}
+
+function applyEpisode(release: Partial<ParsedRelease>, groups: Record<string, string>): void {
+  const episode = parseInt(groups.episode, 10);
+  if (groups.season) release.seasonNumber = parseInt(groups.season, 10);
+  if (groups.version) release.version = parseInt(groups.version, 10);
+
+  if (groups.end && parseInt(groups.end, 10) > episode) {
+    release.episodeRange = { start: episode, end: parseInt(groups.end, 10) };
+  } else {
+    release.episodeNumber = episode;
+  }
+}
+
+function firstTag(text: string): number {
+  const indexes = TAGS.map((pattern) => text.search(pattern)).filter((index) => index !== -1);
+  return indexes.length > 0 ? Math.min(...indexes) : -1;
+}
+
+function cleanText(text: string): string | undefined {
+  const cleaned = text.replace(/^[\s\-–:.]+|[\s\-–:.]+$/g, '');
+  return cleaned || undefined;
+}
+
+function toQuality(resolution: string | undefined, text: string): TorrentQuality {
+  switch (resolution) {
+    case '2160p':
+      return TorrentQuality.UHD_4K;
+    case '1080p':
+      return TorrentQuality.FULL_HD_1080p;
+    case '720p':
+      return TorrentQuality.HD_720p;
+    case '480p':
+    case '576p':
+      return TorrentQuality.SD_480p;
+  }
+  return /\braw\b/i.test(text) ? TorrentQuality.RAW : TorrentQuality.UNKNOWN;
+}
+
+function detectReleaseType(text: string, release: Partial<ParsedRelease>): TorrentReleaseType {
+  if (BATCH.test(text)) return TorrentReleaseType.BATCH;
+  if (release.episodeRange && release.episodeNumber === undefined) return TorrentReleaseType.BATCH;
+  if (/\b(?:movie|gekijouban)\b/i.test(text)) return TorrentReleaseType.MOVIE;
+  if (/\b(?:ova|oad|oav)s?\b/i.test(text)) return TorrentReleaseType.OVA;
+  if (/\bspecials?\b/i.test(text)) return TorrentReleaseType.SPECIAL;
+  if (release.seasonNumber !== undefined && release.episodeNumber === undefined) {
+    return TorrentReleaseType.SEASON;
+  }
+  return TorrentReleaseType.EPISODE;
+}
+
+function detectAudioLanguages(text: string): TorrentLanguage[] {
+  if (DUAL_AUDIO.test(text)) return [TorrentLanguage.JAPANESE, TorrentLanguage.ENGLISH];
+
+  const languages: TorrentLanguage[] = [];
+  if (/\b(?:japanese|jpn?|jap)\b/i.test(text)) languages.push(TorrentLanguage.JAPANESE);
+  if (/\b(?:english|eng)\b(?![ -]?sub)|\bdub(?:bed)?\b/i.test(text)) {
+    languages.push(TorrentLanguage.ENGLISH);
+  }
+
+  return languages.length > 0 ? languages : [TorrentLanguage.JAPANESE];
+}
+
+function detectSubtitleLanguages(text: string): TorrentLanguage[] {
+  if (MULTI_SUBS.test(text)) return [TorrentLanguage.MULTI];
+
+  const languages = SUBTITLE_LANGUAGES.filter(([pattern]) => pattern.test(text)).map(
+    ([, language]) => language
+  );
+  return languages.length > 0 ? languages : [TorrentLanguage.ENGLISH];
+}
@@ -0,0 +1,291 @@
+import { DataSource, SourceId } from '../types/common';
+import { ValidationError } from './errors';
+
+/**
+ * Genre/theme taxonomy shared by all providers
+ * Canonical names follow MyAnimeList's vocabulary
+ */
+
+export type TaxonomyCategory = 'genre' | 'theme' | 'demographic';
+
+export interface TaxonomyTerm {
+  name: string;
+  category: TaxonomyCategory;
+}
+
+export interface CategorizedTerms {
+  genres: string[];
+  themes: string[];
+  demographics: string[];
+}
+
+const CANONICAL_GENRES = [
+  'Action',
+  'Adventure',
+  'Avant Garde',
+  'Award Winning',
+  'Boys Love',
+  'Comedy',
+  'Drama',
+  'Ecchi',
+  'Erotica',
+  'Fantasy',
+  'Girls Love',
+  'Gourmet',
+  'Hentai',
+  'Horror',
+  'Mystery',
+  'Romance',
+  'Sci-Fi',
+  'Slice of Life',
+  'Sports',
+  'Supernatural',
+  'Suspense',
+];
+
+const CANONICAL_THEMES = [
+  'Adult Cast',
+  'Anthropomorphic',
+  'CGDCT',
+  'Childcare',
+  'Combat Sports',
+  'Crossdressing',
+  'Delinquents',
+  'Detective',
+  'Educational',
+  'Gag Humor',
+  'Gore',
+  'Harem',
+  'High Stakes Game',
+  'Historical',
+  'Idols (Female)',
+  'Idols (Male)',
+  'Isekai',
+  'Iyashikei',
+  'Love Polygon',
+  'Magical Sex Shift',
+  'Mahou Shoujo',
+  'Martial Arts',
+  'Mecha',
+  'Medical',
+  'Military',
+  'Music',
+  'Mythology',
+  'Organized Crime',
+  'Otaku Culture',
+  'Parody',
+  'Performing Arts',
+  'Pets',
+  'Psychological',
+  'Racing',
+  'Reincarnation',
+  'Reverse Harem',
+  'Romantic Subtext',
+  'Samurai',
+  'School',
+  'Showbiz',
+  'Space',
+  'Strategy Game',
+  'Super Power',
+  'Survival',
+  'Team Sports',
+  'Time Travel',
+  'Urban Fantasy',
+  'Vampire',
+  'Video Game',
+  'Villainess',
+  'Visual Arts',
+  'Workplace',
+];
+
+const CANONICAL_DEMOGRAPHICS = ['Josei', 'Kids', 'Seinen', 'Shoujo', 'Shounen'];
+
+/**
+ * Spelling variants shared by every provider
+ */
+const COMMON_ALIASES: Record<string, string> = {
+  'science fiction': 'Sci-Fi',
+  scifi: 'Sci-Fi',
+  thriller: 'Suspense',
+  'magical girl': 'Mahou Shoujo',
+  'magical girls': 'Mahou Shoujo',
+  'cute girls doing cute things': 'CGDCT',
+  'school life': 'School',
+  'super powers': 'Super Power',
+  superpower: 'Super Power',
+  vampires: 'Vampire',
+  'video games': 'Video Game',
+  gag: 'Gag Humor',
+  'shounen ai': 'Boys Love',
+  yaoi: 'Boys Love',
+  'shoujo ai': 'Girls Love',
+  yuri: 'Girls Love',
+  shonen: 'Shounen',
+  shojo: 'Shoujo',
+  children: 'Kids',
+};
+
+/**
+ * Provider-specific vocabulary that does not map by spelling alone
+ */
+const PROVIDER_ALIASES: Partial<Record<DataSource, Record<string, string>>> = {
+  [DataSource.MYANIMELIST]: {
+    // Legacy MAL genres renamed in 2022
+    dementia: 'Avant Garde',
+    cars: 'Racing',
+    game: 'Strategy Game',
+    police: 'Detective',
+  },
+  [DataSource.ANILIST]: {
+    'primarily adult cast': 'Adult Cast',
+    'time manipulation': 'Time Travel',
+    'female harem': 'Harem',
+    'male harem': 'Reverse Harem',
+    gods: 'Mythology',
+    food: 'Gourmet',
+  },
+  [DataSource.KITSU]: {
+    'space travel': 'Space',
+    police: 'Detective',
+    cooking: 'Gourmet',
+  },
+  [DataSource.ANIDB]: {
+    'space travel': 'Space',
+    police: 'Detective',
+    cooking: 'Gourmet',
+    'contemporary fantasy': 'Urban Fantasy',
+    'daily life': 'Slice of Life',
+    'high school': 'School',
+    gods: 'Mythology',
+    tragedy: 'Drama',
+  },
+  [DataSource.TMDB]: {
+    history: 'Historical',
+    war: 'Military',
+  },
+};
+
+/**
+ * Canonical genre/theme/demographic vocabulary with per-provider mappings
+ * Extend it at runtime with `addTerm` and `addAlias`
+ */
+export class GenreTaxonomy {
+  private terms: Map<string, TaxonomyTerm> = new Map();
+  private aliases: Map<string, string> = new Map();
+  private providerAliases: Map<SourceId, Map<string, string>> = new Map();
+
+  constructor() {
+    CANONICAL_GENRES.forEach((name) => this.addTerm(name, 'genre'));
+    CANONICAL_THEMES.forEach((name) => this.addTerm(name, 'theme'));
+    CANONICAL_DEMOGRAPHICS.forEach((name) => this.addTerm(name, 'demographic'));
+
+    Object.entries(COMMON_ALIASES).forEach(([alias, name]) => this.addAlias(alias, name));
+    for (const [source, table] of Object.entries(PROVIDER_ALIASES)) {
+      Object.entries(table).forEach(([alias, name]) =>
+        this.addAlias(alias, name, source as DataSource)
+      );
+    }
+  }
+
+  /**
+   * Add a canonical term (or move an existing one to another category)
+   */
+  addTerm(name: string, category: TaxonomyCategory): void {
+    this.terms.set(this.key(name), { name, category });
+  }
+
+  /**
+   * Map an alias to a canonical term, optionally only for one provider
+   */
+  addAlias(alias: string, canonicalName: string, source?: SourceId): void {
+    if (!this.terms.has(this.key(canonicalName))) {
+      throw new ValidationError(`Unknown canonical term: ${canonicalName}`, 'canonicalName');
+    }
+
+    if (source) {
+      if (!this.providerAliases.has(source)) {
+        this.providerAliases.set(source, new Map());
+      }
+      this.providerAliases.get(source)!.set(this.key(alias), canonicalName);
+    } else {
+      this.aliases.set(this.key(alias), canonicalName);
+    }
+  }
+
+  /**
+   * Resolve a provider term to its canonical term, if known
+   */
+  resolve(term: string, source?: SourceId): TaxonomyTerm | undefined {
+    const key = this.key(term);
+    const canonicalName =
+      (source && this.providerAliases.get(source)?.get(key)) || this.aliases.get(key);
+
+    return this.terms.get(this.key(canonicalName ?? term));
+  }
+
+  /**
+   * Normalize and categorize terms reported by a provider
+   * Unknown terms keep their spelling and stay in the category they were reported under
+   */
+  classify(input: Partial<CategorizedTerms>, source?: SourceId): CategorizedTerms {
+    const result: CategorizedTerms = { genres: [], themes: [], demographics: [] };
+    const seen = new Set<string>();
+
+    const lists: Array<[string[] | undefined, TaxonomyCategory]> = [
+      [input.genres, 'genre'],
+      [input.themes, 'theme'],
+      [input.demographics, 'demographic'],
+    ];
+
+    for (const [terms, fallback] of lists) {
+      for (const raw of terms || []) {
+        const trimmed = raw.trim();
+        if (!trimmed) continue;
+
+        const term = this.resolve(trimmed, source) ?? { name: trimmed, category: fallback };
+        const key = this.key(term.name);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        this.bucket(result, term.category).push(term.name);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * All canonical terms of a category
+   */
+  getTerms(category?: TaxonomyCategory): string[] {
+    return Array.from(this.terms.values())
+      .filter((t) => !category || t.category === category)
+      .map((t) => t.name);
+  }
+
+  private bucket(result: CategorizedTerms, category: TaxonomyCategory): string[] {
+    switch (category) {
+      case 'genre':
+        return result.genres;
+      case 'theme':
+        return result.themes;
+      case 'demographic':
+        return result.demographics;
+    }
+  }
+
+  /**
+   * Lookup key ignoring case, punctuation and separators ("Slice-of-Life" = "slice of life")
+   */
+  private key(term: string): string {
+    return term
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim();
+  }
+}
+
+/**
+ * Shared taxonomy used by providers and unification
+ */
+export const genreTaxonomy = new GenreTaxonomy();
@@ -0,0 +1,128 @@
+import { Anime } from '../models/Anime';
+import { stringSimilarity } from './helpers';
+import { foldName } from './identity';
+
+/**
+ * Fuzzy title search for local anime
+ * Titles and queries are folded so case, accents, long vowel spellings (ō, ou, oo, uu),
+ * punctuation, full-width characters and katakana/hiragana do not matter
+ */
+
+/**
+ * An anime matching a title search, with its relevance
+ */
+export interface TitleMatch {
+  anime: Anime;
+  score: number; // Relevance from 0 to 1 (1 = exact title)
+  title: string; // Title or synonym that matched best
+}
+
+export interface TitleSearchOptions {
+  limit?: number; // Default: 10
+  minScore?: number; // Default: 0.6
+}
+
+/**
+ * Fold a title or query for comparison
+ *
+ * @example
+ * ```typescript
+ * normalizeTitle('Re:Zero kara Hajimeru Isekai Seikatsu'); // 're zero kara hajimeru isekai seikatsu'
+ * normalizeTitle('Kōkaku Kidōtai') === normalizeTitle('Koukaku Kidoutai'); // true
+ * normalizeTitle('シュタインズ・ゲート') === normalizeTitle('しゅたいんず げーと'); // true
+ * ```
+ */
+export function normalizeTitle(title: string): string {
+  return (
+    foldName(title.normalize('NFKC'))
+      // Katakana to hiragana
+      .replace(/[\u30a1-\u30f6]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60))
+      .replace(/[^\p{L}\p{N}\u30fc]+/gu, ' ')
+      .trim()
+  );
+}
+
+/**
+ * Minimum relevance for a title to count as a match
+ */
+export const DEFAULT_MIN_TITLE_SCORE = 0.6;
+
+/**
+ * Score how well a query matches any of several titles
+ * Exact titles score 1, substrings 0.75-0.95 (higher at the start of a word), then word by
+ * word or whole-title similarity, so skipped words ("kimetsu yaiba") and typos still match
+ */
+export function scoreTitles(query: string, titles: string[]): { score: number; title: string } {
+  const normalizedQuery = normalizeTitle(query);
+  let best = { score: 0, title: '' };
+  if (!normalizedQuery) return best;
+
+  for (const title of titles) {
+    const score = scoreTitle(normalizedQuery, normalizeTitle(title));
+    if (score > best.score) {
+      best = { score: Math.round(score * 100) / 100, title };
+      if (score === 1) break;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Score how well a query matches the titles and synonyms of an anime
+ */
+export function scoreTitleMatch(query: string, anime: Anime): { score: number; title: string } {
+  const titles = [anime.title.romaji, anime.title.english, anime.title.native]
+    .concat(anime.title.synonyms || [])
+    .filter((t): t is string => !!t);
+  return scoreTitles(query, titles);
+}
+
+/**
+ * Rank anime by how well their titles match a query, best first
+ */
+export function rankByTitle(
+  anime: Anime[],
+  query: string,
+  options: TitleSearchOptions = {}
+): TitleMatch[] {
+  const { limit = 10, minScore = DEFAULT_MIN_TITLE_SCORE } = options;
+
+  return anime
+    .map((entry) => ({ anime: entry, ...scoreTitleMatch(query, entry) }))
+    .filter((match) => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+function scoreTitle(query: string, title: string): number {
+  if (!title) return 0;
+  if (title === query) return 1;
+
+  if (title.includes(query)) {
+    const atWordStart = title.startsWith(query) || title.includes(` ${query}`);
+    return (atWordStart ? 0.85 : 0.75) + 0.1 * (query.length / title.length);
+  }
+
+  const titleWords = title.split(' ');
+  const queryWords = query.split(' ');
+
+  // Numbers tell sequels apart, so "season 3" must not match "season 2"
+  const numbers = queryWords.filter((word) => /^\d+$/.test(word));
+  if (numbers.some((n) => !titleWords.some((titleWord) => titleWord.startsWith(n)))) return 0;
+
+  // Each query word against its closest title word; prefixes count as full matches
+  const wordScore =
+    queryWords.reduce(
+      (sum, word) =>
+        sum +
+        Math.max(
+          ...titleWords.map((titleWord) =>
+            word.length >= 2 && titleWord.startsWith(word) ? 1 : stringSimilarity(word, titleWord)
+          )
+        ),
+      0
+    ) / queryWords.length;
+
+  return Math.max(0.8 * wordScore, stringSimilarity(query, title));
+}
@@ -0,0 +1,218 @@
+import {
+  AudioCodec,
+  HdrFormat,
+  ReleaseSource,
+  Torrent,
+  TorrentCodec,
+  TorrentLanguage,
+  TorrentQuality,
+} from '../models/Torrent';
+import { ValidationError } from './errors';
+import { formatBytes } from './helpers';
+
+/**
+ * Torrent scoring profiles (in the style of Sonarr quality profiles and custom formats)
+ * Allowed qualities give the base score, matching rules add or subtract points and hard limits
+ * (size, required and forbidden terms, minimum score) reject a release outright
+ */
+
+/**
+ * Points added to (or, when negative, subtracted from) releases matching every given condition
+ * List conditions match when any of their values applies
+ */
+export interface ScoringRule {
+  name: string; // Shown in score breakdowns
+  score: number;
+  releaseGroups?: string[]; // Ignoring case
+  qualities?: TorrentQuality[];
+  codecs?: TorrentCodec[];
+  sources?: ReleaseSource[];
+  bitDepths?: number[];
+  hdrFormats?: HdrFormat[];
+  audioCodecs?: AudioCodec[];
+  audioLanguages?: TorrentLanguage[];
+  subtitleLanguages?: TorrentLanguage[];
+  trusted?: boolean;
+  terms?: string[]; // Title terms (see `TorrentScoringProfile.mustContain`)
+}
+
+export interface TorrentScoringProfile {
+  name?: string;
+  /**
+   * Allowed qualities, best first; other qualities are rejected
+   * Each position is worth `qualityStep` points more than the next (default: every quality)
+   */
+  qualities?: TorrentQuality[];
+  qualityStep?: number; // Default: 100
+  rules?: ScoringRule[];
+  /**
+   * Titles must contain at least one of these terms (ignoring case); `/pattern/flags` is a regex
+   */
+  mustContain?: string[];
+  mustNotContain?: string[];
+  minSize?: number; // Bytes per episode; batches are divided by their episode count
+  maxSize?: number;
+  minScore?: number;
+}
+
+export interface TorrentScoreEntry {
+  reason: string;
+  score: number;
+}
+
+/**
+ * A torrent with its score, how the score was made up and why it was rejected, if it was
+ */
+export interface ScoredTorrent {
+  torrent: Torrent;
+  score: number;
+  accepted: boolean;
+  breakdown: TorrentScoreEntry[];
+  rejections: string[];
+}
+
+const QUALITY_ORDER: TorrentQuality[] = [
+  TorrentQuality.UHD_4K,
+  TorrentQuality.UHD_2160p,
+  TorrentQuality.FULL_HD_1080p,
+  TorrentQuality.HD_720p,
+  TorrentQuality.SD_480p,
+  TorrentQuality.RAW,
+  TorrentQuality.UNKNOWN,
+];
+
+/**
+ * Profile reproducing the Nyaa defaults: the preferred quality first, then higher resolutions,
+ * with bonuses for the preferred languages and trusted uploaders
+ */
+export function createDefaultScoringProfile(
+  preferredQuality: TorrentQuality = TorrentQuality.FULL_HD_1080p,
+  preferredLanguages: TorrentLanguage[] = [TorrentLanguage.JAPANESE, TorrentLanguage.ENGLISH]
+): TorrentScoringProfile {
+  return {
+    name: 'Default',
+    qualities: [preferredQuality, ...QUALITY_ORDER.filter((q) => q !== preferredQuality)],
+    rules: [
+      { name: 'Preferred audio language', score: 20, audioLanguages: preferredLanguages },
+      { name: 'Preferred subtitle language', score: 20, subtitleLanguages: preferredLanguages },
+      { name: 'Trusted uploader', score: 10, trusted: true },
+    ],
+  };
+}
+
+/**
+ * Copy of a profile that ranks the given quality first
+ * Its other qualities keep their order; rules and limits are unchanged
+ */
+export function preferQuality(
+  profile: TorrentScoringProfile,
+  quality: TorrentQuality
+): TorrentScoringProfile {
+  const qualities = profile.qualities ?? QUALITY_ORDER;
+  return { ...profile, qualities: [quality, ...qualities.filter((q) => q !== quality)] };
+}
+
+/**
+ * Score a torrent against a profile
+ *
+ * @throws {ValidationError} When a `/pattern/` term is not a valid regex
+ */
+export function scoreTorrent(torrent: Torrent, profile: TorrentScoringProfile): ScoredTorrent {
+  const breakdown: TorrentScoreEntry[] = [];
+  const rejections: string[] = [];
+  const { metadata } = torrent;
+
+  const qualities = profile.qualities ?? QUALITY_ORDER;
+  const qualityIndex = qualities.indexOf(metadata.quality);
+  if (qualityIndex === -1) {
+    rejections.push(`Quality ${metadata.quality} is not allowed`);
+  } else {
+    breakdown.push({
+      reason: `Quality ${metadata.quality}`,
+      score: (qualities.length - qualityIndex) * (profile.qualityStep ?? 100),
+    });
+  }
+
+  for (const rule of profile.rules ?? []) {
+    if (matchesRule(torrent, rule)) {
+      breakdown.push({ reason: rule.name, score: rule.score });
+    }
+  }
+
+  if (profile.mustContain?.length && !profile.mustContain.some((t) => hasTerm(torrent, t))) {
+    rejections.push(`Title contains none of: ${profile.mustContain.join(', ')}`);
+  }
+  for (const term of profile.mustNotContain ?? []) {
+    if (hasTerm(torrent, term)) rejections.push(`Title contains "${term}"`);
+  }
+
+  const episodes = torrent.episodeRange
+    ? torrent.episodeRange.end - torrent.episodeRange.start + 1
+    : 1;
+  const sizePerEpisode = torrent.sizeBytes / episodes;
+  if (profile.minSize !== undefined && sizePerEpisode < profile.minSize) {
+    rejections.push(
+      `Size ${formatBytes(sizePerEpisode)} per episode is below ${formatBytes(profile.minSize)}`
+    );
+  }
+  if (profile.maxSize !== undefined && sizePerEpisode > profile.maxSize) {
+    rejections.push(
+      `Size ${formatBytes(sizePerEpisode)} per episode is above ${formatBytes(profile.maxSize)}`
+    );
+  }
+
+  const score = breakdown.reduce((sum, entry) => sum + entry.score, 0);
+  if (profile.minScore !== undefined && score < profile.minScore) {
+    rejections.push(`Score ${score} is below the minimum of ${profile.minScore}`);
+  }
+
+  return { torrent, score, accepted: rejections.length === 0, breakdown, rejections };
+}
+
+/**
+ * Score torrents and sort them: accepted first, then by score and seeders
+ */
+export function rankTorrents(torrents: Torrent[], profile: TorrentScoringProfile): ScoredTorrent[] {
+  return torrents
+    .map((torrent) => scoreTorrent(torrent, profile))
+    .sort(
+      (a, b) =>
+        Number(b.accepted) - Number(a.accepted) ||
+        b.score - a.score ||
+        b.torrent.seeders - a.torrent.seeders
+    );
+}
+
+function matchesRule(torrent: Torrent, rule: ScoringRule): boolean {
+  const { metadata } = torrent;
+  const anyOf = <T>(values: T[] | undefined, actual: T[]): boolean =>
+    !values || values.some((value) => actual.includes(value));
+
+  return (
+    anyOf(
+      rule.releaseGroups?.map((group) => group.toLowerCase()),
+      metadata.releaseGroup ? [metadata.releaseGroup.toLowerCase()] : []
+    ) &&
+    anyOf(rule.qualities, [metadata.quality]) &&
+    anyOf(rule.codecs, [metadata.codec]) &&
+    anyOf(rule.sources, metadata.source ? [metadata.source] : []) &&
+    anyOf(rule.bitDepths, metadata.bitDepth ? [metadata.bitDepth] : []) &&
+    anyOf(rule.hdrFormats, metadata.hdrFormats ?? []) &&
+    anyOf(rule.audioCodecs, metadata.audioCodecs ?? []) &&
+    anyOf(rule.audioLanguages, metadata.audioLanguages) &&
+    anyOf(rule.subtitleLanguages, metadata.subtitleLanguages) &&
+    (rule.trusted === undefined || (torrent.trusted ?? false) === rule.trusted) &&
+    (!rule.terms || rule.terms.some((term) => hasTerm(torrent, term)))
+  );
+}
+
+function hasTerm(torrent: Torrent, term: string): boolean {
+  const regex = term.match(/^\/(.+)\/([a-z]*)$/);
+  if (!regex) return torrent.title.toLowerCase().includes(term.toLowerCase());
+
+  try {
+    return new RegExp(regex[1], regex[2]).test(torrent.title);
+  } catch {
+    throw new ValidationError(`invalid regex ${term}`, 'terms');
+  }
+}
@@ -4,6 +4,9 @@ import {
   TorrentLanguage,
   TorrentCodec,
   TorrentReleaseType,
+  ReleaseSource,
+  HdrFormat,
+  AudioCodec,
 } from '../models/Torrent';
 
 /**
@@ -26,11 +29,17 @@ export const TorrentMetadataSchema = z.object({
   isMultiSub: z.boolean().optional(),
   isBatch: z.boolean().optional(),
   hasHardSubs: z.boolean().optional(),
+  source: z.nativeEnum(ReleaseSource).optional(),
+  bitDepth: z.number().int().positive().optional(),
+  hdrFormats: z.array(z.nativeEnum(HdrFormat)).optional(),
+  audioCodecs: z.array(z.nativeEnum(AudioCodec)).optional(),
+  version: z.number().int().positive().optional(),
 });
 
 export const TorrentSchema = z.object({
   id: z.string().uuid(),
-  nyaaId: z.string(),
+  nyaaId: z.string().optional(),
+  sources: z.array(z.object({ indexer: z.string().min(1), id: z.string().min(1) })).optional(),
   title: z.string().min(1),
   category: z.string(),
   magnetLink: z.string().startsWith('magnet:'),
@@ -47,6 +56,7 @@ export const TorrentSchema = z.object({
   animeId: z.string().optional(),
   episodeIds: z.array(z.string()).optional(),
   seasonId: z.string().optional(),
+  seasonNumber: z.number().int().nonnegative().optional(),
   episodeNumber: z.number().int().positive().optional(),
   episodeRange: EpisodeRangeSchema.optional(),
   metadata: TorrentMetadataSchema,
@@ -67,8 +77,14 @@ export const TorrentSearchFilterSchema = z.object({
   audioLanguage: z.nativeEnum(TorrentLanguage).optional(),
   subtitleLanguage: z.nativeEnum(TorrentLanguage).optional(),
   releaseType: z.nativeEnum(TorrentReleaseType).optional(),
+  source: z.nativeEnum(ReleaseSource).optional(),
+  bitDepth: z.number().int().positive().optional(),
+  hdrFormat: z.nativeEnum(HdrFormat).optional(),
+  audioCodec: z.nativeEnum(AudioCodec).optional(),
+  minVersion: z.number().int().positive().optional(),
   minSeeders: z.number().int().nonnegative().optional(),
   trustedOnly: z.boolean().optional(),
+  minGroupReputation: z.number().min(0).max(1).optional(),
 });
 
 /**
@@ -1,15 +1,20 @@
 import { z } from 'zod';
-import { AnimeType, AnimeStatus, Season, AgeRating, DataSource } from '../types/common';
+import { AnimeType, AnimeStatus, Season, AgeRating } from '../types/common';
 import { RelationType, AdaptationType } from '../models/Anime';
-import { CharacterRole } from '../models/People';
+import { EpisodeType, SeasonDetection } from '../models/Episode';
+import { CharacterRole, StudioRole } from '../models/People';
 
 /**
  * Zod schemas for runtime validation
  */
 
 // Common schemas
+
+// Built-in DataSource values or custom provider ids
+export const SourceIdSchema = z.string().min(1);
+
 export const ExternalIdSchema = z.object({
-  source: z.nativeEnum(DataSource),
+  source: SourceIdSchema,
   id: z.string(),
 });
 
@@ -33,7 +38,7 @@ export const TitleSchema = z.object({
 });
 
 export const RatingSchema = z.object({
-  source: z.nativeEnum(DataSource),
+  source: SourceIdSchema,
   score: z.number().min(0).max(10).optional(),
   votes: z.number().int().nonnegative().optional(),
   rank: z.number().int().positive().optional(),
@@ -42,8 +47,19 @@ export const RatingSchema = z.object({
 
 // Anime schemas
 export const AnimeRelationSchema = z.object({
-  animeId: z.string(),
+  animeId: z.string().optional(),
   relationType: z.nativeEnum(RelationType),
+  externalId: ExternalIdSchema.optional(),
+  title: z.string().optional(),
+  type: z.nativeEnum(AnimeType).optional(),
+});
+
+export const AnimeCompanySchema = z.object({
+  studioId: z.string().optional(),
+  name: z.string(),
+  role: z.nativeEnum(StudioRole),
+  externalId: ExternalIdSchema.optional(),
+  isAnimationStudio: z.boolean().optional(),
 });
 
 export const AdaptationSchema = z.object({
@@ -52,6 +68,12 @@ export const AdaptationSchema = z.object({
   url: z.string().url().optional(),
 });
 
+export const FieldProvenanceSchema = z.object({
+  source: SourceIdSchema,
+  sources: z.array(SourceIdSchema).optional(),
+  fetchedAt: z.date(),
+});
+
 export const AnimeSchema = z.object({
   id: z.string(),
   title: TitleSchema,
@@ -79,6 +101,7 @@ export const AnimeSchema = z.object({
     })
     .optional(),
   ratings: z.array(RatingSchema),
+  aggregateScore: z.number().min(0).max(10).optional(),
   ageRating: z.nativeEnum(AgeRating).optional(),
   genres: z.array(z.string()),
   themes: z.array(z.string()),
@@ -86,9 +109,11 @@ export const AnimeSchema = z.object({
   studios: z.array(z.string()),
   producers: z.array(z.string()),
   licensors: z.array(z.string()),
+  companies: z.array(AnimeCompanySchema).optional(),
   relations: z.array(AnimeRelationSchema).optional(),
   adaptations: z.array(AdaptationSchema).optional(),
   externalIds: z.array(ExternalIdSchema),
+  provenance: z.record(FieldProvenanceSchema).optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
   lastSyncedAt: z.date(),
@@ -99,6 +124,10 @@ export const EpisodeSchema = z.object({
   id: z.string(),
   animeId: z.string(),
   number: z.number().int().positive(),
+  type: z.nativeEnum(EpisodeType).optional(),
+  seasonNumber: z.number().int().nonnegative().optional(),
+  seasonEpisodeNumber: z.number().int().nonnegative().optional(),
+  absoluteNumber: z.number().int().positive().optional(),
   title: z.string().optional(),
   titleJapanese: z.string().optional(),
   titleRomaji: z.string().optional(),
@@ -120,6 +149,9 @@ export const AnimeSeasonSchema = z.object({
   title: z.string().optional(),
   episodeCount: z.number().int().nonnegative().optional(),
   episodes: z.array(EpisodeSchema).optional(),
+  episodeOffset: z.number().int().nonnegative().optional(),
+  absoluteEpisodeOffset: z.number().int().nonnegative().optional(),
+  detection: z.nativeEnum(SeasonDetection).optional(),
   aired: DateRangeSchema.optional(),
   externalIds: z.array(ExternalIdSchema),
   createdAt: z.date(),
@@ -138,6 +170,12 @@ export const VoiceActorSchema = z.object({
   externalIds: z.array(ExternalIdSchema),
 });
 
+export const CharacterAppearanceSchema = z.object({
+  animeId: z.string(),
+  role: z.nativeEnum(CharacterRole).optional(),
+  voiceActorIds: z.array(z.string()).optional(),
+});
+
 export const CharacterSchema = z.object({
   id: z.string(),
   name: z.object({
@@ -149,11 +187,19 @@ export const CharacterSchema = z.object({
   image: z.string().url().optional(),
   role: z.nativeEnum(CharacterRole).optional(),
   voiceActors: z.array(VoiceActorSchema).optional(),
+  appearances: z.array(CharacterAppearanceSchema).optional(),
   externalIds: z.array(ExternalIdSchema),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
+export const StaffCreditSchema = z.object({
+  animeId: z.string(),
+  role: z.string(),
+  characterId: z.string().optional(),
+  language: z.string().optional(),
+});
+
 export const StaffMemberSchema = z.object({
   id: z.string(),
   name: z.object({
@@ -162,15 +208,24 @@ export const StaffMemberSchema = z.object({
   }),
   role: z.string().optional(),
   image: z.string().url().optional(),
+  credits: z.array(StaffCreditSchema).optional(),
   externalIds: z.array(ExternalIdSchema),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
+export const StudioCreditSchema = z.object({
+  animeId: z.string(),
+  role: z.nativeEnum(StudioRole),
+});
+
 export const StudioSchema = z.object({
   id: z.string(),
   name: z.string(),
+  alternativeNames: z.array(z.string()).optional(),
+  isAnimationStudio: z.boolean().optional(),
   favorites: z.number().int().nonnegative().optional(),
+  credits: z.array(StudioCreditSchema).optional(),
   externalIds: z.array(ExternalIdSchema),
   createdAt: z.date(),
   updatedAt: z.date(),
@@ -0,0 +1,117 @@
+import { ValidationError } from './errors';
+
+/**
+ * Element of a parsed XML document
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Concatenated text and CDATA of the element itself, trimmed
+}
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<\/\s*([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parse an XML document into its root element
+ * Supports elements, attributes, text, CDATA and character entities (no DTDs or namespaces)
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    if (match.index !== position) {
+      throw new ValidationError(`Malformed XML at offset ${position}`, 'xml');
+    }
+    position = match.index + match[0].length;
+
+    const [, cdata, closingName, openingName, attributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (openingName) {
+      const element: XmlElement = {
+        name: openingName,
+        attributes: parseAttributes(attributes),
+        children: [],
+        text: '',
+      };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (closingName) {
+      if (current.name !== closingName) {
+        throw new ValidationError(`Unexpected closing tag </${closingName}>`, 'xml');
+      }
+      current.text = current.text.trim();
+      stack.pop();
+    } else if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    }
+  }
+
+  if (position !== xml.length) {
+    throw new ValidationError(`Malformed XML at offset ${position}`, 'xml');
+  }
+  if (stack.length > 1) {
+    throw new ValidationError(`Unclosed tag <${stack[stack.length - 1].name}>`, 'xml');
+  }
+  if (root.children.length !== 1) {
+    throw new ValidationError('XML document must have exactly one root element', 'xml');
+  }
+
+  return root.children[0];
+}
+
+/**
+ * First child element with the given name
+ */
+export function xmlChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find((child) => child.name === name);
+}
+
+/**
+ * All child elements with the given name
+ */
+export function xmlChildren(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter((child) => child.name === name) : [];
+}
+
+/**
+ * Text of the first child element with the given name, if present and non-empty
+ */
+export function xmlText(element: XmlElement | undefined, name: string): string | undefined {
+  return xmlChild(element, name)?.text || undefined;
+}
+
+function parseAttributes(source: string | undefined): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of (source ?? '').matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[name] = decodeEntities(doubleQuoted ?? singleQuoted);
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point =
+        code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+      return String.fromCodePoint(point);
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { AniDBProvider } from '../src/providers/AniDBProvider';
+import { EpisodeType } from '../src/models/Episode';
+import { StudioRole } from '../src/models/People';
+import { AnimeType, AnimeStatus, DataSource, Season } from '../src/types/common';
+import { ProviderError } from '../src/utils/errors';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'anidb');
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+describe('AniDBProvider', () => {
+  describe('anime-titles dump', () => {
+    it('should load the XML dump and search titles', async () => {
+      const provider = new AniDBProvider({
+        titlesDumpPath: path.join(FIXTURES, 'anime-titles.xml'),
+      });
+
+      const results = await provider.searchAnime('seikai');
+
+      expect(results.map((a) => a.externalIds)).toEqual([
+        [{ source: DataSource.ANIDB, id: '1' }],
+        [{ source: DataSource.ANIDB, id: '4' }],
+      ]);
+      expect(results[0].title).toEqual({
+        romaji: 'Seikai no Monshou',
+        english: 'Crest of the Stars',
+        native: '星界の紋章',
+        synonyms: ['CotS'],
+      });
+    });
+
+    it('should rank exact title matches first', async () => {
+      const provider = new AniDBProvider();
+      provider.loadTitles(readFixture('anime-titles.xml'));
+
+      const results = await provider.searchAnime('cowboy bebop');
+
+      expect(results[0].title.synonyms).toEqual(['Cowboy Bebop: Tengoku no Tobira & Friends']);
+      expect(await provider.searchAnime('STARS', 1)).toHaveLength(1);
+    });
+
+    it('should load the gzipped DAT dump, keeping pipes inside titles', () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'miau-anidb-'));
+      const dumpPath = path.join(directory, 'anime-titles.dat.gz');
+      fs.writeFileSync(dumpPath, zlib.gzipSync(readFixture('anime-titles.dat')));
+
+      try {
+        const provider = new AniDBProvider();
+
+        expect(provider.loadTitlesDump(dumpPath)).toBe(2);
+        expect(provider.getTitles('23')).toEqual([
+          { title: 'Cowboy Bebop', type: 'main', language: 'x-jat' },
+          { title: "Cowboy Bebop | Knockin' on Heaven's Door", type: 'syn', language: 'en' },
+        ]);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should map titles to AniDB IDs', () => {
+      const provider = new AniDBProvider();
+      provider.loadTitles(readFixture('anime-titles.dat'));
+
+      expect(provider.findIdsByTitle('crest of the stars!')).toEqual(['1']);
+      expect(provider.findIdsByTitle('Crest')).toEqual([]);
+    });
+
+    it('should reject searches without a loaded dump', async () => {
+      await expect(new AniDBProvider().searchAnime('bebop')).rejects.toThrow(ProviderError);
+    });
+  });
+
+  describe('HTTP API responses', () => {
+    let requests: string[];
+    let provider: AniDBProvider;
+
+    beforeEach(() => {
+      requests = [];
+      provider = new AniDBProvider({
+        fetchAnimeXml: (aid) => {
+          requests.push(aid);
+          return Promise.resolve(
+            aid === '1' ? readFixture('anime-1.xml') : '<error code="302">Anime not found</error>'
+          );
+        },
+      });
+    });
+
+    it('should map anime details', async () => {
+      const anime = await provider.fetchAnimeById('1');
+
+      expect(anime).toMatchObject({
+        title: { romaji: 'Seikai no Monshou', synonyms: ['Seikai no Monsho'] },
+        type: AnimeType.TV,
+        status: AnimeStatus.FINISHED,
+        episodes: 13,
+        duration: 25,
+        season: Season.WINTER,
+        year: 1999,
+        synopsis: expect.stringContaining('by Morioka Hiroyuki.'),
+        images: { original: 'https://cdn.anidb.net/images/main/440.jpg' },
+        ratings: [{ source: DataSource.ANIDB, score: 8.17, votes: 4419 }],
+        genres: ['Sci-Fi'],
+        themes: ['Space'],
+        studios: ['Sunrise'],
+        companies: [
+          {
+            name: 'Sunrise',
+            role: StudioRole.STUDIO,
+            externalId: { source: DataSource.ANIDB, id: '4234' },
+          },
+        ],
+        externalIds: [
+          { source: DataSource.ANIDB, id: '1' },
+          { source: DataSource.MYANIMELIST, id: '290' },
+        ],
+      });
+    });
+
+    it('should map episodes with their AniDB types', async () => {
+      const episodes = await provider.fetchEpisodes('anime-1', '1');
+
+      expect(episodes.map((e) => [e.id, e.type, e.number])).toEqual([
+        ['anime-1-ep-1', EpisodeType.REGULAR, 1],
+        ['anime-1-ep-2', EpisodeType.REGULAR, 2],
+        ['anime-1-ep-S1', EpisodeType.SPECIAL, 1],
+        ['anime-1-ep-C1', EpisodeType.CREDIT, 1],
+        ['anime-1-ep-T1', EpisodeType.TRAILER, 1],
+      ]);
+      expect(episodes[0]).toMatchObject({
+        title: 'Invasion',
+        titleJapanese: '侵略',
+        titleRomaji: 'Shinryaku',
+        synopsis: 'The Abh arrive at <Martine>.',
+        duration: 25,
+        aired: new Date('1999-01-03'),
+        externalIds: [{ source: DataSource.ANIDB, id: '1' }],
+      });
+    });
+
+    it('should reuse the cached response for details and episodes', async () => {
+      await provider.fetchAnimeById('1');
+      await provider.fetchEpisodes('anime-1', '1');
+
+      expect(requests).toEqual(['1']);
+    });
+
+    it('should return null for unknown anime and throw on other API errors', async () => {
+      expect(await provider.fetchAnimeById('999999')).toBeNull();
+
+      const banned = new AniDBProvider({
+        fetchAnimeXml: () => Promise.resolve('<error code="500">banned</error>'),
+      });
+      await expect(banned.fetchAnimeById('1')).rejects.toThrow('[AniDB] banned');
+    });
+
+    it('should require a client name for live API requests', async () => {
+      await expect(new AniDBProvider().fetchAnimeById('1')).rejects.toThrow(ProviderError);
+    });
+  });
+});
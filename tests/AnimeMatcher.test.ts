@@ -0,0 +1,132 @@
+import { AnimeMatcher } from '../src/services/AnimeMatcher';
+import { DataSource } from '../src/types/common';
+import { makeAnime } from './helpers/fixtures';
+
+describe('AnimeMatcher', () => {
+  let matcher: AnimeMatcher;
+
+  beforeEach(() => {
+    matcher = new AnimeMatcher();
+  });
+
+  describe('match', () => {
+    it('should link records sharing an external ID', () => {
+      const aniList = makeAnime(
+        [
+          { source: DataSource.ANILIST, id: '16498' },
+          { source: DataSource.MYANIMELIST, id: '16498' },
+        ],
+        { title: { romaji: 'Shingeki no Kyojin' } }
+      );
+      const jikan = makeAnime([{ source: DataSource.MYANIMELIST, id: '16498' }], {
+        title: { english: 'Completely different' },
+      });
+
+      const result = matcher.match(aniList, jikan);
+
+      expect(result.isMatch).toBe(true);
+      expect(result.confidence).toBe(1);
+      expect(result.reason).toBe('shared-external-id');
+    });
+
+    it('should separate records with different IDs on the same source', () => {
+      const a = makeAnime([{ source: DataSource.ANILIST, id: '1' }], {
+        title: { romaji: 'Hunter x Hunter' },
+      });
+      const b = makeAnime([{ source: DataSource.ANILIST, id: '2' }], {
+        title: { romaji: 'Hunter x Hunter' },
+      });
+
+      const result = matcher.match(a, b);
+
+      expect(result.isMatch).toBe(false);
+      expect(result.reason).toBe('conflicting-external-id');
+    });
+
+    it('should match English and romaji titles through synonyms', () => {
+      const aniList = makeAnime([{ source: DataSource.ANILIST, id: '16498' }], {
+        title: { romaji: 'Shingeki no Kyojin', synonyms: ['AoT'] },
+        year: 2013,
+        episodes: 25,
+      });
+      const kitsu = makeAnime([{ source: DataSource.KITSU, id: '7442' }], {
+        title: { english: 'Attack on Titan', synonyms: ['Shingeki no Kyojin'] },
+        aired: { start: new Date('2013-04-07') },
+        episodes: 25,
+      });
+
+      const result = matcher.match(aniList, kitsu);
+
+      expect(result.isMatch).toBe(true);
+      expect(result.signals).toEqual({ title: 1, year: 1, type: 1, episodes: 1 });
+    });
+
+    it('should ignore punctuation and case in titles', () => {
+      const a = makeAnime([{ source: DataSource.ANILIST, id: '1' }], {
+        title: { romaji: 'Re:Zero kara Hajimeru Isekai Seikatsu' },
+      });
+      const b = makeAnime([{ source: DataSource.KITSU, id: '1' }], {
+        title: { romaji: 're zero kara hajimeru isekai seikatsu' },
+      });
+
+      expect(matcher.match(a, b).signals.title).toBe(1);
+    });
+
+    it('should not match seasons sharing a title prefix', () => {
+      const first = makeAnime([{ source: DataSource.ANILIST, id: '16498' }], {
+        title: { romaji: 'Shingeki no Kyojin' },
+        year: 2013,
+        episodes: 25,
+      });
+      const second = makeAnime([{ source: DataSource.KITSU, id: '8671' }], {
+        title: { romaji: 'Shingeki no Kyojin Season 2' },
+        year: 2017,
+        episodes: 12,
+      });
+
+      expect(matcher.match(first, second).isMatch).toBe(false);
+    });
+
+    it('should respect a custom threshold', () => {
+      const a = makeAnime([{ source: DataSource.ANILIST, id: '1' }], {
+        title: { english: 'Fullmetal Alchemist: Brotherhood' },
+        year: 2009,
+      });
+      const b = makeAnime([{ source: DataSource.KITSU, id: '1' }], {
+        title: { english: 'Fullmetal Alchemist Brotherhood' },
+        year: 2010,
+      });
+
+      expect(matcher.match(a, b).isMatch).toBe(true);
+      expect(new AnimeMatcher({ threshold: 0.95 }).match(a, b).isMatch).toBe(false);
+    });
+  });
+
+  describe('group', () => {
+    it('should group records of the same anime across providers', () => {
+      const records = [
+        makeAnime([{ source: DataSource.ANILIST, id: '16498' }], {
+          title: { romaji: 'Shingeki no Kyojin', english: 'Attack on Titan' },
+          year: 2013,
+        }),
+        makeAnime([{ source: DataSource.ANILIST, id: '20958' }], {
+          title: { romaji: 'Shingeki no Kyojin Season 2' },
+          year: 2017,
+        }),
+        makeAnime([{ source: DataSource.KITSU, id: '7442' }], {
+          title: { english: 'Attack on Titan' },
+          year: 2013,
+        }),
+      ];
+
+      const groups = matcher.group(records);
+
+      expect(groups).toHaveLength(2);
+      expect(groups[0].map((a) => a.externalIds[0].source)).toEqual([
+        DataSource.ANILIST,
+        DataSource.KITSU,
+      ]);
+      expect(groups[1]).toHaveLength(1);
+    });
+  });
+});
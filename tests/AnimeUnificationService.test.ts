@@ -0,0 +1,326 @@
+import { AnimeUnificationService, ConflictReport } from '../src/services/AnimeUnificationService';
+import { InMemoryAnimeRepository } from '../src/repositories/AnimeRepository';
+import { RelationType } from '../src/models/Anime';
+import { AnimeType, DataSource } from '../src/types/common';
+import { isValidAnime } from '../src/utils/validation';
+import { makeAnime, makeProvider } from './helpers/fixtures';
+
+describe('AnimeUnificationService', () => {
+  let service: AnimeUnificationService;
+
+  const ids = [
+    { source: DataSource.MYANIMELIST, id: '1' },
+    { source: DataSource.ANILIST, id: '1' },
+    { source: DataSource.KITSU, id: '1' },
+  ];
+
+  beforeEach(() => {
+    service = new AnimeUnificationService(new InMemoryAnimeRepository());
+    service.registerProvider(
+      makeProvider(
+        makeAnime([{ source: DataSource.MYANIMELIST, id: '1' }], {
+          title: { romaji: 'Shingeki no Kyojin', english: 'Attack on Titan' },
+          synopsis: 'MAL synopsis',
+          type: AnimeType.TV,
+        })
+      )
+    );
+    service.registerProvider(
+      makeProvider(
+        makeAnime([{ source: DataSource.ANILIST, id: '1' }], {
+          title: { romaji: 'Shingeki no Kyojin (AL)', english: 'Attack on Titan (AL)' },
+          synopsis: 'A much longer AniList synopsis',
+          episodes: 25,
+        })
+      )
+    );
+    service.registerProvider(
+      makeProvider(
+        makeAnime([{ source: DataSource.KITSU, id: '1' }], {
+          title: { romaji: 'Shingeki no Kyojin (Kitsu)', native: '進撃の巨人' },
+          duration: 24,
+        })
+      )
+    );
+  });
+
+  describe('preferredSources', () => {
+    it('should pick values from the highest priority source', async () => {
+      const anime = await service.fetchAndUnify(ids, {
+        preferredSources: [DataSource.KITSU, DataSource.ANILIST, DataSource.MYANIMELIST],
+      });
+
+      expect(anime.title.romaji).toBe('Shingeki no Kyojin (Kitsu)');
+      expect(anime.title.english).toBe('Attack on Titan (AL)');
+      expect(anime.title.native).toBe('進撃の巨人');
+    });
+
+    it('should fall back to fetch order for sources without priority', async () => {
+      const anime = await service.fetchAndUnify(ids, {
+        preferredSources: [DataSource.ANILIST],
+      });
+
+      expect(anime.title.romaji).toBe('Shingeki no Kyojin (AL)');
+      expect(anime.title.native).toBe('進撃の巨人');
+    });
+
+    it('should fill scalar fields missing from the preferred source', async () => {
+      const anime = await service.fetchAndUnify(ids, {
+        preferredSources: [DataSource.MYANIMELIST],
+      });
+
+      expect(anime.episodes).toBe(25);
+      expect(anime.duration).toBe(24);
+    });
+  });
+
+  describe('fieldPriorities', () => {
+    it('should override preferredSources for a single field', async () => {
+      const anime = await service.fetchAndUnify(ids, {
+        preferredSources: [DataSource.MYANIMELIST, DataSource.ANILIST],
+        fieldPriorities: { 'title.english': [DataSource.ANILIST] },
+      });
+
+      expect(anime.title.romaji).toBe('Shingeki no Kyojin');
+      expect(anime.title.english).toBe('Attack on Titan (AL)');
+    });
+
+    it('should prefer the longest synopsis unless a source is configured', async () => {
+      const longest = await service.fetchAndUnify(ids);
+      expect(longest.synopsis).toBe('A much longer AniList synopsis');
+
+      const preferred = await service.fetchAndUnify(ids, {
+        fieldPriorities: { synopsis: [DataSource.MYANIMELIST] },
+      });
+      expect(preferred.synopsis).toBe('MAL synopsis');
+    });
+  });
+
+  describe('minSourcesForConsensus', () => {
+    beforeEach(() => {
+      service = new AnimeUnificationService(new InMemoryAnimeRepository());
+      service.registerProvider(
+        makeProvider(
+          makeAnime([{ source: DataSource.MYANIMELIST, id: '1' }], { episodes: 25, year: 2013 })
+        )
+      );
+      service.registerProvider(
+        makeProvider(
+          makeAnime([{ source: DataSource.ANILIST, id: '1' }], { episodes: 26, year: 2013 })
+        )
+      );
+      service.registerProvider(
+        makeProvider(
+          makeAnime([{ source: DataSource.KITSU, id: '1' }], { episodes: 25, year: 2014 })
+        )
+      );
+    });
+
+    it('should resolve scalar fields by majority vote', async () => {
+      const anime = await service.fetchAndUnify(ids, {
+        preferredSources: [DataSource.ANILIST, DataSource.KITSU, DataSource.MYANIMELIST],
+      });
+
+      expect(anime.episodes).toBe(25);
+      expect(anime.year).toBe(2013);
+    });
+
+    it('should fall back to priority when no value reaches the threshold', async () => {
+      const anime = await service.fetchAndUnify(ids, {
+        preferredSources: [DataSource.ANILIST, DataSource.KITSU, DataSource.MYANIMELIST],
+        minSourcesForConsensus: 3,
+      });
+
+      expect(anime.episodes).toBe(26);
+      expect(anime.year).toBe(2013);
+    });
+
+    it('should report conflicting fields', async () => {
+      const reports: ConflictReport[] = [];
+      await service.fetchAndUnify(ids, {
+        preferredSources: [DataSource.ANILIST],
+        minSourcesForConsensus: 3,
+        onConflicts: (report) => reports.push(report),
+      });
+
+      expect(reports).toHaveLength(1);
+      const fields = reports[0].conflicts.map((c) => c.field);
+      expect(fields).toEqual(['episodes', 'year']);
+
+      const episodes = reports[0].conflicts[0];
+      expect(episodes.resolvedBy).toBe('priority');
+      expect(episodes.selected).toEqual({ source: DataSource.ANILIST, value: 26 });
+      expect(episodes.candidates).toHaveLength(3);
+    });
+
+    it('should not report when sources agree', async () => {
+      const onConflicts = jest.fn();
+      await service.fetchAndUnify(ids.slice(0, 1), { onConflicts });
+
+      expect(onConflicts).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('provenance', () => {
+    it('should record the source of each selected field', async () => {
+      const anime = await service.fetchAndUnify(ids, {
+        preferredSources: [DataSource.KITSU, DataSource.ANILIST, DataSource.MYANIMELIST],
+      });
+
+      expect(anime.provenance?.['title.romaji']?.source).toBe(DataSource.KITSU);
+      expect(anime.provenance?.['title.english']?.source).toBe(DataSource.ANILIST);
+      expect(anime.provenance?.synopsis?.source).toBe(DataSource.ANILIST);
+      expect(anime.provenance?.episodes?.source).toBe(DataSource.ANILIST);
+      expect(anime.provenance?.episodes?.fetchedAt).toBeInstanceOf(Date);
+      expect(anime.provenance?.duration?.source).toBe(DataSource.KITSU);
+    });
+
+    it('should list every contributing source for merged fields', async () => {
+      service.registerProvider(
+        makeProvider(
+          makeAnime([{ source: DataSource.ANILIST, id: '1' }], { genres: ['Action', 'Drama'] })
+        )
+      );
+      service.registerProvider(
+        makeProvider(makeAnime([{ source: DataSource.KITSU, id: '1' }], { genres: ['Action'] }))
+      );
+
+      const anime = await service.fetchAndUnify(ids);
+
+      expect(anime.genres).toEqual(['Action', 'Drama']);
+      expect(anime.provenance?.genres?.sources).toEqual([DataSource.ANILIST, DataSource.KITSU]);
+      expect(anime.provenance?.themes).toBeUndefined();
+    });
+
+    it('should collapse near-duplicate genres across sources', async () => {
+      service.registerProvider(
+        makeProvider(
+          makeAnime([{ source: DataSource.ANILIST, id: '1' }], {
+            genres: ['Sci-Fi', 'Slice of Life'],
+          })
+        )
+      );
+      service.registerProvider(
+        makeProvider(
+          makeAnime([{ source: DataSource.KITSU, id: '1' }], {
+            genres: ['Science Fiction'],
+            themes: ['Slice-of-Life'],
+          })
+        )
+      );
+
+      const anime = await service.fetchAndUnify(ids);
+
+      expect(anime.genres).toEqual(['Sci-Fi', 'Slice of Life']);
+      expect(anime.themes).toEqual([]);
+    });
+
+    it('should produce anime that passes schema validation', async () => {
+      const anime = await service.fetchAndUnify(ids);
+
+      expect(isValidAnime(anime)).toBe(true);
+      expect(isValidAnime({ ...anime, provenance: { episodes: { source: 'X' } } })).toBe(false);
+    });
+  });
+
+  describe('ratings', () => {
+    it('should keep one rating per source and compute the aggregate score', async () => {
+      service = new AnimeUnificationService(new InMemoryAnimeRepository());
+      service.registerProvider(
+        makeProvider(
+          makeAnime([{ source: DataSource.MYANIMELIST, id: '1' }], {
+            ratings: [{ source: DataSource.MYANIMELIST, score: 9, votes: 3000 }],
+          })
+        )
+      );
+      service.registerProvider(
+        makeProvider(
+          makeAnime([{ source: DataSource.KITSU, id: '1' }], {
+            ratings: [{ source: DataSource.KITSU, score: 7, votes: 1000 }],
+          })
+        )
+      );
+
+      const anime = await service.fetchAndUnify([ids[0], ids[2]]);
+
+      expect(anime.ratings).toHaveLength(2);
+      expect(anime.aggregateScore).toBe(8.5);
+      expect(isValidAnime(anime)).toBe(true);
+    });
+  });
+
+  describe('relations', () => {
+    it('should combine relations reported by each source', async () => {
+      const sequel = { relationType: RelationType.SEQUEL, title: 'Shingeki no Kyojin Season 2' };
+      service.registerProvider(
+        makeProvider(
+          makeAnime([{ source: DataSource.MYANIMELIST, id: '1' }], {
+            relations: [{ ...sequel, externalId: { source: DataSource.MYANIMELIST, id: '25777' } }],
+          })
+        )
+      );
+      service.registerProvider(
+        makeProvider(
+          makeAnime([{ source: DataSource.ANILIST, id: '1' }], {
+            relations: [
+              { ...sequel, externalId: { source: DataSource.ANILIST, id: '20958' } },
+              { ...sequel, externalId: { source: DataSource.ANILIST, id: '20958' } },
+            ],
+          })
+        )
+      );
+
+      const anime = await service.fetchAndUnify(ids);
+
+      expect(anime.relations?.map((r) => r.externalId)).toEqual([
+        { source: DataSource.MYANIMELIST, id: '25777' },
+        { source: DataSource.ANILIST, id: '20958' },
+      ]);
+      expect(anime.provenance?.relations?.sources).toEqual([
+        DataSource.MYANIMELIST,
+        DataSource.ANILIST,
+      ]);
+      expect(isValidAnime(anime)).toBe(true);
+    });
+  });
+
+  describe('searchAndUnify', () => {
+    it('should unify results for the same anime with different titles', async () => {
+      service = new AnimeUnificationService(new InMemoryAnimeRepository());
+      service.registerProvider(
+        makeProvider(
+          makeAnime([{ source: DataSource.ANILIST, id: '1' }], {
+            title: { romaji: 'Shingeki no Kyojin', english: 'Attack on Titan' },
+            externalIds: [
+              { source: DataSource.ANILIST, id: '16498' },
+              { source: DataSource.MYANIMELIST, id: '16498' },
+            ],
+          })
+        )
+      );
+      service.registerProvider(
+        makeProvider(
+          makeAnime([{ source: DataSource.KITSU, id: '1' }], {
+            title: { english: 'Attack on Titan' },
+            externalIds: [{ source: DataSource.KITSU, id: '7442' }],
+          })
+        )
+      );
+
+      const results = await service.searchAndUnify('titan');
+
+      expect(results).toHaveLength(1);
+      expect(results[0].externalIds).toEqual([
+        { source: DataSource.ANILIST, id: '16498' },
+        { source: DataSource.MYANIMELIST, id: '16498' },
+        { source: DataSource.KITSU, id: '7442' },
+      ]);
+    });
+
+    it('should keep results apart below the match threshold', async () => {
+      const results = await service.searchAndUnify('kyojin', 10, { matchThreshold: 1.01 });
+
+      expect(results).toHaveLength(3);
+    });
+  });
+});
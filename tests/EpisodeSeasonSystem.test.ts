@@ -88,7 +88,7 @@ describe('Episode and Season System', () => {
         lastSyncedAt: new Date(),
       };
 
-      // Create episodes (50 episodes)
+      // Create episodes (50 episodes, weekly, with a broadcast break after episode 25)
       const episodes: Episode[] = [];
       for (let i = 1; i <= 50; i++) {
         episodes.push({
@@ -96,6 +96,7 @@ describe('Episode and Season System', () => {
           animeId: anime.id,
           number: i,
           title: `Episode ${i}`,
+          aired: new Date(Date.UTC(2013, 3, 7 + (i - 1) * 7 + (i > 25 ? 365 : 0))),
           externalIds: [],
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -105,10 +106,10 @@ describe('Episode and Season System', () => {
       // Organize into seasons
       await (miauIndex as any).organizeIntoSeasons(anime.id, episodes);
 
-      // Should create multiple seasons (50 episodes = ~4 seasons at 13 eps each)
+      // Should split the seasons on the broadcast break
       const seasons = await (miauIndex as any).seasonRepository.findByAnimeId(anime.id);
-      expect(seasons.length).toBeGreaterThan(1);
-      expect(seasons.length).toBeLessThanOrEqual(4);
+      expect(seasons.length).toBe(2);
+      expect(seasons[1].episodeOffset).toBe(25);
 
       // Verify season structure
       seasons.forEach((season: AnimeSeason, index: number) => {
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { IdMappingDatabase } from '../src/services/IdMappingDatabase';
+import { DataSource } from '../src/types/common';
+import { ValidationError } from '../src/utils/errors';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'id-mappings');
+
+describe('IdMappingDatabase', () => {
+  let database: IdMappingDatabase;
+
+  beforeEach(() => {
+    database = new IdMappingDatabase();
+  });
+
+  it('should load the anime-offline-database format', () => {
+    expect(database.loadFile(path.join(FIXTURES, 'anime-offline-database.json'))).toBe(3);
+
+    expect(database.resolve({ source: DataSource.ANILIST, id: '1' })).toEqual([
+      { source: DataSource.ANILIST, id: '1' },
+      { source: DataSource.ANIDB, id: '23' },
+      { source: DataSource.KITSU, id: '1' },
+      { source: DataSource.MYANIMELIST, id: '1' },
+    ]);
+  });
+
+  it('should load the anime-lists format with TMDB IDs in the TMDBProvider format', () => {
+    database.loadFile(path.join(FIXTURES, 'anime-list-full.json'));
+
+    expect(database.resolve({ source: DataSource.MYANIMELIST, id: '32281' })).toEqual([
+      { source: DataSource.MYANIMELIST, id: '32281' },
+      { source: DataSource.ANILIST, id: '21519' },
+      { source: DataSource.ANIDB, id: '11829' },
+      { source: DataSource.TMDB, id: 'movie/372058' },
+      { source: 'IMDB', id: 'tt5311514' },
+    ]);
+  });
+
+  it('should merge datasets on shared IDs without merging seasons of one TMDB show', () => {
+    database.loadFile(path.join(FIXTURES, 'anime-offline-database.json'));
+    database.loadFile(path.join(FIXTURES, 'anime-list-full.json'));
+
+    expect(database.size).toBe(4);
+    expect(database.resolve({ source: DataSource.MYANIMELIST, id: '25777' })).toContainEqual({
+      source: DataSource.TMDB,
+      id: 'tv/1429',
+    });
+    expect(database.resolve({ source: DataSource.TMDB, id: 'tv/1429' })).toContainEqual({
+      source: DataSource.MYANIMELIST,
+      id: '16498',
+    });
+  });
+
+  it('should read gzipped files', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'miau-mappings-'));
+    const filePath = path.join(directory, 'anime-list-full.json.gz');
+    fs.writeFileSync(
+      filePath,
+      zlib.gzipSync(fs.readFileSync(path.join(FIXTURES, 'anime-list-full.json')))
+    );
+
+    try {
+      expect(database.loadFile(filePath)).toBe(4);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should return only the given ID when it is not mapped', () => {
+    database.add([
+      { source: 'in-house', id: '7' },
+      { source: DataSource.KITSU, id: '7' },
+    ]);
+
+    expect(database.resolve({ source: DataSource.KITSU, id: '8' })).toEqual([
+      { source: DataSource.KITSU, id: '8' },
+    ]);
+    expect(database.resolve({ source: DataSource.KITSU, id: '7' })).toEqual([
+      { source: DataSource.KITSU, id: '7' },
+      { source: 'in-house', id: '7' },
+    ]);
+  });
+
+  it('should tell show-wide IDs from per-entry ones', () => {
+    expect(database.isShowWide({ source: DataSource.TMDB, id: 'tv/1429' })).toBe(true);
+    expect(database.isShowWide({ source: DataSource.TMDB, id: 'movie/372058' })).toBe(false);
+    expect(database.isShowWide({ source: 'TVDB', id: '267440' })).toBe(true);
+    expect(database.isShowWide({ source: 'IMDB', id: 'tt2560140' })).toBe(true);
+    expect(database.isShowWide({ source: DataSource.MYANIMELIST, id: '16498' })).toBe(false);
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => database.load({ anime: [] })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,660 @@
+import { MiauIndex } from '../src/MiauIndex';
+import { IAnimeRepository, InMemoryAnimeRepository } from '../src/repositories/AnimeRepository';
+import {
+  InMemoryEpisodeRepository,
+  InMemorySeasonRepository,
+} from '../src/repositories/EpisodeRepository';
+import { InMemoryTorrentRepository } from '../src/repositories/TorrentRepository';
+import { IAnimeProvider } from '../src/providers/BaseProvider';
+import { IdMappingDatabase } from '../src/services/IdMappingDatabase';
+import { Anime, AnimeCompany, RelationType } from '../src/models/Anime';
+import { CharacterRole, StudioRole } from '../src/models/People';
+import { DataSource, ExternalId, SourceId } from '../src/types/common';
+import { NotFoundError } from '../src/utils/errors';
+import { makeAnime, makeProvider, makeTorrent } from './helpers/fixtures';
+
+describe('MiauIndex dependency injection', () => {
+  it('should use injected repositories', async () => {
+    const anime = new InMemoryAnimeRepository();
+    const episodes = new InMemoryEpisodeRepository();
+    const bebop = await anime.save(
+      makeAnime([{ source: DataSource.ANILIST, id: '1' }], { title: { romaji: 'Cowboy Bebop' } })
+    );
+    await episodes.save({
+      id: 'bebop-1',
+      animeId: bebop.id,
+      number: 1,
+      title: 'Asteroid Blues',
+      externalIds: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const miauIndex = new MiauIndex({ repositories: { anime, episodes } });
+
+    expect((await miauIndex.getById('ANILIST-1'))?.title.romaji).toBe('Cowboy Bebop');
+    expect((await miauIndex.getEpisodes(bebop)).map((e) => e.title)).toEqual(['Asteroid Blues']);
+  });
+
+  it('should replace built-in providers with injected ones', async () => {
+    const miauIndex = new MiauIndex({
+      enabledProviders: { aniList: false, kitsu: false },
+      providers: [
+        makeProvider(
+          makeAnime([{ source: DataSource.MYANIMELIST, id: '1' }], { title: { romaji: 'Trigun' } })
+        ),
+      ],
+    });
+
+    const results = await miauIndex.searchAnime('trigun');
+
+    expect(results.map((a) => a.title.romaji)).toEqual(['Trigun']);
+    expect(await miauIndex.checkProviders()).toEqual({ [DataSource.MYANIMELIST]: true });
+  });
+
+  it('should unify data from injected providers', async () => {
+    const miauIndex = new MiauIndex({
+      enabledProviders: { aniList: false, kitsu: false },
+      providers: [
+        makeProvider(
+          makeAnime([{ source: DataSource.MYANIMELIST, id: '1' }], { title: { romaji: 'Trigun' } })
+        ),
+      ],
+    });
+
+    const anime = await miauIndex.fetchAnime([{ source: DataSource.MYANIMELIST, id: '1' }]);
+
+    expect(anime.title.romaji).toBe('Trigun');
+  });
+});
+
+describe('MiauIndex provider registration', () => {
+  let miauIndex: MiauIndex;
+
+  beforeEach(() => {
+    miauIndex = new MiauIndex({ enabledProviders: { aniList: false, kitsu: false } });
+  });
+
+  it('should accept providers with custom source ids', async () => {
+    const inHouse = makeAnime([{ source: 'in-house', id: '42' }], {
+      title: { romaji: 'Cowboy Bebop' },
+    });
+    miauIndex.registerProvider(makeProvider(inHouse), { priority: 50 });
+
+    const anime = await miauIndex.fetchAnime([{ source: 'in-house', id: '42' }]);
+
+    expect(anime.externalIds).toEqual([{ source: 'in-house', id: '42' }]);
+    expect(miauIndex.getProviders().map((p) => p.source)).toEqual([
+      'in-house',
+      DataSource.MYANIMELIST,
+    ]);
+  });
+
+  it('should only query providers with the matching capability', async () => {
+    miauIndex.unregisterProvider(DataSource.MYANIMELIST);
+    miauIndex.registerProvider(
+      makeProvider(
+        makeAnime([{ source: 'search-only', id: '1' }], { title: { romaji: 'Trigun' } })
+      ),
+      {
+        capabilities: { seasonal: false },
+      }
+    );
+    miauIndex.registerProvider(
+      makeProvider(
+        makeAnime([{ source: 'seasonal-only', id: '1' }], { title: { romaji: 'Monster' } })
+      ),
+      {
+        capabilities: { search: false },
+      }
+    );
+
+    expect((await miauIndex.searchAnime('x')).map((a) => a.title.romaji)).toEqual(['Trigun']);
+    expect((await miauIndex.getSeasonalAnime(2024, 'winter')).map((a) => a.title.romaji)).toEqual([
+      'Monster',
+    ]);
+  });
+
+  it('should prefer higher priority providers during unification', async () => {
+    miauIndex.unregisterProvider(DataSource.MYANIMELIST);
+    miauIndex.registerProvider(
+      makeProvider(makeAnime([{ source: 'low', id: '1' }], { title: { romaji: 'Low' } })),
+      { priority: 1 }
+    );
+    miauIndex.registerProvider(
+      makeProvider(makeAnime([{ source: 'high', id: '1' }], { title: { romaji: 'High' } })),
+      { priority: 2 }
+    );
+
+    const anime = await miauIndex.fetchAnime([
+      { source: 'low', id: '1' },
+      { source: 'high', id: '1' },
+    ]);
+
+    expect(anime.title.romaji).toBe('High');
+  });
+});
+
+describe('MiauIndex ID mappings', () => {
+  it('should resolve a single external ID before unifying', async () => {
+    const idMappings = new IdMappingDatabase();
+    idMappings.add([
+      { source: DataSource.MYANIMELIST, id: '1' },
+      { source: 'in-house', id: '42' },
+      { source: 'TVDB', id: '76885' },
+    ]);
+    const miauIndex = new MiauIndex({
+      enabledProviders: { aniList: false, kitsu: false },
+      providers: [
+        makeProvider(
+          makeAnime([{ source: DataSource.MYANIMELIST, id: '1' }], {
+            title: { romaji: 'Cowboy Bebop' },
+          })
+        ),
+        {
+          provider: makeProvider(
+            makeAnime([{ source: 'in-house', id: '42' }], { title: { romaji: 'Cowboy Bebop' } })
+          ),
+          priority: 50,
+        },
+      ],
+      idMappings,
+    });
+
+    const anime = await miauIndex.fetchAnime({ source: DataSource.MYANIMELIST, id: '1' });
+
+    expect(anime.externalIds).toEqual([
+      { source: DataSource.MYANIMELIST, id: '1' },
+      { source: 'in-house', id: '42' },
+      { source: 'TVDB', id: '76885' },
+    ]);
+    expect((await miauIndex.getById(anime.id))?.externalIds).toHaveLength(3);
+  });
+
+  it('should store but not fetch show-wide IDs mapped to a season', async () => {
+    const idMappings = new IdMappingDatabase();
+    idMappings.add([
+      { source: DataSource.MYANIMELIST, id: '25777' },
+      { source: DataSource.TMDB, id: 'tv/1429' },
+    ]);
+    const show = makeProvider(
+      makeAnime([{ source: DataSource.TMDB, id: 'tv/1429' }], {
+        title: { romaji: 'Attack on Titan' },
+      })
+    );
+    const fetchShow = jest.spyOn(show, 'fetchAnimeById');
+    const miauIndex = new MiauIndex({
+      enabledProviders: { aniList: false, kitsu: false },
+      providers: [
+        makeProvider(
+          makeAnime([{ source: DataSource.MYANIMELIST, id: '25777' }], {
+            title: { romaji: 'Season 2' },
+          })
+        ),
+        show,
+      ],
+      idMappings,
+    });
+
+    const anime = await miauIndex.fetchAnime({ source: DataSource.MYANIMELIST, id: '25777' });
+
+    expect(fetchShow).not.toHaveBeenCalled();
+    expect(anime.title.romaji).toBe('Season 2');
+    expect(anime.externalIds).toContainEqual({ source: DataSource.TMDB, id: 'tv/1429' });
+  });
+});
+
+describe('MiauIndex franchises', () => {
+  it('should walk a franchise in watch order, fetching missing sequels', async () => {
+    const sequel = makeAnime([{ source: DataSource.MYANIMELIST, id: '2' }], {
+      title: { romaji: 'Sequel' },
+    });
+    const miauIndex = new MiauIndex({
+      enabledProviders: { aniList: false, kitsu: false },
+      providers: [
+        {
+          ...makeProvider(sequel),
+          fetchAnimeById: (id: string) => Promise.resolve(id === '2' ? sequel : null),
+        },
+      ],
+    });
+    const first = await miauIndex.saveAnime({
+      ...makeAnime([{ source: DataSource.MYANIMELIST, id: '1' }], { title: { romaji: 'First' } }),
+      relations: [
+        {
+          relationType: RelationType.SEQUEL,
+          externalId: { source: DataSource.MYANIMELIST, id: '2' },
+        },
+      ],
+    });
+
+    expect(await miauIndex.getRelatedAnime(first.id)).toEqual([]);
+    expect(
+      (await miauIndex.getWatchOrder(first.id, { fetchMissing: true })).map((a) => a.title.romaji)
+    ).toEqual(['First', 'Sequel']);
+    expect((await miauIndex.getRelatedAnime(first.id))[0].anime.title.romaji).toBe('Sequel');
+    await expect(miauIndex.getFranchise('unknown')).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe('MiauIndex seasons', () => {
+  it('should number the episodes of a sequel after its prequel', async () => {
+    const sequel = makeAnime([{ source: DataSource.MYANIMELIST, id: '2' }], {
+      title: { romaji: 'Sequel' },
+    });
+    const episodes = [1, 2, 3].map((number) => ({
+      id: `sequel-ep-${number}`,
+      animeId: sequel.id,
+      number,
+      externalIds: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }));
+    const seasons = new InMemorySeasonRepository();
+    const miauIndex = new MiauIndex({
+      enabledProviders: { aniList: false, kitsu: false },
+      providers: [{ ...makeProvider(sequel), fetchEpisodes: () => Promise.resolve(episodes) }],
+      repositories: { seasons },
+    });
+    await miauIndex.saveAnime({
+      ...makeAnime([{ source: DataSource.MYANIMELIST, id: '1' }], { title: { romaji: 'First' } }),
+      episodes: 25,
+    });
+    await miauIndex.saveAnime({
+      ...sequel,
+      relations: [
+        {
+          relationType: RelationType.PREQUEL,
+          externalId: { source: DataSource.MYANIMELIST, id: '1' },
+        },
+      ],
+    });
+
+    const numbered = await miauIndex.getEpisodes(sequel);
+
+    expect(numbered.map((e) => [e.seasonNumber, e.seasonEpisodeNumber, e.absoluteNumber])).toEqual([
+      [2, 1, 26],
+      [2, 2, 27],
+      [2, 3, 28],
+    ]);
+    expect(await seasons.findByAnimeId(sequel.id)).toMatchObject([
+      { seasonNumber: 2, episodeCount: 3, absoluteEpisodeOffset: 25 },
+    ]);
+  });
+});
+
+describe('MiauIndex torrent association', () => {
+  it('should link season-relative and absolute numbers to the same episode', async () => {
+    const torrents = new InMemoryTorrentRepository();
+    const episodes = new InMemoryEpisodeRepository();
+    const seasons = new InMemorySeasonRepository();
+    const miauIndex = new MiauIndex({
+      enabledProviders: { aniList: false, kitsu: false },
+      enableNyaa: true,
+      repositories: { torrents, episodes, seasons },
+    });
+    // Second season entry after a 25-episode first season
+    await episodes.saveMany(
+      [1, 2, 3].map((number) => ({
+        id: `ep-${number}`,
+        animeId: 'anime',
+        number,
+        seasonNumber: 2,
+        seasonEpisodeNumber: number,
+        externalIds: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }))
+    );
+    await seasons.save({
+      id: 'season-2',
+      animeId: 'anime',
+      seasonNumber: 2,
+      episodeCount: 3,
+      episodeOffset: 0,
+      absoluteEpisodeOffset: 25,
+      externalIds: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await torrents.saveMany([
+      makeTorrent('relative', { animeId: 'anime', seasonNumber: 2, episodeNumber: 2 }),
+      makeTorrent('absolute', { animeId: 'anime', episodeNumber: 27 }),
+      makeTorrent('batch', { animeId: 'anime', episodeRange: { start: 26, end: 28 } }),
+      makeTorrent('other-season', { animeId: 'anime', seasonNumber: 1, episodeNumber: 2 }),
+    ]);
+
+    expect(await miauIndex.associateTorrentsWithEpisodes('anime')).toBe(3);
+    expect((await torrents.findByEpisodeId('ep-2')).map((t) => t.id).sort()).toEqual([
+      'absolute',
+      'batch',
+      'relative',
+    ]);
+    expect((await torrents.findById('batch'))?.episodeIds).toEqual(['ep-1', 'ep-2', 'ep-3']);
+    expect((await torrents.findById('relative'))?.seasonId).toBe('season-2');
+    expect(await miauIndex.associateTorrentsWithEpisodes('anime')).toBe(0);
+  });
+});
+
+describe('MiauIndex characters and staff', () => {
+  function makePeopleProvider(
+    source: SourceId,
+    people: { voiceActor: string; director: string; roles: string[] },
+    spikeId: string
+  ): IAnimeProvider {
+    const person = (
+      id: string,
+      full: string
+    ): { name: { full: string }; externalIds: ExternalId[] } => ({
+      name: { full },
+      externalIds: [{ source, id }],
+    });
+
+    return {
+      ...makeProvider(
+        makeAnime([{ source: source, id: '1' }], { title: { romaji: 'Cowboy Bebop' } })
+      ),
+      fetchCharacters: () =>
+        Promise.resolve([
+          {
+            id: `${source}-spike`,
+            ...person(spikeId, 'Spike Spiegel'),
+            role: CharacterRole.MAIN,
+            voiceActors: [
+              { id: `${source}-va`, ...person('va', people.voiceActor), language: 'Japanese' },
+            ],
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          },
+        ]),
+      fetchStaff: (externalId: string) =>
+        Promise.resolve(
+          externalId === '1'
+            ? people.roles.map((role) => ({
+                id: `${source}-${role}`,
+                ...person('director', people.director),
+                role,
+                createdAt: new Date(),
+                updatedAt: new Date(),
+              }))
+            : []
+        ),
+    };
+  }
+
+  it('should unify characters and staff across providers and credit people across anime', async () => {
+    const miauIndex = new MiauIndex({
+      enabledProviders: { aniList: false, kitsu: false },
+      providers: [
+        {
+          provider: makePeopleProvider(
+            DataSource.ANILIST,
+            {
+              voiceActor: 'Kouichi Yamadera',
+              director: 'Shinichirou Watanabe',
+              roles: ['Director'],
+            },
+            '1'
+          ),
+          priority: 2,
+        },
+        makePeopleProvider(
+          DataSource.MYANIMELIST,
+          {
+            voiceActor: 'Yamadera, Kōichi',
+            director: 'Shinichiro Watanabe',
+            roles: ['Director', 'Storyboard'],
+          },
+          '1'
+        ),
+      ],
+    });
+    const series = await miauIndex.saveAnime({
+      ...makeAnime([{ source: DataSource.ANILIST, id: '1' }], {
+        title: { romaji: 'Cowboy Bebop' },
+      }),
+      externalIds: [
+        { source: DataSource.ANILIST, id: '1' },
+        { source: DataSource.MYANIMELIST, id: '1' },
+      ],
+    });
+    const movie = await miauIndex.saveAnime(
+      makeAnime([{ source: DataSource.MYANIMELIST, id: '5' }], { title: { romaji: 'Movie' } })
+    );
+
+    const characters = await miauIndex.getCharacters(series.id);
+    const staff = await miauIndex.getStaff(series.id);
+
+    expect(characters).toHaveLength(1);
+    expect(characters[0]).toMatchObject({
+      name: { full: 'Spike Spiegel' },
+      role: CharacterRole.MAIN,
+    });
+    expect(characters[0].externalIds).toHaveLength(2);
+    expect(characters[0].voiceActors).toHaveLength(1);
+    expect(staff.map((member) => [member.name.full, member.role])).toEqual([
+      ['Shinichirou Watanabe', 'Director, Storyboard'],
+    ]);
+
+    const movieCharacters = await miauIndex.getCharacters(movie.id);
+    const voiceActorId = characters[0].voiceActors![0].id;
+
+    expect(movieCharacters[0].id).toBe(characters[0].id);
+    expect(await miauIndex.getStaffCredits(voiceActorId)).toEqual([
+      {
+        animeId: series.id,
+        role: 'Voice Actor',
+        characterId: characters[0].id,
+        language: 'Japanese',
+      },
+      {
+        animeId: movie.id,
+        role: 'Voice Actor',
+        characterId: characters[0].id,
+        language: 'Japanese',
+      },
+    ]);
+    expect(await miauIndex.getStaff(movie.id)).toEqual([]);
+    await expect(miauIndex.getStaffCredits('unknown')).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe('MiauIndex studios', () => {
+  const sunrise = (source: SourceId, id: string): AnimeCompany => ({
+    name: 'Sunrise',
+    role: StudioRole.STUDIO,
+    externalId: { source, id },
+    isAnimationStudio: true,
+  });
+
+  it('should resolve studios across providers and query them by studio', async () => {
+    const miauIndex = new MiauIndex({
+      enabledProviders: { aniList: false, kitsu: false },
+      providers: [
+        makeProvider({
+          ...makeAnime([{ source: DataSource.ANILIST, id: '1' }], {
+            title: { romaji: 'Cowboy Bebop' },
+          }),
+          year: 1998,
+          companies: [
+            sunrise(DataSource.ANILIST, '14'),
+            {
+              name: 'Bandai Visual',
+              role: StudioRole.PRODUCER,
+              externalId: { source: DataSource.ANILIST, id: '20' },
+            },
+          ],
+        }),
+        makeProvider({
+          ...makeAnime([{ source: DataSource.MYANIMELIST, id: '1' }], {
+            title: { romaji: 'Cowboy Bebop' },
+          }),
+          companies: [sunrise(DataSource.MYANIMELIST, '14')],
+        }),
+      ],
+    });
+
+    const series = await miauIndex.fetchAnime([
+      { source: DataSource.ANILIST, id: '1' },
+      { source: DataSource.MYANIMELIST, id: '1' },
+    ]);
+    // Stored without companies: linked by name
+    const movie = await miauIndex.saveAnime({
+      ...makeAnime([{ source: DataSource.MYANIMELIST, id: '5' }], {
+        title: { romaji: 'Cowboy Bebop: Tengoku no Tobira' },
+      }),
+      year: 2001,
+      studios: ['Bones', 'SUNRISE Inc.'],
+    });
+    const prequel = await miauIndex.saveAnime({
+      ...makeAnime([{ source: DataSource.MYANIMELIST, id: '6' }], {
+        title: { romaji: 'Mobile Suit Gundam' },
+      }),
+      year: 1979,
+      companies: [sunrise(DataSource.MYANIMELIST, '14')],
+    });
+
+    const studios = await miauIndex.getStudios(series.id);
+    const [studio] = await miauIndex.findStudios('sunrise');
+
+    expect(studios.map((s) => s.name)).toEqual(['Sunrise', 'Bandai Visual']);
+    expect(studio.externalIds).toHaveLength(2);
+    expect(studio.alternativeNames).toEqual(['SUNRISE Inc.']);
+    expect((await miauIndex.getById(series.id))?.companies?.map((c) => c.studioId)).toEqual([
+      studio.id,
+      studios[1].id,
+      studio.id,
+    ]);
+
+    expect((await miauIndex.getStudioAnime(studio.id)).map((a) => a.id)).toEqual([
+      series.id,
+      movie.id,
+      prequel.id,
+    ]);
+    expect(
+      (await miauIndex.getStudioFilmography(studio.id)).map((entry) => [
+        entry.anime.year,
+        entry.roles,
+      ])
+    ).toEqual([
+      [1979, [StudioRole.STUDIO]],
+      [1998, [StudioRole.STUDIO]],
+      [2001, [StudioRole.STUDIO]],
+    ]);
+
+    const coProductions = await miauIndex.getCoProductions(studio.id);
+    expect(coProductions.map((c) => [c.studio.name, c.animeIds])).toEqual([
+      ['Bandai Visual', [series.id]],
+      ['Bones', [movie.id]],
+    ]);
+    expect(
+      (await miauIndex.getCoProductions(studio.id, { roles: [StudioRole.STUDIO] })).map(
+        (c) => c.studio.name
+      )
+    ).toEqual(['Bones']);
+
+    // Studios dropped from an anime lose their credit
+    await miauIndex.saveAnime({ ...movie, companies: undefined, studios: ['Sunrise'] });
+    expect(await miauIndex.getCoProductions(studio.id, { roles: [StudioRole.STUDIO] })).toEqual([]);
+    await expect(miauIndex.getStudioFilmography('unknown')).rejects.toThrow(NotFoundError);
+  });
+});
+
+/**
+ * Custom repository implementing only the required methods
+ */
+class MinimalAnimeRepository implements IAnimeRepository {
+  private inner = new InMemoryAnimeRepository();
+
+  findById = (id: string) => this.inner.findById(id);
+  findByExternalId = (source: string, id: string) => this.inner.findByExternalId(source, id);
+  searchByTitle = (title: string, limit?: number) => this.inner.searchByTitle(title, limit);
+  save = (anime: Anime) => this.inner.save(anime);
+  saveMany = (animes: Anime[]) => this.inner.saveMany(animes);
+  delete = (id: string) => this.inner.delete(id);
+  findAll = (page: number, limit: number) => this.inner.findAll(page, limit);
+  count = () => this.inner.count();
+}
+
+describe('MiauIndex local queries', () => {
+  it('should run structured queries through searchLocal', async () => {
+    const miauIndex = new MiauIndex({ enabledProviders: { aniList: false, kitsu: false } });
+    for (const [id, year] of [
+      ['1', 1998],
+      ['2', 2001],
+      ['3', 2004],
+    ] as const) {
+      await miauIndex.saveAnime({
+        ...makeAnime([{ source: DataSource.ANILIST, id: id }], {
+          title: { romaji: `Anime ${id}` },
+        }),
+        year,
+      });
+    }
+
+    const page = await miauIndex.searchLocal({ year: { min: 2000 }, sortBy: 'year', limit: 1 });
+    const next = await miauIndex.searchLocal({
+      year: { min: 2000 },
+      sortBy: 'year',
+      limit: 1,
+      cursor: page.nextCursor,
+    });
+
+    expect(page.total).toBe(2);
+    expect(page.items.map((a) => a.year)).toEqual([2001]);
+    expect(next.items.map((a) => a.year)).toEqual([2004]);
+    expect(next.nextCursor).toBeUndefined();
+    expect((await miauIndex.searchLocal('anime 3')).map((a) => a.year)).toEqual([2004]);
+    expect((await miauIndex.searchLocal('anme 3')).map((a) => a.year)).toEqual([2004]);
+
+    const ranked = await miauIndex.searchLocalRanked('ANIME');
+    expect(ranked).toHaveLength(3);
+    expect(ranked.every((match) => match.score > 0.9)).toBe(true);
+  });
+
+  it('should list every local anime sorted by aggregate score', async () => {
+    const miauIndex = new MiauIndex({ enabledProviders: { aniList: false, kitsu: false } });
+    const scores: Array<[string, number | undefined]> = [
+      ['1', 7.1],
+      ['2', undefined],
+      ['3', 8.4],
+    ];
+    for (const [id, aggregateScore] of scores) {
+      await miauIndex.saveAnime(
+        makeAnime([{ source: DataSource.ANILIST, id }], { aggregateScore })
+      );
+    }
+
+    const sorted = await miauIndex.getAllLocal({ sortBy: 'aggregateScore' });
+
+    expect(sorted.map((a) => a.id)).toEqual(['ANILIST-3', 'ANILIST-1', 'ANILIST-2']);
+    expect(await miauIndex.getAllLocal()).toHaveLength(3);
+  });
+
+  it('should query repositories without findByQuery or fuzzySearchByTitle', async () => {
+    const miauIndex = new MiauIndex({
+      enabledProviders: { aniList: false, kitsu: false },
+      repositories: { anime: new MinimalAnimeRepository() },
+    });
+    for (const [id, year] of [
+      ['1', 1998],
+      ['2', 2001],
+    ] as const) {
+      await miauIndex.saveAnime({
+        ...makeAnime([{ source: DataSource.ANILIST, id: id }], {
+          title: { romaji: `Anime ${id}` },
+        }),
+        year,
+      });
+    }
+
+    const result = await miauIndex.searchLocal({ year: { min: 2000 } });
+
+    expect(result.total).toBe(1);
+    expect(result.items.map((a) => a.year)).toEqual([2001]);
+    expect((await miauIndex.searchLocal('anme 2')).map((a) => a.year)).toEqual([2001]);
+    expect(
+      (await miauIndex.searchLocalRanked('anime', { limit: 1 })).map((m) => m.anime.year)
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,102 @@
+import { NyaaIndexer } from '../src/indexers/NyaaIndexer';
+import { ProviderError } from '../src/utils/errors';
+
+const mockSearch = jest.fn();
+
+jest.mock('@kitsuneislife/nyaa', () => ({
+  NyaaScraper: jest.fn().mockImplementation(() => ({
+    search: (options: unknown) => mockSearch(options) as unknown,
+  })),
+}));
+
+function nyaaTorrent(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    title: `[SubsPlease] Sousou no Frieren - 05 (1080p) [${id}]`,
+    category: 'Anime - English-translated',
+    magnetLink: `magnet:?xt=urn:btih:${'A'.repeat(40)}&dn=Frieren`,
+    torrentLink: `https://nyaa.si/download/${id}.torrent`,
+    size: '1.4 GiB',
+    date: '2023-10-06T16:05:00Z',
+    seeders: 120,
+    leechers: 10,
+    downloads: 5400,
+    isTrusted: true,
+    isRemake: false,
+    ...overrides,
+  };
+}
+
+describe('NyaaIndexer', () => {
+  beforeEach(() => {
+    mockSearch.mockReset();
+  });
+
+  it('should map Nyaa torrents to releases', async () => {
+    mockSearch.mockResolvedValue({ torrents: [nyaaTorrent('1001')] });
+    const indexer = new NyaaIndexer({ category: '1_3' });
+
+    const [release] = await indexer.search('frieren 05', { trustedOnly: true });
+
+    expect(mockSearch).toHaveBeenCalledWith({
+      query: 'frieren 05',
+      category: '1_3',
+      filter: 'trusted-only',
+      sortBy: 'seeders',
+      order: 'desc',
+    });
+    expect(release).toEqual({
+      indexer: 'nyaa',
+      id: '1001',
+      title: '[SubsPlease] Sousou no Frieren - 05 (1080p) [1001]',
+      category: 'Anime - English-translated',
+      magnetLink: `magnet:?xt=urn:btih:${'A'.repeat(40)}&dn=Frieren`,
+      torrentLink: 'https://nyaa.si/download/1001.torrent',
+      infoHash: 'a'.repeat(40),
+      size: '1.4 GiB',
+      sizeBytes: 1503238554,
+      seeders: 120,
+      leechers: 10,
+      downloads: 5400,
+      publishedAt: new Date('2023-10-06T16:05:00Z'),
+      trusted: true,
+      remake: false,
+    });
+  });
+
+  it('should default to English-translated anime and apply the limit', async () => {
+    mockSearch.mockResolvedValue({
+      torrents: [nyaaTorrent('1'), nyaaTorrent('2'), nyaaTorrent('3')],
+    });
+    const indexer = new NyaaIndexer();
+
+    const releases = await indexer.search('frieren', { limit: 2 });
+
+    expect(mockSearch).toHaveBeenCalledWith(
+      expect.objectContaining({ category: '1_2', filter: 'no-filter' })
+    );
+    expect(releases.map((release) => release.id)).toEqual(['1', '2']);
+  });
+
+  it('should fetch releases and stats by exact ID', async () => {
+    mockSearch.mockResolvedValue({
+      torrents: [nyaaTorrent('10010', { seeders: 3 }), nyaaTorrent('1001', { seeders: 40 })],
+    });
+    const indexer = new NyaaIndexer();
+
+    expect((await indexer.fetchById('1001'))?.seeders).toBe(40);
+    expect(await indexer.refreshStats('1001')).toEqual({
+      seeders: 40,
+      leechers: 10,
+      downloads: 5400,
+    });
+    expect(await indexer.fetchById('999')).toBeNull();
+  });
+
+  it('should report failed searches', async () => {
+    mockSearch.mockRejectedValue(new Error('503 Service Unavailable'));
+    const indexer = new NyaaIndexer({ maxRetries: 1 });
+
+    await expect(indexer.search('frieren')).rejects.toThrow(ProviderError);
+  });
+});
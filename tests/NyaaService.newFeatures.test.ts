@@ -1,5 +1,14 @@
 import { NyaaService, NyaaServiceOptions } from '../src/services/NyaaService';
-import { InMemoryTorrentRepository } from '../src/repositories/TorrentRepository';
+import {
+  ITorrentRepository,
+  InMemoryTorrentRepository,
+} from '../src/repositories/TorrentRepository';
+import {
+  InMemoryEpisodeRepository,
+  InMemorySeasonRepository,
+} from '../src/repositories/EpisodeRepository';
+import { BaseTorrentIndexer, IndexerRelease } from '../src/indexers/TorrentIndexer';
+import { ProviderError } from '../src/utils/errors';
 import {
   Torrent,
   TorrentQuality,
@@ -7,11 +16,17 @@ import {
   TorrentCodec,
   TorrentReleaseType,
 } from '../src/models/Torrent';
+import { DataSource } from '../src/types/common';
+import { makeAnime } from './helpers/fixtures';
 
 describe('NyaaService - New Features', () => {
   let service: NyaaService;
   let torrentRepo: InMemoryTorrentRepository;
   const testAnimeId = 'test-anime-123';
+  const testAnime = makeAnime([{ source: DataSource.ANILIST, id: '154587' }], {
+    id: testAnimeId,
+    title: { romaji: 'Sousou no Frieren' },
+  });
 
   beforeEach(() => {
     torrentRepo = new InMemoryTorrentRepository();
@@ -264,6 +279,107 @@ describe('NyaaService - New Features', () => {
       expect(bestQuality).toBe(TorrentQuality.FULL_HD_1080p);
     });
 
+    it('should return the best quality for a scoring profile', async () => {
+      const bestQuality = await service.getBestQualityForEpisode(testAnimeId, 1, {
+        qualities: [TorrentQuality.HD_720p, TorrentQuality.SD_480p],
+      });
+      expect(bestQuality).toBe(TorrentQuality.HD_720p);
+    });
+
+    it('should rank torrents with rejected ones last', async () => {
+      const ranked = await service.rankTorrentsForEpisode(testAnime, 1, {
+        qualities: [TorrentQuality.HD_720p, TorrentQuality.FULL_HD_1080p],
+      });
+
+      expect(ranked.map((r) => r.torrent.id)).toEqual(['3', '2', '1']);
+      expect(ranked[2].accepted).toBe(false);
+      expect(ranked[2].rejections).toEqual(['Quality 480p is not allowed']);
+    });
+
+    it('should rank season-labelled releases by their episode within the anime', async () => {
+      const episodeRepo = new InMemoryEpisodeRepository();
+      const seasonRepo = new InMemorySeasonRepository();
+      for (const [seasonNumber, episodeCount, episodeOffset] of [
+        [1, 25, 0],
+        [2, 12, 25],
+      ]) {
+        await seasonRepo.save({
+          id: `season-${seasonNumber}`,
+          animeId: testAnimeId,
+          seasonNumber,
+          episodeCount,
+          episodeOffset,
+          externalIds: [],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+      }
+      for (let number = 1; number <= 37; number++) {
+        await episodeRepo.save({
+          id: `ep-${number}`,
+          animeId: testAnimeId,
+          number,
+          externalIds: [],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+      }
+      const sd = (await torrentRepo.findById('1')) as Torrent;
+      await torrentRepo.save({
+        ...sd,
+        id: '4',
+        nyaaId: '1004',
+        title: 'Test Anime S2 - 05 [480p]',
+        infoHash: 'd'.repeat(40),
+        seasonNumber: 2,
+        episodeNumber: 5,
+      });
+      const seasoned = new NyaaService(torrentRepo, {}, episodeRepo, seasonRepo);
+
+      const ranked = await seasoned.rankTorrentsForEpisode(testAnime, 30);
+
+      expect(ranked.map((r) => r.torrent.id)).toEqual(['4']);
+      expect(await seasoned.rankTorrentsForEpisode(testAnime, 5)).toEqual([]);
+      expect(await service.rankTorrentsForEpisode(testAnime, 5)).toEqual([]);
+      expect(await seasoned.getBestQualityForEpisode(testAnimeId, 30)).toBe(
+        TorrentQuality.SD_480p
+      );
+    });
+
+    it('should apply a quality preference on top of the configured profile', async () => {
+      const configured = new NyaaService(torrentRepo, {
+        scoringProfile: {
+          qualities: [TorrentQuality.FULL_HD_1080p, TorrentQuality.HD_720p],
+          mustNotContain: ['1080p'],
+        },
+      });
+
+      const best = await configured.getBestTorrentForEpisode(testAnime, 1, TorrentQuality.SD_480p);
+
+      expect(best?.metadata.quality).toBe(TorrentQuality.SD_480p);
+      expect(
+        await configured.getBestTorrentForEpisode(testAnime, 1, TorrentQuality.FULL_HD_1080p)
+      ).toHaveProperty('metadata.quality', TorrentQuality.HD_720p);
+    });
+
+    it('should skip release groups below the minimum reputation', async () => {
+      const strict = new NyaaService(torrentRepo, { minGroupReputation: 0.5 });
+      expect(await strict.getBestQualityForEpisode(testAnimeId, 1)).toBeNull();
+
+      strict.setReleaseGroupPreference('Group', 'allow');
+      const sd = (await torrentRepo.findById('1')) as Torrent;
+      await torrentRepo.save({ ...sd, metadata: { ...sd.metadata, releaseGroup: 'group' } });
+      expect(await strict.getBestQualityForEpisode(testAnimeId, 1)).toBe(TorrentQuality.SD_480p);
+    });
+
+    it('should filter searches by release group preferences', async () => {
+      expect(await service.searchTorrents(testAnime, { minGroupReputation: 0.1 })).toEqual([]);
+
+      service.setReleaseGroupPreference('Other', 'allow');
+      expect(await service.searchTorrents(testAnime)).toEqual([]);
+      expect(service.getReleaseGroupPreferences().allow).toEqual(['Other']);
+    });
+
     it('should return null for non-existent episode', async () => {
       const bestQuality = await service.getBestQualityForEpisode(
         testAnimeId,
@@ -333,4 +449,131 @@ describe('NyaaService - New Features', () => {
       expect(retryService).toBeDefined();
     });
   });
+
+  describe('Torrent indexers', () => {
+    class FakeIndexer extends BaseTorrentIndexer {
+      constructor(
+        private id: string,
+        public releases: IndexerRelease[]
+      ) {
+        super();
+      }
+
+      getId(): string {
+        return this.id;
+      }
+
+      search(): Promise<IndexerRelease[]> {
+        return Promise.resolve(this.releases);
+      }
+
+      fetchById(id: string): Promise<IndexerRelease | null> {
+        return Promise.resolve(this.releases.find((release) => release.id === id) ?? null);
+      }
+    }
+
+    const release = (indexer: string, id: string, seeders: number): IndexerRelease => ({
+      indexer,
+      id,
+      title: '[SubsPlease] Sousou no Frieren - 05 (1080p)',
+      category: '1_2',
+      magnetLink: 'magnet:?xt=urn:btih:' + 'a'.repeat(40),
+      infoHash: 'a'.repeat(40),
+      size: '1.4 GiB',
+      sizeBytes: 1503238554,
+      seeders,
+      leechers: 1,
+      downloads: 10,
+      publishedAt: new Date('2023-10-06'),
+    });
+
+    it('should refresh release group statistics after indexing', async () => {
+      const multi = new NyaaService(torrentRepo, {
+        indexers: [new FakeIndexer('nyaa', [release('nyaa', '1001', 50)])],
+      });
+      expect(await multi.getReleaseGroups()).toEqual([]);
+
+      await multi.indexAnime(testAnime);
+
+      expect(await multi.getReleaseGroup('subsplease')).toMatchObject({
+        name: 'SubsPlease',
+        releaseCount: 1,
+        averageSeeders: 50,
+      });
+    });
+
+    it('should merge releases from every indexer by info hash', async () => {
+      const nyaa = new FakeIndexer('nyaa', [release('nyaa', '1001', 50)]);
+      const tosho = new FakeIndexer('animetosho', [release('animetosho', 'a'.repeat(40), 80)]);
+      const multi = new NyaaService(torrentRepo, { indexers: [nyaa, tosho] });
+
+      const [torrent] = await multi.indexAnime(testAnime);
+      expect(torrent).toMatchObject({
+        nyaaId: '1001',
+        seeders: 80,
+        episodeNumber: 5,
+        sources: [
+          { indexer: 'animetosho', id: 'a'.repeat(40) },
+          { indexer: 'nyaa', id: '1001' },
+        ],
+      });
+
+      // Indexing again updates the stored torrent
+      const [again] = await multi.indexEpisode(testAnime, 5);
+      expect(again.id).toBe(torrent.id);
+      expect(await torrentRepo.count()).toBe(1);
+      expect(multi.getIndexers()).toEqual(['nyaa', 'animetosho']);
+    });
+
+    it('should apply maxResults after merging indexers', async () => {
+      const hashed = (indexer: string, hash: string, seeders: number): IndexerRelease => ({
+        ...release(indexer, hash, seeders),
+        magnetLink: 'magnet:?xt=urn:btih:' + hash,
+        infoHash: hash,
+      });
+      const [a, b, c] = ['a', 'b', 'c'].map((char) => char.repeat(40));
+      const nyaa = new FakeIndexer('nyaa', [hashed('nyaa', a, 90), hashed('nyaa', b, 80)]);
+      const tosho = new FakeIndexer('animetosho', [
+        hashed('animetosho', a, 95),
+        hashed('animetosho', b, 85),
+        hashed('animetosho', c, 10),
+      ]);
+      const multi = new NyaaService(torrentRepo, { indexers: [nyaa, tosho], maxResults: 2 });
+
+      const torrents = await multi.indexEpisode(testAnime, 5);
+
+      expect(torrents.map((torrent) => [torrent.infoHash, torrent.seeders])).toEqual([
+        [a, 95],
+        [b, 85],
+      ]);
+      expect(torrents[0].sources).toHaveLength(2);
+    });
+
+    it('should match stored torrents on repositories without findByInfoHash', async () => {
+      (torrentRepo as ITorrentRepository).findByInfoHash = undefined;
+      const tosho = new FakeIndexer('animetosho', [release('animetosho', 'a'.repeat(40), 80)]);
+      const multi = new NyaaService(torrentRepo, { indexers: [tosho] });
+
+      const [torrent] = await multi.indexAnime(testAnime);
+      const [again] = await multi.indexEpisode(testAnime, 5);
+
+      expect(again.id).toBe(torrent.id);
+      expect(await torrentRepo.count()).toBe(1);
+    });
+
+    it('should skip failing indexers and refresh stats through the sources', async () => {
+      const failing = new FakeIndexer('nyaa', []);
+      failing.search = () => Promise.reject(new Error('offline'));
+      const tosho = new FakeIndexer('animetosho', [release('animetosho', 'a'.repeat(40), 80)]);
+      const multi = new NyaaService(torrentRepo, { indexers: [failing, tosho] });
+
+      const [torrent] = await multi.indexAnime(testAnime);
+      tosho.releases = [release('animetosho', 'a'.repeat(40), 200)];
+
+      expect((await multi.refreshTorrent(torrent.id))?.seeders).toBe(200);
+      await expect(
+        new NyaaService(torrentRepo, { indexers: [failing] }).indexAnime(testAnime)
+      ).rejects.toThrow(ProviderError);
+    });
+  });
 });
@@ -0,0 +1,163 @@
+import { AniListProvider, KitsuProvider } from '../src/providers';
+import { JikanProvider } from '../src/providers/JikanProvider';
+import { CharacterRole } from '../src/models/People';
+import { DataSource } from '../src/types/common';
+import { HttpClient } from '../src/utils/httpClient';
+
+describe('Character and staff providers', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should map AniList character and staff connections', async () => {
+    const provider = new AniListProvider();
+    const graphql = jest.spyOn(HttpClient.prototype, 'graphql').mockResolvedValue({
+      Media: {
+        characters: {
+          edges: [
+            {
+              role: 'MAIN',
+              node: { id: 1, name: { full: 'Spike Spiegel', native: 'スパイク・スピーゲル' } },
+              voiceActors: [
+                { id: 95011, name: { full: 'Kouichi Yamadera' }, languageV2: 'Japanese' },
+              ],
+            },
+          ],
+        },
+        staff: {
+          edges: [
+            { role: 'Director', node: { id: 95101, name: { full: 'Shinichirou Watanabe' } } },
+          ],
+        },
+      },
+    });
+
+    const [spike] = await provider.fetchCharacters('1');
+    const [director] = await provider.fetchStaff('1');
+
+    expect(graphql).toHaveBeenCalledWith(expect.stringContaining('characters('), { id: 1 });
+    expect(spike).toMatchObject({
+      name: { full: 'Spike Spiegel', native: 'スパイク・スピーゲル' },
+      role: CharacterRole.MAIN,
+      externalIds: [{ source: DataSource.ANILIST, id: '1' }],
+      voiceActors: [
+        {
+          name: { full: 'Kouichi Yamadera' },
+          language: 'Japanese',
+          externalIds: [{ source: DataSource.ANILIST, id: '95011' }],
+        },
+      ],
+    });
+    expect(director).toMatchObject({
+      name: { full: 'Shinichirou Watanabe' },
+      role: 'Director',
+      externalIds: [{ source: DataSource.ANILIST, id: '95101' }],
+    });
+  });
+
+  it('should map Jikan characters and one staff record per position', async () => {
+    const provider = new JikanProvider();
+    const person = (mal_id: number, name: string): object => ({ mal_id, url: '', name });
+    jest.spyOn(HttpClient.prototype, 'get').mockImplementation((url: string) =>
+      Promise.resolve(
+        url.endsWith('/characters')
+          ? {
+              data: [
+                {
+                  character: person(1, 'Spiegel, Spike'),
+                  role: 'Main',
+                  voice_actors: [{ person: person(11, 'Yamadera, Kouichi'), language: 'Japanese' }],
+                },
+              ],
+            }
+          : {
+              data: [
+                { person: person(2009, 'Watanabe, Shinichiro'), positions: ['Director', 'Script'] },
+              ],
+            }
+      )
+    );
+
+    const [spike] = await provider.fetchCharacters('1');
+    const staff = await provider.fetchStaff('1');
+
+    expect(spike).toMatchObject({
+      name: { full: 'Spike Spiegel' },
+      role: CharacterRole.MAIN,
+      voiceActors: [{ name: { full: 'Kouichi Yamadera' }, language: 'Japanese' }],
+    });
+    expect(staff.map((member) => [member.name.full, member.role])).toEqual([
+      ['Shinichiro Watanabe', 'Director'],
+      ['Shinichiro Watanabe', 'Script'],
+    ]);
+  });
+
+  it('should split Kitsu castings into characters and staff', async () => {
+    const provider = new KitsuProvider();
+    const get = jest.spyOn(HttpClient.prototype, 'get').mockResolvedValue({
+      data: [
+        {
+          id: 'c1',
+          attributes: { voiceActor: true, featured: true, language: 'Japanese' },
+          relationships: {
+            character: { data: { type: 'characters', id: '1' } },
+            person: { data: { type: 'people', id: '10' } },
+          },
+        },
+        {
+          id: 'c2',
+          attributes: { voiceActor: true, featured: true, language: 'English' },
+          relationships: {
+            character: { data: { type: 'characters', id: '1' } },
+            person: { data: { type: 'people', id: '11' } },
+          },
+        },
+        {
+          id: 'c3',
+          attributes: { role: 'Director', voiceActor: false },
+          relationships: {
+            character: { data: null },
+            person: { data: { type: 'people', id: '12' } },
+          },
+        },
+      ],
+      included: [
+        {
+          id: '1',
+          type: 'characters',
+          attributes: { name: 'Spike Spiegel', names: { ja_jp: 'スパイク・スピーゲル' }, malId: 1 },
+        },
+        { id: '10', type: 'people', attributes: { name: 'Kouichi Yamadera' } },
+        { id: '11', type: 'people', attributes: { name: 'Steven Blum' } },
+        { id: '12', type: 'people', attributes: { name: 'Shinichiro Watanabe', malId: 2009 } },
+      ],
+    });
+
+    const characters = await provider.fetchCharacters('1');
+    const staff = await provider.fetchStaff('1');
+
+    expect(get).toHaveBeenCalledWith('/anime/1/castings', {
+      params: { include: 'character,person', 'page[limit]': 20, 'page[offset]': 0 },
+    });
+    expect(characters).toHaveLength(1);
+    expect(characters[0]).toMatchObject({
+      name: { full: 'Spike Spiegel', native: 'スパイク・スピーゲル' },
+      role: CharacterRole.MAIN,
+      externalIds: [
+        { source: DataSource.KITSU, id: '1' },
+        { source: DataSource.MYANIMELIST, id: '1' },
+      ],
+    });
+    expect(characters[0].voiceActors!.map((va) => va.language)).toEqual(['Japanese', 'English']);
+    expect(staff).toMatchObject([
+      {
+        name: { full: 'Shinichiro Watanabe' },
+        role: 'Director',
+        externalIds: [
+          { source: DataSource.KITSU, id: '12' },
+          { source: DataSource.MYANIMELIST, id: '2009' },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import { PeopleUnifier } from '../src/services/PeopleUnifier';
+import { Character, CharacterRole, StaffMember } from '../src/models/People';
+import { DataSource } from '../src/types/common';
+
+function makeCharacter(source: DataSource, id: string, fields: Partial<Character>): Character {
+  return {
+    id: `${source}-${id}`,
+    name: {},
+    externalIds: [{ source, id }],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...fields,
+  };
+}
+
+function makeStaff(source: DataSource, id: string, full: string, role: string): StaffMember {
+  return {
+    id: `${source}-${id}-${role}`,
+    name: { full },
+    role,
+    externalIds: [{ source, id }],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('PeopleUnifier', () => {
+  const unifier = new PeopleUnifier();
+
+  it('should match names across word order, accents and long vowel spellings', () => {
+    const person = (full?: string, native?: string): Parameters<PeopleUnifier['isSame']>[0] => ({
+      name: { full, native },
+      externalIds: [],
+    });
+
+    expect(unifier.isSame(person('Kouichi Yamadera'), person('Yamadera Kōichi'))).toBe(true);
+    expect(unifier.isSame(person('Shinichirou Watanabe'), person('Shinichiro Watanabe'))).toBe(
+      true
+    );
+    expect(unifier.isSame(person(undefined, '山寺 宏一'), person('Koichi', '山寺宏一'))).toBe(true);
+    expect(unifier.isSame(person('Faye Valentine'), person('Spike Spiegel'))).toBe(false);
+  });
+
+  it('should keep records with different IDs from the same source apart', () => {
+    const a = makeCharacter(DataSource.ANILIST, '1', { name: { full: 'Ed' } });
+    const b = makeCharacter(DataSource.ANILIST, '2', { name: { full: 'Ed' } });
+    const linked = makeCharacter(DataSource.KITSU, '9', {
+      name: { full: 'Edward Wong' },
+      externalIds: [
+        { source: DataSource.KITSU, id: '9' },
+        { source: DataSource.ANILIST, id: '2' },
+      ],
+    });
+
+    expect(unifier.unifyCharacters([a, b, linked]).map((c) => c.externalIds.length)).toEqual([
+      1, 2,
+    ]);
+  });
+
+  it('should merge characters with their voice actors, preferring earlier records', () => {
+    const [spike] = unifier.unifyCharacters([
+      makeCharacter(DataSource.ANILIST, '1', {
+        name: { full: 'Spike Spiegel', alternative: ['Swimming Bird'] },
+        voiceActors: [
+          {
+            id: 'anilist-va',
+            name: { full: 'Kouichi Yamadera' },
+            language: 'Japanese',
+            externalIds: [{ source: DataSource.ANILIST, id: '95011' }],
+          },
+        ],
+      }),
+      makeCharacter(DataSource.MYANIMELIST, '1', {
+        name: { full: 'Spike Spiegel', native: 'スパイク・スピーゲル' },
+        role: CharacterRole.MAIN,
+        voiceActors: [
+          {
+            id: 'mal-va',
+            name: { full: 'Kouichi Yamadera' },
+            language: 'Japanese',
+            externalIds: [{ source: DataSource.MYANIMELIST, id: '11' }],
+          },
+          {
+            id: 'mal-va-en',
+            name: { full: 'Steven Blum' },
+            language: 'English',
+            externalIds: [{ source: DataSource.MYANIMELIST, id: '20' }],
+          },
+        ],
+      }),
+    ]);
+
+    expect(spike).toMatchObject({
+      id: 'ANILIST-1',
+      name: {
+        full: 'Spike Spiegel',
+        native: 'スパイク・スピーゲル',
+        alternative: ['Swimming Bird'],
+      },
+      role: CharacterRole.MAIN,
+    });
+    expect(spike.voiceActors!.map((va) => [va.id, va.externalIds.length])).toEqual([
+      ['anilist-va', 2],
+      ['mal-va-en', 1],
+    ]);
+  });
+
+  it('should combine the roles and credits of a person', () => {
+    const [director] = unifier.unifyStaff([
+      {
+        ...makeStaff(DataSource.ANILIST, '1', 'Shinichirou Watanabe', 'Director'),
+        credits: [{ animeId: 'bebop', role: 'Director' }],
+      },
+      {
+        ...makeStaff(DataSource.MYANIMELIST, '2', 'Shinichiro Watanabe', 'Director'),
+        credits: [{ animeId: 'bebop', role: 'Director' }],
+      },
+      {
+        ...makeStaff(DataSource.MYANIMELIST, '2', 'Shinichiro Watanabe', 'Storyboard'),
+        credits: [{ animeId: 'bebop', role: 'Storyboard' }],
+      },
+    ]);
+
+    expect(director.role).toBe('Director, Storyboard');
+    expect(director.credits).toEqual([
+      { animeId: 'bebop', role: 'Director' },
+      { animeId: 'bebop', role: 'Storyboard' },
+    ]);
+    expect(director.externalIds).toHaveLength(2);
+  });
+});
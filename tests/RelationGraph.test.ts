@@ -0,0 +1,121 @@
+import { RelationGraph } from '../src/services/RelationGraph';
+import { InMemoryAnimeRepository } from '../src/repositories/AnimeRepository';
+import { Anime, AnimeRelation, RelationType } from '../src/models/Anime';
+import { AnimeType, DataSource } from '../src/types/common';
+import { makeAnime } from './helpers/fixtures';
+
+/**
+ * Build a stored anime known by MAL and AniList IDs
+ */
+function storedAnime(
+  id: string,
+  start: string | undefined,
+  relations: AnimeRelation[] = [],
+  type: AnimeType = AnimeType.TV
+): Anime {
+  return makeAnime(
+    [
+      { source: DataSource.MYANIMELIST, id: `mal-${id}` },
+      { source: DataSource.ANILIST, id: `al-${id}` },
+    ],
+    {
+      id,
+      title: { romaji: id },
+      type,
+      aired: { start: start ? new Date(start) : undefined },
+      relations,
+    }
+  );
+}
+
+const mal = (id: string, relationType: RelationType): AnimeRelation => ({
+  relationType,
+  externalId: { source: DataSource.MYANIMELIST, id: `mal-${id}` },
+});
+const anilist = (id: string, relationType: RelationType): AnimeRelation => ({
+  relationType,
+  externalId: { source: DataSource.ANILIST, id: `al-${id}` },
+});
+
+describe('RelationGraph', () => {
+  let repository: InMemoryAnimeRepository;
+  let graph: RelationGraph;
+
+  beforeEach(async () => {
+    repository = new InMemoryAnimeRepository();
+    await repository.saveMany([
+      storedAnime('s1', '2013-04-07', [
+        mal('s2', RelationType.SEQUEL),
+        anilist('s2', RelationType.SEQUEL),
+        mal('ova', RelationType.SIDE_STORY),
+        anilist('recap', RelationType.SUMMARY),
+        mal('crossover', RelationType.OTHER),
+      ]),
+      // S2 only knows its sequel, the prequel link comes from S1
+      storedAnime('s2', '2017-04-01', [mal('s3', RelationType.SEQUEL)]),
+      storedAnime('ova', '2013-12-09', [anilist('s1', RelationType.PARENT_STORY)], AnimeType.OVA),
+      storedAnime('recap', '2014-11-22', [], AnimeType.MOVIE),
+      storedAnime('crossover', '2015-01-01'),
+    ]);
+    graph = new RelationGraph(repository);
+  });
+
+  it('should resolve relations once per related anime', async () => {
+    const s1 = (await repository.findById('s1'))!;
+
+    const related = await graph.getRelated(s1);
+
+    expect(related.map((r) => [r.anime.id, r.relationType])).toEqual([
+      ['s2', RelationType.SEQUEL],
+      ['ova', RelationType.SIDE_STORY],
+      ['recap', RelationType.SUMMARY],
+      ['crossover', RelationType.OTHER],
+    ]);
+    expect((await graph.getRelated(s1, [RelationType.SEQUEL])).map((r) => r.anime.id)).toEqual([
+      's2',
+    ]);
+  });
+
+  it('should collect the franchise without OTHER relations and stop at unknown anime', async () => {
+    const s2 = (await repository.findById('s2'))!;
+
+    expect((await graph.getFranchise(s2)).map((a) => a.id)).toEqual(['s2']);
+    expect(
+      (await graph.getFranchise((await repository.findById('ova'))!)).map((a) => a.id)
+    ).toEqual(['ova', 's1', 's2', 'recap']);
+  });
+
+  it('should limit the franchise size', async () => {
+    const s1 = (await repository.findById('s1'))!;
+
+    expect((await graph.getFranchise(s1, { maxEntries: 2 })).map((a) => a.id)).toEqual([
+      's1',
+      's2',
+    ]);
+  });
+
+  it('should order the franchise from the first entry with side stories by air date', async () => {
+    const ova = (await repository.findById('ova'))!;
+
+    const order = await graph.getWatchOrder(ova);
+
+    expect(order.map((a) => a.id)).toEqual(['s1', 'ova', 'recap', 's2']);
+  });
+
+  it('should fetch missing anime when asked to', async () => {
+    const s3 = storedAnime('s3', '2018-07-23', [mal('s2', RelationType.PREQUEL)]);
+    const fetcher = jest.fn((externalId: { id: string }) =>
+      Promise.resolve(externalId.id === 'mal-s3' ? s3 : null)
+    );
+    graph = new RelationGraph(repository, fetcher);
+    const s2 = (await repository.findById('s2'))!;
+
+    expect((await graph.getWatchOrder(s2)).map((a) => a.id)).toEqual(['s2']);
+    expect(fetcher).not.toHaveBeenCalled();
+
+    const order = await graph.getWatchOrder(s2, { fetchMissing: true });
+
+    expect(order.map((a) => a.id)).toEqual(['s2', 's3']);
+    expect(fetcher).toHaveBeenCalledWith({ source: DataSource.MYANIMELIST, id: 'mal-s3' });
+  });
+});
@@ -0,0 +1,124 @@
+import { ReleaseGroupRegistry, PREFERRED_GROUP_SCORE } from '../src/services/ReleaseGroupRegistry';
+import { InMemoryTorrentRepository } from '../src/repositories/TorrentRepository';
+import { Torrent, TorrentCodec, TorrentLanguage } from '../src/models/Torrent';
+import { ValidationError } from '../src/utils/errors';
+import { makeTorrent } from './helpers/fixtures';
+
+describe('ReleaseGroupRegistry', () => {
+  let repository: InMemoryTorrentRepository;
+  let registry: ReleaseGroupRegistry;
+
+  beforeEach(async () => {
+    repository = new InMemoryTorrentRepository();
+    await repository.saveMany([
+      makeTorrent('a', {
+        animeId: 'anime-1',
+        seeders: 100,
+        trusted: true,
+        metadata: { releaseGroup: 'SubsPlease' },
+      }),
+      makeTorrent('b', {
+        animeId: 'anime-2',
+        seeders: 100,
+        trusted: true,
+        publishedAt: new Date('2024-06-01'),
+        metadata: {
+          releaseGroup: 'subsplease',
+          codec: TorrentCodec.H265,
+          subtitleLanguages: [TorrentLanguage.ENGLISH, TorrentLanguage.SPANISH],
+        },
+      }),
+      makeTorrent('c', { animeId: 'anime-1', seeders: 9, metadata: { releaseGroup: 'NoName' } }),
+      makeTorrent('d', { animeId: 'anime-1' }),
+    ]);
+    registry = new ReleaseGroupRegistry(repository);
+  });
+
+  it('should build group statistics from indexed torrents', async () => {
+    const groups = await registry.getGroups();
+
+    expect(groups.map((group) => group.name)).toEqual(['SubsPlease', 'NoName']);
+    expect(groups[0]).toMatchObject({
+      releaseCount: 2,
+      animeCount: 2,
+      averageSeeders: 100,
+      trustedRatio: 1,
+      codecs: [TorrentCodec.H264, TorrentCodec.H265],
+      subtitleLanguages: [TorrentLanguage.ENGLISH, TorrentLanguage.SPANISH],
+      lastActive: new Date('2024-06-01'),
+      reputation: 0.85,
+    });
+    expect(groups[1].reputation).toBe(0.23);
+  });
+
+  it('should find groups ignoring case', async () => {
+    expect((await registry.getGroup('SUBSPLEASE'))?.releaseCount).toBe(2);
+    expect(await registry.getGroup('Unknown')).toBeNull();
+  });
+
+  it('should manage preferences', async () => {
+    registry = new ReleaseGroupRegistry(repository, { deny: ['NoName'] });
+    registry.setPreference('SubsPlease', 'prefer');
+
+    expect(registry.getPreferences()).toEqual({
+      allow: [],
+      deny: ['NoName'],
+      prefer: ['SubsPlease'],
+    });
+    expect((await registry.getGroup('subsplease'))?.preference).toBe('prefer');
+
+    registry.setPreference('noname', null);
+    expect(registry.getPreference('NoName')).toBeUndefined();
+    expect(() => registry.setPreference(' ', 'allow')).toThrow(ValidationError);
+  });
+
+  it('should filter torrents by preferences and reputation', async () => {
+    const torrents = await repository.findAll();
+    const ids = (filtered: Torrent[]) => filtered.map((torrent) => torrent.id);
+
+    expect(ids(await registry.filterTorrents(torrents, 0.5))).toEqual(['a', 'b']);
+
+    registry.setPreference('NoName', 'prefer');
+    expect(ids(await registry.filterTorrents(torrents, 0.5))).toEqual(['a', 'b', 'c']);
+
+    registry.setPreference('SubsPlease', 'deny');
+    expect(ids(await registry.filterTorrents(torrents))).toEqual(['c', 'd']);
+
+    registry.setPreference('Other', 'allow');
+    expect(ids(await registry.filterTorrents(torrents))).toEqual(['c']);
+  });
+
+  it('should cache group statistics until invalidated', async () => {
+    const findAll = jest.spyOn(repository, 'findAll');
+
+    await registry.getGroups();
+    await registry.getGroup('subsplease');
+    await registry.filterTorrents([], 0.5);
+    expect(findAll).toHaveBeenCalledTimes(1);
+
+    registry.setPreference('SubsPlease', 'prefer');
+    expect((await registry.getGroup('SubsPlease'))?.preference).toBe('prefer');
+
+    await repository.save(
+      makeTorrent('e', { animeId: 'anime-1', metadata: { releaseGroup: 'Erai-raws' } })
+    );
+    expect(await registry.getGroup('Erai-raws')).toBeNull();
+
+    registry.invalidate();
+    expect((await registry.getGroup('Erai-raws'))?.releaseCount).toBe(1);
+    expect(findAll).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reward preferred groups in scoring profiles', () => {
+    expect(registry.applyToProfile({})).toEqual({});
+
+    registry.setPreference('SubsPlease', 'prefer');
+    expect(registry.applyToProfile({}).rules).toEqual([
+      {
+        name: 'Preferred release group',
+        score: PREFERRED_GROUP_SCORE,
+        releaseGroups: ['SubsPlease'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import { SeasonDetector } from '../src/services/SeasonDetector';
+import { Anime } from '../src/models/Anime';
+import { AnimeSeason, Episode, EpisodeType, SeasonDetection } from '../src/models/Episode';
+import { AnimeType, AnimeStatus, DataSource } from '../src/types/common';
+import { isValidEpisode } from '../src/utils/validation';
+
+/**
+ * Build weekly episodes; `breaks` maps an episode number to extra days before it airs
+ */
+function makeEpisodes(count: number, breaks: Record<number, number> = {}): Episode[] {
+  const episodes: Episode[] = [];
+  let day = 0;
+
+  for (let number = 1; number <= count; number++) {
+    day += (number > 1 ? 7 : 0) + (breaks[number] ?? 0);
+    episodes.push({
+      id: `ep-${number}`,
+      animeId: 'anime',
+      number,
+      aired: new Date(Date.UTC(2013, 3, 7 + day)),
+      externalIds: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  return episodes;
+}
+
+function makePrequel(id: string, type: AnimeType, episodes?: number): Anime {
+  return {
+    id,
+    title: { romaji: id },
+    type,
+    status: AnimeStatus.FINISHED,
+    episodes,
+    images: {},
+    aired: {},
+    ratings: [],
+    genres: [],
+    themes: [],
+    studios: [],
+    producers: [],
+    licensors: [],
+    externalIds: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSyncedAt: new Date(),
+  };
+}
+
+describe('SeasonDetector', () => {
+  const detector = new SeasonDetector();
+
+  it('should keep a long-running show without breaks in one season', () => {
+    const { seasons, episodes } = detector.detect({ animeId: 'anime', episodes: makeEpisodes(50) });
+
+    expect(seasons).toHaveLength(1);
+    expect(seasons[0]).toMatchObject({
+      seasonNumber: 1,
+      episodeCount: 50,
+      episodeOffset: 0,
+      detection: SeasonDetection.SINGLE,
+    });
+    expect(episodes[49]).toMatchObject({ seasonNumber: 1, seasonEpisodeNumber: 50 });
+    expect(episodes[49].absoluteNumber).toBe(50);
+  });
+
+  it('should split a split-cour show on the broadcast break only', () => {
+    // Two-week holiday break before episode 7, three-month break before episode 13,
+    // and a finale delayed by two months
+    const { seasons, episodes } = detector.detect({
+      animeId: 'anime',
+      episodes: makeEpisodes(25, { 7: 14, 13: 90, 25: 60 }),
+    });
+
+    expect(seasons.map((s) => [s.seasonNumber, s.episodeCount, s.episodeOffset])).toEqual([
+      [1, 12, 0],
+      [2, 13, 12],
+    ]);
+    expect(seasons[1].detection).toBe(SeasonDetection.AIR_DATES);
+    expect(seasons[1].aired!.start).toEqual(episodes[12].aired);
+    expect(episodes[12]).toMatchObject({ number: 13, seasonNumber: 2, seasonEpisodeNumber: 1 });
+    expect(episodes.every(isValidEpisode)).toBe(true);
+  });
+
+  it('should continue the numbering of TV prequels', () => {
+    const { seasons, episodes } = detector.detect({
+      animeId: 'anime',
+      episodes: makeEpisodes(12),
+      prequels: [
+        makePrequel('s1', AnimeType.TV, 25),
+        makePrequel('movie', AnimeType.MOVIE, 1),
+        makePrequel('s2', AnimeType.TV, 12),
+      ],
+    });
+
+    expect(seasons[0]).toMatchObject({
+      seasonNumber: 3,
+      episodeOffset: 0,
+      absoluteEpisodeOffset: 37,
+    });
+    expect(episodes[0]).toMatchObject({ number: 1, seasonEpisodeNumber: 1, absoluteNumber: 38 });
+  });
+
+  it('should not guess absolute numbers when a prequel episode count is unknown', () => {
+    const { seasons, episodes } = detector.detect({
+      animeId: 'anime',
+      episodes: makeEpisodes(12),
+      prequels: [makePrequel('s1', AnimeType.TV)],
+    });
+
+    expect(seasons[0].seasonNumber).toBe(2);
+    expect(seasons[0].absoluteEpisodeOffset).toBeUndefined();
+    expect(episodes[0].absoluteNumber).toBeUndefined();
+  });
+
+  it('should use season numbers reported on episodes and leave specials alone', () => {
+    const special: Episode = {
+      ...makeEpisodes(1)[0],
+      id: 'special',
+      type: EpisodeType.SPECIAL,
+      seasonNumber: 0,
+      seasonEpisodeNumber: 1,
+    };
+    const regular = makeEpisodes(4).map((episode) => ({
+      ...episode,
+      seasonNumber: episode.number <= 2 ? 1 : 2,
+      seasonEpisodeNumber: ((episode.number - 1) % 2) + 1,
+    }));
+    const providerSeasons: AnimeSeason[] = [
+      {
+        id: 'tmdb-season-2',
+        animeId: 'anime',
+        seasonNumber: 2,
+        title: 'Season 2: Part 1',
+        externalIds: [{ source: DataSource.TMDB, id: '3628' }],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    ];
+
+    const { seasons, episodes } = detector.detect({
+      animeId: 'anime',
+      episodes: [special, ...regular],
+      providerSeasons,
+    });
+
+    expect(seasons.map((s) => [s.seasonNumber, s.title, s.episodeOffset, s.detection])).toEqual([
+      [1, 'Season 1', 0, SeasonDetection.PROVIDER],
+      [2, 'Season 2: Part 1', 2, SeasonDetection.PROVIDER],
+    ]);
+    expect(seasons[1].externalIds).toEqual([{ source: DataSource.TMDB, id: '3628' }]);
+    expect(episodes[0]).toBe(special);
+  });
+
+  it('should size seasons from provider seasons matching the episode count', () => {
+    const providerSeasons = [10, 3].map((episodeCount, index) => ({
+      id: `season-${index + 1}`,
+      animeId: 'anime',
+      seasonNumber: index + 1,
+      episodeCount,
+      externalIds: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }));
+
+    const { seasons } = detector.detect({
+      animeId: 'anime',
+      episodes: makeEpisodes(13),
+      providerSeasons,
+    });
+
+    expect(seasons.map((s) => [s.seasonNumber, s.episodeCount, s.episodeOffset])).toEqual([
+      [1, 10, 0],
+      [2, 3, 10],
+    ]);
+    expect(
+      detector.detect({ animeId: 'anime', episodes: makeEpisodes(12), providerSeasons }).seasons
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { StudioUnifier } from '../src/services/StudioUnifier';
+import { Studio, StudioRole } from '../src/models/People';
+import { DataSource } from '../src/types/common';
+
+function makeStudio(name: string, externalIds: Studio['externalIds'] = []): Studio {
+  return {
+    id: name,
+    name,
+    externalIds,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('StudioUnifier', () => {
+  const unifier = new StudioUnifier();
+
+  it('should match names ignoring case, punctuation and corporate suffixes', () => {
+    expect(unifier.isSame(makeStudio('Sunrise'), makeStudio('SUNRISE Inc.'))).toBe(true);
+    expect(unifier.isSame(makeStudio('Studio 4°C'), makeStudio('Studio 4C'))).toBe(true);
+    expect(
+      unifier.isSame(makeStudio('Toei Animation Co., Ltd.'), makeStudio('Toei Animation'))
+    ).toBe(true);
+    expect(unifier.isSame(makeStudio('Studio Pierrot'), makeStudio('Pierrot'))).toBe(false);
+  });
+
+  it('should prefer external IDs over names', () => {
+    const anilist = (id: string, name: string): Studio =>
+      makeStudio(name, [{ source: DataSource.ANILIST, id }]);
+
+    expect(unifier.isSame(anilist('1', 'Gainax'), anilist('1', 'GAINAX Co.'))).toBe(true);
+    // Same name, different studios at the same source
+    expect(unifier.isSame(anilist('1', 'Studio A'), anilist('2', 'Studio A'))).toBe(false);
+  });
+
+  it('should merge names, credits and external IDs', () => {
+    const [studio] = unifier.unify([
+      {
+        ...makeStudio('Sunrise', [{ source: DataSource.ANILIST, id: '14' }]),
+        credits: [{ animeId: 'bebop', role: StudioRole.STUDIO }],
+      },
+      {
+        ...makeStudio('SUNRISE Inc.', [{ source: DataSource.MYANIMELIST, id: '14' }]),
+        isAnimationStudio: true,
+        credits: [
+          { animeId: 'bebop', role: StudioRole.STUDIO },
+          { animeId: 'gundam', role: StudioRole.STUDIO },
+        ],
+      },
+    ]);
+
+    expect(studio).toMatchObject({
+      name: 'Sunrise',
+      alternativeNames: ['SUNRISE Inc.'],
+      isAnimationStudio: true,
+      credits: [
+        { animeId: 'bebop', role: StudioRole.STUDIO },
+        { animeId: 'gundam', role: StudioRole.STUDIO },
+      ],
+    });
+    expect(studio.externalIds).toHaveLength(2);
+    expect(unifier.lookupNames(studio)).toEqual(['Sunrise', 'SUNRISE Inc.']);
+  });
+});
@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import { TMDBProvider } from '../src/providers/TMDBProvider';
+import { HttpClient } from '../src/utils/httpClient';
+import { EpisodeType } from '../src/models/Episode';
+import { AnimeType, AnimeStatus, DataSource, Season } from '../src/types/common';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'tmdb');
+
+/**
+ * Read the recorded TMDB response of a request path
+ */
+function readFixture(url: string): unknown {
+  const name = url
+    .slice(1)
+    .replace(/\/season\//, '-season-')
+    .replace(/\//g, '-');
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf8'));
+}
+
+describe('TMDBProvider', () => {
+  let provider: TMDBProvider;
+  let get: jest.SpyInstance;
+
+  beforeEach(() => {
+    provider = new TMDBProvider('test-api-key');
+    get = jest
+      .spyOn(HttpClient.prototype, 'get')
+      .mockImplementation((url: string) => Promise.resolve(readFixture(url)));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send v3 API keys as a query parameter', async () => {
+    await provider.fetchAnimeById('tv/1429');
+
+    expect(get).toHaveBeenCalledWith('/tv/1429', {
+      params: {
+        append_to_response: 'external_ids,alternative_titles',
+        language: 'en-US',
+        api_key: 'test-api-key',
+      },
+    });
+  });
+
+  it('should send Read Access Tokens as a Bearer header', async () => {
+    get.mockRestore();
+    const sent: InternalAxiosRequestConfig[] = [];
+    const defaultAdapter = axios.defaults.adapter;
+    axios.defaults.adapter = (config: InternalAxiosRequestConfig) => {
+      sent.push(config);
+      return Promise.resolve({
+        data: readFixture(config.url!),
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      });
+    };
+
+    try {
+      await new TMDBProvider('header.payload.signature').fetchAnimeById('tv/1429');
+    } finally {
+      axios.defaults.adapter = defaultAdapter;
+    }
+
+    expect(sent[0].headers.Authorization).toBe('Bearer header.payload.signature');
+    expect(sent[0].params).not.toHaveProperty('api_key');
+  });
+
+  it('should map TV shows', async () => {
+    const anime = await provider.fetchAnimeById('1429');
+
+    expect(anime).toMatchObject({
+      title: {
+        romaji: 'Shingeki no Kyojin',
+        english: 'Attack on Titan',
+        native: '進撃の巨人',
+        synonyms: ['AoT'],
+      },
+      type: AnimeType.TV,
+      status: AnimeStatus.FINISHED,
+      episodes: 4,
+      duration: 24,
+      season: Season.SPRING,
+      year: 2013,
+      images: { original: 'https://image.tmdb.org/t/p/original/hTP1DtLGFamjfu8WqjnuQdP1n4i.jpg' },
+      ratings: [{ source: DataSource.TMDB, score: 8.66, votes: 6853 }],
+      genres: ['Sci-Fi', 'Fantasy', 'Action', 'Adventure'],
+      studios: ['Wit Studio'],
+      externalIds: [
+        { source: DataSource.TMDB, id: 'tv/1429' },
+        { source: 'TVDB', id: '267440' },
+        { source: 'IMDB', id: 'tt2560140' },
+      ],
+    });
+  });
+
+  it('should map movies', async () => {
+    const anime = await provider.fetchAnimeById('movie/372058');
+
+    expect(anime).toMatchObject({
+      title: { romaji: 'Kimi no Na wa.', english: 'Your Name.', native: '君の名は。' },
+      type: AnimeType.MOVIE,
+      status: AnimeStatus.FINISHED,
+      episodes: 1,
+      duration: 106,
+      aired: { start: new Date('2016-08-26'), end: new Date('2016-08-26') },
+      genres: ['Romance', 'Drama'],
+      studios: ['CoMix Wave Films'],
+    });
+    expect(await provider.fetchEpisodes('your-name', 'movie/372058')).toMatchObject([
+      { id: 'your-name-ep-1', number: 1, title: 'Your Name.', duration: 106 },
+    ]);
+  });
+
+  it('should search animated TV shows and movies only', async () => {
+    const results = await provider.searchAnime('titan');
+
+    expect(results.map((a) => a.externalIds[0].id)).toEqual(['tv/1429', 'movie/299534']);
+    expect(results.map((a) => a.type)).toEqual([AnimeType.TV, AnimeType.MOVIE]);
+  });
+
+  it('should number episodes across seasons and keep season-relative numbers', async () => {
+    const episodes = await provider.fetchEpisodes('aot', 'tv/1429');
+
+    expect(
+      episodes.map((e) => [e.id, e.type, e.number, e.seasonNumber, e.seasonEpisodeNumber])
+    ).toEqual([
+      ['aot-ep-S1', EpisodeType.SPECIAL, 1, 0, 1],
+      ['aot-ep-1', EpisodeType.REGULAR, 1, 1, 1],
+      ['aot-ep-2', EpisodeType.REGULAR, 2, 1, 2],
+      ['aot-ep-3', EpisodeType.REGULAR, 3, 2, 1],
+      ['aot-ep-4', EpisodeType.REGULAR, 4, 2, 2],
+    ]);
+    expect(episodes[1]).toMatchObject({
+      title: 'To You, in 2000 Years',
+      aired: new Date('2013-04-07'),
+      images: { small: 'https://image.tmdb.org/t/p/w185/aCw8ONfyz3AhngVQa1E2Ss4KSUQ.jpg' },
+      externalIds: [{ source: DataSource.TMDB, id: '63056' }],
+    });
+    expect(episodes[2].synopsis).toBeUndefined();
+  });
+
+  it('should map seasons with their episodes and fetch each season once', async () => {
+    const seasons = await provider.fetchSeasons('aot', 'tv/1429');
+
+    expect(seasons).toMatchObject([
+      {
+        seasonNumber: 1,
+        title: 'Season 1',
+        episodeCount: 2,
+        aired: { start: new Date('2013-04-07'), end: new Date('2013-04-14') },
+        externalIds: [{ source: DataSource.TMDB, id: '3627' }],
+      },
+      { seasonNumber: 2, title: 'Season 2', episodeCount: 2 },
+    ]);
+    expect(seasons[1].episodes!.map((e) => e.number)).toEqual([3, 4]);
+    expect(get).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TorznabIndexer } from '../src/indexers/TorznabIndexer';
+import { extractInfoHash } from '../src/indexers/TorrentIndexer';
+import { ProviderError } from '../src/utils/errors';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'torznab');
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+describe('TorznabIndexer', () => {
+  it('should map items with info hashes to releases, best seeded first', async () => {
+    const requests: Array<Record<string, string>> = [];
+    const indexer = new TorznabIndexer({
+      id: 'animetosho',
+      url: 'https://feed.animetosho.org/api',
+      apiKey: 'key',
+      fetchXml: (params) => {
+        requests.push(params);
+        return Promise.resolve(readFixture('search.xml'));
+      },
+    });
+
+    const releases = await indexer.search('frieren 05', { limit: 10 });
+
+    expect(requests).toEqual([
+      { t: 'search', q: 'frieren 05', cat: '5070', apikey: 'key', limit: '10' },
+    ]);
+    expect(releases.map((release) => release.infoHash)).toEqual(['a'.repeat(40), 'b'.repeat(40)]);
+    expect(releases[0]).toMatchObject({
+      indexer: 'animetosho',
+      id: 'a'.repeat(40),
+      title: '[SubsPlease] Sousou no Frieren - 05 (1080p) [A1B2C3D4].mkv',
+      category: '5070',
+      magnetLink: `magnet:?xt=urn:btih:${'a'.repeat(40)}&dn=Frieren`,
+      sizeBytes: 1449551462,
+      size: '1.35 GB',
+      seeders: 120,
+      leechers: 10,
+      downloads: 5400,
+      publishedAt: new Date('2023-10-06T16:05:00Z'),
+    });
+    expect(releases[1]).toMatchObject({
+      magnetLink: expect.stringMatching(/^magnet:\?xt=urn:btih:b{40}&dn=/),
+      torrentLink: 'https://animetosho.org/storage/torrent/bbbb/frieren-05-720p.torrent',
+      leechers: 5,
+    });
+  });
+
+  it('should fetch releases and stats by info hash', async () => {
+    const indexer = new TorznabIndexer({
+      id: 'animetosho',
+      url: 'https://feed.animetosho.org/api',
+      fetchXml: () => Promise.resolve(readFixture('search.xml')),
+    });
+
+    expect((await indexer.fetchById('b'.repeat(40)))?.seeders).toBe(40);
+    expect(await indexer.refreshStats('a'.repeat(40))).toEqual({
+      seeders: 120,
+      leechers: 10,
+      downloads: 5400,
+    });
+    expect(await indexer.fetchById('c'.repeat(40))).toBeNull();
+  });
+
+  it('should decode base32 info hashes in magnet links', async () => {
+    const indexer = new TorznabIndexer({
+      id: 'animetosho',
+      url: 'https://feed.animetosho.org/api',
+      fetchXml: () =>
+        Promise.resolve(`<rss xmlns:torznab="http://torznab.com/schemas/2015/feed"><channel><item>
+          <title>[Group] Title - 01 (1080p)</title>
+          <torznab:attr name="magneturl" value="magnet:?xt=urn:btih:YEX6DQDLXISUVHOJ6UM3GNNKPQJWPKEK&amp;dn=Title" />
+        </item></channel></rss>`),
+    });
+
+    const [release] = await indexer.search('title');
+
+    expect(release.infoHash).toBe('c12fe1c06bba254a9dc9f519b335aa7c1367a88a');
+    expect(release.id).toBe(release.infoHash);
+  });
+
+  it('should extract hex and base32 info hashes', () => {
+    const hex = 'c12fe1c06bba254a9dc9f519b335aa7c1367a88a';
+
+    expect(extractInfoHash(`magnet:?xt=urn:btih:${hex.toUpperCase()}&dn=x`)).toBe(hex);
+    expect(extractInfoHash('magnet:?xt=urn:btih:yex6dqdlxisuvhoj6um3gnnkpqjwpkek')).toBe(hex);
+    expect(extractInfoHash('magnet:?xt=urn:btih:YEX6DQDLXISUVHOJ6UM3GNNKPQJWPKE')).toBe('');
+    expect(extractInfoHash(`magnet:?xt=urn:btih:${hex}0`)).toBe('');
+    expect(extractInfoHash('https://nyaa.si/download/1.torrent')).toBe('');
+  });
+
+  it('should report Torznab errors', async () => {
+    const indexer = new TorznabIndexer({
+      id: 'jackett',
+      url: 'http://localhost:9117/api',
+      fetchXml: () =>
+        Promise.resolve('<error code="100" description="Incorrect user credentials" />'),
+    });
+
+    await expect(indexer.search('frieren')).rejects.toThrow(ProviderError);
+    await expect(indexer.search('frieren')).rejects.toThrow('Incorrect user credentials');
+  });
+});
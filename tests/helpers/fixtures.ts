@@ -0,0 +1,103 @@
+import { Anime } from '../../src/models/Anime';
+import {
+  Torrent,
+  TorrentCodec,
+  TorrentLanguage,
+  TorrentMetadata,
+  TorrentQuality,
+  TorrentReleaseType,
+} from '../../src/models/Torrent';
+import { IAnimeProvider } from '../../src/providers/BaseProvider';
+import { AnimeType, AnimeStatus, ExternalId } from '../../src/types/common';
+
+/**
+ * Build an anime record known by the given external IDs, or by a plain ID
+ * External IDs make the ID (e.g. 'MYANIMELIST-1'); a plain ID doubles as the romaji title
+ * unless a title is given
+ */
+export function makeAnime(externalIds: ExternalId[], overrides?: Partial<Anime>): Anime;
+export function makeAnime(id: string, overrides?: Partial<Anime>): Anime;
+export function makeAnime(id: string, romaji: string, overrides?: Partial<Anime>): Anime;
+export function makeAnime(
+  idOrExternalIds: string | ExternalId[],
+  romajiOrOverrides: string | Partial<Anime> = {},
+  overrides: Partial<Anime> = {}
+): Anime {
+  if (typeof idOrExternalIds === 'string') {
+    const romaji = typeof romajiOrOverrides === 'string' ? romajiOrOverrides : idOrExternalIds;
+    return makeAnime([], {
+      id: idOrExternalIds,
+      title: { romaji },
+      ...(typeof romajiOrOverrides === 'string' ? overrides : romajiOrOverrides),
+    });
+  }
+
+  return {
+    id: idOrExternalIds.map((e) => `${e.source}-${e.id}`).join('_'),
+    title: {},
+    type: AnimeType.TV,
+    status: AnimeStatus.FINISHED,
+    images: {},
+    aired: {},
+    ratings: [],
+    genres: [],
+    themes: [],
+    studios: [],
+    producers: [],
+    licensors: [],
+    externalIds: idOrExternalIds,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSyncedAt: new Date(),
+    ...(romajiOrOverrides as Partial<Anime>),
+  };
+}
+
+/**
+ * Build a 1080p episode torrent; metadata overrides are merged into the default metadata
+ */
+export function makeTorrent(
+  id: string,
+  overrides: Partial<Omit<Torrent, 'metadata'>> & { metadata?: Partial<TorrentMetadata> } = {}
+): Torrent {
+  const { metadata, ...fields } = overrides;
+  return {
+    id,
+    nyaaId: id,
+    title: `[Group] Anime - ${id} [1080p]`,
+    category: 'Anime - English-translated',
+    magnetLink: `magnet:?xt=urn:btih:${id}`,
+    infoHash: `hash-${id}`,
+    size: '1.2 GB',
+    sizeBytes: 1288490188,
+    seeders: 10,
+    leechers: 1,
+    downloads: 100,
+    publishedAt: new Date('2024-01-01T00:00:00.000Z'),
+    metadata: {
+      quality: TorrentQuality.FULL_HD_1080p,
+      codec: TorrentCodec.H264,
+      audioLanguages: [TorrentLanguage.JAPANESE],
+      subtitleLanguages: [TorrentLanguage.ENGLISH],
+      releaseType: TorrentReleaseType.EPISODE,
+      ...metadata,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...fields,
+  };
+}
+
+/**
+ * Provider stub for the source of the first external ID that always returns the same record
+ */
+export function makeProvider(anime: Anime): IAnimeProvider {
+  const source = anime.externalIds[0].source;
+  return {
+    getSource: () => source,
+    fetchAnimeById: () => Promise.resolve(anime),
+    searchAnime: () => Promise.resolve([anime]),
+    getSeasonalAnime: () => Promise.resolve([anime]),
+    isAvailable: () => Promise.resolve(true),
+  };
+}
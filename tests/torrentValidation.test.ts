@@ -10,6 +10,9 @@ import {
   TorrentLanguage,
   TorrentCodec,
   TorrentReleaseType,
+  ReleaseSource,
+  HdrFormat,
+  AudioCodec,
 } from '../src/models/Torrent';
 
 describe('Torrent Validation', () => {
@@ -124,6 +127,25 @@ describe('Torrent Validation', () => {
       const invalid = { ...validTorrent, seeders: -1 };
       expect(() => validateTorrent(invalid)).toThrow();
     });
+
+    it('should validate source, bit depth, HDR, audio codecs and version', () => {
+      const metadata = {
+        ...validTorrent.metadata,
+        source: ReleaseSource.BLURAY,
+        bitDepth: 10,
+        hdrFormats: [HdrFormat.DOLBY_VISION],
+        audioCodecs: [AudioCodec.FLAC],
+        version: 2,
+      };
+
+      expect(() => validateTorrent({ ...validTorrent, metadata })).not.toThrow();
+      expect(() =>
+        validateTorrent({ ...validTorrent, metadata: { ...metadata, source: 'VHS' } })
+      ).toThrow();
+      expect(() =>
+        validateTorrent({ ...validTorrent, metadata: { ...metadata, version: 0 } })
+      ).toThrow();
+    });
   });
 
   describe('isValidTorrent', () => {